@@ -12,9 +12,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useAuthStore } from '../../src/store/auth';
 import { useTherapists, useAppointments, useUnreadNotificationCount } from '@/hooks';
+import { useAssignmentReminders } from '@/hooks/useAssignments';
+import { useMatchingAnswers } from '@/hooks/useTherapistMatching';
+import { useCareTeam } from '@/hooks/useFavorites';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
+import { getCareTeamStatus, sortCareTeam } from '@/services/favorites';
 import { Avatar, Rating, Card, Badge } from '@/components/ui';
-import { formatDateTime, formatCurrencyFromCents } from '@/utils/formatting';
-import type { Therapist, Appointment } from '@/types';
+import { formatDateTime } from '@/utils/formatting';
+import type { Therapist, Appointment, FavoriteTherapist } from '@/types';
 
 const categoryConfig = [
   { id: '1', nameKey: 'therapists.specializations.anxiety', icon: 'sad-outline' },
@@ -30,17 +35,23 @@ export default function HomeScreen() {
   const { t } = useTranslation();
   const { user } = useAuthStore();
   const isTherapist = user?.role === 'THERAPIST';
+  const { formatPrice } = useDisplayCurrency();
 
   const { data: therapistsData, isLoading: therapistsLoading, refetch: refetchTherapists } = useTherapists({ limit: 5, isOnline: true });
   const { data: appointments, isLoading: appointmentsLoading, refetch: refetchAppointments } = useAppointments({ status: 'upcoming' });
   const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  useAssignmentReminders(!isTherapist);
+  const { data: matchingAnswers } = useMatchingAnswers();
+  const { data: careTeamData, refetch: refetchCareTeam } = useCareTeam(!isTherapist);
 
   const featuredTherapists = therapistsData?.pages[0]?.data || [];
   const upcomingAppointments = appointments?.slice(0, 3) || [];
+  const careTeam = sortCareTeam(careTeamData ?? []);
 
   const handleRefresh = () => {
     refetchTherapists();
     refetchAppointments();
+    refetchCareTeam();
   };
 
   const renderTherapistCard = (therapist: Therapist) => (
@@ -64,11 +75,61 @@ export default function HomeScreen() {
         <Text style={styles.ratingText}>{therapist.averageRating.toFixed(1)}</Text>
       </View>
       <Text style={styles.therapistPrice}>
-        {formatCurrencyFromCents(therapist.hourlyRate)}/hr
+        {formatPrice(therapist.hourlyRate, therapist.currency)}/hr
       </Text>
     </TouchableOpacity>
   );
 
+  const renderCareTeamMember = (member: FavoriteTherapist) => {
+    const { therapist } = member;
+    const status = getCareTeamStatus(member);
+
+    return (
+      <Card
+        key={member.therapistId}
+        variant="outlined"
+        style={styles.appointmentCard}
+        onPress={() => router.push(`/therapist/${therapist.id}`)}
+      >
+        <View style={styles.appointmentRow}>
+          <Avatar
+            source={therapist.user.avatarUrl}
+            name={`${therapist.user.firstName} ${therapist.user.lastName}`}
+            size="sm"
+            showOnlineStatus
+            isOnline={therapist.isOnline}
+          />
+          <View style={styles.appointmentInfo}>
+            <Text style={styles.appointmentTherapist}>
+              {therapist.user.firstName} {therapist.user.lastName}
+            </Text>
+            <Text style={[styles.appointmentTime, status.kind === 'online' && styles.careTeamOnline]}>
+              {status.kind === 'online'
+                ? t('careTeam.onlineNow')
+                : status.kind === 'next'
+                  ? t('careTeam.nextAvailable', { time: formatDateTime(status.at) })
+                  : t('careTeam.noOpenings')}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.careTeamAction}
+            onPress={() => router.push(`/book/${therapist.id}`)}
+          >
+            <Ionicons name="calendar-outline" size={18} color="#4F46E5" />
+          </TouchableOpacity>
+          {therapist.isOnline && (
+            <TouchableOpacity
+              style={[styles.careTeamAction, styles.careTeamCall]}
+              onPress={() => router.push(`/instant-call/${therapist.id}`)}
+            >
+              <Ionicons name="videocam" size={18} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </Card>
+    );
+  };
+
   const renderAppointmentCard = (appointment: Appointment) => (
     <Card
       key={appointment.id}
@@ -159,6 +220,22 @@ export default function HomeScreen() {
         </ScrollView>
       </View>
 
+      {!appointmentsLoading && upcomingAppointments.length === 0 && (
+        <TouchableOpacity
+          style={styles.matchCard}
+          onPress={() => router.push((matchingAnswers ? '/matching/results' : '/matching') as any)}
+        >
+          <Ionicons name="sparkles-outline" size={24} color="#4F46E5" />
+          <View style={styles.matchContent}>
+            <Text style={styles.matchTitle}>
+              {matchingAnswers ? t('matching.homeTitleDone') : t('matching.homeTitle')}
+            </Text>
+            <Text style={styles.matchSubtitle}>{t('matching.homeSubtitle')}</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#4F46E5" />
+        </TouchableOpacity>
+      )}
+
       <TouchableOpacity
         style={styles.talkNowCard}
         onPress={() => router.push('/instant-call')}
@@ -175,6 +252,24 @@ export default function HomeScreen() {
         </View>
       </TouchableOpacity>
 
+      <TouchableOpacity style={styles.crisisCard} onPress={() => router.push('/crisis' as any)}>
+        <Ionicons name="help-buoy" size={24} color="#EF4444" />
+        <View style={styles.crisisContent}>
+          <Text style={styles.crisisTitle}>{t('crisis.homeTitle')}</Text>
+          <Text style={styles.crisisSubtitle}>{t('crisis.homeSubtitle')}</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#EF4444" />
+      </TouchableOpacity>
+
+      {careTeam.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('careTeam.title')}</Text>
+          <View style={styles.appointmentsList}>
+            {careTeam.map(renderCareTeamMember)}
+          </View>
+        </View>
+      )}
+
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>{t('common.online')}</Text>
@@ -389,6 +484,54 @@ const styles = StyleSheet.create({
     padding: 20,
     borderRadius: 16,
   },
+  matchCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 24,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#EEF2FF',
+  },
+  matchContent: {
+    flex: 1,
+  },
+  matchTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#312E81',
+  },
+  matchSubtitle: {
+    fontSize: 13,
+    color: '#4338CA',
+    marginTop: 2,
+  },
+  crisisCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 24,
+    marginBottom: 24,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: '#FEF2F2',
+    borderWidth: 1,
+    borderColor: '#FECACA',
+  },
+  crisisContent: {
+    flex: 1,
+  },
+  crisisTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#991B1B',
+  },
+  crisisSubtitle: {
+    fontSize: 13,
+    color: '#B91C1C',
+    marginTop: 2,
+  },
   talkNowContent: {
     marginBottom: 16,
   },
@@ -522,6 +665,21 @@ const styles = StyleSheet.create({
     color: '#4F46E5',
     marginTop: 4,
   },
+  careTeamOnline: {
+    color: '#10B981',
+    fontWeight: '500',
+  },
+  careTeamAction: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#EEF2FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  careTeamCall: {
+    backgroundColor: '#10B981',
+  },
   appointmentCard: {
     marginBottom: 8,
   },
@@ -26,6 +26,10 @@ import {
   BiometricStatus,
 } from '@/services/biometric';
 import { authService } from '@/services/auth';
+import { useMyAssessmentResults, usePendingAssessments } from '@/hooks/useAssessments';
+import { useMyAssignments } from '@/hooks/useAssignments';
+import { AssessmentTrendChart } from '@/components/assessment/AssessmentTrendChart';
+import type { AssessmentType } from '@/types';
 import { LANGUAGES } from '@/i18n';
 
 interface MenuItemProps {
@@ -67,6 +71,10 @@ export default function ProfileScreen() {
   const { t } = useTranslation();
   const { user, logout, biometricEnabled, setBiometricEnabled } = useAuthStore();
   const { language } = useLocaleStore();
+  const { data: pendingAssessments } = usePendingAssessments();
+  const { data: assessmentResults } = useMyAssessmentResults();
+  const { data: assignments } = useMyAssignments();
+  const openAssignments = assignments?.filter((assignment) => assignment.status !== 'COMPLETED').length ?? 0;
   const [biometricStatus, setBiometricStatus] = useState<BiometricStatus | null>(null);
   const [biometricLoading, setBiometricLoading] = useState(false);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
@@ -278,6 +286,44 @@ export default function ProfileScreen() {
         />
       </Card>
 
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('assessments.progressTitle')}</Text>
+        {pendingAssessments?.map((request) => (
+          <MenuItem
+            key={request.id}
+            icon="clipboard-outline"
+            label={t('assessments.start', { type: t(`assessments.types.${request.type}`) })}
+            badge={t('assessments.due')}
+            onPress={() => router.push(`/assessment/${request.id}` as any)}
+          />
+        ))}
+        <MenuItem
+          icon="checkbox-outline"
+          label={t('assignments.title')}
+          badge={openAssignments > 0 ? String(openAssignments) : undefined}
+          onPress={() => router.push('/assignments' as any)}
+        />
+        <MenuItem
+          icon="book-outline"
+          label={t('journal.title')}
+          onPress={() => router.push('/journal' as any)}
+        />
+        {(['PHQ9', 'GAD7'] as AssessmentType[]).map((type) => (
+          <View key={type} style={styles.assessmentChart}>
+            <AssessmentTrendChart type={type} results={assessmentResults ?? []} />
+          </View>
+        ))}
+      </Card>
+
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('callHistory.section')}</Text>
+        <MenuItem
+          icon="call-outline"
+          label={t('callHistory.title')}
+          onPress={() => router.push('/call-history')}
+        />
+      </Card>
+
       <Card style={styles.menuSection}>
         <Text style={styles.sectionTitle}>Payment</Text>
         <MenuItem
@@ -456,6 +502,10 @@ const styles = StyleSheet.create({
   lastSection: {
     marginBottom: 16,
   },
+  assessmentChart: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
   sectionTitle: {
     fontSize: 13,
     fontWeight: '600',
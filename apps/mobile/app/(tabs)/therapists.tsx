@@ -12,6 +12,7 @@ import {
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTherapists } from '@/hooks';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
 import { Avatar, Badge, Rating, Card, EmptyState } from '@/components/ui';
 import type { Therapist, TherapistFilters } from '@/types';
 import { SPECIALIZATIONS } from '@/types';
@@ -20,6 +21,7 @@ export default function TherapistsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedSpecialization, setSelectedSpecialization] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const { formatPrice } = useDisplayCurrency();
   const [filters, setFilters] = useState<TherapistFilters>({
     limit: 20,
     isOnline: undefined,
@@ -106,7 +108,7 @@ export default function TherapistsScreen() {
           </Text>
         </View>
         <View style={styles.pricing}>
-          <Text style={styles.price}>${(item.hourlyRate / 100).toFixed(0)}</Text>
+          <Text style={styles.price}>{formatPrice(item.hourlyRate, item.currency)}</Text>
           <Text style={styles.priceUnit}>/hour</Text>
         </View>
       </View>
@@ -155,6 +157,13 @@ export default function TherapistsScreen() {
         )}
       </View>
 
+      <TouchableOpacity
+        style={styles.filterButton}
+        onPress={() => router.push('/matching' as any)}
+      >
+        <Ionicons name="sparkles-outline" size={20} color="#4F46E5" />
+      </TouchableOpacity>
+
       <TouchableOpacity
         style={styles.filterButton}
         onPress={() => setShowFilters(!showFilters)}
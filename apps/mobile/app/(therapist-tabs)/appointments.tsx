@@ -22,6 +22,8 @@ import {
   useDeclineAppointment,
 } from '@/hooks/useTherapistDashboard';
 import { Avatar, Badge, Card, EmptyState } from '@/components/ui';
+import { evaluateCancellation } from '@/services/cancellation-policy';
+import { formatCurrencyFromCents } from '@/utils/formatting';
 import type { Appointment, TherapistAppointmentFilters } from '@/types';
 
 type TabType = 'upcoming' | 'past';
@@ -142,10 +144,6 @@ export default function TherapistAppointmentsScreen() {
     return `${minutes}m`;
   };
 
-  const formatCurrency = (amount: number) => {
-    return `$${(amount / 100).toFixed(2)}`;
-  };
-
   const handleAppointmentPress = (appointment: Appointment) => {
     router.push(`/appointment/${appointment.id}`);
   };
@@ -156,9 +154,13 @@ export default function TherapistAppointmentsScreen() {
   };
 
   const handleCancelPress = (appointment: Appointment) => {
+    const { refundAmount } = evaluateCancellation({ appointment, actor: 'THERAPIST' });
+
     Alert.alert(
       t('therapistDashboard.cancelAppointment'),
-      t('therapistDashboard.cancelAppointmentConfirm'),
+      `${t('therapistDashboard.cancelAppointmentConfirm')}\n\n${t('therapistDashboard.cancelRefundNotice', {
+        amount: formatCurrencyFromCents(refundAmount, appointment.currency),
+      })}`,
       [
         { text: t('common.no'), style: 'cancel' },
         {
@@ -381,7 +383,7 @@ export default function TherapistAppointmentsScreen() {
             <View style={styles.detailRow}>
               <Ionicons name="cash-outline" size={16} color="#10B981" />
               <Text style={[styles.detailText, { color: '#10B981' }]}>
-                {formatCurrency(item.amount)}
+                {formatCurrencyFromCents(item.amount, item.currency)}
               </Text>
             </View>
           )}
@@ -6,13 +6,27 @@ import {
   ScrollView,
   TouchableOpacity,
   RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Linking,
 } from 'react-native';
+import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import * as Haptics from 'expo-haptics';
 
-import { useTherapistEarnings, useTherapistStats } from '@/hooks/useTherapistDashboard';
+import {
+  useCreatePayoutOnboardingLink,
+  usePayoutAccount,
+  usePayoutBalances,
+  usePayouts,
+  useTherapistEarnings,
+  useTherapistStats,
+} from '@/hooks/useTherapistDashboard';
+import { getNextPayoutDate, getPayoutSetupState } from '@/services/payouts';
+import { PayoutRow } from '@/components/payouts/PayoutRow';
+import { formatCurrencyFromCents, formatDateShort } from '@/utils/formatting';
 
 type PeriodType = 'week' | 'month' | 'year';
 
@@ -23,12 +37,46 @@ export default function TherapistEarningsScreen() {
 
   const { data: earnings, refetch: refetchEarnings } = useTherapistEarnings(period);
   const { data: stats, refetch: refetchStats } = useTherapistStats();
+  const { data: payoutAccount, refetch: refetchPayoutAccount } = usePayoutAccount();
+  const { data: payoutBalances, refetch: refetchPayoutBalances } = usePayoutBalances();
+  const { data: payouts, refetch: refetchPayouts } = usePayouts(1, 5);
+  const createOnboardingLink = useCreatePayoutOnboardingLink();
+
+  const setupState = getPayoutSetupState(payoutAccount);
+  const nextPayoutDate = payoutAccount?.schedule ? getNextPayoutDate(payoutAccount.schedule) : null;
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await Promise.all([refetchEarnings(), refetchStats()]);
+    await Promise.all([
+      refetchEarnings(),
+      refetchStats(),
+      refetchPayoutAccount(),
+      refetchPayoutBalances(),
+      refetchPayouts(),
+    ]);
     setRefreshing(false);
-  }, [refetchEarnings, refetchStats]);
+  }, [refetchEarnings, refetchStats, refetchPayoutAccount, refetchPayoutBalances, refetchPayouts]);
+
+  // Onboarding happens on Stripe's site; pull to refresh picks up the result
+  const handlePayoutSetup = () => {
+    createOnboardingLink.mutate(undefined, {
+      onSuccess: ({ url }) => Linking.openURL(url),
+      onError: () => Alert.alert(t('common.error'), t('payouts.setupFailed')),
+    });
+  };
+
+  const getScheduleText = () => {
+    const schedule = payoutAccount?.schedule;
+    if (!schedule) return '';
+    switch (schedule.interval) {
+      case 'weekly':
+        return t('payouts.schedule.weekly', { day: t(`payouts.weekdays.${schedule.weeklyAnchor ?? 1}`) });
+      case 'monthly':
+        return t('payouts.schedule.monthly', { day: schedule.monthlyAnchor ?? 1 });
+      default:
+        return t(`payouts.schedule.${schedule.interval}`);
+    }
+  };
 
   const handlePeriodChange = (newPeriod: PeriodType) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -99,6 +147,101 @@ export default function TherapistEarningsScreen() {
           </View>
         </View>
 
+        {/* Payouts */}
+        <View style={[styles.section, styles.payoutSection]}>
+          <Text style={styles.sectionTitle}>{t('payouts.title')}</Text>
+
+          {setupState !== 'active' ? (
+            <View style={styles.setupBox}>
+              <Ionicons
+                name={setupState === 'actionRequired' ? 'alert-circle-outline' : 'card-outline'}
+                size={24}
+                color={setupState === 'actionRequired' ? '#D97706' : '#4F46E5'}
+              />
+              <Text style={styles.setupTitle}>{t(`payouts.setup.${setupState}.title`)}</Text>
+              <Text style={styles.setupText}>
+                {t(`payouts.setup.${setupState}.description`, {
+                  count: payoutAccount?.requirementsDue.length ?? 0,
+                })}
+                {payoutAccount?.requirementsDeadline
+                  ? ` ${t('payouts.setup.deadline', { date: formatDateShort(payoutAccount.requirementsDeadline) })}`
+                  : ''}
+              </Text>
+              {setupState !== 'inReview' && (
+                <TouchableOpacity
+                  style={styles.setupButton}
+                  onPress={handlePayoutSetup}
+                  disabled={createOnboardingLink.isPending}
+                >
+                  {createOnboardingLink.isPending ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.setupButtonText}>{t(`payouts.setup.${setupState}.action`)}</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <>
+              {payoutAccount?.bankAccount && (
+                <View style={styles.payoutInfoRow}>
+                  <Ionicons name="business-outline" size={18} color="#6B7280" />
+                  <Text style={styles.payoutInfoText}>
+                    {t('payouts.bankAccount', {
+                      bank: payoutAccount.bankAccount.bankName ?? t('payouts.bank'),
+                      last4: payoutAccount.bankAccount.last4,
+                    })}
+                  </Text>
+                </View>
+              )}
+              {payoutAccount?.schedule && (
+                <View style={styles.payoutInfoRow}>
+                  <Ionicons name="calendar-outline" size={18} color="#6B7280" />
+                  <Text style={styles.payoutInfoText}>
+                    {getScheduleText()}
+                    {nextPayoutDate ? ` · ${t('payouts.next', { date: formatDateShort(nextPayoutDate) })}` : ''}
+                  </Text>
+                </View>
+              )}
+            </>
+          )}
+
+          {payoutBalances?.map((balance) => (
+            <View key={balance.currency} style={styles.balanceRow}>
+              <View style={styles.balanceItem}>
+                <Text style={styles.balanceLabel}>{t('payouts.available')}</Text>
+                <Text style={styles.balanceValue}>{formatCurrencyFromCents(balance.available, balance.currency)}</Text>
+              </View>
+              <View style={styles.balanceItem}>
+                <Text style={styles.balanceLabel}>{t('payouts.pending')}</Text>
+                <Text style={[styles.balanceValue, styles.balancePending]}>
+                  {formatCurrencyFromCents(balance.pending, balance.currency)}
+                </Text>
+              </View>
+            </View>
+          ))}
+          {payoutAccount?.schedule && payoutBalances && payoutBalances.length > 0 && (
+            <Text style={styles.setupText}>
+              {t('payouts.pendingHint', { count: payoutAccount.schedule.delayDays })}
+            </Text>
+          )}
+
+          {payouts && payouts.data.length > 0 && (
+            <>
+              <Text style={styles.subsectionTitle}>{t('payouts.recent')}</Text>
+              {payouts.data.map((payout) => (
+                <PayoutRow key={payout.id} payout={payout} onPress={() => router.push(`/payouts/${payout.id}`)} />
+              ))}
+              {payouts.meta.total > payouts.data.length && (
+                <TouchableOpacity style={styles.viewAllButton} onPress={() => router.push('/payouts')}>
+                  <Text style={styles.viewAllText}>{t('payouts.viewAll')}</Text>
+                  <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+
         {/* Breakdown */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('therapistDashboard.breakdown')}</Text>
@@ -255,6 +398,96 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 16,
   },
+  payoutSection: {
+    marginBottom: 24,
+  },
+  setupBox: {
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    marginBottom: 12,
+  },
+  setupTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 8,
+  },
+  setupText: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  setupButton: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    marginTop: 12,
+    minWidth: 140,
+    alignItems: 'center',
+  },
+  setupButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  payoutInfoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  payoutInfoText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  balanceItem: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+  },
+  balanceLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  balanceValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#10B981',
+    marginTop: 4,
+  },
+  balancePending: {
+    color: '#6B7280',
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 20,
+  },
+  viewAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingTop: 12,
+  },
+  viewAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
   breakdownItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -33,7 +33,20 @@ import {
   useTherapistProfile,
   useUpdateOnlineStatus,
   useUpdateAutoOffline,
+  useUpdateCancellationPolicy,
+  useUpdateIntakeTemplate,
+  useUpdateRates,
 } from '@/hooks/useTherapistDashboard';
+import { useIntakeTemplates } from '@/hooks/useIntake';
+import { getCancellationPolicy } from '@/services/cancellation-policy';
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  formatAmountForInput,
+  parseAmount,
+} from '@/services/currency';
+import { CANCELLATION_POLICY_PRESETS } from '@hopefull/types';
+import type { CancellationPolicyPreset } from '@hopefull/types';
 
 interface MenuItemProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -79,10 +92,18 @@ export default function TherapistProfileScreen() {
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [password, setPassword] = useState('');
   const [refreshing, setRefreshing] = useState(false);
+  const [rateCurrency, setRateCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [hourlyRateText, setHourlyRateText] = useState('');
+  const [perMinuteRateText, setPerMinuteRateText] = useState('');
 
   const { data: profile, refetch } = useTherapistProfile();
   const updateOnlineStatus = useUpdateOnlineStatus();
   const updateAutoOffline = useUpdateAutoOffline();
+  const updateCancellationPolicy = useUpdateCancellationPolicy();
+  const { data: intakeTemplates } = useIntakeTemplates();
+  const updateIntakeTemplate = useUpdateIntakeTemplate();
+  const updateRates = useUpdateRates();
+  const cancellationPreset = getCancellationPolicy(profile?.cancellationPolicy).preset;
 
   const currentLanguageName = LANGUAGES[language]?.name || 'English';
 
@@ -90,6 +111,15 @@ export default function TherapistProfileScreen() {
     checkBiometricStatus();
   }, []);
 
+  // Start the rate editor from the saved rates
+  useEffect(() => {
+    if (!profile) return;
+    const currency = profile.currency ?? DEFAULT_CURRENCY;
+    setRateCurrency(currency);
+    setHourlyRateText(formatAmountForInput(profile.hourlyRate, currency));
+    setPerMinuteRateText(formatAmountForInput(profile.perMinuteRate, currency));
+  }, [profile]);
+
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     await refetch();
@@ -192,6 +222,43 @@ export default function TherapistProfileScreen() {
     }
   };
 
+  const handleSelectCancellationPolicy = async (preset: CancellationPolicyPreset) => {
+    if (preset === cancellationPreset) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await updateCancellationPolicy.mutateAsync(preset);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('cancellationPolicy.updateFailed'));
+    }
+  };
+
+  const handleSelectIntakeTemplate = async (templateId: string | null) => {
+    if (templateId === (profile?.intakeTemplateId ?? null)) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await updateIntakeTemplate.mutateAsync(templateId);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('intake.updateFailed'));
+    }
+  };
+
+  const handleSaveRates = async () => {
+    const hourlyRate = parseAmount(hourlyRateText, rateCurrency);
+    const perMinuteRate = parseAmount(perMinuteRateText, rateCurrency);
+    if (!hourlyRate || !perMinuteRate) {
+      Alert.alert(t('common.error'), t('rates.invalid'));
+      return;
+    }
+
+    try {
+      await updateRates.mutateAsync({ currency: rateCurrency, hourlyRate, perMinuteRate });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(t('common.success'), t('rates.saved'));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('rates.updateFailed'));
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       t('profile.logout.title'),
@@ -303,6 +370,112 @@ export default function TherapistProfileScreen() {
             thumbColor={profile?.autoOfflineEnabled ? '#4F46E5' : '#9CA3AF'}
           />
         </View>
+        <MenuItem
+          icon="calendar-outline"
+          label={t('schedule.title')}
+          onPress={() => router.push('/profile/schedule')}
+        />
+      </Card>
+
+      {/* Cancellation Policy */}
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('cancellationPolicy.title')}</Text>
+        {(Object.keys(CANCELLATION_POLICY_PRESETS) as CancellationPolicyPreset[]).map((preset) => {
+          const isSelected = preset === cancellationPreset;
+          return (
+            <TouchableOpacity
+              key={preset}
+              style={styles.statusItem}
+              onPress={() => handleSelectCancellationPolicy(preset)}
+              disabled={updateCancellationPolicy.isPending}
+            >
+              <View style={styles.statusTextContainer}>
+                <Text style={styles.menuLabel}>{t(`cancellationPolicy.presets.${preset}.name`)}</Text>
+                <Text style={styles.statusDescription}>
+                  {t(`cancellationPolicy.presets.${preset}.description`)}
+                </Text>
+              </View>
+              <Ionicons
+                name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                size={22}
+                color={isSelected ? '#4F46E5' : '#D1D5DB'}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </Card>
+
+      {/* Session Rates */}
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('rates.title')}</Text>
+        <View style={styles.ratesContent}>
+          <Text style={styles.statusDescription}>{t('rates.description')}</Text>
+          <View style={styles.currencyChips}>
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <TouchableOpacity
+                key={currency}
+                style={[styles.chip, rateCurrency === currency && styles.chipSelected]}
+                onPress={() => setRateCurrency(currency)}
+              >
+                <Text style={[styles.chipText, rateCurrency === currency && styles.chipTextSelected]}>
+                  {currency}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.rateLabel}>{t('rates.hourly', { currency: rateCurrency })}</Text>
+          <TextInput
+            style={styles.rateInput}
+            value={hourlyRateText}
+            onChangeText={setHourlyRateText}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.rateLabel}>{t('rates.perMinute', { currency: rateCurrency })}</Text>
+          <TextInput
+            style={styles.rateInput}
+            value={perMinuteRateText}
+            onChangeText={setPerMinuteRateText}
+            keyboardType="decimal-pad"
+          />
+          <Button
+            title={t('rates.save')}
+            onPress={handleSaveRates}
+            loading={updateRates.isPending}
+            size="sm"
+            style={styles.rateSaveButton}
+          />
+        </View>
+      </Card>
+
+      {/* Intake Form */}
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('intake.cardTitle')}</Text>
+        {[null, ...(intakeTemplates ?? [])].map((template) => {
+          const templateId = template?.id ?? null;
+          const isSelected = templateId === (profile?.intakeTemplateId ?? null);
+          return (
+            <TouchableOpacity
+              key={templateId ?? 'none'}
+              style={styles.statusItem}
+              onPress={() => handleSelectIntakeTemplate(templateId)}
+              disabled={updateIntakeTemplate.isPending}
+            >
+              <View style={styles.statusTextContainer}>
+                <Text style={styles.menuLabel}>{template ? template.name : t('intake.noTemplate')}</Text>
+                <Text style={styles.statusDescription}>
+                  {template
+                    ? template.description || t('intake.questionCount', { count: template.questions.length })
+                    : t('intake.noTemplateDescription')}
+                </Text>
+              </View>
+              <Ionicons
+                name={isSelected ? 'checkmark-circle' : 'ellipse-outline'}
+                size={22}
+                color={isSelected ? '#4F46E5' : '#D1D5DB'}
+              />
+            </TouchableOpacity>
+          );
+        })}
       </Card>
 
       <Card style={styles.menuSection}>
@@ -373,6 +546,15 @@ export default function TherapistProfileScreen() {
         />
       </Card>
 
+      <Card style={styles.menuSection}>
+        <Text style={styles.sectionTitle}>{t('callHistory.section')}</Text>
+        <MenuItem
+          icon="call-outline"
+          label={t('callHistory.title')}
+          onPress={() => router.push('/call-history')}
+        />
+      </Card>
+
       <Card style={styles.menuSection}>
         <Text style={styles.sectionTitle}>Payout</Text>
         <MenuItem
@@ -534,6 +716,9 @@ const styles = StyleSheet.create({
     color: '#111827',
     marginBottom: 4,
   },
+  rateSaveButton: {
+    marginTop: 12,
+  },
   userEmail: {
     fontSize: 14,
     color: '#6B7280',
@@ -636,6 +821,51 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 2,
   },
+  ratesContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  currencyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F3F4F6',
+  },
+  chipSelected: {
+    backgroundColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  rateLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#374151',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  rateInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#111827',
+    marginBottom: 4,
+  },
   biometricItem: {
     flexDirection: 'row',
     alignItems: 'center',
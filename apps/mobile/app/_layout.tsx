@@ -1,6 +1,6 @@
 import { Stack, useRouter, useSegments, useRootNavigationState } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { useEffect, useMemo, useRef } from 'react';
 import * as SplashScreen from 'expo-splash-screen';
 import { I18nextProvider } from 'react-i18next';
@@ -12,6 +12,9 @@ import { useAuthStore } from '@/store/auth';
 import { useLocaleStore } from '@/store/locale';
 import { configureGoogleSignIn } from '@/services/social-auth';
 import { pushNotificationService } from '@/services';
+import { callSignalingService } from '@/services/call-signaling';
+import { queryClient, persistOptions } from '@/config/query-client';
+import { useOfflineQueueSync } from '@/hooks/useOfflineQueue';
 import i18n from '@/i18n';
 
 // Register Firebase background message handler (must be top-level, outside component)
@@ -54,15 +57,6 @@ const STRIPE_PUBLISHABLE_KEY = process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY ||
 
 SplashScreen.preventAutoHideAsync();
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: 2,
-      staleTime: 1000 * 60 * 5, // 5 minutes
-    },
-  },
-});
-
 function useProtectedRoute() {
   const { user, isAuthenticated, isLoading, hasSeenOnboarding } = useAuthStore();
   const segments = useSegments();
@@ -154,7 +148,17 @@ export default function RootLayout() {
     init();
   }, []);
 
+  // Time out calls left ringing while the app was closed (e.g. caller's app was killed)
+  // and settle metered calls whose charge was never captured
+  useEffect(() => {
+    if (!isAuthenticated || !user?.id) return;
+    callSignalingService.expireStaleCalls(user.id).catch((error) => {
+      console.warn('[CallSignaling] Failed to expire stale calls:', error);
+    });
+  }, [isAuthenticated, user?.id]);
+
   useProtectedRoute();
+  useOfflineQueueSync();
 
   const content = (
     <>
@@ -170,7 +174,7 @@ export default function RootLayout() {
 
   return (
     <I18nextProvider i18n={i18n}>
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
         <StripeProvider publishableKey={STRIPE_PUBLISHABLE_KEY} merchantIdentifier="merchant.com.hopefull">
           {chatUserInfo ? (
             <ChatProvider
@@ -182,7 +186,7 @@ export default function RootLayout() {
             content
           )}
         </StripeProvider>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </I18nextProvider>
   );
 }
@@ -13,11 +13,32 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
-import { useAppointment } from '@/hooks/useAppointments';
+import { parseISO } from 'date-fns';
+import {
+  useAppointment,
+  useAppointmentSeries,
+  useRespondToReschedule,
+} from '@/hooks/useAppointments';
 import { useAcceptAppointment, useDeclineAppointment } from '@/hooks/useTherapistDashboard';
+import { usePendingMutations } from '@/hooks/useOfflineQueue';
+import { useAppointmentIntake } from '@/hooks/useIntake';
+import { formatIntakeAnswer, getVisibleQuestions } from '@/services/intake-form';
+import { useAppointmentAssessments, usePendingAssessments } from '@/hooks/useAssessments';
+import { AssessmentTrendChart } from '@/components/assessment/AssessmentTrendChart';
+import { useAppointmentJournal } from '@/hooks/useJournal';
+import { getMoodOption, summarizeMood } from '@/services/mood-journal';
+import { useSafetyIncidents } from '@/hooks/useSafety';
+import { useSessionNote } from '@/hooks/useSessionNotes';
+import { useClientAssignments } from '@/hooks/useAssignments';
+import { sortAssignments, summarizeCompletion } from '@/services/assignment-status';
+import { AssignmentRow } from '@/components/assignments/AssignmentRow';
+import { useAppointmentRefunds } from '@/hooks/usePayments';
+import { useShareInvoice } from '@/hooks/useInvoices';
+import { isBillable } from '@/services/invoice-documents';
+import { RefundRow } from '@/components/payments/RefundRow';
 import { useAuthStore } from '@/store/auth';
 import { Avatar, Card } from '@/components/ui';
-import { formatCurrencyFromCents } from '@/utils/formatting';
+import { formatCurrencyFromCents, formatDate, formatDateTime } from '@/utils/formatting';
 
 const STATUS_CONFIG: Record<
   string,
@@ -40,10 +61,46 @@ export default function AppointmentDetailsScreen() {
   const { data: appointment, isLoading, refetch } = useAppointment(id!);
   const acceptAppointment = useAcceptAppointment();
   const declineAppointment = useDeclineAppointment();
+  const pendingMutations = usePendingMutations(id);
+  const { data: series } = useAppointmentSeries(appointment?.seriesId);
+  const respondToReschedule = useRespondToReschedule();
 
   // Check if current user is the therapist
   const isTherapist = user?.role === 'THERAPIST';
 
+  // Full answers with their questions, for the therapist
+  const { data: intake } = useAppointmentIntake(
+    isTherapist && appointment?.intake?.status === 'SUBMITTED' ? appointment.id : ''
+  );
+
+  // Therapists see the client's scores, clients what's left to fill in
+  const { data: assessmentResults } = useAppointmentAssessments(id!, isTherapist);
+  const { data: pendingAssessments } = usePendingAssessments(!isTherapist);
+  const assessmentsDue = pendingAssessments?.filter((request) => request.appointmentId === id) ?? [];
+  const assessmentTypes = [...new Set(assessmentResults?.map((result) => result.type))];
+  const flaggedResults =
+    assessmentResults?.filter((result) => result.flagged && result.appointmentId === id) ?? [];
+
+  // Journal entries the client chose to share ahead of this session
+  const { data: sharedJournal } = useAppointmentJournal(id!, isTherapist);
+  const journalSummary = summarizeMood(sharedJournal ?? []);
+
+  // Homework from the client's earlier sessions, checked before this one
+  const isUpcoming = appointment?.status === 'PENDING' || appointment?.status === 'CONFIRMED';
+  const { data: clientAssignments } = useClientAssignments(appointment?.userId ?? '', isTherapist && isUpcoming);
+  const previousAssignments = sortAssignments(
+    clientAssignments?.filter((assignment) => assignment.appointmentId !== id) ?? []
+  );
+  const homework = summarizeCompletion(previousAssignments);
+
+  const { data: sessionNote } = useSessionNote(id!, isTherapist);
+  const { data: safetyIncidents } = useSafetyIncidents(id!, isTherapist);
+  const openIncidents = safetyIncidents?.filter((incident) => incident.status !== 'RESOLVED') ?? [];
+
+  // Where the client's money went after a cancellation
+  const { data: refunds } = useAppointmentRefunds(id!, !isTherapist && appointment?.status === 'CANCELLED');
+  const shareInvoice = useShareInvoice();
+
   const canJoin =
     appointment &&
     (appointment.status === 'CONFIRMED' || appointment.status === 'IN_PROGRESS') &&
@@ -57,7 +114,11 @@ export default function AppointmentDetailsScreen() {
     appointment &&
     (appointment.status === 'CONFIRMED' || appointment.status === 'IN_PROGRESS');
 
-  const canReschedule = canCancel && !isTherapist;
+  const rescheduleRequest = appointment?.rescheduleRequest;
+  const hasOpenRescheduleRequest =
+    rescheduleRequest?.status === 'PENDING' || rescheduleRequest?.status === 'COUNTER_PROPOSED';
+
+  const canReschedule = canCancel && !isTherapist && !hasOpenRescheduleRequest;
 
   const canLeaveReview =
     appointment &&
@@ -73,6 +134,8 @@ export default function AppointmentDetailsScreen() {
   const isPast =
     appointment && new Date(appointment.scheduledAt).getTime() < Date.now();
 
+  const canManageSeries = !!appointment?.seriesId && canCancel && !isTherapist;
+
   const handleAccept = async () => {
     if (!appointment) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -113,6 +176,101 @@ export default function AppointmentDetailsScreen() {
     );
   };
 
+  const handleRescheduleResponse = async (action: 'ACCEPT' | 'DECLINE') => {
+    if (!appointment) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      await respondToReschedule.mutateAsync({ id: appointment.id, response: { action } });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const handleDownloadReceipt = () => {
+    if (!appointment?.payment) return;
+    const payment = { ...appointment.payment, appointment };
+    if (!isBillable(payment)) {
+      Alert.alert(t('appointments.details.invoice'), t('invoices.notPaid'));
+      return;
+    }
+    shareInvoice.mutate(payment, {
+      onError: () => Alert.alert(t('common.error'), t('invoices.exportFailed')),
+    });
+  };
+
+  const renderRescheduleRequest = () => {
+    if (!rescheduleRequest || !hasOpenRescheduleRequest) return null;
+
+    // Whoever didn't make the latest proposal is the one who has to answer it
+    const awaitingTherapist = rescheduleRequest.status === 'PENDING';
+    const canRespond = isTherapist === awaitingTherapist;
+    const proposedAt =
+      rescheduleRequest.status === 'COUNTER_PROPOSED'
+        ? rescheduleRequest.counterProposedAt
+        : rescheduleRequest.proposedAt;
+
+    return (
+      <Card variant="elevated" style={styles.card}>
+        <Text style={styles.sectionTitle}>{t('appointments.reschedule.requestTitle')}</Text>
+        <View style={styles.detailRow}>
+          <View style={styles.detailIcon}>
+            <Ionicons name="swap-horizontal-outline" size={20} color="#6B7280" />
+          </View>
+          <View style={styles.detailContent}>
+            <Text style={styles.detailLabel}>
+              {t(
+                awaitingTherapist
+                  ? 'appointments.reschedule.clientProposed'
+                  : 'appointments.reschedule.therapistProposed'
+              )}
+            </Text>
+            {proposedAt && <Text style={styles.detailValue}>{formatDateTime(proposedAt)}</Text>}
+          </View>
+        </View>
+
+        {canRespond ? (
+          <View style={styles.acceptDeclineButtons}>
+            <TouchableOpacity
+              style={styles.acceptButton}
+              onPress={() => handleRescheduleResponse('ACCEPT')}
+              disabled={respondToReschedule.isPending}
+            >
+              {respondToReschedule.isPending ? (
+                <ActivityIndicator color="#FFFFFF" size="small" />
+              ) : (
+                <Text style={styles.acceptButtonText}>{t('common.accept')}</Text>
+              )}
+            </TouchableOpacity>
+            {isTherapist ? (
+              <TouchableOpacity
+                style={styles.declineButtonLarge}
+                onPress={() =>
+                  router.push(`/appointment/${appointment!.id}/reschedule?mode=propose` as any)
+                }
+                disabled={respondToReschedule.isPending}
+              >
+                <Text style={styles.declineButtonText}>
+                  {t('appointments.reschedule.proposeOther')}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.declineButtonLarge}
+                onPress={() => handleRescheduleResponse('DECLINE')}
+                disabled={respondToReschedule.isPending}
+              >
+                <Text style={styles.declineButtonText}>{t('common.decline')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ) : (
+          <Text style={styles.notesText}>{t('appointments.reschedule.awaitingResponse')}</Text>
+        )}
+      </Card>
+    );
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -177,6 +335,14 @@ export default function AppointmentDetailsScreen() {
           </Text>
         </View>
 
+        {/* Offline changes waiting to sync */}
+        {pendingMutations.length > 0 && (
+          <View style={styles.pendingSyncBanner}>
+            <Ionicons name="cloud-offline-outline" size={18} color="#B45309" />
+            <Text style={styles.pendingSyncText}>{t('offline.pendingSync')}</Text>
+          </View>
+        )}
+
         {/* Person Card (Client for therapist, Therapist for patient) */}
         <Card variant="elevated" style={styles.card}>
           <Text style={styles.sectionTitle}>
@@ -276,6 +442,214 @@ export default function AppointmentDetailsScreen() {
           </View>
         </Card>
 
+        {renderRescheduleRequest()}
+
+        {/* Recurring series */}
+        {appointment.seriesId && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('appointments.series.cardTitle')}</Text>
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}>
+                <Ionicons name="repeat-outline" size={20} color="#6B7280" />
+              </View>
+              <View style={styles.detailContent}>
+                <Text style={styles.detailLabel}>
+                  {series
+                    ? t(series.frequency === 'WEEKLY' ? 'booking.repeat.weekly' : 'booking.repeat.biweekly')
+                    : t('appointments.series.cardTitle')}
+                </Text>
+                {series && appointment.seriesIndex && (
+                  <Text style={styles.detailValue}>
+                    {t('appointments.series.position', {
+                      index: appointment.seriesIndex,
+                      count: series.occurrenceCount,
+                    })}
+                  </Text>
+                )}
+              </View>
+            </View>
+            {canManageSeries && (
+              <TouchableOpacity
+                style={styles.viewProfileButton}
+                onPress={() => router.push(`/appointment/${appointment.id}/series` as any)}
+              >
+                <Text style={styles.viewProfileText}>{t('appointments.series.manage')}</Text>
+                <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+              </TouchableOpacity>
+            )}
+          </Card>
+        )}
+
+        {/* Intake form */}
+        {appointment.intake && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('intake.cardTitle')}</Text>
+            {appointment.intake.status === 'PENDING' ? (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIcon}>
+                  <Ionicons name="clipboard-outline" size={20} color="#F59E0B" />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailValue}>
+                    {isTherapist ? t('intake.pendingTherapist') : t('intake.pendingClient')}
+                  </Text>
+                </View>
+              </View>
+            ) : isTherapist ? (
+              intake?.template &&
+              getVisibleQuestions(intake.template.questions, intake.answers)
+                .filter((question) => intake.answers[question.id] !== undefined)
+                .map((question) => (
+                  <View key={question.id} style={styles.intakeAnswer}>
+                    <Text style={styles.detailLabel}>{question.label}</Text>
+                    <Text style={styles.notesText}>
+                      {formatIntakeAnswer(question, intake.answers[question.id])}
+                    </Text>
+                  </View>
+                ))
+            ) : (
+              <View style={styles.detailRow}>
+                <View style={styles.detailIcon}>
+                  <Ionicons name="checkmark-circle-outline" size={20} color="#10B981" />
+                </View>
+                <View style={styles.detailContent}>
+                  <Text style={styles.detailValue}>{t('intake.submittedClient')}</Text>
+                </View>
+              </View>
+            )}
+            {!isTherapist && canCancel && (
+              <TouchableOpacity
+                style={styles.viewProfileButton}
+                onPress={() => router.push(`/appointment/${appointment.id}/intake` as any)}
+              >
+                <Text style={styles.viewProfileText}>
+                  {appointment.intake.status === 'PENDING' ? t('intake.complete') : t('intake.review')}
+                </Text>
+                <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+              </TouchableOpacity>
+            )}
+          </Card>
+        )}
+
+        {/* Assessments */}
+        {isTherapist && assessmentTypes.length > 0 && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assessments.cardTitle')}</Text>
+            {flaggedResults.map((result) => (
+              <View key={result.id} style={styles.riskBanner}>
+                <Ionicons name="warning" size={20} color="#EF4444" />
+                <Text style={styles.riskText}>
+                  {t('assessments.riskFlag', {
+                    type: t(`assessments.types.${result.type}`),
+                    items: result.riskItems.join(', '),
+                  })}
+                </Text>
+              </View>
+            ))}
+            {assessmentTypes.map((type) => (
+              <View key={type} style={styles.assessmentChart}>
+                <AssessmentTrendChart type={type} results={assessmentResults ?? []} />
+              </View>
+            ))}
+          </Card>
+        )}
+
+        {/* Homework status */}
+        {isTherapist && isUpcoming && previousAssignments.length > 0 && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assignments.homeworkStatus')}</Text>
+            <Text style={styles.detailLabel}>
+              {t('assignments.completionSummary', homework)}
+            </Text>
+            {previousAssignments.slice(0, 5).map((assignment) => (
+              <AssignmentRow
+                key={assignment.id}
+                assignment={assignment}
+                onPress={() => router.push(`/assignments/${assignment.id}` as any)}
+              />
+            ))}
+          </Card>
+        )}
+
+        {/* Shared mood journal */}
+        {isTherapist && journalSummary.entries.length > 0 && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('journal.sharedTitle')}</Text>
+            <Text style={styles.detailLabel}>
+              {t('journal.sharedSummary', {
+                average: journalSummary.average,
+                count: journalSummary.entries.length,
+                lowDays: journalSummary.lowDays,
+              })}
+            </Text>
+            {journalSummary.entries.map((entry) => {
+              const mood = getMoodOption(entry.mood);
+              return (
+                <View key={entry.id} style={styles.journalEntry}>
+                  <View style={[styles.journalDot, { backgroundColor: mood.color }]} />
+                  <View style={styles.detailContent}>
+                    <Text style={styles.detailLabel}>
+                      {formatDate(parseISO(entry.date), { weekday: 'short', month: 'short', day: 'numeric' })} · {t(`journal.moods.${entry.mood}`)}
+                      {entry.tags.length > 0 &&
+                        ` · ${entry.tags.map((tag) => t(`journal.tags.${tag}`, { defaultValue: tag })).join(', ')}`}
+                    </Text>
+                    {!!entry.note && <Text style={styles.notesText}>{entry.note}</Text>}
+                  </View>
+                </View>
+              );
+            })}
+          </Card>
+        )}
+
+        {!isTherapist && assessmentsDue.length > 0 && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assessments.cardTitle')}</Text>
+            <Text style={styles.notesText}>{t('assessments.dueBeforeSession')}</Text>
+            {assessmentsDue.map((request) => (
+              <TouchableOpacity
+                key={request.id}
+                style={styles.viewProfileButton}
+                onPress={() => router.push(`/assessment/${request.id}` as any)}
+              >
+                <Text style={styles.viewProfileText}>
+                  {t('assessments.start', { type: t(`assessments.types.${request.type}`) })}
+                </Text>
+                <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+              </TouchableOpacity>
+            ))}
+          </Card>
+        )}
+
+        {/* Safety concerns */}
+        {isTherapist && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('safety.cardTitle')}</Text>
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}>
+                <Ionicons
+                  name="help-buoy-outline"
+                  size={20}
+                  color={openIncidents.length > 0 ? '#EF4444' : '#6B7280'}
+                />
+              </View>
+              <View style={styles.detailContent}>
+                <Text style={styles.detailValue}>
+                  {openIncidents.length > 0
+                    ? t('safety.openCount', { count: openIncidents.length })
+                    : t('safety.noneOpen')}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={styles.viewProfileButton}
+              onPress={() => router.push(`/appointment/${appointment.id}/safety` as any)}
+            >
+              <Text style={[styles.viewProfileText, { color: '#EF4444' }]}>{t('safety.flag')}</Text>
+              <Ionicons name="chevron-forward" size={16} color="#EF4444" />
+            </TouchableOpacity>
+          </Card>
+        )}
+
         {/* Booking Notes */}
         {appointment.bookingNotes && (
           <Card variant="elevated" style={styles.card}>
@@ -284,6 +658,43 @@ export default function AppointmentDetailsScreen() {
           </Card>
         )}
 
+        {/* Structured session notes, therapist only */}
+        {isTherapist && appointment.status !== 'PENDING' && appointment.status !== 'CANCELLED' && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('sessionNotes.title')}</Text>
+            <View style={styles.detailRow}>
+              <View style={styles.detailIcon}>
+                <Ionicons
+                  name={sessionNote?.status === 'SIGNED' ? 'lock-closed-outline' : 'create-outline'}
+                  size={20}
+                  color={sessionNote?.status === 'SIGNED' ? '#10B981' : '#6B7280'}
+                />
+              </View>
+              <View style={styles.detailContent}>
+                <Text style={styles.detailValue}>
+                  {sessionNote ? t(`sessionNotes.status.${sessionNote.status}`) : t('sessionNotes.notStarted')}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={styles.viewProfileButton}
+              onPress={() => router.push(`/appointment/${appointment.id}/notes` as any)}
+            >
+              <Text style={styles.viewProfileText}>
+                {sessionNote?.status === 'SIGNED' ? t('sessionNotes.view') : t('sessionNotes.write')}
+              </Text>
+              <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.viewProfileButton}
+              onPress={() => router.push(`/client/${appointment.userId}/notes` as any)}
+            >
+              <Text style={styles.viewProfileText}>{t('sessionNotes.clientHistory')}</Text>
+              <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+            </TouchableOpacity>
+          </Card>
+        )}
+
         {/* Session Notes (from therapist) */}
         {appointment.sessionNotes && (
           <Card variant="elevated" style={styles.card}>
@@ -300,13 +711,13 @@ export default function AppointmentDetailsScreen() {
 
           <View style={styles.invoiceRow}>
             <Text style={styles.invoiceLabel}>{t('appointments.details.sessionFee')}</Text>
-            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(appointment.amount)}</Text>
+            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(appointment.amount, appointment.currency)}</Text>
           </View>
 
           <View style={styles.invoiceRow}>
             <Text style={styles.invoiceLabel}>{t('appointments.details.platformFee')}</Text>
             <Text style={[styles.invoiceValue, isTherapist && { color: '#EF4444' }]}>
-              {isTherapist ? '-' : ''}{formatCurrencyFromCents(platformFee)}
+              {isTherapist ? '-' : ''}{formatCurrencyFromCents(platformFee, appointment.currency)}
             </Text>
           </View>
 
@@ -317,12 +728,19 @@ export default function AppointmentDetailsScreen() {
               {isTherapist ? t('appointments.details.yourEarnings') : t('appointments.details.total')}
             </Text>
             <Text style={[styles.invoiceTotalValue, isTherapist && { color: '#10B981' }]}>
-              {formatCurrencyFromCents(isTherapist ? therapistEarnings : appointment.amount)}
+              {formatCurrencyFromCents(
+                isTherapist ? therapistEarnings : appointment.amount,
+                appointment.currency
+              )}
             </Text>
           </View>
 
-          {!isTherapist && (
-            <TouchableOpacity style={styles.downloadButton}>
+          {!isTherapist && appointment.payment && (
+            <TouchableOpacity
+              style={styles.downloadButton}
+              onPress={handleDownloadReceipt}
+              disabled={shareInvoice.isPending}
+            >
               <Ionicons name="download-outline" size={18} color="#4F46E5" />
               <Text style={styles.downloadText}>{t('appointments.details.downloadReceipt')}</Text>
             </TouchableOpacity>
@@ -395,6 +813,20 @@ export default function AppointmentDetailsScreen() {
           </Card>
         )}
 
+        {/* Refunds */}
+        {appointment.status === 'CANCELLED' && refunds && refunds.length > 0 && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('refunds.title')}</Text>
+            {refunds.map((refund) => (
+              <RefundRow
+                key={refund.id}
+                refund={refund}
+                onPress={() => router.push(`/profile/refund/${refund.id}` as any)}
+              />
+            ))}
+          </Card>
+        )}
+
         <View style={styles.bottomSpacer} />
       </ScrollView>
 
@@ -447,6 +879,16 @@ export default function AppointmentDetailsScreen() {
           </TouchableOpacity>
         )}
 
+        {appointment.status === 'COMPLETED' && isTherapist && (
+          <TouchableOpacity
+            style={styles.summaryButton}
+            onPress={() => router.push(`/appointment/${appointment.id}/summary` as any)}
+          >
+            <Ionicons name="checkbox-outline" size={18} color="#4F46E5" />
+            <Text style={styles.summaryButtonText}>{t('assignments.assignHomework')}</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Completed appointment actions */}
         {appointment.status === 'COMPLETED' && !isTherapist && (
           <>
@@ -484,7 +926,7 @@ export default function AppointmentDetailsScreen() {
             {canReschedule && (
               <TouchableOpacity
                 style={styles.secondaryButton}
-                onPress={() => Alert.alert(t('common.comingSoon'), t('appointments.details.rescheduleComingSoon'))}
+                onPress={() => router.push(`/appointment/${appointment.id}/reschedule` as any)}
               >
                 <Text style={styles.secondaryButtonText}>{t('appointments.details.reschedule')}</Text>
               </TouchableOpacity>
@@ -578,6 +1020,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  pendingSyncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FEF3C7',
+    gap: 8,
+  },
+  pendingSyncText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#92400E',
+  },
   card: {
     marginHorizontal: 16,
     marginTop: 12,
@@ -666,6 +1123,40 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 22,
   },
+  intakeAnswer: {
+    marginBottom: 12,
+  },
+  riskBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+  },
+  riskText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#991B1B',
+    lineHeight: 20,
+  },
+  assessmentChart: {
+    marginBottom: 16,
+  },
+  journalEntry: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginTop: 12,
+  },
+  journalDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
   invoiceRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import { useCreateAssignment } from '@/hooks/useAssignments';
+import { ASSIGNMENT_DUE_OPTIONS, ASSIGNMENT_TYPES, getDueDateAfter } from '@/services/assignment-status';
+import { Card } from '@/components/ui';
+import type { AssignmentType } from '@/types';
+
+export default function NewAssignmentScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const createAssignment = useCreateAssignment();
+
+  const [type, setType] = useState<AssignmentType>('EXERCISE');
+  const [title, setTitle] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [resourceUrl, setResourceUrl] = useState('');
+  const [dueDate, setDueDate] = useState<string | null>(getDueDateAfter(7));
+
+  const canSave = title.trim().length > 0 && !createAssignment.isPending;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    try {
+      await createAssignment.mutateAsync({
+        appointmentId: id!,
+        data: {
+          type,
+          title: title.trim(),
+          instructions: instructions.trim() || undefined,
+          resourceUrl: resourceUrl.trim() || undefined,
+          dueDate: dueDate ?? undefined,
+        },
+      });
+      router.back();
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('assignments.newTitle')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assignments.typeLabel')}</Text>
+            <View style={styles.typeRow}>
+              {ASSIGNMENT_TYPES.map((option) => {
+                const isSelected = type === option.type;
+                return (
+                  <TouchableOpacity
+                    key={option.type}
+                    style={[styles.typeOption, isSelected && styles.typeOptionSelected]}
+                    onPress={() => setType(option.type)}
+                  >
+                    <Ionicons name={option.icon} size={22} color={isSelected ? '#4F46E5' : '#9CA3AF'} />
+                    <Text style={[styles.typeLabel, isSelected && styles.typeLabelSelected]}>
+                      {t(`assignments.types.${option.type}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assignments.titleLabel')}</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              placeholder={t('assignments.titlePlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              maxLength={120}
+            />
+
+            <Text style={[styles.sectionTitle, styles.fieldSpacing]}>{t('assignments.instructions')}</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={instructions}
+              onChangeText={setInstructions}
+              placeholder={t('assignments.instructionsPlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              multiline
+              maxLength={2000}
+              textAlignVertical="top"
+            />
+
+            <Text style={[styles.sectionTitle, styles.fieldSpacing]}>{t('assignments.resourceUrl')}</Text>
+            <TextInput
+              style={styles.input}
+              value={resourceUrl}
+              onChangeText={setResourceUrl}
+              placeholder="https://"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assignments.dueDate')}</Text>
+            <View style={styles.chips}>
+              {ASSIGNMENT_DUE_OPTIONS.map((days) => {
+                const date = getDueDateAfter(days);
+                const isSelected = dueDate === date;
+                return (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setDueDate(date)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {format(parseISO(date), 'EEE, MMM d')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.chip, !dueDate && styles.chipSelected]}
+                onPress={() => setDueDate(null)}
+              >
+                <Text style={[styles.chipText, !dueDate && styles.chipTextSelected]}>
+                  {t('assignments.noDueDate')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </Card>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, !canSave && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          {createAssignment.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('assignments.assign')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  fieldSpacing: {
+    marginTop: 16,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  typeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  typeOptionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  typeLabel: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  typeLabelSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  input: {
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 15,
+    color: '#111827',
+  },
+  multilineInput: {
+    minHeight: 100,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
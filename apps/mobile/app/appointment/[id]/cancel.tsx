@@ -15,6 +15,12 @@ import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAppointment, useCancelAppointment } from '@/hooks/useAppointments';
 import { Avatar, Card } from '@/components/ui';
+import {
+  CancellationPolicyTiers,
+  getRefundColor,
+  getTierLabel,
+} from '@/components/appointment/CancellationPolicyTiers';
+import { evaluateCancellation, getCancellationPolicy } from '@/services/cancellation-policy';
 import { formatCurrencyFromCents } from '@/utils/formatting';
 
 const CANCELLATION_REASONS = [
@@ -38,37 +44,18 @@ export default function CancelAppointmentScreen() {
   const { data: appointment, isLoading } = useAppointment(id!);
   const cancelAppointment = useCancelAppointment();
 
-  // Calculate refund based on cancellation policy
-  const getRefundInfo = () => {
-    if (!appointment) return { percent: 0, amount: 0, policy: '' };
-
-    const now = new Date();
-    const appointmentDate = new Date(appointment.scheduledAt);
-    const hoursUntil = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+  const policy = getCancellationPolicy(appointment?.therapist?.cancellationPolicy);
+  const refundInfo = appointment
+    ? evaluateCancellation({ appointment, actor: 'USER', policy })
+    : { refundPercent: 0, refundAmount: 0, hoursBefore: 0, reasons: [] };
 
-    if (hoursUntil > 24) {
-      return {
-        percent: 100,
-        amount: appointment.amount,
-        policy: t('appointments.cancel.policy.fullRefund'),
-      };
-    } else if (hoursUntil > 2) {
-      return {
-        percent: 50,
-        amount: Math.floor(appointment.amount / 2),
-        policy: t('appointments.cancel.policy.halfRefund'),
-      };
-    } else {
-      return {
-        percent: 0,
-        amount: 0,
-        policy: t('appointments.cancel.policy.noRefund'),
-      };
-    }
+  const getRefundReason = () => {
+    const reason = refundInfo.reasons[0];
+    if (!reason) return '';
+    if (reason.tier) return getTierLabel(t, policy.tiers, reason.tier);
+    return t(`cancellationPolicy.reasons.${reason.code}`);
   };
 
-  const refundInfo = getRefundInfo();
-
   const handleCancel = async () => {
     if (!selectedReason) {
       Alert.alert(t('common.error'), t('appointments.cancel.pleaseSelectReason'));
@@ -81,16 +68,18 @@ export default function CancelAppointmentScreen() {
       : t(reasonText?.labelKey || '');
 
     try {
-      await cancelAppointment.mutateAsync({
+      const result = await cancelAppointment.mutateAsync({
         id: id!,
         reason: fullReason,
       });
 
       Alert.alert(
-        t('appointments.cancel.success'),
-        t('appointments.cancel.successMessage', {
-          refundAmount: formatCurrencyFromCents(refundInfo.amount),
-        }),
+        result.queued ? t('offline.queuedTitle') : t('appointments.cancel.success'),
+        result.queued
+          ? t('offline.cancelQueued')
+          : t('appointments.cancel.successMessage', {
+              refundAmount: formatCurrencyFromCents(refundInfo.refundAmount, appointment?.currency),
+            }),
         [
           {
             text: t('common.ok'),
@@ -173,33 +162,20 @@ export default function CancelAppointmentScreen() {
         <Card variant="elevated" style={styles.card}>
           <Text style={styles.sectionTitle}>{t('appointments.cancel.policyTitle')}</Text>
 
-          <View style={styles.policyItem}>
-            <View style={[styles.policyDot, { backgroundColor: '#10B981' }]} />
-            <Text style={styles.policyText}>{t('appointments.cancel.policyMore24')}</Text>
-          </View>
-
-          <View style={styles.policyItem}>
-            <View style={[styles.policyDot, { backgroundColor: '#F59E0B' }]} />
-            <Text style={styles.policyText}>{t('appointments.cancel.policyLess24')}</Text>
-          </View>
-
-          <View style={styles.policyItem}>
-            <View style={[styles.policyDot, { backgroundColor: '#EF4444' }]} />
-            <Text style={styles.policyText}>{t('appointments.cancel.policyLess2')}</Text>
-          </View>
+          <CancellationPolicyTiers policy={policy} />
 
           {/* Refund Preview */}
           <View style={styles.refundPreview}>
             <View style={styles.refundRow}>
               <Text style={styles.refundLabel}>{t('appointments.cancel.yourRefund')}</Text>
-              <Text style={[styles.refundPercent, { color: refundInfo.percent === 100 ? '#10B981' : refundInfo.percent === 50 ? '#F59E0B' : '#EF4444' }]}>
-                {refundInfo.percent}%
+              <Text style={[styles.refundPercent, { color: getRefundColor(refundInfo.refundPercent) }]}>
+                {refundInfo.refundPercent}%
               </Text>
             </View>
             <Text style={styles.refundAmount}>
-              {formatCurrencyFromCents(refundInfo.amount)} {t('appointments.cancel.willBeRefunded')}
+              {formatCurrencyFromCents(refundInfo.refundAmount, appointment?.currency)} {t('appointments.cancel.willBeRefunded')}
             </Text>
-            <Text style={styles.refundPolicy}>{refundInfo.policy}</Text>
+            <Text style={styles.refundPolicy}>{getRefundReason()}</Text>
           </View>
         </Card>
 
@@ -381,22 +357,6 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
-  policyItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 8,
-    gap: 12,
-  },
-  policyDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-  },
-  policyText: {
-    fontSize: 14,
-    color: '#374151',
-    flex: 1,
-  },
   refundPreview: {
     marginTop: 16,
     paddingTop: 16,
@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAppointmentIntake, useSubmitIntake } from '@/hooks/useIntake';
+import {
+  IntakeAnswerIssue,
+  IntakeAnswers,
+  getVisibleQuestions,
+  pruneIntakeAnswers,
+  validateIntakeAnswers,
+} from '@/services/intake-form';
+import { IntakeQuestionField } from '@/components/intake/IntakeQuestionField';
+import { Card } from '@/components/ui';
+import type { IntakeAnswerValue } from '@/types';
+
+export default function IntakeFormScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [answers, setAnswers] = useState<IntakeAnswers>({});
+  // Only shown once the client has tried to submit
+  const [issues, setIssues] = useState<Record<string, IntakeAnswerIssue>>({});
+
+  const { data: intake, isLoading } = useAppointmentIntake(id!);
+  const submitIntake = useSubmitIntake();
+
+  const questions = intake?.template?.questions ?? [];
+  const visibleQuestions = useMemo(() => getVisibleQuestions(questions, answers), [questions, answers]);
+
+  // Pick up where a previous submission left off
+  useEffect(() => {
+    if (intake?.answers) setAnswers(intake.answers);
+  }, [intake?.answers]);
+
+  const handleChange = (questionId: string, value: IntakeAnswerValue) => {
+    setAnswers((current) => ({ ...current, [questionId]: value }));
+    if (issues[questionId]) {
+      setIssues((current) => {
+        const next = { ...current };
+        delete next[questionId];
+        return next;
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    const found = validateIntakeAnswers(questions, answers);
+    setIssues(found);
+    if (Object.keys(found).length > 0) {
+      Alert.alert(t('common.error'), t('intake.fixIssues'));
+      return;
+    }
+
+    try {
+      await submitIntake.mutateAsync({
+        appointmentId: id!,
+        answers: pruneIntakeAnswers(questions, answers),
+      });
+      Alert.alert(t('intake.submittedTitle'), t('intake.submittedMessage'), [
+        { text: t('common.ok'), onPress: () => router.back() },
+      ]);
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!intake?.template) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('intake.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.templateName}>{intake.template.name}</Text>
+            <Text style={styles.description}>
+              {intake.template.description || t('intake.description')}
+            </Text>
+            {intake.status === 'SUBMITTED' && (
+              <View style={styles.submittedBanner}>
+                <Ionicons name="checkmark-circle" size={18} color="#10B981" />
+                <Text style={styles.submittedText}>{t('intake.alreadySubmitted')}</Text>
+              </View>
+            )}
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            {visibleQuestions.map((question) => (
+              <IntakeQuestionField
+                key={question.id}
+                question={question}
+                value={answers[question.id]}
+                issue={issues[question.id]}
+                onChange={(value) => handleChange(question.id, value)}
+              />
+            ))}
+          </Card>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Submit */}
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, submitIntake.isPending && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={submitIntake.isPending}
+        >
+          {submitIntake.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {intake.status === 'SUBMITTED' ? t('intake.update') : t('intake.submit')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  templateName: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  submittedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  submittedText: {
+    fontSize: 14,
+    color: '#10B981',
+    fontWeight: '500',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
@@ -0,0 +1,555 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAppointment } from '@/hooks/useAppointments';
+import {
+  AutosaveStatus,
+  useAddNoteAddendum,
+  useSessionNoteDraft,
+  useSignSessionNote,
+} from '@/hooks/useSessionNotes';
+import {
+  SESSION_NOTE_INTERVENTIONS,
+  SESSION_NOTE_SECTIONS,
+  changeNoteTemplate,
+  getMissingSections,
+} from '@/services/session-note-form';
+import { GOAL_PROGRESS_COLORS, SessionNoteView } from '@/components/session-notes/SessionNoteView';
+import { Card } from '@/components/ui';
+import type { SessionNoteGoal, SessionNoteTemplate } from '@/types';
+
+const TEMPLATES: SessionNoteTemplate[] = ['SOAP', 'DAP'];
+const GOAL_PROGRESS: SessionNoteGoal['progress'][] = ['NOT_STARTED', 'IN_PROGRESS', 'ACHIEVED'];
+
+const AUTOSAVE_ICONS: Record<AutosaveStatus, keyof typeof Ionicons.glyphMap | null> = {
+  idle: null,
+  saving: 'cloud-upload-outline',
+  saved: 'cloud-done-outline',
+  error: 'cloud-offline-outline',
+};
+
+export default function SessionNotesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const { data: appointment } = useAppointment(id!);
+  const { note, content, setContent, status, flush, isLoading } = useSessionNoteDraft(id!);
+  const signNote = useSignSessionNote();
+  const addAddendum = useAddNoteAddendum();
+  const [addendum, setAddendum] = useState('');
+
+  const isSigned = note?.status === 'SIGNED';
+  const clientId = note?.userId ?? appointment?.userId;
+
+  const setSection = (section: string, value: string) => {
+    if (!content) return;
+    setContent({ ...content, sections: { ...content.sections, [section]: value } });
+  };
+
+  const setGoals = (goals: SessionNoteGoal[]) => {
+    if (!content) return;
+    setContent({ ...content, goals });
+  };
+
+  const toggleIntervention = (intervention: string) => {
+    if (!content) return;
+    const { interventions } = content;
+    setContent({
+      ...content,
+      interventions: interventions.includes(intervention)
+        ? interventions.filter((i) => i !== intervention)
+        : [...interventions, intervention],
+    });
+  };
+
+  const handleSign = async () => {
+    if (!content) return;
+
+    const missing = getMissingSections(content);
+    if (missing.length > 0) {
+      Alert.alert(
+        t('sessionNotes.incompleteTitle'),
+        t('sessionNotes.incompleteMessage', {
+          sections: missing.map((section) => t(`sessionNotes.sections.${section}`)).join(', '),
+        })
+      );
+      return;
+    }
+
+    Alert.alert(t('sessionNotes.signTitle'), t('sessionNotes.signMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('sessionNotes.sign'),
+        onPress: async () => {
+          try {
+            if (!(await flush())) throw new Error(t('sessionNotes.saveFailed'));
+            await signNote.mutateAsync(id!);
+          } catch (error: any) {
+            Alert.alert(t('common.error'), error?.message || t('errors.general'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAddAddendum = async () => {
+    try {
+      await addAddendum.mutateAsync({ appointmentId: id!, content: addendum.trim() });
+      setAddendum('');
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading || !content) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  const autosaveIcon = AUTOSAVE_ICONS[status];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('sessionNotes.title')}</Text>
+        <View style={styles.headerButton}>
+          {!isSigned && autosaveIcon && (
+            <Ionicons name={autosaveIcon} size={22} color={status === 'error' ? '#F59E0B' : '#9CA3AF'} />
+          )}
+        </View>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {status === 'error' && !isSigned && (
+            <Text style={styles.offlineText}>{t('sessionNotes.savedOnDevice')}</Text>
+          )}
+
+          {clientId && (
+            <TouchableOpacity
+              style={styles.historyLink}
+              onPress={() => router.push(`/client/${clientId}/notes` as any)}
+            >
+              <Ionicons name="time-outline" size={18} color="#4F46E5" />
+              <Text style={styles.historyLinkText}>{t('sessionNotes.clientHistory')}</Text>
+              <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+            </TouchableOpacity>
+          )}
+
+          {isSigned && note ? (
+            <>
+              <Card variant="elevated" style={styles.card}>
+                <SessionNoteView note={note} />
+              </Card>
+
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('sessionNotes.addAddendum')}</Text>
+                <Text style={styles.hint}>{t('sessionNotes.addendumHint')}</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={addendum}
+                  onChangeText={setAddendum}
+                  placeholder={t('sessionNotes.addendumPlaceholder')}
+                  placeholderTextColor="#9CA3AF"
+                  multiline
+                  textAlignVertical="top"
+                />
+                <TouchableOpacity
+                  style={[styles.secondaryButton, (!addendum.trim() || addAddendum.isPending) && styles.buttonDisabled]}
+                  onPress={handleAddAddendum}
+                  disabled={!addendum.trim() || addAddendum.isPending}
+                >
+                  <Text style={styles.secondaryButtonText}>{t('sessionNotes.addAddendum')}</Text>
+                </TouchableOpacity>
+              </Card>
+            </>
+          ) : (
+            <>
+              {/* Template */}
+              <View style={styles.segmented}>
+                {TEMPLATES.map((template) => (
+                  <TouchableOpacity
+                    key={template}
+                    style={[styles.segment, content.template === template && styles.segmentSelected]}
+                    onPress={() => setContent(changeNoteTemplate(content, template))}
+                  >
+                    <Text style={[styles.segmentText, content.template === template && styles.segmentTextSelected]}>
+                      {t(`sessionNotes.templates.${template}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {SESSION_NOTE_SECTIONS[content.template].map((section) => (
+                <Card key={section} variant="elevated" style={styles.card}>
+                  <Text style={styles.sectionTitle}>{t(`sessionNotes.sections.${section}`)}</Text>
+                  <Text style={styles.hint}>{t(`sessionNotes.hints.${section}`)}</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={content.sections[section] ?? ''}
+                    onChangeText={(value) => setSection(section, value)}
+                    multiline
+                    textAlignVertical="top"
+                  />
+                </Card>
+              ))}
+
+              {/* Goals */}
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('sessionNotes.goals')}</Text>
+                {content.goals.map((goal, index) => (
+                  <View key={goal.id} style={styles.goal}>
+                    <View style={styles.goalHeader}>
+                      <TextInput
+                        style={styles.goalInput}
+                        value={goal.description}
+                        onChangeText={(description) =>
+                          setGoals(content.goals.map((g, i) => (i === index ? { ...g, description } : g)))
+                        }
+                        placeholder={t('sessionNotes.goalPlaceholder')}
+                        placeholderTextColor="#9CA3AF"
+                      />
+                      <TouchableOpacity onPress={() => setGoals(content.goals.filter((g) => g.id !== goal.id))}>
+                        <Ionicons name="trash-outline" size={20} color="#EF4444" />
+                      </TouchableOpacity>
+                    </View>
+                    <View style={styles.chips}>
+                      {GOAL_PROGRESS.map((progress) => {
+                        const isSelected = goal.progress === progress;
+                        return (
+                          <TouchableOpacity
+                            key={progress}
+                            style={[
+                              styles.chip,
+                              isSelected && {
+                                borderColor: GOAL_PROGRESS_COLORS[progress],
+                                backgroundColor: GOAL_PROGRESS_COLORS[progress],
+                              },
+                            ]}
+                            onPress={() =>
+                              setGoals(content.goals.map((g, i) => (i === index ? { ...g, progress } : g)))
+                            }
+                          >
+                            <Text style={[styles.chipText, isSelected && styles.chipTextOnColor]}>
+                              {t(`sessionNotes.progress.${progress}`)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={() =>
+                    setGoals([
+                      ...content.goals,
+                      { id: `goal-${Date.now().toString(36)}`, description: '', progress: 'NOT_STARTED' },
+                    ])
+                  }
+                >
+                  <Ionicons name="add-circle-outline" size={20} color="#4F46E5" />
+                  <Text style={styles.addButtonText}>{t('sessionNotes.addGoal')}</Text>
+                </TouchableOpacity>
+              </Card>
+
+              {/* Interventions */}
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('sessionNotes.interventions')}</Text>
+                <View style={styles.chips}>
+                  {SESSION_NOTE_INTERVENTIONS.map((intervention) => {
+                    const isSelected = content.interventions.includes(intervention);
+                    return (
+                      <TouchableOpacity
+                        key={intervention}
+                        style={[styles.chip, isSelected && styles.chipSelected]}
+                        onPress={() => toggleIntervention(intervention)}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                          {t(`sessionNotes.interventionTypes.${intervention}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </Card>
+
+              {/* Homework */}
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('sessionNotes.homework')}</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={content.homework ?? ''}
+                  onChangeText={(homework) => setContent({ ...content, homework })}
+                  placeholder={t('sessionNotes.homeworkPlaceholder')}
+                  placeholderTextColor="#9CA3AF"
+                  multiline
+                  textAlignVertical="top"
+                />
+              </Card>
+            </>
+          )}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {!isSigned && (
+        <View style={styles.bottomContainer}>
+          <TouchableOpacity
+            style={[styles.primaryButton, signNote.isPending && styles.buttonDisabled]}
+            onPress={handleSign}
+            disabled={signNote.isPending}
+          >
+            {signNote.isPending ? (
+              <ActivityIndicator color="#FFFFFF" size="small" />
+            ) : (
+              <>
+                <Ionicons name="lock-closed-outline" size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>{t('sessionNotes.sign')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  offlineText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginBottom: 12,
+  },
+  historyLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  historyLinkText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  segmented: {
+    flexDirection: 'row',
+    padding: 4,
+    marginBottom: 16,
+    borderRadius: 10,
+    backgroundColor: '#E5E7EB',
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentSelected: {
+    backgroundColor: '#fff',
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  segmentTextSelected: {
+    color: '#111827',
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 10,
+  },
+  textInput: {
+    minHeight: 100,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    color: '#111827',
+  },
+  goal: {
+    marginTop: 12,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  goalInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    color: '#111827',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  chipTextOnColor: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#4F46E5',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
@@ -0,0 +1,574 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useStripe } from '@stripe/stripe-react-native';
+import {
+  useAppointment,
+  useRequestReschedule,
+  useRespondToReschedule,
+} from '@/hooks/useAppointments';
+import {
+  useTherapistAvailability,
+  useTherapistAvailabilitySummary,
+} from '@/hooks/useTherapists';
+import { usePaymentMethods } from '@/hooks/usePayments';
+import { paymentsService } from '@/services/payments';
+import { getReschedulePolicy, getRescheduleTerms } from '@/services/reschedule-policy';
+import { DEFAULT_CURRENCY } from '@/services/currency';
+import { Avatar, Card } from '@/components/ui';
+import { Calendar } from '@/components/calendar';
+import { formatCurrencyFromCents, formatDateTime } from '@/utils/formatting';
+
+export default function RescheduleAppointmentScreen() {
+  const { id, mode } = useLocalSearchParams<{ id: string; mode?: 'propose' }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { confirmPayment } = useStripe();
+
+  // Therapists open this screen to offer an alternative to a client's request
+  const isProposal = mode === 'propose';
+
+  const today = useMemo(() => new Date(), []);
+  const [calendarMonth, setCalendarMonth] = useState(today.getMonth());
+  const [calendarYear, setCalendarYear] = useState(today.getFullYear());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const currentMonth = `${calendarYear}-${String(calendarMonth + 1).padStart(2, '0')}`;
+
+  const { data: appointment, isLoading } = useAppointment(id!);
+  const therapistId = appointment?.therapistId ?? '';
+  const { data: availabilitySummary, isLoading: summaryLoading } =
+    useTherapistAvailabilitySummary(therapistId, currentMonth);
+  const { data: dayAvailability, isLoading: dayLoading } = useTherapistAvailability(
+    therapistId,
+    selectedDate ?? ''
+  );
+  const { data: paymentMethods } = usePaymentMethods();
+  const requestReschedule = useRequestReschedule();
+  const respondToReschedule = useRespondToReschedule();
+
+  const policy = getReschedulePolicy(appointment?.therapist);
+  const terms = appointment ? getRescheduleTerms(appointment, policy) : null;
+  // The fee is in the therapist's currency, like the session price
+  const currency = appointment?.currency ?? DEFAULT_CURRENCY;
+
+  const openSlots = useMemo(() => {
+    if (!dayAvailability?.slots) return [];
+    const bookedTimes = new Set(dayAvailability.bookedSlots?.map((s) => s.startTime) || []);
+    return dayAvailability.slots.filter((slot) => !bookedTimes.has(slot.startTime));
+  }, [dayAvailability]);
+
+  const newScheduledAt =
+    selectedDate && selectedTime ? new Date(`${selectedDate}T${selectedTime}:00`) : null;
+
+  const isSubmitting = isPaying || requestReschedule.isPending || respondToReschedule.isPending;
+
+  const handlePrevMonth = () => {
+    if (calendarMonth === 0) {
+      setCalendarMonth(11);
+      setCalendarYear(calendarYear - 1);
+    } else {
+      setCalendarMonth(calendarMonth - 1);
+    }
+    setSelectedDate(null);
+    setSelectedTime(null);
+  };
+
+  const handleNextMonth = () => {
+    if (calendarMonth === 11) {
+      setCalendarMonth(0);
+      setCalendarYear(calendarYear + 1);
+    } else {
+      setCalendarMonth(calendarMonth + 1);
+    }
+    setSelectedDate(null);
+    setSelectedTime(null);
+  };
+
+  const handleDateSelect = (date: string) => {
+    setSelectedDate(date);
+    setSelectedTime(null);
+  };
+
+  // Collect the reschedule fee on the card used for the original booking
+  const payRescheduleFee = async (fee: number): Promise<string | null> => {
+    const method =
+      paymentMethods?.find((m) => m.isDefault) || paymentMethods?.[0];
+    if (!method) {
+      Alert.alert(t('common.error'), t('appointments.reschedule.noPaymentMethod'));
+      return null;
+    }
+
+    const { clientSecret } = await paymentsService.createPaymentIntent({
+      amount: fee,
+      currency,
+      paymentMethodId: method.id,
+    });
+    const { error: stripeError, paymentIntent } = await confirmPayment(clientSecret, {
+      paymentMethodType: 'Card',
+      paymentMethodData: { paymentMethodId: method.stripePaymentMethodId },
+    });
+
+    if (stripeError) {
+      Alert.alert(t('common.error'), stripeError.message);
+      return null;
+    }
+    if (paymentIntent?.status !== 'Succeeded') {
+      Alert.alert(t('common.error'), t('booking.paymentFailed'));
+      return null;
+    }
+    return paymentIntent.id;
+  };
+
+  const handleSubmit = async () => {
+    if (!appointment || !newScheduledAt) return;
+
+    try {
+      if (isProposal) {
+        await respondToReschedule.mutateAsync({
+          id: appointment.id,
+          response: { action: 'PROPOSE', scheduledAt: newScheduledAt.toISOString() },
+        });
+        Alert.alert(
+          t('appointments.reschedule.proposalSentTitle'),
+          t('appointments.reschedule.proposalSentMessage'),
+          [{ text: t('common.ok'), onPress: () => router.back() }]
+        );
+        return;
+      }
+
+      if (!terms?.allowed) return;
+
+      let stripePaymentIntentId: string | undefined;
+      if (terms.fee > 0) {
+        setIsPaying(true);
+        const paymentIntentId = await payRescheduleFee(terms.fee);
+        setIsPaying(false);
+        if (!paymentIntentId) return;
+        stripePaymentIntentId = paymentIntentId;
+      }
+
+      await requestReschedule.mutateAsync({
+        id: appointment.id,
+        data: { scheduledAt: newScheduledAt.toISOString(), stripePaymentIntentId },
+      });
+      Alert.alert(
+        t('appointments.reschedule.requestSentTitle'),
+        t('appointments.reschedule.requestSentMessage'),
+        [{ text: t('common.ok'), onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      setIsPaying(false);
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!appointment) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const blocked = !isProposal && !terms?.allowed;
+  const canSubmit = !!newScheduledAt && !blocked && !isSubmitting;
+
+  const counterpart = isProposal ? appointment.user : appointment.therapist?.user;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {isProposal ? t('appointments.reschedule.proposeTitle') : t('appointments.reschedule.title')}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Current Appointment */}
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.appointmentRow}>
+            <Avatar
+              source={counterpart?.avatarUrl}
+              name={`${counterpart?.firstName} ${counterpart?.lastName}`}
+              size="md"
+            />
+            <View style={styles.appointmentInfo}>
+              <Text style={styles.therapistName}>
+                {counterpart?.firstName} {counterpart?.lastName}
+              </Text>
+              <Text style={styles.appointmentTime}>
+                {t('appointments.reschedule.currentTime')}: {formatDateTime(appointment.scheduledAt)}
+              </Text>
+              {isProposal && appointment.rescheduleRequest && (
+                <Text style={styles.appointmentTime}>
+                  {t('appointments.reschedule.requestedTime')}:{' '}
+                  {formatDateTime(appointment.rescheduleRequest.proposedAt)}
+                </Text>
+              )}
+            </View>
+          </View>
+        </Card>
+
+        {/* Reschedule Policy */}
+        {!isProposal && terms && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('appointments.reschedule.policyTitle')}</Text>
+
+            <View style={styles.policyItem}>
+              <View style={[styles.policyDot, { backgroundColor: '#10B981' }]} />
+              <Text style={styles.policyText}>
+                {t('appointments.reschedule.policyFree', {
+                  count: policy.freeReschedules,
+                  hours: policy.freeWindowHours,
+                })}
+              </Text>
+            </View>
+            <View style={styles.policyItem}>
+              <View style={[styles.policyDot, { backgroundColor: '#F59E0B' }]} />
+              <Text style={styles.policyText}>
+                {t('appointments.reschedule.policyFee', { percent: policy.feePercent })}
+              </Text>
+            </View>
+            <View style={styles.policyItem}>
+              <View style={[styles.policyDot, { backgroundColor: '#EF4444' }]} />
+              <Text style={styles.policyText}>
+                {t('appointments.reschedule.policyCutoff', { hours: policy.minNoticeHours })}
+              </Text>
+            </View>
+
+            <View style={styles.termsPreview}>
+              <Text style={styles.termsLabel}>{t('appointments.reschedule.yourFee')}</Text>
+              <Text
+                style={[
+                  styles.termsValue,
+                  { color: !terms.allowed ? '#EF4444' : terms.fee > 0 ? '#F59E0B' : '#10B981' },
+                ]}
+              >
+                {!terms.allowed
+                  ? t('appointments.reschedule.notAllowed')
+                  : terms.fee > 0
+                    ? formatCurrencyFromCents(terms.fee, currency)
+                    : t('appointments.reschedule.free')}
+              </Text>
+              <Text style={styles.termsReason}>
+                {t(`appointments.reschedule.reason.${terms.reason}`)}
+              </Text>
+            </View>
+          </Card>
+        )}
+
+        {/* New Time */}
+        {!blocked && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('appointments.reschedule.pickNewTime')}</Text>
+
+            {summaryLoading ? (
+              <ActivityIndicator size="small" color="#4F46E5" style={styles.loader} />
+            ) : (
+              <Calendar
+                month={calendarMonth}
+                year={calendarYear}
+                selectedDate={selectedDate}
+                availabilityData={availabilitySummary?.dates || []}
+                onDateSelect={handleDateSelect}
+                onPrevMonth={handlePrevMonth}
+                onNextMonth={handleNextMonth}
+              />
+            )}
+
+            {selectedDate &&
+              (dayLoading ? (
+                <ActivityIndicator size="small" color="#4F46E5" style={styles.loader} />
+              ) : openSlots.length > 0 ? (
+                <View style={styles.slotsGrid}>
+                  {openSlots.map((slot) => {
+                    const isSelected = selectedTime === slot.startTime;
+                    return (
+                      <TouchableOpacity
+                        key={slot.startTime}
+                        style={[styles.slotItem, isSelected && styles.slotItemSelected]}
+                        onPress={() => setSelectedTime(slot.startTime)}
+                      >
+                        <Text style={[styles.slotText, isSelected && styles.slotTextSelected]}>
+                          {slot.startTime}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Text style={styles.noSlotsText}>{t('booking.noAvailableSlots')}</Text>
+              ))}
+          </Card>
+        )}
+
+        {/* Existing payment carries over */}
+        {!isProposal && !blocked && (
+          <View style={styles.infoRow}>
+            <Ionicons name="card-outline" size={16} color="#6B7280" />
+            <Text style={styles.infoText}>{t('appointments.reschedule.paymentCarriesOver')}</Text>
+          </View>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+
+      {/* Bottom Actions */}
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.confirmButton, !canSubmit && styles.confirmButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.confirmButtonText}>
+              {isProposal
+                ? t('appointments.reschedule.sendProposal')
+                : terms && terms.fee > 0
+                  ? t('appointments.reschedule.payAndRequest', {
+                      amount: formatCurrencyFromCents(terms.fee, currency),
+                    })
+                  : t('appointments.reschedule.sendRequest')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 16,
+  },
+  appointmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  appointmentInfo: {
+    flex: 1,
+  },
+  therapistName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  appointmentTime: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  policyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 12,
+  },
+  policyDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  policyText: {
+    fontSize: 14,
+    color: '#374151',
+    flex: 1,
+  },
+  termsPreview: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  termsLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  termsValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  termsReason: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  slotsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  slotItem: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  slotItemSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  slotText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  slotTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  noSlotsText: {
+    fontSize: 14,
+    color: '#9CA3AF',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  confirmButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#A5B4FC',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
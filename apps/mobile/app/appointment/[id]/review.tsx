@@ -42,6 +42,7 @@ export default function ReviewAppointmentScreen() {
   const [comment, setComment] = useState('');
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
   const successIconScale = useRef(new Animated.Value(0)).current;
 
   const { data: appointment, isLoading } = useAppointment(id!);
@@ -78,7 +79,7 @@ export default function ReviewAppointmentScreen() {
     const fullFeedback = [feedbackTags, comment].filter(Boolean).join('\n\n');
 
     try {
-      await addReview.mutateAsync({
+      const result = await addReview.mutateAsync({
         id: id!,
         reviewData: {
           rating,
@@ -88,6 +89,7 @@ export default function ReviewAppointmentScreen() {
         },
       });
 
+      setIsQueued(result.queued);
       setIsSuccess(true);
       Animated.spring(successIconScale, {
         toValue: 1,
@@ -111,7 +113,9 @@ export default function ReviewAppointmentScreen() {
             <Ionicons name="heart" size={56} color="#4F46E5" />
           </Animated.View>
           <Text style={styles.successTitle}>{t('appointments.review.success')}</Text>
-          <Text style={styles.successMessage}>{t('appointments.review.thankYouDescription')}</Text>
+          <Text style={styles.successMessage}>
+            {isQueued ? t('offline.reviewQueued') : t('appointments.review.thankYouDescription')}
+          </Text>
           <View style={styles.successStars}>
             {[1, 2, 3, 4, 5].map((star) => (
               <Ionicons
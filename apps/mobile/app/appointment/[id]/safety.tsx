@@ -0,0 +1,514 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAddSafetyNote, useReportSafetyConcern, useSafetyIncidents } from '@/hooks/useSafety';
+import { Card } from '@/components/ui';
+import { formatDateTime } from '@/utils/formatting';
+import type {
+  SafetyAction,
+  SafetyConcernCategory,
+  SafetyConcernSeverity,
+  SafetyIncident,
+} from '@/types';
+
+const CATEGORIES: SafetyConcernCategory[] = ['SELF_HARM', 'HARM_TO_OTHERS', 'ABUSE', 'MEDICAL', 'OTHER'];
+const SEVERITIES: SafetyConcernSeverity[] = ['LOW', 'MODERATE', 'HIGH', 'IMMINENT'];
+const ACTIONS: SafetyAction[] = [
+  'PROVIDED_RESOURCES',
+  'SAFETY_PLAN',
+  'CONTACTED_EMERGENCY_CONTACT',
+  'CONTACTED_EMERGENCY_SERVICES',
+];
+
+const SEVERITY_COLORS: Record<SafetyConcernSeverity, string> = {
+  LOW: '#F59E0B',
+  MODERATE: '#F97316',
+  HIGH: '#EF4444',
+  IMMINENT: '#991B1B',
+};
+
+// Enough detail for the clinical team to act on without a follow-up
+const MIN_DESCRIPTION_LENGTH = 20;
+
+function IncidentCard({ incident }: { incident: SafetyIncident }) {
+  const { t } = useTranslation();
+  const addNote = useAddSafetyNote();
+  const [note, setNote] = useState('');
+
+  const handleAddNote = async () => {
+    try {
+      await addNote.mutateAsync({ incidentId: incident.id, note: note.trim() });
+      setNote('');
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  return (
+    <Card variant="elevated" style={styles.card}>
+      <View style={styles.incidentHeader}>
+        <Text style={styles.incidentTitle}>{t(`safety.categories.${incident.category}`)}</Text>
+        <View style={[styles.badge, { backgroundColor: SEVERITY_COLORS[incident.severity] }]}>
+          <Text style={styles.badgeText}>{t(`safety.severities.${incident.severity}`)}</Text>
+        </View>
+      </View>
+      <Text style={styles.incidentStatus}>{t(`safety.statuses.${incident.status}`)}</Text>
+      <Text style={styles.bodyText}>{incident.description}</Text>
+      {incident.actionsTaken.length > 0 && (
+        <Text style={styles.metaText}>
+          {incident.actionsTaken.map((action) => t(`safety.actions.${action}`)).join(' · ')}
+        </Text>
+      )}
+
+      {/* Audit trail */}
+      <View style={styles.timeline}>
+        {incident.events.map((event) => (
+          <View key={event.id} style={styles.timelineItem}>
+            <View style={styles.timelineDot} />
+            <View style={styles.timelineContent}>
+              <Text style={styles.metaText}>
+                {t(`safety.events.${event.type}`)}
+                {event.actorName ? ` · ${event.actorName}` : ''} · {formatDateTime(event.createdAt)}
+              </Text>
+              {!!event.note && <Text style={styles.bodyText}>{event.note}</Text>}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {incident.status !== 'RESOLVED' && (
+        <View style={styles.noteRow}>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder={t('safety.notePlaceholder')}
+            placeholderTextColor="#9CA3AF"
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.noteButton, (!note.trim() || addNote.isPending) && styles.buttonDisabled]}
+            onPress={handleAddNote}
+            disabled={!note.trim() || addNote.isPending}
+          >
+            <Ionicons name="send" size={18} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </Card>
+  );
+}
+
+export default function SafetyConcernScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [category, setCategory] = useState<SafetyConcernCategory | null>(null);
+  const [severity, setSeverity] = useState<SafetyConcernSeverity | null>(null);
+  const [description, setDescription] = useState('');
+  const [actionsTaken, setActionsTaken] = useState<SafetyAction[]>([]);
+
+  const { data: incidents, isLoading } = useSafetyIncidents(id!);
+  const reportConcern = useReportSafetyConcern();
+
+  const canSubmit =
+    !!category &&
+    !!severity &&
+    description.trim().length >= MIN_DESCRIPTION_LENGTH &&
+    !reportConcern.isPending;
+
+  const toggleAction = (action: SafetyAction) => {
+    setActionsTaken((current) =>
+      current.includes(action) ? current.filter((a) => a !== action) : [...current, action]
+    );
+  };
+
+  const handleSubmit = () => {
+    if (!category || !severity) return;
+
+    // Incidents are part of the clinical record and can't be withdrawn
+    Alert.alert(t('safety.confirmTitle'), t('safety.confirmMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('safety.submit'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const incident = await reportConcern.mutateAsync({
+              appointmentId: id!,
+              data: { category, severity, description: description.trim(), actionsTaken },
+            });
+            setCategory(null);
+            setSeverity(null);
+            setDescription('');
+            setActionsTaken([]);
+            Alert.alert(
+              t('safety.recordedTitle'),
+              incident.status === 'ESCALATED' ? t('safety.recordedEscalated') : t('safety.recordedMessage')
+            );
+          } catch (error: any) {
+            Alert.alert(t('common.error'), error?.message || t('errors.general'));
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('safety.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.warningBanner}>
+            <Ionicons name="warning" size={20} color="#991B1B" />
+            <Text style={styles.warningText}>{t('safety.immediateDanger')}</Text>
+          </View>
+
+          {incidents && incidents.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('safety.previous')}</Text>
+              {incidents.map((incident) => (
+                <IncidentCard key={incident.id} incident={incident} />
+              ))}
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>{t('safety.newConcern')}</Text>
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.label}>{t('safety.category')}</Text>
+            {CATEGORIES.map((value) => (
+              <TouchableOpacity key={value} style={styles.option} onPress={() => setCategory(value)}>
+                <Ionicons
+                  name={category === value ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={category === value ? '#4F46E5' : '#D1D5DB'}
+                />
+                <Text style={styles.optionText}>{t(`safety.categories.${value}`)}</Text>
+              </TouchableOpacity>
+            ))}
+
+            <Text style={[styles.label, styles.labelSpaced]}>{t('safety.severity')}</Text>
+            <View style={styles.chips}>
+              {SEVERITIES.map((value) => {
+                const isSelected = severity === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.chip,
+                      isSelected && { borderColor: SEVERITY_COLORS[value], backgroundColor: SEVERITY_COLORS[value] },
+                    ]}
+                    onPress={() => setSeverity(value)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {t(`safety.severities.${value}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.label, styles.labelSpaced]}>{t('safety.description')}</Text>
+            <TextInput
+              style={styles.textInput}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={t('safety.descriptionPlaceholder', { count: MIN_DESCRIPTION_LENGTH })}
+              placeholderTextColor="#9CA3AF"
+              multiline
+              textAlignVertical="top"
+            />
+
+            <Text style={[styles.label, styles.labelSpaced]}>{t('safety.actionsTaken')}</Text>
+            {ACTIONS.map((action) => (
+              <TouchableOpacity key={action} style={styles.option} onPress={() => toggleAction(action)}>
+                <Ionicons
+                  name={actionsTaken.includes(action) ? 'checkbox' : 'square-outline'}
+                  size={20}
+                  color={actionsTaken.includes(action) ? '#4F46E5' : '#D1D5DB'}
+                />
+                <Text style={styles.optionText}>{t(`safety.actions.${action}`)}</Text>
+              </TouchableOpacity>
+            ))}
+          </Card>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.dangerButton, !canSubmit && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+        >
+          {reportConcern.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.dangerButtonText}>{t('safety.submit')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#991B1B',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  incidentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  incidentTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  incidentStatus: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  timeline: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 8,
+  },
+  timelineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+    backgroundColor: '#9CA3AF',
+  },
+  timelineContent: {
+    flex: 1,
+  },
+  noteRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  noteInput: {
+    flex: 1,
+    minHeight: 40,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    color: '#111827',
+  },
+  noteButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#4F46E5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  labelSpaced: {
+    marginTop: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  textInput: {
+    minHeight: 100,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 14,
+    color: '#111827',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  dangerButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#EF4444',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
@@ -0,0 +1,615 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  useAppointment,
+  useAppointmentSeries,
+  useCancelAppointmentSeries,
+  useRescheduleAppointmentSeries,
+  useSeriesConflicts,
+} from '@/hooks/useAppointments';
+import { useTherapistAvailability } from '@/hooks/useTherapists';
+import {
+  formatAvailabilityDate,
+  getAffectedSeriesAppointments,
+  shiftSeriesOccurrences,
+} from '@/services/appointment-series';
+import { Card } from '@/components/ui';
+import { formatDate, formatTime } from '@/utils/formatting';
+import type { SeriesScope, TimeSlot } from '@/types';
+
+const SCOPES: { scope: SeriesScope; labelKey: string }[] = [
+  { scope: 'FUTURE', labelKey: 'appointments.series.scopeFuture' },
+  { scope: 'ALL', labelKey: 'appointments.series.scopeAll' },
+];
+
+export default function ManageSeriesScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [scope, setScope] = useState<SeriesScope>('FUTURE');
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data: appointment, isLoading: appointmentLoading } = useAppointment(id!);
+  const { data: series, isLoading: seriesLoading } = useAppointmentSeries(appointment?.seriesId);
+  const { data: availability, isLoading: availabilityLoading } = useTherapistAvailability(
+    appointment?.therapistId ?? '',
+    selectedDate ? formatAvailabilityDate(selectedDate) : ''
+  );
+  const cancelSeries = useCancelAppointmentSeries();
+  const rescheduleSeries = useRescheduleAppointmentSeries();
+
+  const affected = useMemo(() => {
+    if (!appointment || !series?.appointments) return [];
+    return getAffectedSeriesAppointments(series.appointments, appointment, scope);
+  }, [appointment, series, scope]);
+
+  // The earliest affected booking is the one the new slot applies to
+  const anchor = affected[0];
+
+  const newStart = useMemo(() => {
+    if (!selectedDate || !selectedSlot) return null;
+    const start = new Date(selectedDate);
+    const [hours, minutes] = selectedSlot.startTime.split(':').map(Number);
+    start.setHours(hours, minutes, 0, 0);
+    return start;
+  }, [selectedDate, selectedSlot]);
+
+  const shifted = useMemo(() => {
+    if (!anchor || !newStart) return [];
+    return shiftSeriesOccurrences(affected, anchor, newStart);
+  }, [affected, anchor, newStart]);
+
+  // The anchor's new slot was picked from open slots, so only check the rest
+  const { conflicts: slotConflicts, isLoading: conflictsLoading } = useSeriesConflicts(
+    appointment?.therapistId ?? '',
+    shifted.slice(1)
+  );
+
+  // A slot still held by a session that is itself moving doesn't count
+  const conflicts = useMemo(() => {
+    const movingStarts = new Set(affected.map((a) => new Date(a.scheduledAt).getTime()));
+    const map = new Map(slotConflicts);
+    shifted.forEach((occurrence) => {
+      if (map.get(occurrence.index) === 'booked' && movingStarts.has(occurrence.scheduledAt.getTime())) {
+        map.delete(occurrence.index);
+      }
+    });
+    return map;
+  }, [slotConflicts, affected, shifted]);
+
+  const availableSlots = useMemo(() => {
+    if (!availability?.slots) return [];
+    const bookedTimes = new Set(availability.bookedSlots?.map((s) => s.startTime) || []);
+    return availability.slots.filter((slot) => !bookedTimes.has(slot.startTime));
+  }, [availability]);
+
+  const calendarDates = useMemo(() => {
+    const dates: Date[] = [];
+    const today = new Date();
+    for (let i = 0; i < 30; i++) {
+      const date = new Date(today);
+      date.setDate(today.getDate() + i);
+      dates.push(date);
+    }
+    return dates;
+  }, []);
+
+  const handleScopeChange = (next: SeriesScope) => {
+    setScope(next);
+    setSelectedSlot(null);
+  };
+
+  const handleReschedule = async () => {
+    if (!series || !anchor || !newStart) return;
+
+    if (conflicts.size > 0) {
+      Alert.alert(t('common.error'), t('appointments.series.rescheduleConflicts'));
+      return;
+    }
+
+    try {
+      await rescheduleSeries.mutateAsync({
+        seriesId: series.id,
+        data: {
+          scope,
+          fromAppointmentId: anchor.id,
+          scheduledAt: newStart.toISOString(),
+        },
+      });
+      Alert.alert(
+        t('appointments.series.rescheduledTitle'),
+        t('appointments.series.rescheduledMessage', { count: affected.length }),
+        [{ text: t('common.ok'), onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const handleCancel = () => {
+    if (!series || !anchor) return;
+
+    Alert.alert(
+      t('appointments.series.cancelTitle'),
+      t('appointments.series.cancelConfirm', { count: affected.length }),
+      [
+        { text: t('common.back'), style: 'cancel' },
+        {
+          text: t('appointments.cancel.confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await cancelSeries.mutateAsync({
+                seriesId: series.id,
+                data: {
+                  scope,
+                  fromAppointmentId: anchor.id,
+                  reason: cancelReason.trim() || t('appointments.series.defaultCancelReason'),
+                },
+              });
+              router.replace('/(tabs)/appointments');
+            } catch (error: any) {
+              Alert.alert(t('common.error'), error?.message || t('errors.general'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (appointmentLoading || seriesLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!appointment || !series) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const isBusy = cancelSeries.isPending || rescheduleSeries.isPending;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('appointments.series.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Scope */}
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('appointments.series.applyTo')}</Text>
+          {SCOPES.map((option) => (
+            <TouchableOpacity
+              key={option.scope}
+              style={[styles.scopeOption, scope === option.scope && styles.scopeOptionSelected]}
+              onPress={() => handleScopeChange(option.scope)}
+            >
+              <View style={[styles.radioOuter, scope === option.scope && styles.radioOuterSelected]}>
+                {scope === option.scope && <View style={styles.radioInner} />}
+              </View>
+              <Text style={styles.scopeText}>{t(option.labelKey)}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <View style={styles.sessionList}>
+            {affected.map((item) => (
+              <View key={item.id} style={styles.sessionRow}>
+                <Ionicons
+                  name={item.id === appointment.id ? 'radio-button-on' : 'ellipse-outline'}
+                  size={14}
+                  color="#4F46E5"
+                />
+                <Text style={styles.sessionText}>
+                  {formatDate(item.scheduledAt, { weekday: 'short', month: 'short', day: 'numeric' })}{' '}
+                  · {formatTime(item.scheduledAt)}
+                </Text>
+              </View>
+            ))}
+            {affected.length === 0 && (
+              <Text style={styles.hintText}>{t('appointments.series.nothingToChange')}</Text>
+            )}
+          </View>
+        </Card>
+
+        {/* Reschedule */}
+        {anchor && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('appointments.series.rescheduleTitle')}</Text>
+            <Text style={styles.hintText}>{t('appointments.series.rescheduleHint')}</Text>
+
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.dateScrollContent}
+            >
+              {calendarDates.map((date) => {
+                const isSelected = selectedDate?.toDateString() === date.toDateString();
+                return (
+                  <TouchableOpacity
+                    key={date.toDateString()}
+                    style={[styles.dateItem, isSelected && styles.dateItemSelected]}
+                    onPress={() => {
+                      setSelectedDate(date);
+                      setSelectedSlot(null);
+                    }}
+                  >
+                    <Text style={[styles.dateDayName, isSelected && styles.dateTextSelected]}>
+                      {date.toLocaleDateString('en', { weekday: 'short' })}
+                    </Text>
+                    <Text style={[styles.dateDay, isSelected && styles.dateTextSelected]}>
+                      {date.getDate()}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {selectedDate &&
+              (availabilityLoading ? (
+                <ActivityIndicator size="small" color="#4F46E5" style={styles.loader} />
+              ) : availableSlots.length > 0 ? (
+                <View style={styles.slotsGrid}>
+                  {availableSlots.map((slot) => {
+                    const isSelected = selectedSlot?.startTime === slot.startTime;
+                    return (
+                      <TouchableOpacity
+                        key={slot.startTime}
+                        style={[styles.slotItem, isSelected && styles.slotItemSelected]}
+                        onPress={() => setSelectedSlot(slot)}
+                      >
+                        <Text style={[styles.slotText, isSelected && styles.slotTextSelected]}>
+                          {slot.startTime}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : (
+                <Text style={styles.hintText}>{t('booking.noAvailableSlots')}</Text>
+              ))}
+
+            {/* Preview of where each session moves to */}
+            {shifted.length > 0 && (
+              <View style={styles.sessionList}>
+                {conflictsLoading && (
+                  <ActivityIndicator size="small" color="#4F46E5" style={styles.loader} />
+                )}
+                {shifted.map((occurrence) => {
+                  const conflict = conflicts.get(occurrence.index);
+                  return (
+                    <View key={occurrence.index} style={styles.sessionRow}>
+                      <Ionicons
+                        name={conflict ? 'alert-circle' : 'checkmark-circle'}
+                        size={16}
+                        color={conflict ? '#EF4444' : '#10B981'}
+                      />
+                      <Text style={styles.sessionText}>
+                        {formatDate(occurrence.scheduledAt, {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric',
+                        })}{' '}
+                        · {occurrence.startTime}
+                      </Text>
+                      {conflict && (
+                        <Text style={styles.conflictLabel}>
+                          {t(`booking.repeat.conflict.${conflict}`)}
+                        </Text>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                (!newStart || conflicts.size > 0 || conflictsLoading || isBusy) &&
+                  styles.buttonDisabled,
+              ]}
+              onPress={handleReschedule}
+              disabled={!newStart || conflicts.size > 0 || conflictsLoading || isBusy}
+            >
+              {rescheduleSeries.isPending ? (
+                <ActivityIndicator color="#FFFFFF" size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {t('appointments.series.moveSessions', { count: affected.length })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </Card>
+        )}
+
+        {/* Cancel */}
+        {anchor && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('appointments.series.cancelTitle')}</Text>
+            <TextInput
+              style={styles.reasonInput}
+              placeholder={t('appointments.cancel.reasonPlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              value={cancelReason}
+              onChangeText={setCancelReason}
+              multiline
+              textAlignVertical="top"
+            />
+            <TouchableOpacity
+              style={[styles.dangerButton, isBusy && styles.buttonDisabled]}
+              onPress={handleCancel}
+              disabled={isBusy}
+            >
+              {cancelSeries.isPending ? (
+                <ActivityIndicator color="#EF4444" size="small" />
+              ) : (
+                <Text style={styles.dangerButtonText}>
+                  {t('appointments.series.cancelSessions', { count: affected.length })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </Card>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  scopeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  scopeOptionSelected: {
+    backgroundColor: '#EEF2FF',
+  },
+  scopeText: {
+    fontSize: 15,
+    color: '#111827',
+  },
+  radioOuter: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radioOuterSelected: {
+    borderColor: '#4F46E5',
+  },
+  radioInner: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#4F46E5',
+  },
+  sessionList: {
+    marginTop: 12,
+    gap: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sessionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  conflictLabel: {
+    fontSize: 12,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  dateScrollContent: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  dateItem: {
+    width: 56,
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  dateItemSelected: {
+    backgroundColor: '#4F46E5',
+  },
+  dateDayName: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  dateDay: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  dateTextSelected: {
+    color: '#fff',
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  slotsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  slotItem: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  slotItemSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  slotText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  slotTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  reasonInput: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+  },
+  dangerButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FCA5A5',
+    backgroundColor: '#FEF2F2',
+    marginTop: 12,
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
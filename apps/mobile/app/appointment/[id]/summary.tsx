@@ -14,6 +14,10 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAppointment } from '@/hooks/useAppointments';
+import { useAppointmentAssignments, useDeleteAssignment } from '@/hooks/useAssignments';
+import { useAuthStore } from '@/store/auth';
+import { sortAssignments } from '@/services/assignment-status';
+import { AssignmentRow } from '@/components/assignments/AssignmentRow';
 import { Avatar, Card } from '@/components/ui';
 import { formatCurrencyFromCents } from '@/utils/formatting';
 
@@ -21,8 +25,12 @@ export default function SessionSummaryScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const isTherapist = user?.role === 'THERAPIST';
 
   const { data: appointment, isLoading } = useAppointment(id!);
+  const { data: assignments } = useAppointmentAssignments(id!);
+  const deleteAssignment = useDeleteAssignment();
 
   const handleShare = async () => {
     if (!appointment) return;
@@ -39,7 +47,7 @@ export default function SessionSummaryScreen() {
       minute: '2-digit',
       hour12: true,
     });
-    const amount = formatCurrencyFromCents(appointment.amount);
+    const amount = formatCurrencyFromCents(appointment.amount, appointment.currency);
 
     const message = [
       'Session Summary',
@@ -61,6 +69,20 @@ export default function SessionSummaryScreen() {
     }
   };
 
+  const handleRemoveAssignment = (assignmentId: string) => {
+    Alert.alert(t('assignments.removeTitle'), t('assignments.removeMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () =>
+          deleteAssignment.mutate(assignmentId, {
+            onError: (error: any) => Alert.alert(t('common.error'), error?.message || t('errors.general')),
+          }),
+      },
+    ]);
+  };
+
   const handleBookNext = () => {
     if (!appointment?.therapist?.id) return;
     router.push(`/book/${appointment.therapist.id}`);
@@ -87,6 +109,7 @@ export default function SessionSummaryScreen() {
 
   const therapistName = `${appointment.therapist?.user.firstName} ${appointment.therapist?.user.lastName}`;
   const platformFee = Math.round(appointment.amount * 0.2);
+  const sortedAssignments = sortAssignments(assignments ?? []);
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -195,18 +218,40 @@ export default function SessionSummaryScreen() {
           </Card>
         )}
 
+        {/* Homework */}
+        {(isTherapist || sortedAssignments.length > 0) && (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionLabel}>{t('assignments.sessionTitle')}</Text>
+            {sortedAssignments.length === 0 && (
+              <Text style={styles.notesText}>{t('assignments.sessionEmpty')}</Text>
+            )}
+            {sortedAssignments.map((assignment) => (
+              <AssignmentRow
+                key={assignment.id}
+                assignment={assignment}
+                onPress={() => router.push(`/assignments/${assignment.id}` as any)}
+                onRemove={
+                  isTherapist && assignment.status !== 'COMPLETED'
+                    ? () => handleRemoveAssignment(assignment.id)
+                    : undefined
+                }
+              />
+            ))}
+          </Card>
+        )}
+
         {/* Invoice */}
         <Card variant="elevated" style={styles.card}>
           <Text style={styles.sectionLabel}>{t('appointments.summary.amountPaid')}</Text>
 
           <View style={styles.invoiceRow}>
             <Text style={styles.invoiceLabel}>Session fee</Text>
-            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(appointment.amount)}</Text>
+            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(appointment.amount, appointment.currency)}</Text>
           </View>
 
           <View style={styles.invoiceRow}>
             <Text style={styles.invoiceLabel}>Platform fee</Text>
-            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(platformFee)}</Text>
+            <Text style={styles.invoiceValue}>{formatCurrencyFromCents(platformFee, appointment.currency)}</Text>
           </View>
 
           <View style={styles.invoiceDivider} />
@@ -214,7 +259,7 @@ export default function SessionSummaryScreen() {
           <View style={styles.invoiceRow}>
             <Text style={styles.invoiceTotalLabel}>Total paid</Text>
             <Text style={styles.invoiceTotalValue}>
-              {formatCurrencyFromCents(appointment.amount)}
+              {formatCurrencyFromCents(appointment.amount, appointment.currency)}
             </Text>
           </View>
 
@@ -248,10 +293,20 @@ export default function SessionSummaryScreen() {
 
       {/* Bottom CTA */}
       <View style={styles.bottomContainer}>
-        <TouchableOpacity style={styles.bookNextButton} onPress={handleBookNext}>
-          <Ionicons name="calendar" size={20} color="#FFFFFF" />
-          <Text style={styles.bookNextText}>{t('appointments.summary.bookNextSession')}</Text>
-        </TouchableOpacity>
+        {isTherapist ? (
+          <TouchableOpacity
+            style={styles.bookNextButton}
+            onPress={() => router.push(`/appointment/${appointment.id}/assignment` as any)}
+          >
+            <Ionicons name="checkbox-outline" size={20} color="#FFFFFF" />
+            <Text style={styles.bookNextText}>{t('assignments.add')}</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.bookNextButton} onPress={handleBookNext}>
+            <Ionicons name="calendar" size={20} color="#FFFFFF" />
+            <Text style={styles.bookNextText}>{t('appointments.summary.bookNextSession')}</Text>
+          </TouchableOpacity>
+        )}
 
         <TouchableOpacity
           style={styles.appointmentsButton}
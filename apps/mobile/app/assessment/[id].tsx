@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { useAssessmentRequest, useSubmitAssessment } from '@/hooks/useAssessments';
+import {
+  ASSESSMENTS,
+  ASSESSMENT_RESPONSE_VALUES,
+  SEVERITY_COLORS,
+  isAssessmentComplete,
+} from '@/services/assessment-scoring';
+import { Card } from '@/components/ui';
+import type { AssessmentResult } from '@/types';
+
+export default function AssessmentScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [result, setResult] = useState<AssessmentResult | null>(null);
+
+  const { data: request, isLoading } = useAssessmentRequest(id!);
+  const submitAssessment = useSubmitAssessment();
+
+  const definition = request ? ASSESSMENTS[request.type] : null;
+  const items = definition
+    ? Array.from({ length: definition.itemCount }, (_, i) => answers[i] ?? null)
+    : [];
+  const answeredCount = items.filter((answer) => answer !== null).length;
+  const canSubmit = !!request && isAssessmentComplete(request.type, items);
+
+  const handleSelect = (index: number, value: number) => {
+    setAnswers(items.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  const handleSubmit = async () => {
+    if (!request || !isAssessmentComplete(request.type, items)) return;
+
+    try {
+      const submitted = await submitAssessment.mutateAsync({ requestId: request.id, answers: items });
+      setResult(submitted);
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!request || !definition) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const isClosed = request.status !== 'PENDING' && !result;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t(`assessments.types.${request.type}`)}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {result ? (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assessments.resultTitle')}</Text>
+            <Text style={styles.score}>
+              {result.score}
+              <Text style={styles.maxScore}>/{definition.maxScore}</Text>
+            </Text>
+            <View style={[styles.severityBadge, { backgroundColor: SEVERITY_COLORS[result.severity] }]}>
+              <Text style={styles.severityText}>{t(`assessments.severity.${result.severity}`)}</Text>
+            </View>
+            <Text style={styles.description}>{t('assessments.sharedWithTherapist')}</Text>
+
+            {result.flagged && (
+              <View style={styles.supportBanner}>
+                <Ionicons name="heart" size={20} color="#EF4444" />
+                <Text style={styles.supportText}>{t('assessments.riskSupport')}</Text>
+              </View>
+            )}
+          </Card>
+        ) : isClosed ? (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.description}>
+              {request.status === 'COMPLETED' ? t('assessments.alreadyCompleted') : t('assessments.expired')}
+            </Text>
+          </Card>
+        ) : (
+          <>
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.sectionTitle}>{t('assessments.instructions')}</Text>
+              <Text style={styles.description}>
+                {t('assessments.dueBy', { date: format(new Date(request.dueAt), 'EEEE, MMM d · h:mm a') })}
+              </Text>
+            </Card>
+
+            {items.map((answer, index) => (
+              <Card key={index} variant="elevated" style={styles.card}>
+                <Text style={styles.itemText}>
+                  {index + 1}. {t(`assessments.items.${request.type}.q${index + 1}`)}
+                </Text>
+                {ASSESSMENT_RESPONSE_VALUES.map((value) => {
+                  const isSelected = answer === value;
+                  return (
+                    <TouchableOpacity
+                      key={value}
+                      style={[styles.option, isSelected && styles.optionSelected]}
+                      onPress={() => handleSelect(index, value)}
+                    >
+                      <Ionicons
+                        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                        size={20}
+                        color={isSelected ? '#4F46E5' : '#D1D5DB'}
+                      />
+                      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                        {t(`assessments.responses.${value}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </Card>
+            ))}
+          </>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        {result || isClosed ? (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+            <Text style={styles.primaryButtonText}>{t('common.done')}</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, (!canSubmit || submitAssessment.isPending) && styles.buttonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit || submitAssessment.isPending}
+          >
+            {submitAssessment.isPending ? (
+              <ActivityIndicator color="#FFFFFF" size="small" />
+            ) : (
+              <Text style={styles.primaryButtonText}>
+                {t('assessments.submit', { answered: answeredCount, total: definition.itemCount })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  description: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  itemText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+    marginBottom: 12,
+    lineHeight: 22,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  score: {
+    fontSize: 40,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 12,
+  },
+  maxScore: {
+    fontSize: 20,
+    fontWeight: '500',
+    color: '#9CA3AF',
+  },
+  severityBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  severityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  supportBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FEF2F2',
+  },
+  supportText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#991B1B',
+    lineHeight: 20,
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
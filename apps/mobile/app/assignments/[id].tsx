@@ -0,0 +1,428 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  KeyboardAvoidingView,
+  Linking,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import { useAssignment, useReplyToAssignment, useSetAssignmentCompleted } from '@/hooks/useAssignments';
+import { DUE_STATE_COLORS, getAssignmentDueState, getAssignmentIcon } from '@/services/assignment-status';
+import { useAuthStore } from '@/store/auth';
+import { formatDateTime } from '@/utils/formatting';
+import { Card } from '@/components/ui';
+
+export default function AssignmentScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const isTherapist = user?.role === 'THERAPIST';
+
+  const { data: assignment, isLoading } = useAssignment(id!);
+  const setCompleted = useSetAssignmentCompleted();
+  const reply = useReplyToAssignment();
+
+  const [message, setMessage] = useState('');
+
+  const handleToggleCompleted = async () => {
+    if (!assignment) return;
+    try {
+      await setCompleted.mutateAsync({ id: assignment.id, completed: assignment.status !== 'COMPLETED' });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const handleReply = async () => {
+    if (!assignment || !message.trim()) return;
+    try {
+      await reply.mutateAsync({ id: assignment.id, body: message.trim() });
+      setMessage('');
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!assignment) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const state = getAssignmentDueState(assignment);
+  const isCompleted = assignment.status === 'COMPLETED';
+  const dueDate = assignment.dueDate ? format(parseISO(assignment.dueDate), 'EEEE, MMM d') : '';
+  const therapistName = assignment.therapist
+    ? `${assignment.therapist.user.firstName} ${assignment.therapist.user.lastName}`
+    : null;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t(`assignments.types.${assignment.type}`)}</Text>
+        {isTherapist ? (
+          <TouchableOpacity
+            onPress={() => router.push(`/appointment/${assignment.appointmentId}` as any)}
+            style={styles.headerButton}
+          >
+            <Ionicons name="calendar-outline" size={22} color="#4F46E5" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Card variant="elevated" style={styles.card}>
+            <View style={styles.titleRow}>
+              <View style={styles.typeIcon}>
+                <Ionicons name={getAssignmentIcon(assignment.type)} size={22} color="#4F46E5" />
+              </View>
+              <View style={styles.titleContent}>
+                <Text style={styles.title}>{assignment.title}</Text>
+                <Text style={[styles.dueText, { color: DUE_STATE_COLORS[state] }]}>
+                  {t(`assignments.dueStates.${state}`, { date: dueDate })}
+                </Text>
+              </View>
+            </View>
+            {therapistName && !isTherapist && (
+              <Text style={styles.meta}>{t('assignments.assignedBy', { name: therapistName })}</Text>
+            )}
+            {assignment.instructions && <Text style={styles.instructions}>{assignment.instructions}</Text>}
+            {assignment.resourceUrl && (
+              <TouchableOpacity style={styles.linkButton} onPress={() => Linking.openURL(assignment.resourceUrl!)}>
+                <Ionicons name="open-outline" size={18} color="#4F46E5" />
+                <Text style={styles.linkText} numberOfLines={1}>{assignment.resourceUrl}</Text>
+              </TouchableOpacity>
+            )}
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('assignments.replies')}</Text>
+            {assignment.replies.length === 0 ? (
+              <Text style={styles.emptyText}>
+                {isTherapist ? t('assignments.noRepliesTherapist') : t('assignments.noReplies')}
+              </Text>
+            ) : (
+              assignment.replies.map((item) => {
+                const isMine = item.authorId === user?.id;
+                return (
+                  <View key={item.id} style={[styles.reply, isMine && styles.replyMine]}>
+                    <Text style={styles.replyAuthor}>
+                      {item.authorName}  ·  {formatDateTime(item.createdAt)}
+                    </Text>
+                    <Text style={styles.replyBody}>{item.body}</Text>
+                  </View>
+                );
+              })
+            )}
+            <View style={styles.replyInputRow}>
+              <TextInput
+                style={styles.replyInput}
+                value={message}
+                onChangeText={setMessage}
+                placeholder={t('assignments.replyPlaceholder')}
+                placeholderTextColor="#9CA3AF"
+                multiline
+                maxLength={2000}
+              />
+              <TouchableOpacity
+                style={[styles.sendButton, (!message.trim() || reply.isPending) && styles.buttonDisabled]}
+                onPress={handleReply}
+                disabled={!message.trim() || reply.isPending}
+              >
+                {reply.isPending ? (
+                  <ActivityIndicator color="#FFFFFF" size="small" />
+                ) : (
+                  <Ionicons name="send" size={18} color="#FFFFFF" />
+                )}
+              </TouchableOpacity>
+            </View>
+          </Card>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {!isTherapist && (
+        <View style={styles.bottomContainer}>
+          <TouchableOpacity
+            style={[
+              isCompleted ? styles.secondaryButton : styles.primaryButton,
+              setCompleted.isPending && styles.buttonDisabled,
+            ]}
+            onPress={handleToggleCompleted}
+            disabled={setCompleted.isPending}
+          >
+            {setCompleted.isPending ? (
+              <ActivityIndicator color={isCompleted ? '#4F46E5' : '#FFFFFF'} size="small" />
+            ) : (
+              <>
+                <Ionicons
+                  name={isCompleted ? 'arrow-undo-outline' : 'checkmark-circle-outline'}
+                  size={20}
+                  color={isCompleted ? '#4F46E5' : '#FFFFFF'}
+                />
+                <Text style={isCompleted ? styles.secondaryButtonText : styles.primaryButtonText}>
+                  {isCompleted ? t('assignments.markNotDone') : t('assignments.markDone')}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  typeIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  titleContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  dueText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  instructions: {
+    fontSize: 15,
+    color: '#374151',
+    lineHeight: 22,
+    marginTop: 12,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  reply: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  replyMine: {
+    backgroundColor: '#EEF2FF',
+  },
+  replyAuthor: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  replyBody: {
+    fontSize: 14,
+    color: '#111827',
+    lineHeight: 20,
+  },
+  replyInputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  replyInput: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 15,
+    color: '#111827',
+  },
+  sendButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    backgroundColor: '#4F46E5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#EEF2FF',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
@@ -0,0 +1,173 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMyAssignments } from '@/hooks/useAssignments';
+import { sortAssignments, summarizeCompletion } from '@/services/assignment-status';
+import { AssignmentRow } from '@/components/assignments/AssignmentRow';
+import { Card, EmptyState } from '@/components/ui';
+
+export default function AssignmentsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const { data, isLoading, isRefetching, refetch } = useMyAssignments();
+
+  const assignments = sortAssignments(data ?? []);
+  const open = assignments.filter((assignment) => assignment.status !== 'COMPLETED');
+  const completed = assignments.filter((assignment) => assignment.status === 'COMPLETED');
+  const { overdue } = summarizeCompletion(assignments);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('assignments.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      >
+        {assignments.length === 0 ? (
+          <EmptyState
+            icon="checkbox-outline"
+            title={t('assignments.empty')}
+            description={t('assignments.emptyDescription')}
+          />
+        ) : (
+          <>
+            {overdue > 0 && (
+              <View style={styles.overdueBanner}>
+                <Ionicons name="alert-circle-outline" size={18} color="#B91C1C" />
+                <Text style={styles.overdueText}>{t('assignments.overdueCount', { count: overdue })}</Text>
+              </View>
+            )}
+
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.sectionTitle}>{t('assignments.open')}</Text>
+              {open.length === 0 ? (
+                <Text style={styles.emptyText}>{t('assignments.allDone')}</Text>
+              ) : (
+                open.map((assignment) => (
+                  <AssignmentRow
+                    key={assignment.id}
+                    assignment={assignment}
+                    onPress={() => router.push(`/assignments/${assignment.id}` as any)}
+                  />
+                ))
+              )}
+            </Card>
+
+            {completed.length > 0 && (
+              <Card variant="elevated" style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('assignments.completed')}</Text>
+                {completed.map((assignment) => (
+                  <AssignmentRow
+                    key={assignment.id}
+                    assignment={assignment}
+                    onPress={() => router.push(`/assignments/${assignment.id}` as any)}
+                  />
+                ))}
+              </Card>
+            )}
+          </>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    paddingVertical: 8,
+  },
+  overdueBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: '#FEF2F2',
+  },
+  overdueText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#B91C1C',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
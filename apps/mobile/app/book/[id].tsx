@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -15,12 +15,40 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useStripe } from '@stripe/stripe-react-native';
-import { useTherapist, useTherapistAvailability } from '@/hooks/useTherapists';
+import { addMonths, format, parseISO } from 'date-fns';
+import {
+  useTherapist,
+  useTherapistAvailability,
+  useTherapistAvailabilitySummary,
+} from '@/hooks/useTherapists';
+import { useFirstAvailableSlot, useSuggestedSlots } from '@/hooks/useSlotSuggestions';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
+import { useSessionPackages, useWalletBalances } from '@/hooks/useWallet';
 import { usePaymentMethods } from '@/hooks/usePayments';
-import { useCreateAppointment } from '@/hooks/useAppointments';
+import {
+  useCreateAppointment,
+  useCreateAppointmentSeries,
+  useSeriesConflicts,
+} from '@/hooks/useAppointments';
+import { useWaitlistOffer } from '@/hooks/useWaitlist';
 import { paymentsService } from '@/services/payments';
-import { formatCurrencyFromCents, formatDate } from '@/utils/formatting';
-import type { TimeSlot, PaymentMethod } from '@/types';
+import { getHoldSecondsRemaining, isOfferClaimable } from '@/services/waitlist';
+import { FIRST_AVAILABLE_MONTHS, SlotChoice, getFreeSlots } from '@/services/slot-suggestions';
+import { DEFAULT_CURRENCY } from '@/services/currency';
+import {
+  MAX_PACKAGE_DISCOUNT_PERCENT,
+  findPackageForBooking,
+  getPackageSessionsLeft,
+  getWalletBalance,
+  planBookingFunding,
+} from '@/services/wallet';
+import {
+  MAX_SERIES_OCCURRENCES,
+  buildSeriesOccurrences,
+} from '@/services/appointment-series';
+import { formatCurrencyFromCents, formatDate, formatDateShort } from '@/utils/formatting';
+import { AvailabilityHeatmap } from '@/components/calendar';
+import type { Appointment, TimeSlot, PaymentMethod, RecurrenceFrequency } from '@/types';
 
 const DURATIONS = [
   { minutes: 30, label: '30 min' },
@@ -28,8 +56,17 @@ const DURATIONS = [
   { minutes: 90, label: '90 min' },
 ];
 
+const REPEAT_OPTIONS: { frequency: RecurrenceFrequency | null; labelKey: string }[] = [
+  { frequency: null, labelKey: 'booking.repeat.never' },
+  { frequency: 'WEEKLY', labelKey: 'booking.repeat.weekly' },
+  { frequency: 'BIWEEKLY', labelKey: 'booking.repeat.biweekly' },
+];
+
+const DEFAULT_SERIES_COUNT = 6;
+
 export default function BookAppointmentScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // offerId comes from a waitlist notification and claims the slot it holds
+  const { id, offerId } = useLocalSearchParams<{ id: string; offerId?: string }>();
   const router = useRouter();
   const { t } = useTranslation();
 
@@ -41,7 +78,16 @@ export default function BookAppointmentScreen() {
   const [bookingNotes, setBookingNotes] = useState('');
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [bookingSuccess, setBookingSuccess] = useState(false);
+  // First booked session, to open its intake form after booking
+  const [bookedAppointment, setBookedAppointment] = useState<Appointment | null>(null);
   const [bookingError, setBookingError] = useState<string | null>(null);
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | null>(null);
+  const [seriesEnd, setSeriesEnd] = useState<'count' | 'until'>('count');
+  const [seriesCount, setSeriesCount] = useState(DEFAULT_SERIES_COUNT);
+  const [seriesUntil, setSeriesUntil] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapMonth, setHeatmapMonth] = useState(() => format(new Date(), 'yyyy-MM'));
 
   const { confirmPayment } = useStripe();
 
@@ -52,9 +98,43 @@ export default function BookAppointmentScreen() {
     selectedDate.toISOString().split('T')[0]
   );
   const { data: paymentMethods, isLoading: paymentMethodsLoading } = usePaymentMethods();
+  const { data: offer } = useWaitlistOffer(offerId);
+  const { data: heatmapSummary, isLoading: heatmapLoading } = useTherapistAvailabilitySummary(
+    id!,
+    showHeatmap ? heatmapMonth : ''
+  );
+  const { data: suggestedSlots } = useSuggestedSlots(id!, selectedDuration);
+  const firstAvailable = useFirstAvailableSlot(id!);
+  const { currency: displayCurrency, convert } = useDisplayCurrency();
+  const { data: walletBalances } = useWalletBalances();
+  const { data: packages } = useSessionPackages();
 
   // Mutations
   const createAppointment = useCreateAppointment();
+  const createSeries = useCreateAppointmentSeries();
+  const isBooking = createAppointment.isPending || createSeries.isPending;
+
+  const isHoldActive = !!offer && isOfferClaimable(offer, now);
+  const holdSeconds = offer ? getHoldSecondsRemaining(offer, now) : 0;
+
+  // Jump straight to the held slot
+  useEffect(() => {
+    if (!offer) return;
+    setSelectedDate(new Date(offer.scheduledAt));
+    setSelectedSlot({ startTime: offer.startTime, endTime: offer.endTime });
+  }, [offer]);
+
+  // Tick the hold countdown
+  useEffect(() => {
+    if (!offer || offer.status !== 'HELD') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [offer]);
+
+  const isOfferDate =
+    !!offer && new Date(offer.scheduledAt).toDateString() === selectedDate.toDateString();
+  const isClaimingOffer =
+    isHoldActive && isOfferDate && selectedSlot?.startTime === offer?.startTime;
 
   // Calculate price based on duration
   const totalPrice = useMemo(() => {
@@ -63,6 +143,79 @@ export default function BookAppointmentScreen() {
     return Math.round((therapist.hourlyRate / 60) * selectedDuration);
   }, [therapist, selectedDuration]);
 
+  // Start of the first session, from the selected day and slot
+  const firstStart = useMemo(() => {
+    if (!selectedSlot) return null;
+    const start = new Date(selectedDate);
+    const [hours, minutes] = selectedSlot.startTime.split(':').map(Number);
+    start.setHours(hours, minutes, 0, 0);
+    return start;
+  }, [selectedDate, selectedSlot]);
+
+  // Every possible end date for the series, offered in "until" mode
+  const seriesEndOptions = useMemo(() => {
+    if (!firstStart || !repeatFrequency) return [];
+    return buildSeriesOccurrences(firstStart, { frequency: repeatFrequency }).slice(1);
+  }, [firstStart, repeatFrequency]);
+
+  const occurrences = useMemo(() => {
+    if (!firstStart || !repeatFrequency) return [];
+    return buildSeriesOccurrences(
+      firstStart,
+      seriesEnd === 'until' && seriesUntil
+        ? { frequency: repeatFrequency, until: seriesUntil }
+        : { frequency: repeatFrequency, count: seriesCount }
+    );
+  }, [firstStart, repeatFrequency, seriesEnd, seriesUntil, seriesCount]);
+
+  const {
+    conflicts,
+    isLoading: conflictsLoading,
+    isError: conflictsError,
+    refetchFailed: refetchConflicts,
+  } = useSeriesConflicts(id!, occurrences);
+
+  // Conflicting sessions are left out of the series rather than blocking it
+  const bookableOccurrences = useMemo(
+    () => occurrences.filter((occurrence) => !conflicts.has(occurrence.index)),
+    [occurrences, conflicts]
+  );
+
+  const sessionCount = repeatFrequency ? bookableOccurrences.length : 1;
+  const bookingTotal = totalPrice * sessionCount;
+
+  // Sessions are charged in the therapist's currency; the client's own is only an estimate
+  const priceCurrency = therapist?.currency ?? DEFAULT_CURRENCY;
+
+  // Prepaid package sessions go first, then wallet balance, then the card
+  const bookingPackage = therapist
+    ? findPackageForBooking(packages ?? [], therapist.id, selectedDuration)
+    : null;
+  const funding = planBookingFunding({
+    sessionPrice: totalPrice,
+    sessionCount,
+    packageSessionsLeft: bookingPackage ? getPackageSessionsLeft(bookingPackage) : 0,
+    walletBalance: getWalletBalance(walletBalances, priceCurrency),
+  });
+
+  // A series can't be booked until we know which sessions to skip
+  const conflictsPending = !!repeatFrequency && conflictsLoading;
+  const canConfirm =
+    !!selectedSlot && (funding.cardAmount === 0 || !!selectedPaymentMethod) && !conflictsPending;
+
+  const displayTotal =
+    displayCurrency !== priceCurrency && funding.cardAmount > 0
+      ? convert(funding.cardAmount, priceCurrency)
+      : null;
+  const conversionNotice =
+    displayTotal !== null
+      ? t('booking.currency.notice', {
+          amount: formatCurrencyFromCents(funding.cardAmount, priceCurrency),
+          currency: priceCurrency,
+          estimate: formatCurrencyFromCents(displayTotal, displayCurrency),
+        })
+      : null;
+
   // Generate calendar dates (next 30 days)
   const calendarDates = useMemo(() => {
     const dates: Date[] = [];
@@ -78,11 +231,16 @@ export default function BookAppointmentScreen() {
   // Filter available slots based on duration
   const availableSlots = useMemo(() => {
     if (!availability?.slots) return [];
-    const bookedTimes = new Set(
-      availability.bookedSlots?.map((s) => s.startTime) || []
-    );
-    return availability.slots.filter((slot) => !bookedTimes.has(slot.startTime));
-  }, [availability]);
+    const slots = getFreeSlots(availability);
+
+    // The held slot shows as booked to everyone, including the user it's held for
+    if (offer && isHoldActive && isOfferDate && !slots.some((slot) => slot.startTime === offer.startTime)) {
+      return [...slots, { startTime: offer.startTime, endTime: offer.endTime }].sort((a, b) =>
+        a.startTime.localeCompare(b.startTime)
+      );
+    }
+    return slots;
+  }, [availability, offer, isHoldActive, isOfferDate]);
 
   // Set default payment method
   useMemo(() => {
@@ -95,69 +253,153 @@ export default function BookAppointmentScreen() {
   const handleDateSelect = useCallback((date: Date) => {
     setSelectedDate(date);
     setSelectedSlot(null); // Reset slot when date changes
+    setSeriesUntil(null);
   }, []);
 
+  // Suggestions and the heatmap work in yyyy-MM-dd; midday keeps the day stable across timezones
+  const toSelectableDate = (date: string) => new Date(`${date}T12:00:00`);
+
+  const handleChoiceSelect = (choice: SlotChoice) => {
+    setSelectedDate(toSelectableDate(choice.date));
+    setSelectedSlot(choice.slot);
+    setSeriesUntil(null);
+  };
+
+  const handleFirstAvailable = () => {
+    firstAvailable.mutate(selectedDuration, {
+      onSuccess: (choice) => {
+        if (choice) {
+          handleChoiceSelect(choice);
+        } else {
+          Alert.alert(
+            t('booking.firstAvailable.noneTitle'),
+            t('booking.firstAvailable.none', { duration: selectedDuration, months: FIRST_AVAILABLE_MONTHS })
+          );
+        }
+      },
+      onError: (error: any) => Alert.alert(t('common.error'), error?.message || t('errors.general')),
+    });
+  };
+
+  const handleHeatmapMonthChange = (offset: number) => {
+    setHeatmapMonth((month) => format(addMonths(parseISO(`${month}-01`), offset), 'yyyy-MM'));
+  };
+
+  const handleRepeatSelect = (frequency: RecurrenceFrequency | null) => {
+    setRepeatFrequency(frequency);
+    setSeriesUntil(null);
+  };
+
   const handleConfirmBooking = async () => {
-    if (!selectedSlot || !selectedPaymentMethod || !therapist) {
+    if (!selectedSlot || (funding.cardAmount > 0 && !selectedPaymentMethod) || !therapist) {
       Alert.alert(t('common.error'), t('booking.pleaseSelectAll'));
       return;
     }
 
+    if (repeatFrequency && seriesEnd === 'until' && !seriesUntil) {
+      Alert.alert(t('common.error'), t('booking.repeat.selectEndDate'));
+      return;
+    }
+
+    if (conflictsPending) return;
+
+    if (repeatFrequency && conflictsError) {
+      refetchConflicts();
+      Alert.alert(t('common.error'), t('booking.repeat.conflictsUnavailable'));
+      return;
+    }
+
+    if (repeatFrequency && bookableOccurrences.length === 0) {
+      Alert.alert(t('common.error'), t('booking.repeat.noBookableSessions'));
+      return;
+    }
+
     setShowConfirmation(true);
   };
 
-  const handleFinalConfirm = async () => {
-    if (!selectedSlot || !selectedPaymentMethod || !therapist) return;
-
+  // Charge the saved card, returning the PaymentIntent id or null when it failed
+  const chargeCard = async (amount: number): Promise<string | null> => {
     // Find the Stripe payment method ID from our saved methods
     const selectedMethod = paymentMethods?.find((m) => m.id === selectedPaymentMethod);
     if (!selectedMethod) {
       setBookingError(t('booking.paymentMethodNotFound'));
-      return;
+      return null;
     }
 
+    // Create PaymentIntent on backend
+    const { clientSecret } = await paymentsService.createPaymentIntent({
+      amount,
+      currency: priceCurrency,
+      displayAmount: displayTotal ?? undefined,
+      displayCurrency: displayTotal !== null ? displayCurrency : undefined,
+      paymentMethodId: selectedMethod.id,
+    });
+
+    // Confirm payment with Stripe using saved payment method
+    const { error: stripeError, paymentIntent } = await confirmPayment(clientSecret, {
+      paymentMethodType: 'Card',
+      paymentMethodData: {
+        paymentMethodId: selectedMethod.stripePaymentMethodId,
+      },
+    });
+
+    if (stripeError) {
+      setBookingError(stripeError.message);
+      return null;
+    }
+
+    if (paymentIntent?.status !== 'Succeeded') {
+      setBookingError(t('booking.paymentFailed'));
+      return null;
+    }
+
+    return paymentIntent.id;
+  };
+
+  const handleFinalConfirm = async () => {
+    if (!firstStart || !therapist) return;
+
     try {
       setBookingError(null);
 
-      // 1. Create PaymentIntent on backend
-      const { clientSecret } = await paymentsService.createPaymentIntent({
-        amount: totalPrice,
-        paymentMethodId: selectedPaymentMethod,
-      });
-
-      // 2. Confirm payment with Stripe using saved payment method
-      const { error: stripeError, paymentIntent } = await confirmPayment(clientSecret, {
-        paymentMethodType: 'Card',
-        paymentMethodData: {
-          paymentMethodId: selectedMethod.stripePaymentMethodId,
-        },
-      });
-
-      if (stripeError) {
-        setBookingError(stripeError.message);
-        return;
-      }
-
-      if (paymentIntent?.status !== 'Succeeded') {
-        setBookingError(t('booking.paymentFailed'));
-        return;
+      // 1. Charge the card for whatever the package and wallet don't cover
+      let stripePaymentIntentId: string | undefined;
+      if (funding.cardAmount > 0) {
+        const paymentIntentId = await chargeCard(funding.cardAmount);
+        if (!paymentIntentId) return;
+        stripePaymentIntentId = paymentIntentId;
       }
 
-      // 3. Create appointment after successful payment
-      const scheduledAt = new Date(selectedDate);
-      const [hours, minutes] = selectedSlot.startTime.split(':').map(Number);
-      scheduledAt.setHours(hours, minutes, 0, 0);
-
-      await createAppointment.mutateAsync({
+      // 2. Create appointment(s) after successful payment
+      const appointmentData = {
         therapistId: therapist.id,
-        scheduledAt: scheduledAt.toISOString(),
         duration: selectedDuration,
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         amount: totalPrice,
+        currency: priceCurrency,
         bookingNotes: bookingNotes.trim() || undefined,
-        paymentMethodId: selectedPaymentMethod,
-        stripePaymentIntentId: paymentIntent.id,
-      });
+        paymentMethodId: stripePaymentIntentId ? selectedPaymentMethod ?? undefined : undefined,
+        stripePaymentIntentId,
+        packageId: funding.packageSessions > 0 ? bookingPackage?.id : undefined,
+        walletAmount: funding.walletAmount || undefined,
+        waitlistOfferId: isClaimingOffer ? offer?.id : undefined,
+      };
+
+      if (repeatFrequency) {
+        const series = await createSeries.mutateAsync({
+          ...appointmentData,
+          frequency: repeatFrequency,
+          occurrences: bookableOccurrences.map((o) => o.scheduledAt.toISOString()),
+          until: seriesEnd === 'until' ? seriesUntil ?? undefined : undefined,
+        });
+        setBookedAppointment(series.appointments?.[0] ?? null);
+      } else {
+        const appointment = await createAppointment.mutateAsync({
+          ...appointmentData,
+          scheduledAt: firstStart.toISOString(),
+        });
+        setBookedAppointment(appointment);
+      }
 
       setBookingSuccess(true);
     } catch (error: any) {
@@ -166,7 +408,9 @@ export default function BookAppointmentScreen() {
   };
 
   const handleDismissConfirmation = () => {
-    if (bookingSuccess) {
+    if (bookingSuccess && bookedAppointment?.intake?.status === 'PENDING') {
+      router.replace(`/appointment/${bookedAppointment.id}/intake` as any);
+    } else if (bookingSuccess) {
       router.replace('/(tabs)/appointments');
     } else {
       setShowConfirmation(false);
@@ -238,60 +482,155 @@ export default function BookAppointmentScreen() {
             </Text>
             <Text style={styles.therapistTitle}>{therapist.professionalTitle}</Text>
             <Text style={styles.therapistRate}>
-              {formatCurrencyFromCents(therapist.hourlyRate)}/hr
+              {formatCurrencyFromCents(therapist.hourlyRate, priceCurrency)}/hr
             </Text>
           </View>
         </View>
 
+        {/* Waitlist hold */}
+        {offer && (
+          <View style={[styles.holdBanner, !isHoldActive && styles.holdBannerExpired]}>
+            <Ionicons
+              name={isHoldActive ? 'hourglass-outline' : 'alert-circle-outline'}
+              size={20}
+              color={isHoldActive ? '#4F46E5' : '#DC2626'}
+            />
+            <View style={styles.holdTextContainer}>
+              <Text style={styles.holdTitle}>
+                {isHoldActive ? t('waitlist.hold.title') : t('waitlist.hold.expiredTitle')}
+              </Text>
+              <Text style={styles.holdText}>
+                {isHoldActive
+                  ? t('waitlist.hold.message', {
+                      date: formatDate(offer.scheduledAt, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      }),
+                      time: offer.startTime,
+                      remaining: `${Math.floor(holdSeconds / 60)}:${String(holdSeconds % 60).padStart(2, '0')}`,
+                    })
+                  : t('waitlist.hold.expiredMessage')}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Date Selection */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>{t('booking.selectDate')}</Text>
-          <ScrollView
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            style={styles.dateScroll}
-            contentContainerStyle={styles.dateScrollContent}
-          >
-            {calendarDates.map((date, index) => (
-              <TouchableOpacity
-                key={index}
-                style={[
-                  styles.dateItem,
-                  isDateSelected(date) && styles.dateItemSelected,
-                ]}
-                onPress={() => handleDateSelect(date)}
-              >
-                <Text
-                  style={[
-                    styles.dateDayName,
-                    isDateSelected(date) && styles.dateTextSelected,
-                  ]}
-                >
-                  {isToday(date)
-                    ? t('dates.today')
-                    : date.toLocaleDateString('en', { weekday: 'short' })}
-                </Text>
-                <Text
-                  style={[
-                    styles.dateDay,
-                    isDateSelected(date) && styles.dateTextSelected,
-                  ]}
-                >
-                  {date.getDate()}
-                </Text>
-                <Text
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{t('booking.selectDate')}</Text>
+            <TouchableOpacity style={styles.viewToggle} onPress={() => setShowHeatmap((shown) => !shown)}>
+              <Ionicons name={showHeatmap ? 'list-outline' : 'grid-outline'} size={16} color="#4F46E5" />
+              <Text style={styles.addNewText}>
+                {showHeatmap ? t('booking.heatmap.hide') : t('booking.heatmap.show')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {showHeatmap ? (
+            heatmapLoading ? (
+              <ActivityIndicator size="small" color="#4F46E5" style={styles.slotLoader} />
+            ) : (
+              <AvailabilityHeatmap
+                month={heatmapMonth}
+                selectedDate={format(selectedDate, 'yyyy-MM-dd')}
+                availabilityData={heatmapSummary?.dates ?? []}
+                onDateSelect={(date) => handleDateSelect(toSelectableDate(date))}
+                onPrevMonth={() => handleHeatmapMonthChange(-1)}
+                onNextMonth={() => handleHeatmapMonthChange(1)}
+                canGoBack={heatmapMonth > format(new Date(), 'yyyy-MM')}
+              />
+            )
+          ) : (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.dateScroll}
+              contentContainerStyle={styles.dateScrollContent}
+            >
+              {calendarDates.map((date, index) => (
+                <TouchableOpacity
+                  key={index}
                   style={[
-                    styles.dateMonth,
-                    isDateSelected(date) && styles.dateTextSelected,
+                    styles.dateItem,
+                    isDateSelected(date) && styles.dateItemSelected,
                   ]}
+                  onPress={() => handleDateSelect(date)}
                 >
-                  {date.toLocaleDateString('en', { month: 'short' })}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
+                  <Text
+                    style={[
+                      styles.dateDayName,
+                      isDateSelected(date) && styles.dateTextSelected,
+                    ]}
+                  >
+                    {isToday(date)
+                      ? t('dates.today')
+                      : date.toLocaleDateString('en', { weekday: 'short' })}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.dateDay,
+                      isDateSelected(date) && styles.dateTextSelected,
+                    ]}
+                  >
+                    {date.getDate()}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.dateMonth,
+                      isDateSelected(date) && styles.dateTextSelected,
+                    ]}
+                  >
+                    {date.toLocaleDateString('en', { month: 'short' })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+          {!isHoldActive && (
+            <TouchableOpacity
+              style={styles.firstAvailableButton}
+              onPress={handleFirstAvailable}
+              disabled={firstAvailable.isPending}
+            >
+              {firstAvailable.isPending ? (
+                <ActivityIndicator size="small" color="#4F46E5" />
+              ) : (
+                <Ionicons name="flash-outline" size={16} color="#4F46E5" />
+              )}
+              <Text style={styles.addNewText}>
+                {t('booking.firstAvailable.button', { duration: selectedDuration })}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
+        {/* Suggested times */}
+        {!isHoldActive && !!suggestedSlots?.length && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('booking.suggested.title')}</Text>
+            <View style={styles.slotsGrid}>
+              {suggestedSlots.map((suggestion) => {
+                const isSelected =
+                  format(selectedDate, 'yyyy-MM-dd') === suggestion.date &&
+                  selectedSlot?.startTime === suggestion.slot.startTime;
+                return (
+                  <TouchableOpacity
+                    key={`${suggestion.date}-${suggestion.slot.startTime}`}
+                    style={[styles.slotItem, isSelected && styles.slotItemSelected]}
+                    onPress={() => handleChoiceSelect(suggestion)}
+                  >
+                    <Text style={[styles.slotText, isSelected && styles.slotTextSelected]}>
+                      {format(parseISO(suggestion.date), 'EEE, MMM d')} · {suggestion.slot.startTime}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.seriesHint}>{t('booking.suggested.hint')}</Text>
+          </View>
+        )}
+
         {/* Time Slot Selection */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t('booking.selectTime')}</Text>
@@ -352,7 +691,8 @@ export default function BookAppointmentScreen() {
                   ]}
                 >
                   {formatCurrencyFromCents(
-                    Math.round((therapist.hourlyRate / 60) * duration.minutes)
+                    Math.round((therapist.hourlyRate / 60) * duration.minutes),
+                    priceCurrency
                   )}
                 </Text>
               </TouchableOpacity>
@@ -360,6 +700,151 @@ export default function BookAppointmentScreen() {
           </View>
         </View>
 
+        {/* Repeat */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('booking.repeat.title')}</Text>
+          <View style={styles.durationContainer}>
+            {REPEAT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.labelKey}
+                style={[
+                  styles.repeatItem,
+                  repeatFrequency === option.frequency && styles.durationItemSelected,
+                ]}
+                onPress={() => handleRepeatSelect(option.frequency)}
+              >
+                <Text
+                  style={[
+                    styles.repeatText,
+                    repeatFrequency === option.frequency && styles.durationTextSelected,
+                  ]}
+                >
+                  {t(option.labelKey)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {repeatFrequency && (
+            <>
+              <View style={styles.seriesEndTabs}>
+                {(['count', 'until'] as const).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.seriesEndTab, seriesEnd === mode && styles.seriesEndTabActive]}
+                    onPress={() => setSeriesEnd(mode)}
+                  >
+                    <Text
+                      style={[
+                        styles.seriesEndTabText,
+                        seriesEnd === mode && styles.seriesEndTabTextActive,
+                      ]}
+                    >
+                      {t(mode === 'count' ? 'booking.repeat.afterCount' : 'booking.repeat.until')}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {seriesEnd === 'count' ? (
+                <View style={styles.stepperRow}>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => setSeriesCount((count) => Math.max(2, count - 1))}
+                    disabled={seriesCount <= 2}
+                  >
+                    <Ionicons name="remove" size={20} color={seriesCount <= 2 ? '#D1D5DB' : '#4F46E5'} />
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>
+                    {t('booking.repeat.sessions', { count: seriesCount })}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() =>
+                      setSeriesCount((count) => Math.min(MAX_SERIES_OCCURRENCES, count + 1))
+                    }
+                    disabled={seriesCount >= MAX_SERIES_OCCURRENCES}
+                  >
+                    <Ionicons
+                      name="add"
+                      size={20}
+                      color={seriesCount >= MAX_SERIES_OCCURRENCES ? '#D1D5DB' : '#4F46E5'}
+                    />
+                  </TouchableOpacity>
+                </View>
+              ) : !selectedSlot ? (
+                <Text style={styles.seriesHint}>{t('booking.repeat.pickSlotFirst')}</Text>
+              ) : (
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  style={styles.dateScroll}
+                  contentContainerStyle={styles.dateScrollContent}
+                >
+                  {seriesEndOptions.map((option) => (
+                    <TouchableOpacity
+                      key={option.date}
+                      style={[
+                        styles.untilChip,
+                        seriesUntil === option.date && styles.slotItemSelected,
+                      ]}
+                      onPress={() => setSeriesUntil(option.date)}
+                    >
+                      <Text
+                        style={[
+                          styles.slotText,
+                          seriesUntil === option.date && styles.slotTextSelected,
+                        ]}
+                      >
+                        {formatDateShort(option.scheduledAt)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              )}
+
+              {/* Every session in the series, with any that can't be booked */}
+              {occurrences.length > 0 && (
+                <View style={styles.occurrenceList}>
+                  {conflictsLoading && (
+                    <ActivityIndicator size="small" color="#4F46E5" style={styles.slotLoader} />
+                  )}
+                  {occurrences.map((occurrence) => {
+                    const conflict = conflicts.get(occurrence.index);
+                    return (
+                      <View key={occurrence.index} style={styles.occurrenceRow}>
+                        <Ionicons
+                          name={conflict ? 'alert-circle' : 'checkmark-circle'}
+                          size={18}
+                          color={conflict ? '#EF4444' : '#10B981'}
+                        />
+                        <Text style={[styles.occurrenceText, conflict && styles.occurrenceConflict]}>
+                          {formatDate(occurrence.scheduledAt, {
+                            weekday: 'short',
+                            month: 'short',
+                            day: 'numeric',
+                          })}{' '}
+                          · {occurrence.startTime}
+                        </Text>
+                        {conflict && (
+                          <Text style={styles.conflictLabel}>
+                            {t(`booking.repeat.conflict.${conflict}`)}
+                          </Text>
+                        )}
+                      </View>
+                    );
+                  })}
+                  {conflicts.size > 0 && (
+                    <Text style={styles.seriesHint}>
+                      {t('booking.repeat.conflictsSkipped', { count: conflicts.size })}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
         {/* Payment Method Selection */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -368,6 +853,9 @@ export default function BookAppointmentScreen() {
               <Text style={styles.addNewText}>{t('booking.addNew')}</Text>
             </TouchableOpacity>
           </View>
+          {funding.cardAmount === 0 && (
+            <Text style={[styles.seriesHint, styles.coveredHint]}>{t('booking.wallet.covered')}</Text>
+          )}
           {paymentMethodsLoading ? (
             <ActivityIndicator size="small" color="#4F46E5" />
           ) : paymentMethods && paymentMethods.length > 0 ? (
@@ -439,17 +927,71 @@ export default function BookAppointmentScreen() {
         <View style={styles.priceSummary}>
           <View style={styles.priceRow}>
             <Text style={styles.priceLabel}>{t('booking.sessionFee')}</Text>
-            <Text style={styles.priceValue}>{formatCurrencyFromCents(totalPrice)}</Text>
+            <Text style={styles.priceValue}>{formatCurrencyFromCents(totalPrice, priceCurrency)}</Text>
           </View>
+          {repeatFrequency && (
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>{t('booking.repeat.sessionCount')}</Text>
+              <Text style={styles.priceValue}>× {sessionCount}</Text>
+            </View>
+          )}
           <View style={styles.priceRow}>
             <Text style={styles.priceLabel}>{t('booking.platformFee')}</Text>
-            <Text style={styles.priceValue}>{formatCurrencyFromCents(0)}</Text>
+            <Text style={styles.priceValue}>{formatCurrencyFromCents(0, priceCurrency)}</Text>
           </View>
           <View style={styles.priceDivider} />
           <View style={styles.priceRow}>
             <Text style={styles.priceTotalLabel}>{t('booking.total')}</Text>
-            <Text style={styles.priceTotalValue}>{formatCurrencyFromCents(totalPrice)}</Text>
+            <Text style={styles.priceTotalValue}>{formatCurrencyFromCents(bookingTotal, priceCurrency)}</Text>
           </View>
+          {funding.packageSessions > 0 && bookingPackage && (
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>
+                {t('booking.wallet.packageSessions', {
+                  count: funding.packageSessions,
+                  left: getPackageSessionsLeft(bookingPackage),
+                })}
+              </Text>
+              <Text style={styles.priceCredit}>
+                -{formatCurrencyFromCents(totalPrice * funding.packageSessions, priceCurrency)}
+              </Text>
+            </View>
+          )}
+          {funding.walletAmount > 0 && (
+            <View style={styles.priceRow}>
+              <Text style={styles.priceLabel}>{t('booking.wallet.balance')}</Text>
+              <Text style={styles.priceCredit}>-{formatCurrencyFromCents(funding.walletAmount, priceCurrency)}</Text>
+            </View>
+          )}
+          {funding.cardAmount !== bookingTotal && (
+            <View style={styles.priceRow}>
+              <Text style={styles.priceTotalLabel}>{t('booking.wallet.amountDue')}</Text>
+              <Text style={styles.priceTotalValue}>{formatCurrencyFromCents(funding.cardAmount, priceCurrency)}</Text>
+            </View>
+          )}
+          {!bookingPackage && (
+            <TouchableOpacity
+              style={styles.packageLink}
+              onPress={() => router.push(`/book/${id}/package` as any)}
+            >
+              <Ionicons name="pricetags-outline" size={16} color="#4F46E5" />
+              <Text style={styles.addNewText}>
+                {t('booking.wallet.packagePromo', { percent: MAX_PACKAGE_DISCOUNT_PERCENT })}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {displayTotal !== null && (
+            <>
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{t('booking.currency.estimate', { currency: displayCurrency })}</Text>
+                <Text style={styles.priceValue}>≈ {formatCurrencyFromCents(displayTotal, displayCurrency)}</Text>
+              </View>
+              <View style={styles.conversionNotice}>
+                <Ionicons name="swap-horizontal-outline" size={16} color="#6B7280" />
+                <Text style={styles.conversionNoticeText}>{conversionNotice}</Text>
+              </View>
+            </>
+          )}
         </View>
 
         <View style={styles.bottomSpacer} />
@@ -460,10 +1002,10 @@ export default function BookAppointmentScreen() {
         <TouchableOpacity
           style={[
             styles.confirmButton,
-            (!selectedSlot || !selectedPaymentMethod) && styles.confirmButtonDisabled,
+            !canConfirm && styles.confirmButtonDisabled,
           ]}
           onPress={handleConfirmBooking}
-          disabled={!selectedSlot || !selectedPaymentMethod}
+          disabled={!canConfirm}
         >
           <Text style={styles.confirmButtonText}>{t('booking.confirmBooking')}</Text>
         </TouchableOpacity>
@@ -473,7 +1015,7 @@ export default function BookAppointmentScreen() {
       {showConfirmation && (
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
-            {createAppointment.isPending ? (
+            {isBooking ? (
               <View style={styles.processingContainer}>
                 <ActivityIndicator size="large" color="#4F46E5" />
                 <Text style={styles.processingText}>{t('booking.processing')}</Text>
@@ -506,10 +1048,19 @@ export default function BookAppointmentScreen() {
                     <Text style={styles.summaryLabel}>{t('booking.duration')}</Text>
                     <Text style={styles.summaryValue}>{selectedDuration} min</Text>
                   </View>
+                  {repeatFrequency && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{t('booking.repeat.title')}</Text>
+                      <Text style={styles.summaryValue}>
+                        {t(`booking.repeat.${repeatFrequency === 'WEEKLY' ? 'weekly' : 'biweekly'}`)} ·{' '}
+                        {t('booking.repeat.sessions', { count: sessionCount })}
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.summaryRow}>
                     <Text style={styles.summaryLabel}>{t('booking.price')}</Text>
                     <Text style={styles.summaryValue}>
-                      {formatCurrencyFromCents(totalPrice)}
+                      {formatCurrencyFromCents(bookingTotal, priceCurrency)}
                     </Text>
                   </View>
                 </View>
@@ -524,11 +1075,20 @@ export default function BookAppointmentScreen() {
                   <Text style={styles.notificationText}>{t('booking.emailSent')}</Text>
                 </View>
 
+                {bookedAppointment?.intake?.status === 'PENDING' && (
+                  <View style={styles.notificationInfo}>
+                    <Ionicons name="clipboard-outline" size={16} color="#6B7280" />
+                    <Text style={styles.notificationText}>{t('intake.afterBooking')}</Text>
+                  </View>
+                )}
+
                 <TouchableOpacity
                   style={styles.doneButton}
                   onPress={handleDismissConfirmation}
                 >
-                  <Text style={styles.doneButtonText}>{t('common.done')}</Text>
+                  <Text style={styles.doneButtonText}>
+                    {bookedAppointment?.intake?.status === 'PENDING' ? t('intake.complete') : t('common.done')}
+                  </Text>
                 </TouchableOpacity>
               </View>
             ) : (
@@ -554,13 +1114,25 @@ export default function BookAppointmentScreen() {
                     <Text style={styles.summaryLabel}>{t('booking.duration')}</Text>
                     <Text style={styles.summaryValue}>{selectedDuration} min</Text>
                   </View>
+                  {repeatFrequency && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{t('booking.repeat.title')}</Text>
+                      <Text style={styles.summaryValue}>
+                        {t(`booking.repeat.${repeatFrequency === 'WEEKLY' ? 'weekly' : 'biweekly'}`)} ·{' '}
+                        {t('booking.repeat.sessions', { count: sessionCount })}
+                      </Text>
+                    </View>
+                  )}
                   <View style={styles.summaryDivider} />
                   <View style={styles.summaryRow}>
                     <Text style={styles.summaryTotalLabel}>{t('booking.total')}</Text>
                     <Text style={styles.summaryTotalValue}>
-                      {formatCurrencyFromCents(totalPrice)}
+                      {formatCurrencyFromCents(bookingTotal, priceCurrency)}
                     </Text>
                   </View>
+                  {conversionNotice && (
+                    <Text style={styles.conversionNoticeText}>{conversionNotice}</Text>
+                  )}
                 </View>
 
                 {bookingError && (
@@ -582,7 +1154,9 @@ export default function BookAppointmentScreen() {
                     onPress={handleFinalConfirm}
                   >
                     <Text style={styles.payButtonText}>
-                      {t('booking.payNow')} {formatCurrencyFromCents(totalPrice)}
+                      {funding.cardAmount > 0
+                        ? `${t('booking.payNow')} ${formatCurrencyFromCents(funding.cardAmount, priceCurrency)}`
+                        : t('booking.wallet.confirmCovered')}
                     </Text>
                   </TouchableOpacity>
                 </View>
@@ -663,6 +1237,31 @@ const styles = StyleSheet.create({
   therapistAvatar: {
     marginRight: 12,
   },
+  holdBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#EEF2FF',
+    padding: 16,
+    marginBottom: 8,
+  },
+  holdBannerExpired: {
+    backgroundColor: '#FEF2F2',
+  },
+  holdTextContainer: {
+    flex: 1,
+  },
+  holdTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  holdText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+    lineHeight: 18,
+  },
   avatarImage: {
     width: 56,
     height: 56,
@@ -725,6 +1324,19 @@ const styles = StyleSheet.create({
     color: '#4F46E5',
     fontWeight: '500',
   },
+  viewToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  firstAvailableButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+  },
   dateScroll: {
     marginHorizontal: -16,
   },
@@ -825,6 +1437,103 @@ const styles = StyleSheet.create({
   durationTextSelected: {
     color: '#4F46E5',
   },
+  repeatItem: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  repeatText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  seriesEndTabs: {
+    flexDirection: 'row',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 10,
+    padding: 4,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  seriesEndTab: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+    borderRadius: 8,
+  },
+  seriesEndTabActive: {
+    backgroundColor: '#fff',
+  },
+  seriesEndTabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  seriesEndTabTextActive: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    minWidth: 100,
+    textAlign: 'center',
+  },
+  untilChip: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: 'transparent',
+    marginRight: 8,
+  },
+  seriesHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  occurrenceList: {
+    marginTop: 16,
+    gap: 8,
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  occurrenceText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  occurrenceConflict: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  conflictLabel: {
+    fontSize: 12,
+    color: '#EF4444',
+    fontWeight: '500',
+  },
   paymentMethodsContainer: {
     gap: 12,
   },
@@ -936,6 +1645,35 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#4F46E5',
   },
+  priceCredit: {
+    fontSize: 14,
+    color: '#059669',
+  },
+  packageLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  coveredHint: {
+    marginTop: 0,
+    marginBottom: 12,
+  },
+  conversionNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 8,
+    padding: 12,
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+  },
+  conversionNoticeText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#6B7280',
+    lineHeight: 18,
+  },
   bottomSpacer: {
     height: 100,
   },
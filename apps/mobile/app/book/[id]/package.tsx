@@ -0,0 +1,358 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useStripe } from '@stripe/stripe-react-native';
+import { useTherapist } from '@/hooks/useTherapists';
+import { usePaymentMethods } from '@/hooks/usePayments';
+import { usePurchasePackage } from '@/hooks/useWallet';
+import { paymentsService } from '@/services/payments';
+import { DEFAULT_CURRENCY } from '@/services/currency';
+import { PACKAGE_OPTIONS, PackageOption, getPackagePrice } from '@/services/wallet';
+import { Avatar, Card } from '@/components/ui';
+import { formatCurrencyFromCents } from '@/utils/formatting';
+
+const PACKAGE_DURATIONS = [30, 60, 90];
+
+export default function BuyPackageScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { confirmPayment } = useStripe();
+
+  const [selectedOption, setSelectedOption] = useState<PackageOption>(PACKAGE_OPTIONS[0]);
+  const [duration, setDuration] = useState(60);
+  const [isPaying, setIsPaying] = useState(false);
+
+  const { data: therapist, isLoading } = useTherapist(id!);
+  const { data: paymentMethods } = usePaymentMethods();
+  const purchasePackage = usePurchasePackage();
+
+  const paymentMethod = paymentMethods?.find((method) => method.isDefault) ?? paymentMethods?.[0];
+  const currency = therapist?.currency ?? DEFAULT_CURRENCY;
+  const sessionPrice = therapist ? Math.round((therapist.hourlyRate / 60) * duration) : 0;
+  const price = useMemo(() => getPackagePrice(sessionPrice, selectedOption), [sessionPrice, selectedOption]);
+
+  const handlePurchase = async () => {
+    if (!therapist) return;
+    if (!paymentMethod) {
+      Alert.alert(t('common.error'), t('booking.paymentMethodNotFound'));
+      return;
+    }
+
+    setIsPaying(true);
+    try {
+      const { clientSecret, paymentIntentId } = await paymentsService.createPaymentIntent({
+        amount: price,
+        currency,
+        paymentMethodId: paymentMethod.id,
+      });
+
+      const { error: stripeError, paymentIntent } = await confirmPayment(clientSecret, {
+        paymentMethodType: 'Card',
+        paymentMethodData: {
+          paymentMethodId: paymentMethod.stripePaymentMethodId,
+        },
+      });
+
+      if (stripeError || paymentIntent?.status !== 'Succeeded') {
+        Alert.alert(t('common.error'), stripeError?.message || t('booking.paymentFailed'));
+        return;
+      }
+
+      await purchasePackage.mutateAsync({
+        therapistId: therapist.id,
+        sessions: selectedOption.sessions,
+        duration,
+        paymentMethodId: paymentMethod.id,
+        stripePaymentIntentId: paymentIntentId,
+      });
+
+      Alert.alert(
+        t('wallet.packages.purchasedTitle'),
+        t('wallet.packages.purchased', { count: selectedOption.sessions, days: selectedOption.validityDays }),
+        [{ text: t('common.ok'), onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (isLoading || !therapist) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('wallet.packages.buyTitle')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.therapistRow}>
+          <Avatar
+            source={therapist.user.avatarUrl}
+            name={`${therapist.user.firstName} ${therapist.user.lastName}`}
+            size="md"
+          />
+          <View style={styles.therapistInfo}>
+            <Text style={styles.therapistName}>
+              {therapist.user.firstName} {therapist.user.lastName}
+            </Text>
+            <Text style={styles.sectionDescription}>{t('wallet.packages.description')}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.label}>{t('booking.sessionDuration')}</Text>
+        <View style={styles.chips}>
+          {PACKAGE_DURATIONS.map((minutes) => (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, duration === minutes && styles.chipSelected]}
+              onPress={() => setDuration(minutes)}
+            >
+              <Text style={[styles.chipText, duration === minutes && styles.chipTextSelected]}>
+                {minutes} min
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {PACKAGE_OPTIONS.map((option) => {
+          const isSelected = option.sessions === selectedOption.sessions;
+          const optionPrice = getPackagePrice(sessionPrice, option);
+          return (
+            <Card
+              key={option.sessions}
+              variant="elevated"
+              style={isSelected ? { ...styles.card, ...styles.cardSelected } : styles.card}
+              onPress={() => setSelectedOption(option)}
+            >
+              <View style={styles.optionRow}>
+                <View style={styles.optionText}>
+                  <Text style={styles.cardTitle}>
+                    {t('wallet.packages.sessions', { count: option.sessions })}
+                  </Text>
+                  <Text style={styles.cardHint}>
+                    {t('wallet.packages.perSession', {
+                      price: formatCurrencyFromCents(Math.round(optionPrice / option.sessions), currency),
+                    })}{' '}
+                    · {t('wallet.packages.validFor', { days: option.validityDays })}
+                  </Text>
+                </View>
+                <View style={styles.optionPrice}>
+                  <Text style={styles.priceText}>{formatCurrencyFromCents(optionPrice, currency)}</Text>
+                  <Text style={styles.savingText}>
+                    {t('wallet.packages.save', { percent: option.discountPercent })}
+                  </Text>
+                </View>
+              </View>
+            </Card>
+          );
+        })}
+
+        <Text style={styles.cardHint}>{t('wallet.packages.terms')}</Text>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.buyButton, (isPaying || !paymentMethod) && styles.buyButtonDisabled]}
+          onPress={handlePurchase}
+          disabled={isPaying || !paymentMethod}
+        >
+          {isPaying ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buyButtonText}>
+              {t('wallet.packages.buy', { price: formatCurrencyFromCents(price, currency) })}
+            </Text>
+          )}
+        </TouchableOpacity>
+        {!paymentMethod && (
+          <TouchableOpacity onPress={() => router.push('/profile/add-payment-method')}>
+            <Text style={styles.addCardText}>{t('booking.addNew')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  therapistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  therapistInfo: {
+    flex: 1,
+  },
+  therapistName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  card: {
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  cardSelected: {
+    borderColor: '#4F46E5',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  cardHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionPrice: {
+    alignItems: 'flex-end',
+  },
+  priceText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  savingText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+    marginTop: 2,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  buyButton: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buyButtonDisabled: {
+    backgroundColor: '#9CA3AF',
+  },
+  buyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  addCardText: {
+    fontSize: 14,
+    color: '#4F46E5',
+    fontWeight: '500',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { router, Href } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useCallHistory } from '@/hooks/useCallHistory';
+import { useAuthStore } from '@/store/auth';
+import { Avatar } from '@/components/ui';
+import { formatCurrencyFromCents, formatDateTime } from '@/utils/formatting';
+import { getCallDurationSeconds } from '@/services/call-state-machine';
+import type { CallDocument, CallStatus } from '@/services/call-signaling';
+
+const STATUS_CONFIG: Record<CallStatus, { labelKey: string; color: string; icon: string }> = {
+  pending: { labelKey: 'callHistory.status.ringing', color: '#F59E0B', icon: 'call-outline' },
+  ringing: { labelKey: 'callHistory.status.ringing', color: '#F59E0B', icon: 'call-outline' },
+  accepted: { labelKey: 'callHistory.status.inProgress', color: '#10B981', icon: 'videocam-outline' },
+  ended: { labelKey: 'callHistory.status.completed', color: '#10B981', icon: 'videocam-outline' },
+  missed: { labelKey: 'callHistory.status.missed', color: '#EF4444', icon: 'call-outline' },
+  declined: { labelKey: 'callHistory.status.declined', color: '#EF4444', icon: 'close-circle-outline' },
+  cancelled: { labelKey: 'callHistory.status.cancelled', color: '#6B7280', icon: 'remove-circle-outline' },
+};
+
+// Calls that never connected and can be retried
+const RETRYABLE_STATUSES: CallStatus[] = ['missed', 'declined'];
+
+function formatCallDuration(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+}
+
+export default function CallHistoryScreen() {
+  const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const { data, isLoading, isRefetching, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useCallHistory();
+  const calls = data?.pages.flat() ?? [];
+
+  // Only patients can start calls, so only they get call back / book shortcuts
+  const canCallBack = user?.role === 'USER';
+
+  const renderCallItem = ({ item }: { item: CallDocument }) => {
+    const isOutgoing = item.callerId === user?.id;
+    const counterpart = isOutgoing
+      ? { name: item.receiverName, avatar: item.receiverAvatar }
+      : { name: item.callerName, avatar: item.callerAvatar };
+    const status = STATUS_CONFIG[item.status] || STATUS_CONFIG.ended;
+    const duration = getCallDurationSeconds(item);
+    const showActions = canCallBack && RETRYABLE_STATUSES.includes(item.status);
+
+    return (
+      <View style={styles.callItem}>
+        <View style={styles.callRow}>
+          <Avatar source={counterpart.avatar} name={counterpart.name} size="md" />
+          <View style={styles.callInfo}>
+            <Text style={styles.callName} numberOfLines={1}>
+              {counterpart.name}
+            </Text>
+            <View style={styles.callMeta}>
+              <Ionicons
+                name={isOutgoing ? 'arrow-up-outline' : 'arrow-down-outline'}
+                size={14}
+                color={status.color}
+              />
+              <Text style={[styles.callStatus, { color: status.color }]}>
+                {t(isOutgoing ? 'callHistory.outgoing' : 'callHistory.incoming')} ·{' '}
+                {t(status.labelKey)}
+              </Text>
+            </View>
+            {item.createdAt && (
+              <Text style={styles.callTime}>{formatDateTime(item.createdAt)}</Text>
+            )}
+          </View>
+          <View style={styles.callRight}>
+            <Ionicons name={status.icon as any} size={20} color={status.color} />
+            {duration !== null && (
+              <Text style={styles.callDuration}>{formatCallDuration(duration)}</Text>
+            )}
+            {item.charge && (
+              <Text style={styles.callCharge}>{formatCurrencyFromCents(item.charge.total, item.charge.currency)}</Text>
+            )}
+          </View>
+        </View>
+
+        {showActions && (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionPrimary]}
+              onPress={() => router.push(`/instant-call/${item.therapistId}` as Href)}
+            >
+              <Ionicons name="call" size={16} color="#fff" />
+              <Text style={[styles.actionText, styles.actionTextPrimary]}>
+                {t('callHistory.callBack')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => router.push(`/book/${item.therapistId}` as Href)}
+            >
+              <Ionicons name="calendar-outline" size={16} color="#4F46E5" />
+              <Text style={styles.actionText}>{t('callHistory.bookInstead')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const renderFooter = () => {
+    if (!isFetchingNextPage) return null;
+    return (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color="#4F46E5" />
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <View style={styles.emptyIcon}>
+        <Ionicons name="call-outline" size={64} color="#D1D5DB" />
+      </View>
+      <Text style={styles.emptyTitle}>{t('callHistory.empty.title')}</Text>
+      <Text style={styles.emptySubtitle}>{t('callHistory.empty.subtitle')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('callHistory.title')}</Text>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+        </View>
+      ) : (
+        <FlatList
+          data={calls}
+          keyExtractor={(item) => item.id}
+          renderItem={renderCallItem}
+          ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderFooter}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching && !isFetchingNextPage} onRefresh={() => refetch()} />
+          }
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          contentContainerStyle={calls.length === 0 && styles.emptyList}
+          ItemSeparatorComponent={() => <View style={styles.separator} />}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingBottom: 16,
+    paddingHorizontal: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginLeft: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  callItem: {
+    padding: 16,
+    backgroundColor: '#fff',
+  },
+  callRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  callInfo: {
+    flex: 1,
+  },
+  callName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  callMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  callStatus: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  callTime: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  callRight: {
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  callDuration: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  callCharge: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+    marginLeft: 60,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  actionPrimary: {
+    backgroundColor: '#4F46E5',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  actionTextPrimary: {
+    color: '#fff',
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#E5E7EB',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  emptyList: {
+    flex: 1,
+  },
+  emptyIcon: {
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    backgroundColor: '#F3F4F6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  footer: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+});
@@ -146,7 +146,14 @@ export default function AppointmentChatScreen() {
         <Text style={styles.headerTitle} numberOfLines={1}>
           {partner.name}
         </Text>
-        <View style={styles.headerButton} />
+        <TouchableOpacity
+          onPress={() =>
+            router.push((isTherapist ? `/appointment/${appointmentId}/safety` : '/crisis') as any)
+          }
+          style={styles.headerButton}
+        >
+          <Ionicons name="help-buoy-outline" size={24} color="#EF4444" />
+        </TouchableOpacity>
       </View>
 
       {/* Chat — only mount after conversation is set in state so ChatScreen's
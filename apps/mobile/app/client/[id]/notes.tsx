@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useClientNoteHistory } from '@/hooks/useSessionNotes';
+import { SessionNoteView } from '@/components/session-notes/SessionNoteView';
+import { Card } from '@/components/ui';
+import { formatDateTime } from '@/utils/formatting';
+
+export default function ClientNotesHistoryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const { data: notes, isLoading } = useClientNoteHistory(id!);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('sessionNotes.historyTitle')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {!notes?.length ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="document-text-outline" size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>{t('sessionNotes.historyEmpty')}</Text>
+          </View>
+        ) : (
+          notes.map((note) => {
+            const isExpanded = expandedId === note.id;
+            const isSigned = note.status === 'SIGNED';
+            return (
+              <Card key={note.id} variant="elevated" style={styles.card}>
+                <TouchableOpacity
+                  style={styles.noteHeader}
+                  onPress={() => setExpandedId(isExpanded ? null : note.id)}
+                >
+                  <View style={styles.noteHeaderText}>
+                    <Text style={styles.noteDate}>
+                      {formatDateTime(note.appointment?.scheduledAt ?? note.createdAt)}
+                    </Text>
+                    <Text style={styles.noteMeta}>
+                      {t(`sessionNotes.templates.${note.template}`)}
+                      {note.addenda.length > 0 && ` · ${t('sessionNotes.addendaCount', { count: note.addenda.length })}`}
+                    </Text>
+                  </View>
+                  <View style={[styles.badge, isSigned ? styles.badgeSigned : styles.badgeDraft]}>
+                    <Text style={[styles.badgeText, isSigned ? styles.badgeTextSigned : styles.badgeTextDraft]}>
+                      {t(`sessionNotes.status.${note.status}`)}
+                    </Text>
+                  </View>
+                  <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={20} color="#9CA3AF" />
+                </TouchableOpacity>
+
+                {isExpanded && (
+                  <View style={styles.noteBody}>
+                    <SessionNoteView note={note} />
+                    <TouchableOpacity
+                      style={styles.openButton}
+                      onPress={() => router.push(`/appointment/${note.appointmentId}/notes` as any)}
+                    >
+                      <Text style={styles.openButtonText}>
+                        {isSigned ? t('sessionNotes.openToAddendum') : t('sessionNotes.continueDraft')}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </Card>
+            );
+          })
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  noteHeaderText: {
+    flex: 1,
+  },
+  noteDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  noteMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  badgeSigned: {
+    backgroundColor: '#D1FAE5',
+  },
+  badgeDraft: {
+    backgroundColor: '#FEF3C7',
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  badgeTextSigned: {
+    color: '#065F46',
+  },
+  badgeTextDraft: {
+    color: '#92400E',
+  },
+  noteBody: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  openButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 16,
+  },
+  openButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
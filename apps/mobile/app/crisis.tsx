@@ -0,0 +1,223 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Linking,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth';
+import { getDeviceLocale } from '@/i18n';
+import {
+  buildSmsUrl,
+  getCrisisResources,
+  getRegionFromLocale,
+} from '@/services/crisis-resources';
+import { Card } from '@/components/ui';
+
+export default function CrisisScreen() {
+  const router = useRouter();
+  const { t, i18n } = useTranslation();
+  const { user } = useAuthStore();
+
+  const { emergencyNumber, resources } = getCrisisResources(
+    user?.country ?? getRegionFromLocale(getDeviceLocale()),
+    user?.preferredLanguage ?? i18n.language
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('crisis.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Immediate danger */}
+        <Card variant="elevated" style={styles.dangerCard}>
+          <Text style={styles.dangerTitle}>{t('crisis.inDanger')}</Text>
+          <Text style={styles.dangerText}>
+            {emergencyNumber
+              ? t('crisis.callEmergency', { number: emergencyNumber })
+              : t('crisis.callLocalEmergency')}
+          </Text>
+          {emergencyNumber && (
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => Linking.openURL(`tel:${emergencyNumber}`)}
+            >
+              <Ionicons name="call" size={20} color="#fff" />
+              <Text style={styles.dangerButtonText}>
+                {t('crisis.callNumber', { number: emergencyNumber })}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </Card>
+
+        <Text style={styles.sectionTitle}>{t('crisis.talkToSomeone')}</Text>
+        {resources.map((resource) => (
+          <Card key={resource.id} variant="elevated" style={styles.card}>
+            <Text style={styles.resourceName}>{resource.name}</Text>
+            <Text style={styles.resourceMeta}>{t('crisis.freeAndConfidential')}</Text>
+            <View style={styles.actions}>
+              {resource.phone && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => Linking.openURL(`tel:${resource.phone}`)}
+                >
+                  <Ionicons name="call-outline" size={18} color="#4F46E5" />
+                  <Text style={styles.actionText}>{t('crisis.call')}</Text>
+                </TouchableOpacity>
+              )}
+              {resource.sms && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => Linking.openURL(buildSmsUrl(resource.sms!, Platform.OS))}
+                >
+                  <Ionicons name="chatbubble-outline" size={18} color="#4F46E5" />
+                  <Text style={styles.actionText}>
+                    {resource.sms.body
+                      ? t('crisis.textKeyword', { keyword: resource.sms.body, number: resource.sms.number })
+                      : t('crisis.text')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {resource.url && (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => Linking.openURL(resource.url!)}
+                >
+                  <Ionicons name="globe-outline" size={18} color="#4F46E5" />
+                  <Text style={styles.actionText}>{t('crisis.website')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </Card>
+        ))}
+
+        <Text style={styles.footnote}>{t('crisis.therapistNote')}</Text>
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  dangerCard: {
+    marginBottom: 24,
+    backgroundColor: '#FEF2F2',
+  },
+  dangerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#991B1B',
+  },
+  dangerText: {
+    fontSize: 14,
+    color: '#991B1B',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  dangerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#EF4444',
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  resourceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  resourceMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  footnote: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
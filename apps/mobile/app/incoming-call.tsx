@@ -18,6 +18,7 @@ import { useTranslation } from 'react-i18next';
 import * as Haptics from 'expo-haptics';
 import { Avatar } from '@/components/ui';
 import { callSignalingService, CallDocument } from '@/services/call-signaling';
+import { CallAlreadyAnsweredError } from '@/services/call-queue';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const AUTO_DECLINE_SECONDS = 30;
@@ -130,7 +131,7 @@ export default function IncomingCallScreen() {
   const handleCallStatusChange = (call: CallDocument) => {
     console.log('Incoming call status changed:', call.status);
 
-    // If caller cancelled or call ended, go back
+    // Caller cancelled, call ended, or another therapist took the queued request
     if (call.status === 'cancelled' || call.status === 'ended' || call.status === 'missed') {
       stopRingtone();
       router.back();
@@ -306,6 +307,11 @@ export default function IncomingCallScreen() {
           },
         });
       } catch (error) {
+        if (error instanceof CallAlreadyAnsweredError) {
+          // Lost the race to another therapist
+          router.back();
+          return;
+        }
         console.error('Failed to accept call:', error);
         setIsProcessing(false);
       }
@@ -16,8 +16,12 @@ import * as Haptics from 'expo-haptics';
 import { Avatar } from '@/components/ui';
 import { useTherapist } from '@/hooks/useTherapists';
 import { callSignalingService, CallDocument, CallStatus } from '@/services/call-signaling';
+import { CALL_RING_TIMEOUT_MS } from '@/services/call-state-machine';
+import type { CallBilling } from '@/services/call-billing';
+import { SpendingCapModal } from '@/components/call/SpendingCapModal';
+import { DEFAULT_CURRENCY } from '@/services/currency';
 
-const CALL_TIMEOUT_SECONDS = 60;
+const CALL_TIMEOUT_SECONDS = CALL_RING_TIMEOUT_MS / 1000;
 
 export default function InstantCallScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -31,15 +35,24 @@ export default function InstantCallScreen() {
   const [elapsedTime, setElapsedTime] = useState(0);
   const [callId, setCallId] = useState<string | null>(null);
   const callUnsubscribe = useRef<(() => void) | null>(null);
+  const hasTimedOutRef = useRef(false);
+  // Spending cap authorised before dialing. Released when a call ends
+  // unanswered, so a retry after that authorises again.
+  const [billing, setBilling] = useState<CallBilling | null>(null);
+  // Latest call and cap for the unmount cleanup
+  const callIdRef = useRef<string | null>(null);
+  const billingRef = useRef<CallBilling | null>(null);
+  callIdRef.current = callId;
+  billingRef.current = billing;
 
   // Animations
   const pulseAnim1 = useRef(new Animated.Value(1)).current;
   const pulseAnim2 = useRef(new Animated.Value(1)).current;
   const pulseAnim3 = useRef(new Animated.Value(1)).current;
 
-  // Create call when therapist data is loaded
+  // Create call once the therapist is loaded and the spending cap is authorised
   useEffect(() => {
-    if (therapist && !callId) {
+    if (therapist && billing && !callId) {
       createCall();
     }
 
@@ -49,10 +62,24 @@ export default function InstantCallScreen() {
         callUnsubscribe.current();
       }
     };
-  }, [therapist]);
+  }, [therapist, billing]);
+
+  // Don't leave a call ringing or a cap held when the caller navigates away.
+  // abandonCall leaves answered calls alone, so moving on to the session is safe.
+  useEffect(() => {
+    return () => {
+      if (callIdRef.current) {
+        callSignalingService.abandonCall(callIdRef.current).catch((error) => {
+          console.error('Error abandoning call:', error);
+        });
+      } else if (billingRef.current) {
+        callSignalingService.releaseSpendingCap(billingRef.current);
+      }
+    };
+  }, []);
 
   const createCall = async () => {
-    if (!therapist) return;
+    if (!therapist || !billing) return;
 
     try {
       const newCallId = await callSignalingService.createCall({
@@ -61,6 +88,7 @@ export default function InstantCallScreen() {
         receiverAvatar: therapist.user.avatarUrl,
         therapistId: therapist.id,
         type: 'instant',
+        billing,
       });
 
       setCallId(newCallId);
@@ -147,12 +175,17 @@ export default function InstantCallScreen() {
 
   // Call timer
   useEffect(() => {
+    if (!billing) return;
     const timer = setInterval(() => {
       setElapsedTime((prev) => {
         if (prev >= CALL_TIMEOUT_SECONDS) {
           // Mark call as missed after timeout
-          if (callId) {
-            callSignalingService.markCallMissed(callId);
+          if (callId && !hasTimedOutRef.current) {
+            hasTimedOutRef.current = true;
+            // The call may have been answered or timed out by the receiver meanwhile
+            callSignalingService.markCallMissed(callId).catch((error) => {
+              console.log('Could not mark call missed:', error?.message);
+            });
           }
           setCallStatus('failed');
           return prev;
@@ -162,13 +195,17 @@ export default function InstantCallScreen() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [callId]);
+  }, [callId, billing]);
 
   const handleCancelCall = async () => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
 
     if (callId) {
-      await callSignalingService.cancelCall(callId);
+      try {
+        await callSignalingService.cancelCall(callId);
+      } catch (error) {
+        console.error('Error cancelling call:', error);
+      }
     }
 
     if (callUnsubscribe.current) {
@@ -181,13 +218,20 @@ export default function InstantCallScreen() {
   const handleRetry = async () => {
     setCallStatus('calling');
     setElapsedTime(0);
-    setCallId(null);
+    hasTimedOutRef.current = false;
 
     if (callUnsubscribe.current) {
       callUnsubscribe.current();
     }
 
-    // Create a new call
+    if (callId) {
+      // The unanswered call released its cap; authorising again creates the next call
+      setCallId(null);
+      setBilling(null);
+      return;
+    }
+
+    // The call was never created, so the cap is still held
     await createCall();
   };
 
@@ -237,6 +281,14 @@ export default function InstantCallScreen() {
     <View style={styles.container}>
       <StatusBar barStyle="light-content" />
 
+      <SpendingCapModal
+        visible={!!therapist && !billing}
+        perMinuteRate={therapist?.perMinuteRate ?? 0}
+        currency={therapist?.currency ?? DEFAULT_CURRENCY}
+        onAuthorized={setBilling}
+        onCancel={() => router.back()}
+      />
+
       {/* Background */}
       <View style={styles.background} />
 
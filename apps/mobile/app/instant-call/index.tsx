@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,15 +11,36 @@ import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { therapistsService } from '@/services/therapists';
+import { matchingService } from '@/services/matching';
 import { callSignalingService, CallDocument } from '@/services/call-signaling';
+import { isTerminalStatus, CallStatus } from '@/services/call-state-machine';
+import {
+  CallQueueEntry,
+  MAX_FAN_OUT,
+  QUEUE_MAX_WAIT_MS,
+  QUEUE_ROUND_DELAY_MS,
+  estimateWaitSeconds,
+  getEligibleTherapists,
+  getTherapistCurrency,
+  getTherapistsInCurrency,
+} from '@/services/call-queue';
 import { useAuthStore } from '@/store/auth';
+import { useCareTeam } from '@/hooks/useFavorites';
+import { usePresenceSubscriptions, useTogglePresenceSubscription } from '@/hooks/usePresence';
 import { Avatar } from '@/components/ui';
+import { SpendingCapModal } from '@/components/call/SpendingCapModal';
+import { SPENDING_CAP_MINUTES, CallBilling } from '@/services/call-billing';
+import { DEFAULT_CURRENCY } from '@/services/currency';
 import type { InstantCallTherapist } from '@/types';
 
-const CALL_TIMEOUT_MS = __DEV__ ? 5000 : 10000; // 5s in dev, 10s in prod
-const MIN_PREPAID_DURATION = 15; // 15 minutes minimum
+const MIN_PREPAID_DURATION = SPENDING_CAP_MINUTES[0]; // smallest spending cap
+
+type SearchState = 'searching' | 'queued' | 'connecting' | 'no_therapists' | 'error';
 
-type SearchState = 'searching' | 'calling' | 'connecting' | 'no_therapists' | 'error';
+interface MatchCriteria {
+  language?: string;
+  specializations: string[];
+}
 
 export default function InstantCallSearchScreen() {
   const { t } = useTranslation();
@@ -27,16 +48,32 @@ export default function InstantCallSearchScreen() {
 
   const [searchState, setSearchState] = useState<SearchState>('searching');
   const [availableTherapists, setAvailableTherapists] = useState<InstantCallTherapist[]>([]);
-  const [currentTherapistIndex, setCurrentTherapistIndex] = useState(0);
-  const [currentCallId, setCurrentCallId] = useState<string | null>(null);
+  const [ringingTherapists, setRingingTherapists] = useState<InstantCallTherapist[]>([]);
+  const [entry, setEntry] = useState<CallQueueEntry | null>(null);
+  const [roundTick, setRoundTick] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const rotateAnim = useRef(new Animated.Value(0)).current;
-  const callTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const callSubscriptionRef = useRef<(() => void) | null>(null);
-
-  const currentTherapist = availableTherapists[currentTherapistIndex];
+  const criteriaRef = useRef<MatchCriteria>({ specializations: [] });
+  const entryIdRef = useRef<string | null>(null);
+  // Listeners for the queue entry and the calls in the current round
+  const unsubscribersRef = useRef<Array<() => void>>([]);
+  const roundUnsubscribersRef = useRef<Array<() => void>>([]);
+  const roundActiveRef = useRef(false);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const connectingRef = useRef(false);
+  // Spending cap authorised once before joining the queue and shared by every therapist rung
+  const billingRef = useRef<CallBilling | null>(null);
+  const [showCapModal, setShowCapModal] = useState(false);
+
+  // The server assigns positions; until it has, treat the request as first so it still rings
+  const position = entry?.position ?? 0;
+
+  // Offer online alerts for the care team when nobody picks up
+  const { data: careTeam } = useCareTeam(searchState === 'no_therapists');
+  const { data: presenceSubscriptions } = usePresenceSubscriptions(searchState === 'no_therapists');
+  const togglePresence = useTogglePresenceSubscription();
 
   // Pulse animation for the search indicator
   useEffect(() => {
@@ -73,15 +110,13 @@ export default function InstantCallSearchScreen() {
     }
   }, [searchState, rotateAnim]);
 
-  // Cleanup on unmount
+  // Leave the queue on unmount, e.g. the Android back button
   useEffect(() => {
     return () => {
-      if (callTimeoutRef.current) {
-        clearTimeout(callTimeoutRef.current);
-      }
-      if (callSubscriptionRef.current) {
-        callSubscriptionRef.current();
-      }
+      stopWatching();
+      abandon().catch((error) => {
+        console.error('Error leaving call queue:', error);
+      });
     };
   }, []);
 
@@ -90,6 +125,45 @@ export default function InstantCallSearchScreen() {
     fetchAvailableTherapists();
   }, []);
 
+  // Ring therapists whenever this request reaches the front of the queue
+  useEffect(() => {
+    if (!entry || entry.status !== 'waiting' || position !== 0) return;
+    if (entry.ringingCallIds.length > 0 || roundActiveRef.current) return;
+    ringRound(entry.id);
+  }, [entry, position, roundTick]);
+
+  const stopRound = () => {
+    roundUnsubscribersRef.current.forEach((unsubscribe) => unsubscribe());
+    roundUnsubscribersRef.current = [];
+  };
+
+  const stopWatching = () => {
+    stopRound();
+    unsubscribersRef.current.forEach((unsubscribe) => unsubscribe());
+    unsubscribersRef.current = [];
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current = [];
+  };
+
+  /**
+   * Take the request out of the queue and release the spending cap, unless a
+   * therapist already took the call. leaveQueue releases the cap for a queued
+   * request; before joining there is only the authorisation to release.
+   */
+  const abandon = async () => {
+    if (connectingRef.current) return;
+    const entryId = entryIdRef.current;
+    const billing = billingRef.current;
+    entryIdRef.current = null;
+    billingRef.current = null;
+
+    if (entryId) {
+      await callSignalingService.leaveQueue(entryId);
+    } else if (billing) {
+      await callSignalingService.releaseSpendingCap(billing);
+    }
+  };
+
   const fetchAvailableTherapists = async () => {
     try {
       setSearchState('searching');
@@ -107,9 +181,20 @@ export default function InstantCallSearchScreen() {
         console.log('[InstantCall] Firestore connection test PASSED');
       }
 
-      const therapists = await therapistsService.findAvailableForInstantCall(
-        (user as any)?.preferredLanguage
+      // Match on the concerns and language from the matching questionnaire, if taken
+      const answers = await matchingService.getAnswers();
+      criteriaRef.current = {
+        language: answers?.language ?? user?.preferredLanguage,
+        specializations: answers?.concerns ?? [],
+      };
+
+      const eligible = getEligibleTherapists(
+        await therapistsService.findAvailableForInstantCall(criteriaRef.current.language),
+        criteriaRef.current
       );
+      // Hold the cap in the best match's currency and only queue for therapists who charge in it
+      const currency = billingRef.current?.currency ?? (eligible[0] && getTherapistCurrency(eligible[0]));
+      const therapists = currency ? getTherapistsInCurrency(eligible, currency) : [];
 
       if (therapists.length === 0) {
         setSearchState('no_therapists');
@@ -117,8 +202,14 @@ export default function InstantCallSearchScreen() {
       }
 
       setAvailableTherapists(therapists);
-      // Start calling the first therapist
-      callTherapist(therapists[0], 0);
+
+      if (!billingRef.current) {
+        // Authorise the spending cap before ringing anyone
+        setShowCapModal(true);
+        return;
+      }
+
+      joinQueue(therapists);
     } catch (error) {
       console.error('Error fetching therapists:', error);
       setSearchState('error');
@@ -126,135 +217,166 @@ export default function InstantCallSearchScreen() {
     }
   };
 
-  const callTherapist = async (therapist: InstantCallTherapist, index: number) => {
+  const joinQueue = async (therapists: InstantCallTherapist[]) => {
     try {
-      console.log(`[InstantCall] Calling therapist ${index + 1}/${availableTherapists.length}: ${therapist.firstName} ${therapist.lastName}`);
-      setSearchState('calling');
-      setCurrentTherapistIndex(index);
-
-      // Create the call
-      const callId = await callSignalingService.createCall({
-        receiverId: therapist.userId,
-        receiverName: `${therapist.firstName} ${therapist.lastName}`,
-        receiverAvatar: therapist.avatarUrl,
-        therapistId: therapist.id,
-        type: 'instant',
+      const entryId = await callSignalingService.joinQueue({
+        therapistIds: therapists.map((therapist) => therapist.id),
+        ...criteriaRef.current,
+        billing: billingRef.current ?? undefined,
       });
-
-      setCurrentCallId(callId);
-
-      // Subscribe to call status changes
-      callSubscriptionRef.current = callSignalingService.subscribeToCall(
-        callId,
-        handleCallStatusChange
+      entryIdRef.current = entryId;
+      setSearchState('queued');
+
+      unsubscribersRef.current = [
+        callSignalingService.subscribeToQueueEntry(entryId, handleEntryChange),
+      ];
+
+      timersRef.current.push(
+        setTimeout(() => {
+          callSignalingService.leaveQueue(entryId, 'expired').catch((error) => {
+            console.error('Error expiring call queue entry:', error);
+          });
+        }, QUEUE_MAX_WAIT_MS)
       );
-
-      // Set timeout to try next therapist if no response
-      callTimeoutRef.current = setTimeout(() => {
-        handleCallTimeout(therapist, index);
-      }, CALL_TIMEOUT_MS);
-
     } catch (error) {
-      console.error('Error creating call:', error);
-      // Try next therapist
-      tryNextTherapist(index);
+      console.error('Error joining call queue:', error);
+      setSearchState('error');
+      setErrorMessage(t('instantCall.errorSearching'));
     }
   };
 
-  const handleCallStatusChange = useCallback((call: CallDocument) => {
-    console.log('Call status changed:', call.status);
+  const handleEntryChange = (next: CallQueueEntry) => {
+    setEntry(next);
 
-    if (call.status === 'accepted') {
-      // Clear timeout and subscription
-      if (callTimeoutRef.current) {
-        clearTimeout(callTimeoutRef.current);
-      }
-      if (callSubscriptionRef.current) {
-        callSubscriptionRef.current();
-      }
-
-      setSearchState('connecting');
-
-      // Navigate to video session
-      setTimeout(() => {
-        router.replace({
-          pathname: '/session/[id]',
-          params: { id: call.channelName },
-        } as any);
-      }, 500);
-    } else if (call.status === 'declined') {
-      // Therapist declined, try next
-      if (callTimeoutRef.current) {
-        clearTimeout(callTimeoutRef.current);
-      }
-      if (callSubscriptionRef.current) {
-        callSubscriptionRef.current();
-      }
-      tryNextTherapist(currentTherapistIndex);
+    if (next.status === 'matched' && next.matchedCallId) {
+      connect(next.matchedCallId);
+    } else if (next.status === 'expired') {
+      stopWatching();
+      entryIdRef.current = null;
+      // Released with the request; a retry authorises a new cap
+      billingRef.current = null;
+      setSearchState('no_therapists');
     }
-  }, [currentTherapistIndex]);
+  };
 
-  const handleCallTimeout = async (therapist: InstantCallTherapist, index: number) => {
-    console.log(`[InstantCall] ⏰ Timeout after ${CALL_TIMEOUT_MS}ms for therapist ${index + 1}: ${therapist.firstName}`);
+  /**
+   * Ring the therapists who are online right now. The round ends once every
+   * call has been declined, missed or cancelled; the request then stays in
+   * the queue and is rung again after a short pause.
+   */
+  const ringRound = async (entryId: string) => {
+    roundActiveRef.current = true;
+
+    const retryLater = () => {
+      stopRound();
+      setRingingTherapists([]);
+      timersRef.current.push(
+        setTimeout(async () => {
+          try {
+            await callSignalingService.finishQueueRound(entryId);
+          } catch (error) {
+            console.error('Error finishing call queue round:', error);
+          }
+          roundActiveRef.current = false;
+          setRoundTick((tick) => tick + 1);
+        }, QUEUE_ROUND_DELAY_MS)
+      );
+    };
 
-    // Cancel the current call
-    if (currentCallId) {
-      try {
-        await callSignalingService.cancelCall(currentCallId);
-      } catch (error) {
-        console.error('Error cancelling call:', error);
+    try {
+      const online = await therapistsService.findAvailableForInstantCall(criteriaRef.current.language);
+      const eligible = getEligibleTherapists(online, criteriaRef.current);
+      const therapists = (
+        billingRef.current ? getTherapistsInCurrency(eligible, billingRef.current.currency) : eligible
+      ).slice(0, MAX_FAN_OUT);
+      if (therapists.length === 0) {
+        retryLater();
+        return;
       }
-    }
 
-    // Cleanup subscription
-    if (callSubscriptionRef.current) {
-      callSubscriptionRef.current();
-      callSubscriptionRef.current = null;
-    }
+      setRingingTherapists(therapists);
+      const callIds = await callSignalingService.ringQueuedTherapists(
+        entryId,
+        therapists,
+        billingRef.current ?? undefined
+      );
+      // Matched, left or already ringing by the time the round was written
+      if (callIds.length === 0) {
+        setRingingTherapists([]);
+        roundActiveRef.current = false;
+        return;
+      }
 
-    // Try next therapist
-    tryNextTherapist(index);
+      // subscribeToCall also enforces each call's ring timeout
+      const statuses = new Map<string, CallStatus>();
+      roundUnsubscribersRef.current = callIds.map((callId) =>
+        callSignalingService.subscribeToCall(callId, (call: CallDocument) => {
+          statuses.set(call.id, call.status);
+          if (statuses.size === callIds.length && [...statuses.values()].every(isTerminalStatus)) {
+            retryLater();
+          }
+        })
+      );
+    } catch (error) {
+      console.error('Error ringing therapists:', error);
+      retryLater();
+    }
   };
 
-  const tryNextTherapist = (currentIndex: number) => {
-    const nextIndex = currentIndex + 1;
+  const connect = async (callId: string) => {
+    if (connectingRef.current) return;
+    connectingRef.current = true;
+    stopWatching();
+    setSearchState('connecting');
 
-    if (nextIndex < availableTherapists.length) {
-      console.log(`[InstantCall] ➡️ Trying next therapist (${nextIndex + 1}/${availableTherapists.length})`);
-      callTherapist(availableTherapists[nextIndex], nextIndex);
-    } else {
-      console.log(`[InstantCall] ❌ No more therapists to try (tried ${availableTherapists.length})`);
-      setSearchState('no_therapists');
+    const call = await callSignalingService.getCall(callId);
+    if (!call) {
+      setSearchState('error');
+      return;
     }
+
+    // Navigate to video session
+    setTimeout(() => {
+      router.replace({
+        pathname: '/session/[id]',
+        params: {
+          id: call.channelName,
+          callId: call.id,
+          callerName: call.receiverName,
+          callerAvatar: call.receiverAvatar,
+        },
+      } as any);
+    }, 500);
   };
 
   const handleCancel = async () => {
-    // Clear timeout
-    if (callTimeoutRef.current) {
-      clearTimeout(callTimeoutRef.current);
-    }
-
-    // Cancel current call if exists
-    if (currentCallId) {
-      try {
-        await callSignalingService.cancelCall(currentCallId);
-      } catch (error) {
-        console.error('Error cancelling call:', error);
-      }
-    }
+    stopWatching();
 
-    // Cleanup subscription
-    if (callSubscriptionRef.current) {
-      callSubscriptionRef.current();
+    // Take the request out of the queue and stop any ringing calls
+    try {
+      await abandon();
+    } catch (error) {
+      console.error('Error leaving call queue:', error);
     }
 
     router.back();
   };
 
+  const handleCapAuthorized = (billing: CallBilling) => {
+    billingRef.current = billing;
+    setShowCapModal(false);
+    if (availableTherapists.length) {
+      joinQueue(availableTherapists);
+    }
+  };
+
   const handleRetry = () => {
+    stopWatching();
+    roundActiveRef.current = false;
+    entryIdRef.current = null;
     setAvailableTherapists([]);
-    setCurrentTherapistIndex(0);
-    setCurrentCallId(null);
+    setRingingTherapists([]);
+    setEntry(null);
     setErrorMessage(null);
     fetchAvailableTherapists();
   };
@@ -282,35 +404,52 @@ export default function InstantCallSearchScreen() {
     </View>
   );
 
-  const renderCalling = () => (
-    <View style={styles.content}>
-      <Animated.View
-        style={[
-          styles.pulseCircle,
-          { transform: [{ scale: pulseAnim }] },
-        ]}
-      />
-      <View style={styles.avatarContainer}>
-        <Avatar
-          source={currentTherapist?.avatarUrl}
-          name={`${currentTherapist?.firstName} ${currentTherapist?.lastName}`}
-          size="xl"
+  const renderQueued = () => {
+    const waitMinutes = Math.max(
+      1,
+      Math.round(estimateWaitSeconds(position, entry?.therapistIds.length ?? 1) / 60)
+    );
+    return (
+      <View style={styles.content}>
+        <Animated.View
+          style={[
+            styles.pulseCircle,
+            { transform: [{ scale: pulseAnim }] },
+          ]}
         />
-      </View>
-      <Text style={styles.title}>{t('instantCall.calling')}</Text>
-      <Text style={styles.therapistName}>
-        {currentTherapist?.firstName} {currentTherapist?.lastName}
-      </Text>
-      <Text style={styles.therapistTitle}>{currentTherapist?.professionalTitle}</Text>
-      <View style={styles.ratingRow}>
-        <Ionicons name="star" size={16} color="#FBBF24" />
-        <Text style={styles.ratingText}>
-          {currentTherapist?.averageRating.toFixed(1)} ({currentTherapist?.totalReviews} reviews)
+        <View style={styles.searchIconContainer}>
+          {position > 0 ? (
+            <Text style={styles.positionText}>{position + 1}</Text>
+          ) : (
+            <Ionicons name="call" size={44} color="#4F46E5" />
+          )}
+        </View>
+        <Text style={styles.title}>
+          {position > 0
+            ? t('instantCall.queue.position', { position: position + 1 })
+            : ringingTherapists.length
+              ? t('instantCall.queue.ringing', { count: ringingTherapists.length })
+              : t('instantCall.queue.nextUp')}
+        </Text>
+        <Text style={styles.subtitle}>{t('instantCall.queue.estimatedWait', { minutes: waitMinutes })}</Text>
+        {position === 0 && ringingTherapists.length > 0 && (
+          <View style={styles.ringingRow}>
+            {ringingTherapists.map((therapist) => (
+              <Avatar
+                key={therapist.id}
+                source={therapist.avatarUrl}
+                name={`${therapist.firstName} ${therapist.lastName}`}
+                size="sm"
+              />
+            ))}
+          </View>
+        )}
+        <Text style={styles.waitingText}>
+          {position > 0 ? t('instantCall.queue.keepOpen') : t('instantCall.queue.firstToAccept')}
         </Text>
       </View>
-      <Text style={styles.waitingText}>{t('instantCall.waitingForResponse')}</Text>
-    </View>
-  );
+    );
+  };
 
   const renderConnecting = () => (
     <View style={styles.content}>
@@ -330,6 +469,39 @@ export default function InstantCallSearchScreen() {
       </View>
       <Text style={styles.title}>{t('instantCall.noTherapists')}</Text>
       <Text style={styles.subtitle}>{t('instantCall.noTherapistsSubtitle')}</Text>
+      {!!careTeam?.length && (
+        <View style={styles.notifyList}>
+          <Text style={styles.notifyTitle}>{t('presence.notifyTitle')}</Text>
+          {careTeam.slice(0, 3).map(({ therapist }) => {
+            const subscribed = !!presenceSubscriptions?.some((s) => s.therapistId === therapist.id);
+            return (
+              <View key={therapist.id} style={styles.notifyRow}>
+                <Avatar
+                  source={therapist.user.avatarUrl}
+                  name={`${therapist.user.firstName} ${therapist.user.lastName}`}
+                  size="sm"
+                />
+                <Text style={styles.notifyName} numberOfLines={1}>
+                  {therapist.user.firstName} {therapist.user.lastName}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.notifyButton, subscribed && styles.notifyButtonActive]}
+                  onPress={() => togglePresence.mutate({ therapist, subscribed: !subscribed })}
+                >
+                  <Ionicons
+                    name={subscribed ? 'notifications' : 'notifications-outline'}
+                    size={16}
+                    color={subscribed ? '#FFFFFF' : '#4F46E5'}
+                  />
+                  <Text style={[styles.notifyButtonText, subscribed && styles.notifyButtonTextActive]}>
+                    {subscribed ? t('presence.notifying') : t('presence.notifyMe')}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+      )}
       <TouchableOpacity style={styles.retryButton} onPress={handleRetry}>
         <Ionicons name="refresh" size={20} color="#FFFFFF" />
         <Text style={styles.retryButtonText}>{t('common.tryAgain')}</Text>
@@ -353,6 +525,16 @@ export default function InstantCallSearchScreen() {
 
   return (
     <View style={styles.container}>
+      <SpendingCapModal
+        visible={showCapModal}
+        // Size the cap by the priciest therapist so it covers whoever answers
+        perMinuteRate={Math.max(0, ...availableTherapists.map((therapist) => therapist.perMinuteRate))}
+        // Everyone queued for shares one currency, see fetchAvailableTherapists
+        currency={availableTherapists[0] ? getTherapistCurrency(availableTherapists[0]) : DEFAULT_CURRENCY}
+        onAuthorized={handleCapAuthorized}
+        onCancel={handleCancel}
+      />
+
       <View style={styles.header}>
         <TouchableOpacity style={styles.closeButton} onPress={handleCancel}>
           <Ionicons name="close" size={28} color="#111827" />
@@ -360,12 +542,12 @@ export default function InstantCallSearchScreen() {
       </View>
 
       {searchState === 'searching' && renderSearching()}
-      {searchState === 'calling' && renderCalling()}
+      {searchState === 'queued' && renderQueued()}
       {searchState === 'connecting' && renderConnecting()}
       {searchState === 'no_therapists' && renderNoTherapists()}
       {searchState === 'error' && renderError()}
 
-      {(searchState === 'searching' || searchState === 'calling') && (
+      {(searchState === 'searching' || searchState === 'queued') && (
         <View style={styles.footer}>
           <Text style={styles.minDurationText}>
             {t('instantCall.minDuration', { minutes: MIN_PREPAID_DURATION })}
@@ -424,14 +606,6 @@ const styles = StyleSheet.create({
     elevation: 4,
     marginBottom: 32,
   },
-  avatarContainer: {
-    marginBottom: 24,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.15,
-    shadowRadius: 12,
-    elevation: 4,
-  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -445,26 +619,15 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
-  therapistName: {
-    fontSize: 20,
-    fontWeight: '600',
-    color: '#111827',
-    marginBottom: 4,
-  },
-  therapistTitle: {
-    fontSize: 14,
-    color: '#6B7280',
-    marginBottom: 8,
+  positionText: {
+    fontSize: 40,
+    fontWeight: 'bold',
+    color: '#4F46E5',
   },
-  ratingRow: {
+  ringingRow: {
     flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-    marginBottom: 24,
-  },
-  ratingText: {
-    fontSize: 14,
-    color: '#6B7280',
+    gap: 8,
+    marginTop: 20,
   },
   waitingText: {
     fontSize: 14,
@@ -489,6 +652,50 @@ const styles = StyleSheet.create({
   loader: {
     marginTop: 24,
   },
+  notifyList: {
+    alignSelf: 'stretch',
+    marginTop: 24,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    gap: 12,
+  },
+  notifyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  notifyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  notifyName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#111827',
+  },
+  notifyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#4F46E5',
+  },
+  notifyButtonActive: {
+    backgroundColor: '#4F46E5',
+  },
+  notifyButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  notifyButtonTextActive: {
+    color: '#FFFFFF',
+  },
   retryButton: {
     flexDirection: 'row',
     alignItems: 'center',
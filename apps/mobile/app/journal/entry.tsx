@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import { useDeleteJournalEntry, useJournalEntries, useSaveJournalEntry } from '@/hooks/useJournal';
+import { MOOD_OPTIONS } from '@/services/mood-journal';
+import { Card } from '@/components/ui';
+import { JOURNAL_TAGS, type MoodScore } from '@/types';
+
+export default function JournalEntryScreen() {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const { data: entries, isLoading } = useJournalEntries();
+  const saveEntry = useSaveJournalEntry();
+  const deleteEntry = useDeleteJournalEntry();
+
+  // One entry per day, so a new entry for today edits the existing one
+  const existing = entries?.find((e) => (id ? e.id === id : e.date === today));
+
+  const [mood, setMood] = useState<MoodScore | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+  const [shared, setShared] = useState(false);
+
+  useEffect(() => {
+    if (!existing) return;
+    setMood(existing.mood);
+    setTags(existing.tags);
+    setNote(existing.note ?? '');
+    setShared(existing.sharedWithTherapist);
+  }, [existing]);
+
+  const toggleTag = (tag: string) => {
+    setTags((current) => (current.includes(tag) ? current.filter((selected) => selected !== tag) : [...current, tag]));
+  };
+
+  const handleSave = async () => {
+    if (!mood) return;
+
+    try {
+      await saveEntry.mutateAsync({
+        id: existing?.id,
+        data: {
+          date: existing?.date ?? today,
+          mood,
+          tags,
+          note: note.trim() || undefined,
+          sharedWithTherapist: shared,
+        },
+      });
+      router.back();
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+
+    Alert.alert(t('journal.deleteTitle'), t('journal.deleteMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteEntry.mutateAsync(existing.id);
+            router.back();
+          } catch (error: any) {
+            Alert.alert(t('common.error'), error?.message || t('errors.general'));
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (id && !existing) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {format(parseISO(existing?.date ?? today), 'EEEE, MMM d')}
+        </Text>
+        {existing ? (
+          <TouchableOpacity onPress={handleDelete} style={styles.headerButton}>
+            <Ionicons name="trash-outline" size={22} color="#EF4444" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('journal.moodQuestion')}</Text>
+            <View style={styles.moodRow}>
+              {MOOD_OPTIONS.map((option) => {
+                const isSelected = mood === option.score;
+                return (
+                  <TouchableOpacity
+                    key={option.score}
+                    style={[
+                      styles.moodOption,
+                      isSelected && { borderColor: option.color, backgroundColor: `${option.color}20` },
+                    ]}
+                    onPress={() => setMood(option.score)}
+                  >
+                    <Ionicons name={option.icon} size={26} color={isSelected ? option.color : '#9CA3AF'} />
+                    <Text style={[styles.moodLabel, isSelected && { color: option.color }]}>
+                      {t(`journal.moods.${option.score}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('journal.tagsTitle')}</Text>
+            <View style={styles.chips}>
+              {JOURNAL_TAGS.map((tag) => {
+                const isSelected = tags.includes(tag);
+                return (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => toggleTag(tag)}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {t(`journal.tags.${tag}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('journal.noteTitle')}</Text>
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder={t('journal.notePlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              multiline
+              maxLength={2000}
+              textAlignVertical="top"
+            />
+          </Card>
+
+          <Card variant="elevated" style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.rowText}>
+                <Text style={styles.sectionTitle}>{t('journal.shareWithTherapist')}</Text>
+                <Text style={styles.description}>{t('journal.shareDescription')}</Text>
+              </View>
+              <Switch
+                value={shared}
+                onValueChange={setShared}
+                trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+                thumbColor={shared ? '#4F46E5' : '#F3F4F6'}
+              />
+            </View>
+          </Card>
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, (!mood || saveEntry.isPending) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!mood || saveEntry.isPending}
+        >
+          {saveEntry.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  flex: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  description: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  moodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  moodOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  moodLabel: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  noteInput: {
+    minHeight: 120,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    fontSize: 15,
+    color: '#111827',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
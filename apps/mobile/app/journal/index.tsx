@@ -0,0 +1,343 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import {
+  useJournalEntries,
+  useJournalReminder,
+  useSaveJournalEntry,
+  useSetJournalReminder,
+} from '@/hooks/useJournal';
+import { JOURNAL_REMINDER_TIMES, getMoodOption, summarizeMood } from '@/services/mood-journal';
+import { Card } from '@/components/ui';
+import type { JournalEntry } from '@/types';
+
+export default function JournalScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const { data, isLoading } = useJournalEntries();
+  const { data: reminder } = useJournalReminder();
+  const saveEntry = useSaveJournalEntry();
+  const setReminder = useSetJournalReminder();
+
+  const { entries, average } = summarizeMood(data ?? []);
+
+  const updateReminder = async (changes: { enabled?: boolean; time?: string }) => {
+    if (!reminder) return;
+    try {
+      await setReminder.mutateAsync({
+        reminder: { ...reminder, ...changes },
+        content: { title: t('journal.reminderTitle'), body: t('journal.reminderBody') },
+      });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const toggleShared = (entry: JournalEntry, shared: boolean) => {
+    saveEntry.mutate(
+      { id: entry.id, data: { sharedWithTherapist: shared } },
+      { onError: (error: any) => Alert.alert(t('common.error'), error?.message || t('errors.general')) }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('journal.title')}</Text>
+        <TouchableOpacity onPress={() => router.push('/journal/entry' as any)} style={styles.headerButton}>
+          <Ionicons name="add" size={26} color="#4F46E5" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Reminder */}
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.row}>
+            <View style={styles.rowText}>
+              <Text style={styles.sectionTitle}>{t('journal.reminder')}</Text>
+              <Text style={styles.description}>{t('journal.reminderDescription')}</Text>
+            </View>
+            <Switch
+              value={!!reminder?.enabled}
+              onValueChange={(enabled) => updateReminder({ enabled })}
+              disabled={!reminder || setReminder.isPending}
+              trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+              thumbColor={reminder?.enabled ? '#4F46E5' : '#F3F4F6'}
+            />
+          </View>
+          {reminder?.enabled && (
+            <View style={styles.chips}>
+              {JOURNAL_REMINDER_TIMES.map((time) => (
+                <TouchableOpacity
+                  key={time}
+                  style={[styles.chip, reminder.time === time && styles.chipSelected]}
+                  onPress={() => updateReminder({ time })}
+                >
+                  <Text style={[styles.chipText, reminder.time === time && styles.chipTextSelected]}>
+                    {format(parseISO(`2000-01-01T${time}`), 'h:mm a')}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </Card>
+
+        {average !== null && (
+          <Text style={styles.summary}>
+            {t('journal.averageMood', { average, count: entries.length })}
+          </Text>
+        )}
+
+        {entries.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="book-outline" size={48} color="#D1D5DB" />
+            <Text style={styles.emptyText}>{t('journal.empty')}</Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/journal/entry' as any)}>
+              <Text style={styles.primaryButtonText}>{t('journal.newEntry')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          entries.map((entry) => {
+            const mood = getMoodOption(entry.mood);
+            return (
+              <Card key={entry.id} variant="elevated" style={styles.card}>
+                <TouchableOpacity onPress={() => router.push(`/journal/entry?id=${entry.id}` as any)}>
+                  <View style={styles.row}>
+                    <View style={[styles.moodIcon, { backgroundColor: `${mood.color}20` }]}>
+                      <Ionicons name={mood.icon} size={22} color={mood.color} />
+                    </View>
+                    <View style={styles.rowText}>
+                      <Text style={styles.entryDate}>{format(parseISO(entry.date), 'EEEE, MMM d')}</Text>
+                      <Text style={[styles.entryMood, { color: mood.color }]}>
+                        {t(`journal.moods.${entry.mood}`)}
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+                  </View>
+                  {entry.tags.length > 0 && (
+                    <View style={styles.chips}>
+                      {entry.tags.map((tag) => (
+                        <View key={tag} style={styles.tag}>
+                          <Text style={styles.tagText}>{t(`journal.tags.${tag}`, { defaultValue: tag })}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                  {!!entry.note && (
+                    <Text style={styles.note} numberOfLines={3}>
+                      {entry.note}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+                <View style={[styles.row, styles.shareRow]}>
+                  <Ionicons
+                    name={entry.sharedWithTherapist ? 'eye-outline' : 'lock-closed-outline'}
+                    size={16}
+                    color="#6B7280"
+                  />
+                  <Text style={styles.shareText}>{t('journal.shareWithTherapist')}</Text>
+                  <Switch
+                    value={entry.sharedWithTherapist}
+                    onValueChange={(shared) => toggleShared(entry, shared)}
+                    trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+                    thumbColor={entry.sharedWithTherapist ? '#4F46E5' : '#F3F4F6'}
+                  />
+                </View>
+              </Card>
+            );
+          })
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  description: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  moodIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  entryDate: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryMood: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  tag: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  tagText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  note: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginTop: 12,
+  },
+  shareRow: {
+    gap: 8,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  shareText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#6B7280',
+    marginTop: 12,
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
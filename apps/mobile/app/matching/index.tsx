@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMatchingAnswers, useSaveMatchingAnswers } from '@/hooks/useTherapistMatching';
+import { MATCHING_BUDGET_CURRENCY, MATCHING_BUDGETS, MATCHING_CONCERNS } from '@/services/therapist-matching';
+import { useLocaleStore } from '@/store/locale';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
+import { LANGUAGES } from '@/i18n';
+import type { MatchingAnswers, TherapistGender, WaitlistTimeOfDay } from '@/types';
+
+const STEPS = ['concerns', 'language', 'budget', 'gender', 'availability'] as const;
+
+const GENDERS: TherapistGender[] = ['FEMALE', 'MALE', 'NON_BINARY'];
+const DAY_OPTIONS: MatchingAnswers['days'][] = ['ANY', 'WEEKDAYS', 'WEEKENDS'];
+const PERIODS: { period: WaitlistTimeOfDay; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { period: 'MORNING', icon: 'sunny-outline' },
+  { period: 'AFTERNOON', icon: 'partly-sunny-outline' },
+  { period: 'EVENING', icon: 'moon-outline' },
+];
+
+export default function MatchingScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { language } = useLocaleStore();
+  const { formatPrice } = useDisplayCurrency();
+
+  const { data: savedAnswers, isLoading } = useMatchingAnswers();
+  const saveAnswers = useSaveMatchingAnswers();
+
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<MatchingAnswers>({
+    concerns: [],
+    language: LANGUAGES[language]?.name,
+    days: 'ANY',
+    periods: [],
+  });
+
+  // Start from the previous answers when retaking the questionnaire
+  useEffect(() => {
+    if (savedAnswers) setAnswers(savedAnswers);
+  }, [savedAnswers]);
+
+  const update = (changes: Partial<MatchingAnswers>) => setAnswers((current) => ({ ...current, ...changes }));
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const isLastStep = step === STEPS.length - 1;
+  const canContinue = STEPS[step] !== 'concerns' || answers.concerns.length > 0;
+
+  const handleNext = async () => {
+    if (!isLastStep) {
+      setStep(step + 1);
+      return;
+    }
+
+    try {
+      await saveAnswers.mutateAsync(answers);
+      router.replace('/matching/results' as any);
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void,
+    icon?: keyof typeof Ionicons.glyphMap
+  ) => (
+    <TouchableOpacity key={key} style={[styles.option, isSelected && styles.optionSelected]} onPress={onPress}>
+      {icon && <Ionicons name={icon} size={22} color={isSelected ? '#4F46E5' : '#6B7280'} />}
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{label}</Text>
+      {isSelected && <Ionicons name="checkmark-circle" size={20} color="#4F46E5" />}
+    </TouchableOpacity>
+  );
+
+  const renderStep = () => {
+    switch (STEPS[step]) {
+      case 'concerns':
+        return MATCHING_CONCERNS.map(({ specialization, icon }) =>
+          renderOption(
+            specialization,
+            t(`matching.concerns.${specialization}`),
+            answers.concerns.includes(specialization),
+            () => update({ concerns: toggle(answers.concerns, specialization) }),
+            icon
+          )
+        );
+      case 'language':
+        return [
+          ...Object.values(LANGUAGES).map((option) =>
+            renderOption(option.name, option.nativeName, answers.language === option.name, () =>
+              update({ language: option.name })
+            )
+          ),
+          renderOption('any', t('matching.anyLanguage'), !answers.language, () => update({ language: undefined })),
+        ];
+      case 'budget':
+        return [
+          ...MATCHING_BUDGETS.map((budget) =>
+            renderOption(
+              String(budget),
+              t('matching.upTo', { amount: formatPrice(budget, MATCHING_BUDGET_CURRENCY) }),
+              answers.maxBudget === budget,
+              () => update({ maxBudget: budget })
+            )
+          ),
+          renderOption('any', t('matching.noBudget'), !answers.maxBudget, () => update({ maxBudget: undefined })),
+        ];
+      case 'gender':
+        return [
+          ...GENDERS.map((gender) =>
+            renderOption(gender, t(`matching.genders.${gender}`), answers.gender === gender, () => update({ gender }))
+          ),
+          renderOption('any', t('matching.noPreference'), !answers.gender, () => update({ gender: undefined })),
+        ];
+      case 'availability':
+        return (
+          <>
+            {DAY_OPTIONS.map((days) =>
+              renderOption(days, t(`matching.days.${days}`), answers.days === days, () => update({ days }))
+            )}
+            <Text style={styles.subheading}>{t('matching.periodsTitle')}</Text>
+            {PERIODS.map(({ period, icon }) =>
+              renderOption(
+                period,
+                t(`matching.periods.${period}`),
+                answers.periods.includes(period),
+                () => update({ periods: toggle(answers.periods, period) }),
+                icon
+              )
+            )}
+          </>
+        );
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => (step > 0 ? setStep(step - 1) : router.back())}
+          style={styles.headerButton}
+        >
+          <Ionicons name={step > 0 ? 'arrow-back' : 'close'} size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('matching.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <View style={styles.stepIndicator}>
+        {STEPS.map((key, index) => (
+          <View key={key} style={[styles.stepDot, index <= step && styles.stepDotActive]} />
+        ))}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.stepCount}>{t('matching.stepCount', { step: step + 1, total: STEPS.length })}</Text>
+        <Text style={styles.question}>{t(`matching.questions.${STEPS[step]}`)}</Text>
+        <Text style={styles.hint}>{t(`matching.hints.${STEPS[step]}`)}</Text>
+
+        <View style={styles.options}>{renderStep()}</View>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, (!canContinue || saveAnswers.isPending) && styles.buttonDisabled]}
+          onPress={handleNext}
+          disabled={!canContinue || saveAnswers.isPending}
+        >
+          {saveAnswers.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {isLastStep ? t('matching.seeMatches') : t('common.next')}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  stepIndicator: {
+    flexDirection: 'row',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  stepDot: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+  },
+  stepDotActive: {
+    backgroundColor: '#4F46E5',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  stepCount: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  question: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 6,
+  },
+  subheading: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  options: {
+    gap: 10,
+    marginTop: 20,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  optionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
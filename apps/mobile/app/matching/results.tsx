@@ -0,0 +1,291 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import { useMatchingAnswers, useTherapistMatches } from '@/hooks/useTherapistMatching';
+import type { MatchReason, TherapistMatch } from '@/services/therapist-matching';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
+import { Avatar, Card, EmptyState } from '@/components/ui';
+
+const REASON_ICONS: Record<MatchReason['type'], keyof typeof Ionicons.glyphMap> = {
+  CONCERNS: 'medkit-outline',
+  LANGUAGE: 'globe-outline',
+  BUDGET: 'wallet-outline',
+  GENDER: 'person-outline',
+  AVAILABILITY: 'calendar-outline',
+  RATING: 'star-outline',
+};
+
+export default function MatchingResultsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { formatPrice } = useDisplayCurrency();
+
+  const { data: answers, isLoading: answersLoading } = useMatchingAnswers();
+  const { data: matches, isLoading, isError, isRefetching, refetch } = useTherapistMatches(answers);
+
+  const describeReason = (reason: MatchReason) => {
+    switch (reason.type) {
+      case 'CONCERNS':
+        return t('matching.reasons.concerns', {
+          concerns: reason.matched.map((concern) => t(`matching.concerns.${concern}`)).join(', '),
+        });
+      case 'LANGUAGE':
+        return t('matching.reasons.language', { language: reason.language });
+      case 'BUDGET':
+        return t('matching.reasons.budget', { rate: formatPrice(reason.hourlyRate, reason.currency) });
+      case 'GENDER':
+        return t('matching.reasons.gender');
+      case 'AVAILABILITY':
+        return t('matching.reasons.availability', {
+          days: reason.days,
+          date: format(parseISO(reason.firstDate), 'EEE, MMM d'),
+        });
+      case 'RATING':
+        return t('matching.reasons.rating', { rating: reason.rating.toFixed(1), reviews: reason.reviews });
+    }
+  };
+
+  const renderMatch = ({ therapist, score, reasons }: TherapistMatch, index: number) => {
+    const name = `${therapist.user.firstName} ${therapist.user.lastName}`;
+    return (
+      <Card key={therapist.id} variant="elevated" style={styles.card}>
+        <View style={styles.matchHeader}>
+          <Avatar source={therapist.user.avatarUrl} name={name} size="lg" />
+          <View style={styles.matchInfo}>
+            <Text style={styles.therapistName}>{name}</Text>
+            <Text style={styles.therapistTitle}>{therapist.professionalTitle}</Text>
+          </View>
+          <View style={[styles.scoreBadge, index === 0 && styles.scoreBadgeTop]}>
+            <Text style={[styles.scoreText, index === 0 && styles.scoreTextTop]}>{score}%</Text>
+          </View>
+        </View>
+
+        <Text style={styles.whyTitle}>{t('matching.whyThisMatch')}</Text>
+        {reasons.map((reason) => (
+          <View key={reason.type} style={styles.reasonRow}>
+            <Ionicons name={REASON_ICONS[reason.type]} size={16} color="#10B981" />
+            <Text style={styles.reasonText}>{describeReason(reason)}</Text>
+          </View>
+        ))}
+
+        <TouchableOpacity
+          style={styles.profileButton}
+          onPress={() => router.push(`/therapist/${therapist.id}`)}
+        >
+          <Text style={styles.profileButtonText}>{t('matching.viewProfile')}</Text>
+          <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+        </TouchableOpacity>
+      </Card>
+    );
+  };
+
+  if (answersLoading || isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.loadingText}>{t('matching.finding')}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('matching.resultsTitle')}</Text>
+        <TouchableOpacity onPress={() => router.push('/matching' as any)} style={styles.headerButton}>
+          <Ionicons name="options-outline" size={22} color="#4F46E5" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} />}
+      >
+        {!answers ? (
+          <EmptyState
+            icon="sparkles-outline"
+            title={t('matching.noAnswers')}
+            actionLabel={t('matching.start')}
+            onAction={() => router.replace('/matching' as any)}
+          />
+        ) : isError ? (
+          <EmptyState
+            icon="cloud-offline-outline"
+            title={t('errors.general')}
+            actionLabel={t('common.tryAgain')}
+            onAction={() => refetch()}
+          />
+        ) : !matches?.length ? (
+          <EmptyState
+            icon="search-outline"
+            title={t('matching.noMatches')}
+            description={t('matching.noMatchesDescription')}
+            actionLabel={t('matching.editAnswers')}
+            onAction={() => router.push('/matching' as any)}
+          />
+        ) : (
+          <>
+            <Text style={styles.intro}>{t('matching.resultsIntro')}</Text>
+            {matches.map(renderMatch)}
+            <TouchableOpacity style={styles.browseButton} onPress={() => router.push('/(tabs)/therapists')}>
+              <Text style={styles.browseButtonText}>{t('matching.browseAll')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  matchHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  matchInfo: {
+    flex: 1,
+  },
+  therapistName: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  therapistTitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  scoreBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#EEF2FF',
+  },
+  scoreBadgeTop: {
+    backgroundColor: '#4F46E5',
+  },
+  scoreText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  scoreTextTop: {
+    color: '#FFFFFF',
+  },
+  whyTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginBottom: 6,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  profileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  profileButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  browseButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  browseButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
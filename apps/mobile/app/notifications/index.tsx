@@ -59,11 +59,34 @@ export default function NotificationsScreen() {
             break;
           case 'BOOKING_CONFIRMATION':
           case 'APPOINTMENT_REMINDER':
+          case 'RESCHEDULE_REQUEST':
+          case 'RESCHEDULE_RESPONSE':
+          case 'ASSESSMENT_RISK_FLAG':
             route = 'appointment-details';
             break;
           case 'PAYMENT_RECEIPT':
             route = 'payment-details';
             break;
+          case 'REFUND_PROCESSED':
+            route = 'refund-details';
+            break;
+          case 'WAITLIST_SLOT_AVAILABLE':
+            route = 'claim-slot';
+            break;
+          case 'FAVORITE_THERAPIST_ONLINE':
+            route = 'therapist-profile';
+            break;
+          case 'THERAPIST_ONLINE':
+            route = 'instant-call';
+            break;
+          case 'ASSESSMENT_DUE':
+            route = 'complete-assessment';
+            break;
+          case 'ASSIGNMENT_NEW':
+          case 'ASSIGNMENT_COMPLETED':
+          case 'ASSIGNMENT_REPLY':
+            route = 'assignment';
+            break;
         }
       }
 
@@ -85,6 +108,36 @@ export default function NotificationsScreen() {
           case 'payment-details':
             router.push('/(tabs)/appointments' as Href);
             break;
+          case 'refund-details':
+            router.push(
+              (notifData?.refundId ? `/profile/refund/${notifData.refundId}` : '/profile/payment-history') as Href
+            );
+            break;
+          case 'therapist-profile':
+            if (notifData?.therapistId) {
+              router.push(`/therapist/${notifData.therapistId}` as Href);
+            }
+            break;
+          case 'instant-call':
+            if (notifData?.therapistId) {
+              router.push(`/instant-call/${notifData.therapistId}` as Href);
+            }
+            break;
+          case 'claim-slot':
+            if (notifData?.therapistId && notifData?.offerId) {
+              router.push(`/book/${notifData.therapistId}?offerId=${notifData.offerId}` as Href);
+            }
+            break;
+          case 'complete-assessment':
+            if (notifData?.assessmentRequestId) {
+              router.push(`/assessment/${notifData.assessmentRequestId}` as Href);
+            }
+            break;
+          case 'assignment':
+            if (notifData?.assignmentId) {
+              router.push(`/assignments/${notifData.assignmentId}` as Href);
+            }
+            break;
           default:
             break;
         }
@@ -128,8 +181,29 @@ export default function NotificationsScreen() {
         return { name: 'alarm-outline', color: '#F59E0B' };
       case 'PAYMENT_RECEIPT':
         return { name: 'card-outline', color: '#4F46E5' };
+      case 'REFUND_PROCESSED':
+        return { name: 'arrow-undo-outline', color: '#10B981' };
+      case 'RESCHEDULE_REQUEST':
+      case 'RESCHEDULE_RESPONSE':
+        return { name: 'swap-horizontal-outline', color: '#8B5CF6' };
       case 'THERAPIST_MESSAGE':
         return { name: 'chatbubble-outline', color: '#06B6D4' };
+      case 'WAITLIST_SLOT_AVAILABLE':
+        return { name: 'hourglass-outline', color: '#10B981' };
+      case 'FAVORITE_THERAPIST_ONLINE':
+        return { name: 'heart-outline', color: '#EF4444' };
+      case 'THERAPIST_ONLINE':
+        return { name: 'radio-button-on-outline', color: '#10B981' };
+      case 'ASSESSMENT_DUE':
+        return { name: 'clipboard-outline', color: '#4F46E5' };
+      case 'ASSESSMENT_RISK_FLAG':
+        return { name: 'warning-outline', color: '#EF4444' };
+      case 'ASSIGNMENT_NEW':
+        return { name: 'checkbox-outline', color: '#4F46E5' };
+      case 'ASSIGNMENT_COMPLETED':
+        return { name: 'checkmark-done-outline', color: '#10B981' };
+      case 'ASSIGNMENT_REPLY':
+        return { name: 'chatbubbles-outline', color: '#06B6D4' };
       case 'SYSTEM':
         return { name: 'information-circle-outline', color: '#6B7280' };
       default:
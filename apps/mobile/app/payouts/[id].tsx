@@ -0,0 +1,254 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { usePayout } from '@/hooks/useTherapistDashboard';
+import { summarizePayoutPayments } from '@/services/payouts';
+import { PAYOUT_STATUS_COLORS } from '@/components/payouts/PayoutRow';
+import { Card } from '@/components/ui';
+import { formatCurrencyFromCents, formatDateShort, formatDateTime } from '@/utils/formatting';
+import type { Payment } from '@/types';
+
+export default function PayoutDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { data: payout, isLoading } = usePayout(id!);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!payout) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <Text style={styles.hint}>{t('payouts.notFound')}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const status = PAYOUT_STATUS_COLORS[payout.status];
+  const totals = summarizePayoutPayments(payout.payments);
+  // Refunds and adjustments netted out of this payout, not tied to a session
+  const adjustments = payout.amount - totals.net;
+
+  const renderPayment = (payment: Payment) => {
+    const client = payment.appointment?.user;
+    return (
+      <TouchableOpacity
+        key={payment.id}
+        style={styles.paymentRow}
+        onPress={() => router.push(`/appointment/${payment.appointmentId}`)}
+      >
+        <View style={styles.paymentInfo}>
+          <Text style={styles.paymentTitle}>
+            {client ? `${client.firstName ?? ''} ${client.lastName ?? ''}`.trim() : t('payouts.session')}
+          </Text>
+          <Text style={styles.hint}>
+            {payment.appointment ? formatDateTime(payment.appointment.scheduledAt) : formatDateShort(payment.createdAt)}
+          </Text>
+          <Text style={styles.hint}>
+            {t('payouts.feeLine', {
+              gross: formatCurrencyFromCents(payment.amount, payment.currency),
+              fee: formatCurrencyFromCents(payment.platformFee, payment.currency),
+            })}
+          </Text>
+        </View>
+        <Text style={styles.paymentNet}>{formatCurrencyFromCents(payment.therapistAmount, payment.currency)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('payouts.detailsTitle')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.amountBlock}>
+          <Text style={styles.amount}>{formatCurrencyFromCents(payout.amount, payout.currency)}</Text>
+          <View style={[styles.badge, { backgroundColor: status.bg }]}>
+            <Text style={[styles.badgeText, { color: status.color }]}>{t(`payouts.status.${payout.status}`)}</Text>
+          </View>
+          <Text style={styles.hint}>
+            {t(payout.status === 'PAID' ? 'payouts.arrived' : 'payouts.arrives', {
+              date: formatDateShort(payout.arrivalDate),
+            })}
+            {payout.bankLast4 ? ` · •••• ${payout.bankLast4}` : ''}
+          </Text>
+          {payout.status === 'FAILED' && payout.failureMessage && (
+            <Text style={styles.failureText}>{payout.failureMessage}</Text>
+          )}
+        </View>
+
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>{t('payouts.gross')}</Text>
+            <Text style={styles.totalValue}>{formatCurrencyFromCents(totals.gross, payout.currency)}</Text>
+          </View>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>{t('payouts.platformFees')}</Text>
+            <Text style={[styles.totalValue, styles.negative]}>
+              -{formatCurrencyFromCents(totals.platformFees, payout.currency)}
+            </Text>
+          </View>
+          {adjustments !== 0 && (
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{t('payouts.adjustments')}</Text>
+              <Text style={[styles.totalValue, adjustments < 0 && styles.negative]}>
+                {adjustments < 0 ? '-' : ''}
+                {formatCurrencyFromCents(Math.abs(adjustments), payout.currency)}
+              </Text>
+            </View>
+          )}
+          <View style={styles.divider} />
+          <View style={styles.totalRow}>
+            <Text style={styles.totalStrong}>{t('payouts.net')}</Text>
+            <Text style={styles.totalStrong}>{formatCurrencyFromCents(payout.amount, payout.currency)}</Text>
+          </View>
+        </Card>
+
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('payouts.paymentCount', { count: payout.payments.length })}</Text>
+          {payout.payments.map(renderPayment)}
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  amountBlock: {
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 16,
+  },
+  amount: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  failureText: {
+    fontSize: 13,
+    color: '#DC2626',
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 4,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  totalStrong: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  negative: {
+    color: '#EF4444',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 8,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  paymentInfo: {
+    flex: 1,
+  },
+  paymentTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  paymentNet: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
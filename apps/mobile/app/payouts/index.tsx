@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { usePayouts } from '@/hooks/useTherapistDashboard';
+import { PayoutRow } from '@/components/payouts/PayoutRow';
+
+export default function PayoutsScreen() {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isFetching } = usePayouts(page, 20);
+
+  const payouts = data?.data ?? [];
+  const totalPages = data?.meta?.totalPages || 1;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('payouts.title')}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={{ marginTop: 60 }} color="#4F46E5" />
+      ) : (
+        <FlatList
+          data={payouts}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <PayoutRow payout={item} onPress={() => router.push(`/payouts/${item.id}`)} />
+          )}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="wallet-outline" size={48} color="#D1D5DB" />
+              <Text style={styles.emptyText}>{t('payouts.empty')}</Text>
+            </View>
+          }
+          ListFooterComponent={
+            totalPages > 1 ? (
+              <View style={styles.pagination}>
+                <TouchableOpacity
+                  onPress={() => setPage((current) => Math.max(1, current - 1))}
+                  disabled={page === 1 || isFetching}
+                >
+                  <Ionicons name="chevron-back" size={20} color={page === 1 ? '#D1D5DB' : '#4F46E5'} />
+                </TouchableOpacity>
+                <Text style={styles.pageIndicator}>{t('payouts.page', { page, total: totalPages })}</Text>
+                <TouchableOpacity
+                  onPress={() => setPage((current) => Math.min(totalPages, current + 1))}
+                  disabled={page === totalPages || isFetching}
+                >
+                  <Ionicons name="chevron-forward" size={20} color={page === totalPages ? '#D1D5DB' : '#4F46E5'} />
+                </TouchableOpacity>
+              </View>
+            ) : null
+          }
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fff' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  title: { fontSize: 17, fontWeight: '600', color: '#111827' },
+  listContent: { paddingHorizontal: 16, paddingBottom: 32 },
+  emptyState: { alignItems: 'center', paddingTop: 80, paddingHorizontal: 32 },
+  emptyText: { fontSize: 14, color: '#6B7280', marginTop: 12, textAlign: 'center' },
+  pagination: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    paddingVertical: 16,
+  },
+  pageIndicator: { fontSize: 13, color: '#6B7280' },
+});
@@ -12,10 +12,21 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useLocaleStore } from '@/store/locale';
 import { LANGUAGES, type LanguageCode } from '@/i18n';
+import { useDisplayCurrency, useUpdateDisplayCurrency } from '@/hooks/useCurrency';
+import { SUPPORTED_CURRENCIES } from '@/services/currency';
 
 export default function LanguageScreen() {
   const { t } = useTranslation();
   const { language, setLanguage, isRTL } = useLocaleStore();
+  const { currency: displayCurrency } = useDisplayCurrency();
+  const updateDisplayCurrency = useUpdateDisplayCurrency();
+
+  const handleCurrencySelect = (currency: string) => {
+    if (currency === displayCurrency) return;
+    updateDisplayCurrency.mutate(currency, {
+      onError: () => Alert.alert(t('common.error'), t('profile.currency.updateFailed')),
+    });
+  };
 
   const handleLanguageSelect = async (lang: LanguageCode) => {
     if (lang === language) return;
@@ -99,6 +110,35 @@ export default function LanguageScreen() {
             )}
           </TouchableOpacity>
         ))}
+
+        <Text style={styles.sectionTitle}>{t('profile.currency.title')}</Text>
+        <Text style={styles.sectionSubtitle}>{t('profile.currency.subtitle')}</Text>
+        {SUPPORTED_CURRENCIES.map((currency) => (
+          <TouchableOpacity
+            key={currency}
+            style={[
+              styles.languageItem,
+              displayCurrency === currency && styles.languageItemActive,
+            ]}
+            onPress={() => handleCurrencySelect(currency)}
+            disabled={updateDisplayCurrency.isPending}
+          >
+            <View style={styles.languageInfo}>
+              <Text
+                style={[
+                  styles.languageName,
+                  displayCurrency === currency && styles.languageNameActive,
+                ]}
+              >
+                {currency}
+              </Text>
+              <Text style={styles.languageNative}>{t(`profile.currency.names.${currency}`)}</Text>
+            </View>
+            {displayCurrency === currency && (
+              <Ionicons name="checkmark-circle" size={24} color="#4F46E5" />
+            )}
+          </TouchableOpacity>
+        ))}
       </ScrollView>
 
       {isRTL && (
@@ -153,6 +193,18 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingHorizontal: 16,
   },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
   languageItem: {
     flexDirection: 'row',
     alignItems: 'center',
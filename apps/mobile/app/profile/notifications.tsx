@@ -0,0 +1,348 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import {
+  usePresenceSettings,
+  usePresenceSubscriptions,
+  useTogglePresenceSubscription,
+  useUpdatePresenceSettings,
+} from '@/hooks/usePresence';
+import {
+  DEFAULT_PRESENCE_SETTINGS,
+  PRESENCE_COOLDOWN_OPTIONS,
+  QUIET_HOURS_END_OPTIONS,
+  QUIET_HOURS_START_OPTIONS,
+  getNextAlertAt,
+  getQuietHoursEnd,
+  isInQuietHours,
+} from '@/services/presence';
+import { Avatar, Card } from '@/components/ui';
+import type { PresenceAlertSettings, PresenceSubscription } from '@/types';
+
+export default function NotificationSettingsScreen() {
+  const { t } = useTranslation();
+
+  const { data: savedSettings, isLoading: settingsLoading } = usePresenceSettings();
+  const { data: subscriptions, isLoading: subscriptionsLoading } = usePresenceSubscriptions();
+  const updateSettings = useUpdatePresenceSettings();
+  const togglePresence = useTogglePresenceSubscription();
+
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const settings: PresenceAlertSettings = savedSettings ?? { ...DEFAULT_PRESENCE_SETTINGS, timezone };
+  const now = new Date();
+  const quietNow = isInQuietHours(settings, now);
+
+  const handleUpdate = (changes: Partial<PresenceAlertSettings>) => {
+    // Quiet hours are evaluated in whatever timezone the device is in now
+    updateSettings.mutate(
+      { ...changes, timezone },
+      { onError: (error: any) => Alert.alert(t('common.error'), error?.message || t('errors.general')) }
+    );
+  };
+
+  const handleRemove = (subscription: PresenceSubscription) => {
+    togglePresence.mutate({ therapist: subscription.therapist, subscribed: false });
+  };
+
+  const describeSubscription = (subscription: PresenceSubscription) => {
+    if (subscription.therapist.isOnline) return t('presence.onlineNow');
+    const nextAlertAt = getNextAlertAt(subscription, settings, now);
+    return nextAlertAt
+      ? t('presence.nextAlertAfter', { time: format(nextAlertAt, 'p') })
+      : t('presence.alertsOn');
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      disabled={updateSettings.isPending}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  if (settingsLoading || subscriptionsLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('profile.menu.notifications')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.sectionTitle}>{t('presence.title')}</Text>
+        <Text style={styles.sectionDescription}>{t('presence.description')}</Text>
+
+        {quietNow && (
+          <View style={styles.quietBanner}>
+            <Ionicons name="moon" size={18} color="#4F46E5" />
+            <Text style={styles.quietBannerText}>
+              {t('presence.quietNow', { time: format(getQuietHoursEnd(settings, now), 'p') })}
+            </Text>
+          </View>
+        )}
+
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.cardTitle}>{t('presence.cooldownTitle')}</Text>
+          <Text style={styles.cardHint}>{t('presence.cooldownHint')}</Text>
+          <View style={styles.chips}>
+            {PRESENCE_COOLDOWN_OPTIONS.map((minutes) =>
+              renderChip(
+                minutes < 60
+                  ? t('presence.minutes', { count: minutes })
+                  : t('presence.hours', { count: minutes / 60 }),
+                settings.cooldownMinutes === minutes,
+                () => handleUpdate({ cooldownMinutes: minutes })
+              )
+            )}
+          </View>
+        </Card>
+
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.cardTitle}>{t('presence.quietHoursTitle')}</Text>
+              <Text style={styles.cardHint}>{t('presence.quietHoursHint')}</Text>
+            </View>
+            <Switch
+              value={settings.quietHoursEnabled}
+              onValueChange={(quietHoursEnabled) => handleUpdate({ quietHoursEnabled })}
+              disabled={updateSettings.isPending}
+              trackColor={{ false: '#E5E7EB', true: '#C7D2FE' }}
+              thumbColor={settings.quietHoursEnabled ? '#4F46E5' : '#9CA3AF'}
+            />
+          </View>
+
+          {settings.quietHoursEnabled && (
+            <>
+              <Text style={styles.label}>{t('presence.quietFrom')}</Text>
+              <View style={styles.chips}>
+                {QUIET_HOURS_START_OPTIONS.map((time) =>
+                  renderChip(time, settings.quietHoursStart === time, () =>
+                    handleUpdate({ quietHoursStart: time })
+                  )
+                )}
+              </View>
+              <Text style={styles.label}>{t('presence.quietUntil')}</Text>
+              <View style={styles.chips}>
+                {QUIET_HOURS_END_OPTIONS.map((time) =>
+                  renderChip(time, settings.quietHoursEnd === time, () => handleUpdate({ quietHoursEnd: time }))
+                )}
+              </View>
+            </>
+          )}
+        </Card>
+
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.cardTitle}>{t('presence.subscriptionsTitle')}</Text>
+          {!subscriptions?.length ? (
+            <Text style={styles.cardHint}>{t('presence.noSubscriptions')}</Text>
+          ) : (
+            subscriptions.map((subscription) => {
+              const { therapist } = subscription;
+              const name = `${therapist.user.firstName} ${therapist.user.lastName}`;
+              return (
+                <View key={subscription.therapistId} style={styles.subscriptionRow}>
+                  <TouchableOpacity
+                    style={styles.subscriptionInfo}
+                    onPress={() => router.push(`/therapist/${therapist.id}`)}
+                  >
+                    <Avatar source={therapist.user.avatarUrl} name={name} size="sm" />
+                    <View style={styles.subscriptionText}>
+                      <Text style={styles.subscriptionName}>{name}</Text>
+                      <Text style={styles.subscriptionStatus}>{describeSubscription(subscription)}</Text>
+                    </View>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(subscription)}>
+                    <Ionicons name="notifications-off-outline" size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                </View>
+              );
+            })
+          )}
+        </Card>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6B7280',
+    lineHeight: 20,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  quietBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#EEF2FF',
+    marginBottom: 16,
+  },
+  quietBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#3730A3',
+  },
+  card: {
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  cardHint: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  subscriptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  subscriptionInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  subscriptionText: {
+    flex: 1,
+  },
+  subscriptionName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  subscriptionStatus: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
@@ -6,76 +6,319 @@ import {
   FlatList,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { usePaymentHistory } from '@/hooks/usePayments';
-import type { Payment } from '@/types';
+import { useShareInvoice } from '@/hooks/useInvoices';
+import { useSessionPackages, useWalletBalances, useWalletTransactions } from '@/hooks/useWallet';
+import { sumByCurrency } from '@/services/currency';
+import { getPaymentStatus, getRefundSummary } from '@/services/refunds';
+import { BillablePayment, isBillable } from '@/services/invoice-documents';
+import {
+  PACKAGE_EXPIRY_WARNING_DAYS,
+  getDaysUntilExpiry,
+  getPackageSessionsLeft,
+} from '@/services/wallet';
+import { RefundRow } from '@/components/payments/RefundRow';
+import { formatCurrencyFromCents } from '@/utils/formatting';
+import type { Payment, SessionPackage, WalletTransaction, WalletTransactionType } from '@/types';
 
 const STATUS_CONFIG = {
   PENDING: { label: 'Pending', color: '#D97706', bg: '#FEF3C7' },
   SUCCESS: { label: 'Paid', color: '#059669', bg: '#D1FAE5' },
   FAILED: { label: 'Failed', color: '#DC2626', bg: '#FEE2E2' },
   REFUNDED: { label: 'Refunded', color: '#6B7280', bg: '#F3F4F6' },
+  PARTIALLY_REFUNDED: { label: 'Partially refunded', color: '#2563EB', bg: '#DBEAFE' },
 };
 
-function formatAmount(cents: number) {
-  return `$${(cents / 100).toFixed(2)}`;
-}
+const TRANSACTION_CONFIG: Record<
+  WalletTransactionType,
+  { label: string; icon: keyof typeof Ionicons.glyphMap }
+> = {
+  CREDIT: { label: 'Credit added', icon: 'gift-outline' },
+  REFUND: { label: 'Refund to wallet', icon: 'arrow-undo' },
+  BOOKING: { label: 'Paid from wallet', icon: 'calendar-outline' },
+  PACKAGE_PURCHASE: { label: 'Package purchased', icon: 'pricetags-outline' },
+  PACKAGE_SESSION: { label: 'Package session used', icon: 'checkmark-done-outline' },
+  PACKAGE_EXPIRED: { label: 'Package sessions expired', icon: 'hourglass-outline' },
+};
+
+const PACKAGE_STATUS_LABELS: Record<SessionPackage['status'], string> = {
+  ACTIVE: 'Active',
+  USED_UP: 'Used up',
+  EXPIRED: 'Expired',
+  REFUNDED: 'Refunded',
+};
+
+type Tab = 'payments' | 'wallet';
 
 function formatDate(dateStr: string) {
   const date = new Date(dateStr);
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
-function PaymentItem({ payment }: { payment: Payment }) {
-  const status = STATUS_CONFIG[payment.status] || STATUS_CONFIG.PENDING;
+function PaymentItem({
+  payment,
+  onInvoice,
+}: {
+  payment: Payment;
+  onInvoice: (payment: BillablePayment) => void;
+}) {
+  const paymentStatus = getPaymentStatus(payment);
+  const status = STATUS_CONFIG[paymentStatus] || STATUS_CONFIG.PENDING;
+  const refunds = payment.refunds ?? [];
+  const { refunded } = getRefundSummary(payment);
+  const isRefunded = paymentStatus === 'REFUNDED' || paymentStatus === 'PARTIALLY_REFUNDED';
   const therapistName = payment.appointment?.therapist?.user
     ? `Dr. ${payment.appointment.therapist.user.firstName} ${payment.appointment.therapist.user.lastName}`
     : 'Therapy Session';
 
+  return (
+    <View style={[styles.paymentItem, styles.paymentItemStacked]}>
+      <View style={styles.paymentRow}>
+        <View style={styles.paymentLeft}>
+          <View style={styles.paymentIcon}>
+            <Ionicons name={isRefunded ? 'arrow-undo' : 'card-outline'} size={20} color="#4F46E5" />
+          </View>
+        </View>
+        <View style={styles.paymentMiddle}>
+          <Text style={styles.paymentTitle}>{therapistName}</Text>
+          <Text style={styles.paymentDate}>{formatDate(payment.createdAt)}</Text>
+          {payment.appointment && (
+            <Text style={styles.paymentMeta}>
+              {payment.appointment.duration} min session
+            </Text>
+          )}
+        </View>
+        <View style={styles.paymentRight}>
+          <Text style={styles.paymentAmount}>
+            {formatCurrencyFromCents(payment.amount, payment.currency)}
+          </Text>
+          {payment.displayAmount !== undefined && payment.displayCurrency && (
+            <Text style={styles.paymentConverted}>
+              ≈ {formatCurrencyFromCents(payment.displayAmount, payment.displayCurrency)}
+            </Text>
+          )}
+          <View style={[styles.statusBadge, { backgroundColor: status.bg }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+      </View>
+      {paymentStatus === 'PARTIALLY_REFUNDED' && (
+        <Text style={styles.refundSummary}>
+          {formatCurrencyFromCents(refunded, payment.currency)} of{' '}
+          {formatCurrencyFromCents(payment.amount, payment.currency)} refunded
+        </Text>
+      )}
+      {refunds.map((refund) => (
+        <View key={refund.id} style={styles.refundRow}>
+          <RefundRow refund={refund} onPress={() => router.push(`/profile/refund/${refund.id}`)} />
+        </View>
+      ))}
+      {isBillable(payment) && (
+        <TouchableOpacity style={styles.invoiceLink} onPress={() => onInvoice(payment)}>
+          <Ionicons name="document-text-outline" size={14} color="#4F46E5" />
+          <Text style={styles.invoiceLinkText}>Invoice PDF</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+function PageControls({
+  page,
+  totalPages,
+  disabled,
+  onChange,
+}: {
+  page: number;
+  totalPages: number;
+  disabled: boolean;
+  onChange: (page: number) => void;
+}) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <View style={styles.pagination}>
+      <TouchableOpacity
+        style={[styles.pageBtn, page === 1 && styles.pageBtnDisabled]}
+        onPress={() => onChange(Math.max(1, page - 1))}
+        disabled={page === 1 || disabled}
+      >
+        <Ionicons name="chevron-back" size={18} color={page === 1 ? '#D1D5DB' : '#4F46E5'} />
+        <Text style={[styles.pageBtnText, page === 1 && styles.pageBtnTextDisabled]}>Previous</Text>
+      </TouchableOpacity>
+      <Text style={styles.pageIndicator}>Page {page} of {totalPages}</Text>
+      <TouchableOpacity
+        style={[styles.pageBtn, page === totalPages && styles.pageBtnDisabled]}
+        onPress={() => onChange(Math.min(totalPages, page + 1))}
+        disabled={page === totalPages || disabled}
+      >
+        <Text style={[styles.pageBtnText, page === totalPages && styles.pageBtnTextDisabled]}>Next</Text>
+        <Ionicons name="chevron-forward" size={18} color={page === totalPages ? '#D1D5DB' : '#4F46E5'} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function PackageItem({ pkg }: { pkg: SessionPackage }) {
+  const sessionsLeft = getPackageSessionsLeft(pkg);
+  const daysLeft = getDaysUntilExpiry(pkg);
+  const isActive = pkg.status === 'ACTIVE';
+  const therapistName = pkg.therapist?.user
+    ? `Dr. ${pkg.therapist.user.firstName} ${pkg.therapist.user.lastName}`
+    : 'Session package';
+
+  return (
+    <View style={[styles.packageItem, !isActive && styles.packageItemInactive]}>
+      <View style={styles.packageHeader}>
+        <Text style={styles.paymentTitle}>{therapistName}</Text>
+        <Text style={styles.paymentMeta}>{formatCurrencyFromCents(pkg.pricePaid, pkg.currency)}</Text>
+      </View>
+      <Text style={styles.paymentMeta}>
+        {sessionsLeft} of {pkg.sessionCount} sessions left · {pkg.duration} min
+      </Text>
+      <View style={styles.usageTrack}>
+        <View style={[styles.usageFill, { width: `${(pkg.sessionsUsed / pkg.sessionCount) * 100}%` }]} />
+      </View>
+      <Text
+        style={[
+          styles.paymentDate,
+          isActive && daysLeft <= PACKAGE_EXPIRY_WARNING_DAYS && styles.expiryWarning,
+        ]}
+      >
+        {isActive
+          ? `Expires ${formatDate(pkg.expiresAt)} (${daysLeft} day(s) left)`
+          : `${PACKAGE_STATUS_LABELS[pkg.status]} · bought ${formatDate(pkg.purchasedAt)}`}
+      </Text>
+    </View>
+  );
+}
+
+function LedgerItem({ entry }: { entry: WalletTransaction }) {
+  const config = TRANSACTION_CONFIG[entry.type] || TRANSACTION_CONFIG.CREDIT;
+  const change =
+    entry.amount !== 0
+      ? `${entry.amount > 0 ? '+' : '-'}${formatCurrencyFromCents(Math.abs(entry.amount), entry.currency)}`
+      : entry.sessions
+        ? `${entry.type === 'PACKAGE_PURCHASE' ? '+' : '-'}${entry.sessions} session(s)`
+        : '';
+
   return (
     <View style={styles.paymentItem}>
       <View style={styles.paymentLeft}>
         <View style={styles.paymentIcon}>
-          <Ionicons
-            name={payment.status === 'REFUNDED' ? 'arrow-undo' : 'card-outline'}
-            size={20}
-            color="#4F46E5"
-          />
+          <Ionicons name={config.icon} size={20} color="#4F46E5" />
         </View>
       </View>
       <View style={styles.paymentMiddle}>
-        <Text style={styles.paymentTitle}>{therapistName}</Text>
-        <Text style={styles.paymentDate}>{formatDate(payment.createdAt)}</Text>
-        {payment.appointment && (
-          <Text style={styles.paymentMeta}>
-            {payment.appointment.duration} min session
-          </Text>
-        )}
+        <Text style={styles.paymentTitle}>{config.label}</Text>
+        <Text style={styles.paymentDate}>{formatDate(entry.createdAt)}</Text>
+        {entry.description && <Text style={styles.paymentMeta}>{entry.description}</Text>}
       </View>
       <View style={styles.paymentRight}>
-        <Text style={styles.paymentAmount}>{formatAmount(payment.amount)}</Text>
-        <View style={[styles.statusBadge, { backgroundColor: status.bg }]}>
-          <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
-        </View>
+        <Text style={[styles.paymentAmount, entry.amount > 0 && styles.amountCredit]}>{change}</Text>
+        {entry.amount !== 0 && (
+          <Text style={styles.paymentConverted}>
+            Balance {formatCurrencyFromCents(entry.balanceAfter, entry.currency)}
+          </Text>
+        )}
       </View>
     </View>
   );
 }
 
+function WalletView() {
+  const [page, setPage] = useState(1);
+  const { data: balances } = useWalletBalances();
+  const { data: packages } = useSessionPackages();
+  const { data, isLoading, isFetching } = useWalletTransactions(page, 20);
+
+  const entries = data?.data || [];
+  const nonZeroBalances = (balances ?? []).filter((balance) => balance.amount > 0);
+  // Active packages first, soonest to expire on top
+  const sortedPackages = [...(packages ?? [])].sort(
+    (a, b) =>
+      Number(b.status === 'ACTIVE') - Number(a.status === 'ACTIVE') || a.expiresAt.localeCompare(b.expiresAt)
+  );
+
+  if (isLoading) {
+    return <ActivityIndicator style={{ marginTop: 60 }} color="#4F46E5" />;
+  }
+
+  return (
+    <FlatList
+      data={entries}
+      keyExtractor={(item) => item.id}
+      ListHeaderComponent={
+        <View>
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryItem}>
+              <Text style={styles.summaryLabel}>Wallet Balance</Text>
+              <Text style={[styles.summaryValue, { color: '#4F46E5' }]} numberOfLines={1} adjustsFontSizeToFit>
+                {nonZeroBalances.length > 0
+                  ? nonZeroBalances
+                      .map((balance) => formatCurrencyFromCents(balance.amount, balance.currency))
+                      .join(' + ')
+                  : formatCurrencyFromCents(0)}
+              </Text>
+              <Text style={styles.summaryHint}>Used before your card when you book</Text>
+            </View>
+          </View>
+
+          {sortedPackages.length > 0 && (
+            <>
+              <Text style={styles.listHeading}>Session Packages</Text>
+              {sortedPackages.map((pkg) => (
+                <PackageItem key={pkg.id} pkg={pkg} />
+              ))}
+            </>
+          )}
+
+          <Text style={styles.listHeading}>Ledger</Text>
+        </View>
+      }
+      renderItem={({ item }) => <LedgerItem entry={item} />}
+      ListEmptyComponent={
+        <View style={styles.emptyLedger}>
+          <Text style={styles.emptySubtitle}>Credits, refunds and package activity will appear here.</Text>
+        </View>
+      }
+      ListFooterComponent={
+        <PageControls
+          page={page}
+          totalPages={data?.meta?.totalPages || 1}
+          disabled={isFetching}
+          onChange={setPage}
+        />
+      }
+      contentContainerStyle={styles.listContent}
+      showsVerticalScrollIndicator={false}
+    />
+  );
+}
+
 export default function PaymentHistoryScreen() {
+  const [tab, setTab] = useState<Tab>('payments');
   const [page, setPage] = useState(1);
   const { data, isLoading, isFetching } = usePaymentHistory(page, 20);
+  const shareInvoice = useShareInvoice();
 
   const payments = data?.data || [];
   const totalPages = data?.meta?.totalPages || 1;
   const total = data?.meta?.total || 0;
 
-  const totalPaid = payments
-    .filter((p) => p.status === 'SUCCESS')
-    .reduce((sum, p) => sum + p.amount, 0);
+  // Net of refunds already sent back
+  const totalPaid = sumByCurrency(
+    payments
+      .filter((p) => ['SUCCESS', 'PARTIALLY_REFUNDED'].includes(getPaymentStatus(p)))
+      .map((p) => ({ amount: p.amount - getRefundSummary(p).refunded, currency: p.currency }))
+  )
+    .map((total) => formatCurrencyFromCents(total.amount, total.currency))
+    .join(' + ');
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -84,10 +327,28 @@ export default function PaymentHistoryScreen() {
           <Ionicons name="chevron-back" size={24} color="#111827" />
         </TouchableOpacity>
         <Text style={styles.title}>Payment History</Text>
-        <View style={{ width: 40 }} />
+        <TouchableOpacity onPress={() => router.push('/profile/superbill')} style={styles.backButton}>
+          <Ionicons name="document-text-outline" size={22} color="#4F46E5" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.tabs}>
+        {(['payments', 'wallet'] as Tab[]).map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.tab, tab === value && styles.tabActive]}
+            onPress={() => setTab(value)}
+          >
+            <Text style={[styles.tabText, tab === value && styles.tabTextActive]}>
+              {value === 'payments' ? 'Payments' : 'Wallet & Packages'}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
-      {isLoading ? (
+      {tab === 'wallet' ? (
+        <WalletView />
+      ) : isLoading ? (
         <ActivityIndicator style={{ marginTop: 60 }} color="#4F46E5" />
       ) : (
         <FlatList
@@ -103,12 +364,23 @@ export default function PaymentHistoryScreen() {
                 <View style={styles.summaryDivider} />
                 <View style={styles.summaryItem}>
                   <Text style={styles.summaryLabel}>Total Paid</Text>
-                  <Text style={[styles.summaryValue, { color: '#4F46E5' }]}>{formatAmount(totalPaid)}</Text>
+                  <Text style={[styles.summaryValue, { color: '#4F46E5' }]} numberOfLines={1} adjustsFontSizeToFit>
+                    {totalPaid || formatCurrencyFromCents(0)}
+                  </Text>
                 </View>
               </View>
             ) : null
           }
-          renderItem={({ item }) => <PaymentItem payment={item} />}
+          renderItem={({ item }) => (
+            <PaymentItem
+              payment={item}
+              onInvoice={(payment) =>
+                shareInvoice.mutate(payment, {
+                  onError: () => Alert.alert('Error', 'Could not create the invoice. Please try again.'),
+                })
+              }
+            />
+          )}
           ListEmptyComponent={
             <View style={styles.emptyState}>
               <Ionicons name="receipt-outline" size={64} color="#D1D5DB" />
@@ -117,27 +389,7 @@ export default function PaymentHistoryScreen() {
             </View>
           }
           ListFooterComponent={
-            totalPages > 1 ? (
-              <View style={styles.pagination}>
-                <TouchableOpacity
-                  style={[styles.pageBtn, page === 1 && styles.pageBtnDisabled]}
-                  onPress={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page === 1 || isFetching}
-                >
-                  <Ionicons name="chevron-back" size={18} color={page === 1 ? '#D1D5DB' : '#4F46E5'} />
-                  <Text style={[styles.pageBtnText, page === 1 && styles.pageBtnTextDisabled]}>Previous</Text>
-                </TouchableOpacity>
-                <Text style={styles.pageIndicator}>Page {page} of {totalPages}</Text>
-                <TouchableOpacity
-                  style={[styles.pageBtn, page === totalPages && styles.pageBtnDisabled]}
-                  onPress={() => setPage((p) => Math.min(totalPages, p + 1))}
-                  disabled={page === totalPages || isFetching}
-                >
-                  <Text style={[styles.pageBtnText, page === totalPages && styles.pageBtnTextDisabled]}>Next</Text>
-                  <Ionicons name="chevron-forward" size={18} color={page === totalPages ? '#D1D5DB' : '#4F46E5'} />
-                </TouchableOpacity>
-              </View>
-            ) : null
+            <PageControls page={page} totalPages={totalPages} disabled={isFetching} onChange={setPage} />
           }
           contentContainerStyle={payments.length === 0 ? styles.emptyContainer : styles.listContent}
           showsVerticalScrollIndicator={false}
@@ -193,6 +445,12 @@ const styles = StyleSheet.create({
     shadowRadius: 3,
     elevation: 1,
   },
+  paymentItemStacked: { flexDirection: 'column', alignItems: 'stretch' },
+  paymentRow: { flexDirection: 'row', alignItems: 'center' },
+  refundSummary: { fontSize: 12, color: '#2563EB', marginTop: 10 },
+  refundRow: { marginTop: 8, borderTopWidth: 1, borderTopColor: '#F3F4F6' },
+  invoiceLink: { flexDirection: 'row', alignItems: 'center', gap: 4, alignSelf: 'flex-end', marginTop: 8 },
+  invoiceLinkText: { fontSize: 12, fontWeight: '600', color: '#4F46E5' },
   paymentLeft: { marginRight: 12 },
   paymentIcon: {
     width: 44,
@@ -208,6 +466,54 @@ const styles = StyleSheet.create({
   paymentMeta: { fontSize: 12, color: '#6B7280' },
   paymentRight: { alignItems: 'flex-end', gap: 4 },
   paymentAmount: { fontSize: 15, fontWeight: '700', color: '#111827' },
+  paymentConverted: { fontSize: 12, color: '#6B7280' },
+  amountCredit: { color: '#059669' },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: { borderBottomColor: '#4F46E5' },
+  tabText: { fontSize: 14, fontWeight: '500', color: '#6B7280' },
+  tabTextActive: { color: '#4F46E5', fontWeight: '600' },
+  summaryHint: { fontSize: 12, color: '#9CA3AF', marginTop: 4 },
+  listHeading: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  packageItem: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginBottom: 10,
+    borderRadius: 12,
+    padding: 14,
+    gap: 4,
+  },
+  packageItemInactive: { opacity: 0.6 },
+  packageHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  usageTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#EEF2FF',
+    overflow: 'hidden',
+    marginVertical: 4,
+  },
+  usageFill: { height: 6, backgroundColor: '#4F46E5' },
+  expiryWarning: { color: '#D97706', fontWeight: '600' },
+  emptyLedger: { paddingHorizontal: 32, paddingVertical: 24 },
   statusBadge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
   statusText: { fontSize: 11, fontWeight: '600' },
   emptyState: {
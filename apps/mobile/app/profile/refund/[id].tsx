@@ -0,0 +1,289 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRefund } from '@/hooks/usePayments';
+import { getExpectedArrival } from '@/services/refunds';
+import { REFUND_STATUS_COLORS } from '@/components/payments/RefundRow';
+import { Card } from '@/components/ui';
+import { formatCurrencyFromCents, formatDateShort } from '@/utils/formatting';
+
+interface TimelineStep {
+  label: string;
+  date?: string;
+  done: boolean;
+  failed?: boolean;
+}
+
+export default function RefundDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { data: refund, isLoading } = useRefund(id!);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!refund) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <Text style={styles.hint}>{t('refunds.notFound')}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const toWallet = refund.destination === 'WALLET';
+  const arrival = getExpectedArrival(refund);
+  const arrivalText = arrival
+    ? arrival.from.getTime() === arrival.to.getTime()
+      ? formatDateShort(arrival.to)
+      : `${formatDateShort(arrival.from)} – ${formatDateShort(arrival.to)}`
+    : undefined;
+
+  const steps: TimelineStep[] = [
+    { label: t('refunds.timeline.requested'), date: formatDateShort(refund.createdAt), done: true },
+  ];
+  if (refund.status === 'FAILED') {
+    steps.push({ label: t('refunds.timeline.failed'), done: true, failed: true });
+  } else {
+    steps.push({
+      label: t('refunds.timeline.processing'),
+      done: refund.status === 'PROCESSING' || refund.status === 'SUCCEEDED',
+    });
+    steps.push({
+      label: toWallet ? t('refunds.timeline.sentWallet') : t('refunds.timeline.sent'),
+      date: refund.processedAt ? formatDateShort(refund.processedAt) : undefined,
+      done: refund.status === 'SUCCEEDED',
+    });
+    if (!toWallet) {
+      // We're never told when the bank posts it, so this stays an estimate
+      steps.push({ label: t('refunds.timeline.arrival'), date: arrivalText, done: false });
+    }
+  }
+
+  const destination = toWallet
+    ? t('refunds.toWallet')
+    : refund.cardLast4
+      ? t('refunds.toCard', { brand: refund.cardBrand ?? '', last4: refund.cardLast4 })
+      : t('refunds.toCardGeneric');
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('refunds.detailsTitle')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.amountBlock}>
+          <Text style={styles.amount}>{formatCurrencyFromCents(refund.amount, refund.currency)}</Text>
+          <Text style={[styles.status, { color: REFUND_STATUS_COLORS[refund.status] }]}>
+            {t(`refunds.status.${refund.status}`)}
+          </Text>
+        </View>
+
+        <Card variant="elevated" style={styles.card}>
+          {steps.map((step, index) => (
+            <View key={step.label} style={styles.step}>
+              <View style={styles.stepMarker}>
+                <View
+                  style={[
+                    styles.stepDot,
+                    step.done && styles.stepDotDone,
+                    step.failed && styles.stepDotFailed,
+                  ]}
+                />
+                {index < steps.length - 1 && <View style={styles.stepLine} />}
+              </View>
+              <View style={styles.stepContent}>
+                <Text style={[styles.stepLabel, !step.done && styles.stepLabelPending]}>{step.label}</Text>
+                {step.date && <Text style={styles.hint}>{step.date}</Text>}
+                {step.failed && (
+                  <Text style={styles.failureText}>{refund.failureReason || t('refunds.failed')}</Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </Card>
+
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('refunds.reason')}</Text>
+            <Text style={styles.detailValue}>{t(`refunds.reasons.${refund.reason}`)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('refunds.destination')}</Text>
+            <Text style={styles.detailValue}>{destination}</Text>
+          </View>
+          {refund.payment && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{t('refunds.originalPayment')}</Text>
+              <Text style={styles.detailValue}>
+                {formatCurrencyFromCents(refund.payment.amount, refund.payment.currency)} ·{' '}
+                {formatDateShort(refund.payment.createdAt)}
+              </Text>
+            </View>
+          )}
+          {!toWallet && arrivalText && refund.status !== 'FAILED' && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{t('refunds.expectedArrival')}</Text>
+              <Text style={styles.detailValue}>{arrivalText}</Text>
+            </View>
+          )}
+          {!toWallet && <Text style={styles.hint}>{t('refunds.cardHint')}</Text>}
+        </Card>
+
+        {refund.appointmentId && (
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => router.push(`/appointment/${refund.appointmentId}`)}
+          >
+            <Text style={styles.linkText}>{t('refunds.viewAppointment')}</Text>
+            <Ionicons name="chevron-forward" size={16} color="#4F46E5" />
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  amountBlock: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  amount: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  status: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  step: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  stepMarker: {
+    alignItems: 'center',
+    width: 14,
+  },
+  stepDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#fff',
+  },
+  stepDotDone: {
+    borderColor: '#059669',
+    backgroundColor: '#059669',
+  },
+  stepDotFailed: {
+    borderColor: '#DC2626',
+    backgroundColor: '#DC2626',
+  },
+  stepLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E5E7EB',
+    marginVertical: 2,
+  },
+  stepContent: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  stepLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  stepLabelPending: {
+    color: '#9CA3AF',
+  },
+  failureText: {
+    fontSize: 13,
+    color: '#DC2626',
+    marginTop: 2,
+  },
+  detailRow: {
+    marginBottom: 12,
+  },
+  detailLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  detailValue: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+});
@@ -0,0 +1,736 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  useAvailabilitySettings,
+  useTherapistProfile,
+  useUpdateAvailabilitySettings,
+} from '@/hooks/useTherapistDashboard';
+import {
+  BUFFER_OPTIONS,
+  SCHEDULE_STEP_MINUTES,
+  buildAvailabilitySummary,
+  fromMinutes,
+  getBlocksForDate,
+  toMinutes,
+  validateBlocks,
+} from '@/services/therapist-schedule';
+import { Card } from '@/components/ui';
+import { Calendar } from '@/components/calendar';
+import { formatDate } from '@/utils/formatting';
+import type { TherapistAvailabilitySettings, TimeSlot } from '@/types';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_BLOCK: TimeSlot = { startTime: '09:00', endTime: '17:00' };
+
+// The next hour after the last block of the day
+const getNextBlock = (blocks: TimeSlot[]): TimeSlot => {
+  if (blocks.length === 0) return DEFAULT_BLOCK;
+  const start = Math.min(Math.max(...blocks.map((b) => toMinutes(b.endTime))), 23 * 60);
+  return { startTime: fromMinutes(start), endTime: fromMinutes(start + 60) };
+};
+
+// yyyy-MM-dd as a local calendar day
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }) =>
+  formatDate(`${date}T00:00:00`, options);
+
+const shiftTime = (time: string, steps: number) =>
+  fromMinutes(toMinutes(time) + steps * SCHEDULE_STEP_MINUTES);
+
+interface BlockEditorProps {
+  block: TimeSlot;
+  onChange: (block: TimeSlot) => void;
+  onRemove: () => void;
+}
+
+function BlockEditor({ block, onChange, onRemove }: BlockEditorProps) {
+  const renderStepper = (field: keyof TimeSlot) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange({ ...block, [field]: shiftTime(block[field], -1) })}
+      >
+        <Ionicons name="remove" size={16} color="#4F46E5" />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{block[field]}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange({ ...block, [field]: shiftTime(block[field], 1) })}
+      >
+        <Ionicons name="add" size={16} color="#4F46E5" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.blockRow}>
+      {renderStepper('startTime')}
+      <Text style={styles.blockDash}>–</Text>
+      {renderStepper('endTime')}
+      <TouchableOpacity onPress={onRemove} style={styles.removeButton}>
+        <Ionicons name="trash-outline" size={18} color="#EF4444" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default function ScheduleEditorScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const today = useMemo(() => new Date(), []);
+  const [draft, setDraft] = useState<TherapistAvailabilitySettings | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(today.getMonth());
+  const [calendarYear, setCalendarYear] = useState(today.getFullYear());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  // Set while picking a time off range on the calendar
+  const [timeOffSelection, setTimeOffSelection] = useState<{ startDate: string | null } | null>(null);
+
+  const { data: settings, isLoading } = useAvailabilitySettings();
+  const { data: profile } = useTherapistProfile();
+  const updateSettings = useUpdateAvailabilitySettings();
+
+  useEffect(() => {
+    if (settings && !draft) setDraft(settings);
+  }, [settings, draft]);
+
+  const month = `${calendarYear}-${String(calendarMonth + 1).padStart(2, '0')}`;
+  const timezone = profile?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  // What clients would see with the draft, next to what they see today
+  const previewSummary = useMemo(
+    () => (draft ? buildAvailabilitySummary(draft, month, timezone) : null),
+    [draft, month, timezone]
+  );
+  const currentSummary = useMemo(
+    () => (settings ? buildAvailabilitySummary(settings, month, timezone) : null),
+    [settings, month, timezone]
+  );
+
+  const countSlots = (summary: typeof previewSummary) =>
+    summary?.dates.reduce((sum, d) => sum + d.availableSlots, 0) ?? 0;
+
+  const hasChanges = !!draft && JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateDraft = (update: (current: TherapistAvailabilitySettings) => TherapistAvailabilitySettings) => {
+    setDraft((current) => (current ? update(current) : current));
+  };
+
+  // Weekly schedule
+  const setBlock = (index: number, block: TimeSlot) => {
+    updateDraft((d) => ({
+      ...d,
+      schedule: d.schedule.map((b, i) => (i === index ? { ...b, ...block } : b)),
+    }));
+  };
+
+  const removeBlock = (index: number) => {
+    updateDraft((d) => ({ ...d, schedule: d.schedule.filter((_, i) => i !== index) }));
+  };
+
+  const addBlock = (dayOfWeek: number) => {
+    updateDraft((d) => ({
+      ...d,
+      schedule: [
+        ...d.schedule,
+        { dayOfWeek, isActive: true, ...getNextBlock(d.schedule.filter((b) => b.dayOfWeek === dayOfWeek)) },
+      ],
+    }));
+  };
+
+  const toggleDay = (dayOfWeek: number, isActive: boolean) => {
+    if (isActive && !draft?.schedule.some((b) => b.dayOfWeek === dayOfWeek)) {
+      addBlock(dayOfWeek);
+      return;
+    }
+    updateDraft((d) => ({
+      ...d,
+      schedule: d.schedule.map((b) => (b.dayOfWeek === dayOfWeek ? { ...b, isActive } : b)),
+    }));
+  };
+
+  // Date overrides
+  const setOverride = (date: string, blocks: TimeSlot[] | null) => {
+    updateDraft((d) => ({
+      ...d,
+      overrides: [
+        ...d.overrides.filter((o) => o.date !== date),
+        ...(blocks ? [{ date, blocks }] : []),
+      ],
+    }));
+  };
+
+  // Time off
+  const handleDateSelect = (date: string) => {
+    if (!timeOffSelection) {
+      setSelectedDate(date);
+      return;
+    }
+
+    const { startDate } = timeOffSelection;
+    if (!startDate || date < startDate) {
+      setTimeOffSelection({ startDate: date });
+      return;
+    }
+
+    updateDraft((d) => ({ ...d, timeOff: [...d.timeOff, { startDate, endDate: date }] }));
+    setTimeOffSelection(null);
+  };
+
+  const removeTimeOff = (index: number) => {
+    updateDraft((d) => ({ ...d, timeOff: d.timeOff.filter((_, i) => i !== index) }));
+  };
+
+  const handlePrevMonth = () => {
+    if (calendarMonth === 0) {
+      setCalendarMonth(11);
+      setCalendarYear(calendarYear - 1);
+    } else {
+      setCalendarMonth(calendarMonth - 1);
+    }
+  };
+
+  const handleNextMonth = () => {
+    if (calendarMonth === 11) {
+      setCalendarMonth(0);
+      setCalendarYear(calendarYear + 1);
+    } else {
+      setCalendarMonth(calendarMonth + 1);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const days = [0, 1, 2, 3, 4, 5, 6].map((day) => draft.schedule.filter((b) => b.dayOfWeek === day));
+    const issue =
+      days.map((blocks) => validateBlocks(blocks)).find(Boolean) ??
+      draft.overrides.map((o) => validateBlocks(o.blocks)).find(Boolean);
+
+    if (issue) {
+      Alert.alert(t('common.error'), t(`schedule.issues.${issue}`));
+      return;
+    }
+
+    try {
+      const saved = await updateSettings.mutateAsync(draft);
+      setDraft(saved);
+      Alert.alert(t('common.success'), t('schedule.saved'));
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  if (isLoading || (settings && !draft)) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!draft) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.general')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  const selectedDay = selectedDate ? getBlocksForDate(draft, selectedDate) : null;
+  const selectedOverride = draft.overrides.find((o) => o.date === selectedDate);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('schedule.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Weekly hours */}
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('schedule.weeklyHours')}</Text>
+          {DAY_NAMES.map((dayName, dayOfWeek) => {
+            const blocks = draft.schedule
+              .map((block, index) => ({ block, index }))
+              .filter(({ block }) => block.dayOfWeek === dayOfWeek);
+            const isActive = blocks.some(({ block }) => block.isActive);
+
+            return (
+              <View key={dayName} style={styles.dayRow}>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayName}>{dayName}</Text>
+                  {!isActive && <Text style={styles.unavailableText}>{t('schedule.unavailable')}</Text>}
+                  <Switch
+                    value={isActive}
+                    onValueChange={(value) => toggleDay(dayOfWeek, value)}
+                    trackColor={{ false: '#E5E7EB', true: '#C7D2FE' }}
+                    thumbColor={isActive ? '#4F46E5' : '#9CA3AF'}
+                  />
+                </View>
+                {isActive && (
+                  <>
+                    {blocks.map(({ block, index }) => (
+                      <BlockEditor
+                        key={index}
+                        block={block}
+                        onChange={(updated) => setBlock(index, updated)}
+                        onRemove={() => removeBlock(index)}
+                      />
+                    ))}
+                    <TouchableOpacity style={styles.addLink} onPress={() => addBlock(dayOfWeek)}>
+                      <Ionicons name="add-circle-outline" size={18} color="#4F46E5" />
+                      <Text style={styles.addLinkText}>{t('schedule.addBlock')}</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            );
+          })}
+        </Card>
+
+        {/* Buffer */}
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('schedule.buffer')}</Text>
+          <Text style={styles.hintText}>{t('schedule.bufferDescription')}</Text>
+          <View style={styles.chips}>
+            {BUFFER_OPTIONS.map((minutes) => {
+              const isSelected = draft.bufferMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => updateDraft((d) => ({ ...d, bufferMinutes: minutes }))}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {minutes === 0 ? t('schedule.noBuffer') : t('schedule.minutes', { minutes })}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Card>
+
+        {/* Time off */}
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('schedule.timeOff')}</Text>
+          {draft.timeOff.length === 0 && <Text style={styles.hintText}>{t('schedule.noTimeOff')}</Text>}
+          {draft.timeOff.map((range, index) => (
+            <View key={`${range.startDate}-${range.endDate}`} style={styles.timeOffRow}>
+              <Ionicons name="airplane-outline" size={18} color="#6B7280" />
+              <Text style={styles.timeOffText}>
+                {range.startDate === range.endDate
+                  ? formatDay(range.startDate)
+                  : `${formatDay(range.startDate)} – ${formatDay(range.endDate)}`}
+              </Text>
+              <TouchableOpacity onPress={() => removeTimeOff(index)} style={styles.removeButton}>
+                <Ionicons name="trash-outline" size={18} color="#EF4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.addLink}
+            onPress={() => setTimeOffSelection(timeOffSelection ? null : { startDate: null })}
+          >
+            <Ionicons
+              name={timeOffSelection ? 'close-circle-outline' : 'add-circle-outline'}
+              size={18}
+              color="#4F46E5"
+            />
+            <Text style={styles.addLinkText}>
+              {timeOffSelection ? t('common.cancel') : t('schedule.addTimeOff')}
+            </Text>
+          </TouchableOpacity>
+        </Card>
+
+        {/* Preview */}
+        <Card variant="elevated" style={styles.card}>
+          <Text style={styles.sectionTitle}>{t('schedule.preview')}</Text>
+          <Text style={styles.hintText}>
+            {t('schedule.previewSummary', {
+              count: countSlots(previewSummary),
+              current: countSlots(currentSummary),
+            })}
+          </Text>
+
+          {timeOffSelection && (
+            <View style={styles.selectionBanner}>
+              <Ionicons name="hand-left-outline" size={16} color="#4F46E5" />
+              <Text style={styles.selectionText}>
+                {timeOffSelection.startDate ? t('schedule.pickTimeOffEnd') : t('schedule.pickTimeOffStart')}
+              </Text>
+            </View>
+          )}
+
+          <Calendar
+            month={calendarMonth}
+            year={calendarYear}
+            selectedDate={timeOffSelection?.startDate ?? selectedDate}
+            availabilityData={previewSummary?.dates || []}
+            onDateSelect={handleDateSelect}
+            onPrevMonth={handlePrevMonth}
+            onNextMonth={handleNextMonth}
+          />
+
+          {/* Selected day */}
+          {selectedDate && selectedDay && !timeOffSelection && (
+            <View style={styles.dayDetail}>
+              <Text style={styles.dayDetailTitle}>
+                {formatDay(selectedDate, { weekday: 'long', month: 'long', day: 'numeric' })}
+              </Text>
+              <Text style={styles.hintText}>{t(`schedule.source.${selectedDay.source}`)}</Text>
+
+              {selectedOverride ? (
+                <>
+                  {selectedOverride.blocks.map((block, index) => (
+                    <BlockEditor
+                      key={index}
+                      block={block}
+                      onChange={(updated) =>
+                        setOverride(
+                          selectedDate,
+                          selectedOverride.blocks.map((b, i) => (i === index ? updated : b))
+                        )
+                      }
+                      onRemove={() =>
+                        setOverride(
+                          selectedDate,
+                          selectedOverride.blocks.filter((_, i) => i !== index)
+                        )
+                      }
+                    />
+                  ))}
+                  <TouchableOpacity
+                    style={styles.addLink}
+                    onPress={() =>
+                      setOverride(selectedDate, [
+                        ...selectedOverride.blocks,
+                        getNextBlock(selectedOverride.blocks),
+                      ])
+                    }
+                  >
+                    <Ionicons name="add-circle-outline" size={18} color="#4F46E5" />
+                    <Text style={styles.addLinkText}>{t('schedule.addBlock')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.secondaryButton} onPress={() => setOverride(selectedDate, null)}>
+                    <Text style={styles.secondaryButtonText}>{t('schedule.resetDay')}</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                selectedDay.source === 'weekly' && (
+                  <View style={styles.dayActions}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() =>
+                        setOverride(
+                          selectedDate,
+                          selectedDay.blocks.length > 0 ? selectedDay.blocks : [DEFAULT_BLOCK]
+                        )
+                      }
+                    >
+                      <Text style={styles.secondaryButtonText}>{t('schedule.customizeDay')}</Text>
+                    </TouchableOpacity>
+                    {selectedDay.blocks.length > 0 && (
+                      <TouchableOpacity style={styles.secondaryButton} onPress={() => setOverride(selectedDate, [])}>
+                        <Text style={styles.secondaryButtonText}>{t('schedule.markUnavailable')}</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )
+              )}
+            </View>
+          )}
+        </Card>
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+
+      {/* Save */}
+      <View style={styles.bottomContainer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, (!hasChanges || updateSettings.isPending) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges || updateSettings.isPending}
+        >
+          {updateSettings.isPending ? (
+            <ActivityIndicator color="#FFFFFF" size="small" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('schedule.save')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+    lineHeight: 18,
+  },
+  dayRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dayName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+    width: 48,
+  },
+  unavailableText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#9CA3AF',
+  },
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  blockDash: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginHorizontal: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+  },
+  stepperButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  removeButton: {
+    marginLeft: 'auto',
+    padding: 6,
+  },
+  addLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  addLinkText: {
+    fontSize: 14,
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  timeOffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  timeOffText: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  selectionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#EEF2FF',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  selectionText: {
+    fontSize: 13,
+    color: '#4F46E5',
+    flex: 1,
+  },
+  dayDetail: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  dayDetailTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  dayActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#4F46E5',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  bottomContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  bottomSpacer: {
+    height: 120,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { endOfMonth, endOfYear, startOfMonth, startOfYear, subMonths, subYears } from 'date-fns';
+import { useBillablePayments, useShareSuperbill } from '@/hooks/useInvoices';
+import {
+  getCptCode,
+  getPaidAmount,
+  getSuperbillGaps,
+  getSuperbillPayments,
+} from '@/services/invoice-documents';
+import { Card } from '@/components/ui';
+import { formatCurrencyFromCents, formatDateShort } from '@/utils/formatting';
+
+type RangePreset = 'lastMonth' | 'last3Months' | 'thisYear' | 'lastYear';
+
+const RANGE_PRESETS: RangePreset[] = ['lastMonth', 'last3Months', 'thisYear', 'lastYear'];
+
+function getRange(preset: RangePreset, now = new Date()): { from: Date; to: Date } {
+  switch (preset) {
+    case 'lastMonth':
+      return { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) };
+    case 'last3Months':
+      return { from: startOfMonth(subMonths(now, 3)), to: endOfMonth(subMonths(now, 1)) };
+    case 'thisYear':
+      return { from: startOfYear(now), to: now };
+    case 'lastYear':
+      return { from: startOfYear(subYears(now, 1)), to: endOfYear(subYears(now, 1)) };
+  }
+}
+
+export default function SuperbillScreen() {
+  const { t } = useTranslation();
+  const [preset, setPreset] = useState<RangePreset>('lastMonth');
+
+  const range = useMemo(() => getRange(preset), [preset]);
+  const { data: payments, isLoading } = useBillablePayments(range.from.toISOString(), range.to.toISOString());
+  const shareSuperbill = useShareSuperbill();
+
+  const sessions = useMemo(() => getSuperbillPayments(payments ?? [], range.from, range.to), [payments, range]);
+  const gaps = getSuperbillGaps(sessions);
+
+  const handleExport = () => {
+    shareSuperbill.mutate(
+      { payments: sessions, ...range },
+      { onError: () => Alert.alert(t('common.error'), t('invoices.exportFailed')) }
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('invoices.superbill.title')}</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.description}>{t('invoices.superbill.description')}</Text>
+
+        <View style={styles.chips}>
+          {RANGE_PRESETS.map((value) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.chip, preset === value && styles.chipSelected]}
+              onPress={() => setPreset(value)}
+            >
+              <Text style={[styles.chipText, preset === value && styles.chipTextSelected]}>
+                {t(`invoices.superbill.ranges.${value}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.period}>
+          {formatDateShort(range.from)} – {formatDateShort(range.to)}
+        </Text>
+
+        {isLoading ? (
+          <ActivityIndicator style={{ marginTop: 40 }} color="#4F46E5" />
+        ) : sessions.length === 0 ? (
+          <Text style={styles.empty}>{t('invoices.superbill.empty')}</Text>
+        ) : (
+          <>
+            {(gaps.therapistsWithoutLicense.length > 0 || gaps.sessionsWithoutDiagnosis > 0) && (
+              <View style={styles.warning}>
+                <Ionicons name="alert-circle-outline" size={18} color="#B45309" />
+                <View style={{ flex: 1 }}>
+                  {gaps.therapistsWithoutLicense.length > 0 && (
+                    <Text style={styles.warningText}>
+                      {t('invoices.superbill.missingLicense', {
+                        names: gaps.therapistsWithoutLicense.join(', '),
+                      })}
+                    </Text>
+                  )}
+                  {gaps.sessionsWithoutDiagnosis > 0 && (
+                    <Text style={styles.warningText}>
+                      {t('invoices.superbill.missingDiagnosis', { count: gaps.sessionsWithoutDiagnosis })}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            )}
+
+            <Card variant="elevated" style={styles.card}>
+              <Text style={styles.sectionTitle}>
+                {t('invoices.superbill.sessions', { count: sessions.length })}
+              </Text>
+              {sessions.map((payment) => (
+                <View key={payment.id} style={styles.sessionRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.sessionTitle}>
+                      {payment.appointment.therapist
+                        ? `${payment.appointment.therapist.user.firstName} ${payment.appointment.therapist.user.lastName}`
+                        : t('invoices.session')}
+                    </Text>
+                    <Text style={styles.sessionMeta}>
+                      {formatDateShort(payment.appointment.scheduledAt)} · CPT {getCptCode(payment.appointment)}
+                      {payment.appointment.diagnosisCodes?.length
+                        ? ` · ${payment.appointment.diagnosisCodes.join(', ')}`
+                        : ''}
+                    </Text>
+                  </View>
+                  <Text style={styles.sessionAmount}>
+                    {formatCurrencyFromCents(getPaidAmount(payment), payment.currency)}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.exportButton,
+            (sessions.length === 0 || shareSuperbill.isPending) && styles.exportButtonDisabled,
+          ]}
+          onPress={handleExport}
+          disabled={sessions.length === 0 || shareSuperbill.isPending}
+        >
+          {shareSuperbill.isPending ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="share-outline" size={18} color="#fff" />
+              <Text style={styles.exportButtonText}>{t('invoices.superbill.export')}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F9FAFB' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  title: { fontSize: 17, fontWeight: '600', color: '#111827' },
+  content: { padding: 16, paddingBottom: 32 },
+  description: { fontSize: 14, color: '#6B7280', lineHeight: 20 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 16 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: { borderColor: '#4F46E5', backgroundColor: '#EEF2FF' },
+  chipText: { fontSize: 13, color: '#374151' },
+  chipTextSelected: { color: '#4F46E5', fontWeight: '600' },
+  period: { fontSize: 13, color: '#6B7280', marginTop: 12, marginBottom: 16 },
+  empty: { fontSize: 14, color: '#9CA3AF', textAlign: 'center', marginTop: 40 },
+  warning: {
+    flexDirection: 'row',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFFBEB',
+    marginBottom: 12,
+  },
+  warningText: { fontSize: 13, color: '#92400E', lineHeight: 18 },
+  card: { padding: 16 },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  sessionTitle: { fontSize: 14, fontWeight: '600', color: '#111827' },
+  sessionMeta: { fontSize: 12, color: '#6B7280', marginTop: 2 },
+  sessionAmount: { fontSize: 14, fontWeight: '700', color: '#111827' },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#4F46E5',
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  exportButtonDisabled: { backgroundColor: '#9CA3AF' },
+  exportButtonText: { fontSize: 16, fontWeight: '600', color: '#fff' },
+});
@@ -18,7 +18,14 @@ import * as Haptics from 'expo-haptics';
 import { RtcSurfaceView } from 'react-native-agora';
 import { useAppointment } from '@/hooks/useAppointments';
 import { Avatar } from '@/components/ui';
-import { callSignalingService, CallDocument, ParticipantMediaState } from '@/services/call-signaling';
+import {
+  callSignalingService,
+  CallDocument,
+  CallEndReason,
+  ParticipantMediaState,
+} from '@/services/call-signaling';
+import { useCallMeter } from '@/hooks/useCallMeter';
+import { formatCurrencyFromCents } from '@/utils/formatting';
 import { useAuthStore } from '@/store/auth';
 import { videoSessionService } from '@/services/video-session';
 import { generateAgoraToken } from '@/services/agora';
@@ -120,6 +127,12 @@ export default function VideoSessionScreen() {
   });
   const [networkQuality, setNetworkQuality] = useState<NetworkQuality>('good');
 
+  // Per-minute billing for instant calls, metered from the call document
+  const [meteredCall, setMeteredCall] = useState<Pick<CallDocument, 'billing' | 'answeredAt'> | null>(null);
+  const meter = useCallMeter(meteredCall?.billing, meteredCall?.answeredAt);
+  const hasWarnedCapRef = useRef(false);
+  const hasReachedCapRef = useRef(false);
+
   // Agora state
   const [remoteUid, setRemoteUid] = useState<number | null>(null);
   const [permissionsGranted, setPermissionsGranted] = useState(false);
@@ -194,6 +207,10 @@ export default function VideoSessionScreen() {
       setRemoteMediaState(remoteMedia);
     }
 
+    if (call.billing && call.answeredAt) {
+      setMeteredCall({ billing: call.billing, answeredAt: call.answeredAt });
+    }
+
     if (call.status === 'ended' || call.status === 'cancelled') {
       // Other party ended the call
       console.log('Call ended by other party');
@@ -460,7 +477,7 @@ export default function VideoSessionScreen() {
     }
   }, [showControls, controlsOpacity]);
 
-  const handleEndCall = useCallback(async () => {
+  const handleEndCall = useCallback(async (reason?: CallEndReason) => {
     console.log('Ending call...', callId);
 
     // Unsubscribe from call updates
@@ -475,7 +492,7 @@ export default function VideoSessionScreen() {
     // Update call status in Firestore to notify other party
     if (callId) {
       try {
-        await callSignalingService.endCall(callId);
+        await callSignalingService.endCall(callId, reason);
         console.log('Call ended in Firestore');
       } catch (error) {
         console.error('Failed to end call in Firestore:', error);
@@ -495,6 +512,21 @@ export default function VideoSessionScreen() {
     handleEndCall();
   }, [handleEndCall]);
 
+  // Warn both parties as the spending cap approaches, and end the call once it's used up
+  useEffect(() => {
+    if (!meter) return;
+
+    if (meter.isNearCap && !hasWarnedCapRef.current) {
+      hasWarnedCapRef.current = true;
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+
+    if (meter.isCapReached && !hasReachedCapRef.current) {
+      hasReachedCapRef.current = true;
+      handleEndCall('spending_cap_reached');
+    }
+  }, [meter?.isNearCap, meter?.isCapReached, handleEndCall]);
+
   const handleRateModalClose = useCallback(() => {
     setShowRateModal(false);
     navigateToHome(router, isTherapist);
@@ -584,7 +616,7 @@ export default function VideoSessionScreen() {
           <Text style={styles.connectingText}>
             {isConnecting ? t('session.connecting') : t('session.waitingForTherapist')}
           </Text>
-          <TouchableOpacity style={styles.cancelButton} onPress={handleEndCall}>
+          <TouchableOpacity style={styles.cancelButton} onPress={() => handleEndCall()}>
             <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
           </TouchableOpacity>
         </View>
@@ -707,6 +739,9 @@ export default function VideoSessionScreen() {
         <View style={styles.timerContainer}>
           <View style={styles.timerDot} />
           <Text style={styles.timerText}>{formatTime(elapsedSeconds)}</Text>
+          {meter && (
+            <Text style={styles.meterText}>{formatCurrencyFromCents(meter.cost, meteredCall?.billing?.currency)}</Text>
+          )}
         </View>
 
         {/* Network Quality Indicator */}
@@ -723,6 +758,18 @@ export default function VideoSessionScreen() {
         </View>
       </View>
 
+      {/* Spending cap warning */}
+      {meter?.isNearCap && !meter.isCapReached && (
+        <View style={styles.capWarning}>
+          <Ionicons name="time-outline" size={16} color="#fff" />
+          <Text style={styles.capWarningText}>
+            {t(isTherapist ? 'session.billing.capWarningTherapist' : 'session.billing.capWarning', {
+              minutes: Math.max(1, Math.ceil(meter.remainingSeconds / 60)),
+            })}
+          </Text>
+        </View>
+      )}
+
       {/* Participant Name */}
       <View style={styles.participantName}>
         <Text style={styles.participantNameText}>{remoteName}</Text>
@@ -775,6 +822,30 @@ export default function VideoSessionScreen() {
             />
           </TouchableOpacity>
 
+          {/* Session notes, autosaved while the call continues */}
+          {isTherapist && !isInstantCall && (
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => handleControlPress(() => router.push(`/appointment/${id}/notes` as any))}
+            >
+              <Ionicons name="create-outline" size={24} color="#fff" />
+            </TouchableOpacity>
+          )}
+
+          {/* Crisis resources, or flag a safety concern for therapists */}
+          {(!isTherapist || !isInstantCall) && (
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() =>
+                handleControlPress(() =>
+                  router.push((isTherapist ? `/appointment/${id}/safety` : '/crisis') as any)
+                )
+              }
+            >
+              <Ionicons name="help-buoy" size={24} color="#fff" />
+            </TouchableOpacity>
+          )}
+
           {/* End Call */}
           <TouchableOpacity
             style={styles.endCallButton}
@@ -963,6 +1034,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontVariant: ['tabular-nums'],
   },
+  meterText: {
+    color: '#A5B4FC',
+    fontSize: 14,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    marginLeft: 8,
+  },
+  capWarning: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 96 : 70,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(217, 119, 6, 0.9)',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  capWarningText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   qualityContainer: {
     flexDirection: 'row',
     alignItems: 'center',
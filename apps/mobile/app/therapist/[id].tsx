@@ -7,12 +7,20 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Dimensions,
+  Alert,
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTherapist, useTherapistReviews, useTherapistAvailability, useTherapistAvailabilitySummary } from '@/hooks';
 import { Avatar, Badge, Rating, Card, Button, EmptyState } from '@/components/ui';
 import { Calendar } from '@/components/calendar';
+import { CancellationPolicyTiers } from '@/components/appointment/CancellationPolicyTiers';
+import { getCancellationPolicy } from '@/services/cancellation-policy';
+import { isMonthFullyBooked } from '@/services/waitlist';
+import { useTherapistWaitlistEntry } from '@/hooks/useWaitlist';
+import { useFavorite, useSetFavoriteNotifications, useToggleFavorite } from '@/hooks/useFavorites';
+import { usePresenceSubscription, useTogglePresenceSubscription } from '@/hooks/usePresence';
+import { useDisplayCurrency } from '@/hooks/useCurrency';
 
 const { width } = Dimensions.get('window');
 
@@ -25,6 +33,7 @@ export default function TherapistDetailScreen() {
   const [calendarMonth, setCalendarMonth] = useState(today.getMonth());
   const [calendarYear, setCalendarYear] = useState(today.getFullYear());
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const { formatPrice } = useDisplayCurrency();
 
   const currentMonth = useMemo(() => {
     return `${calendarYear}-${String(calendarMonth + 1).padStart(2, '0')}`;
@@ -43,6 +52,16 @@ export default function TherapistDetailScreen() {
   const { data: dayAvailability, isLoading: dayAvailabilityLoading } =
     useTherapistAvailability(id || '', selectedDate || '');
 
+  const { data: waitlistEntry } = useTherapistWaitlistEntry(id || '');
+  const { data: favorite } = useFavorite(id || '');
+  const toggleFavorite = useToggleFavorite();
+  const { data: presenceSubscription } = usePresenceSubscription(id || '');
+  const togglePresence = useTogglePresenceSubscription();
+  const setFavoriteNotifications = useSetFavoriteNotifications();
+  // Favorites carry their own online alert flag, everyone else needs a presence subscription
+  const onlineAlertsOn = favorite ? favorite.notifyWhenOnline : !!presenceSubscription;
+  const isFullyBooked = isMonthFullyBooked(availabilitySummary);
+
   // Get user timezone
   const userTimezone = useMemo(() => {
     try {
@@ -101,6 +120,34 @@ export default function TherapistDetailScreen() {
     router.push(`/instant-call/${id}`);
   };
 
+  const handleToggleFavorite = () => {
+    toggleFavorite.mutate(
+      { therapist, favorite: !favorite },
+      { onError: (error: any) => Alert.alert('Error', error?.message || 'Could not update your care team') }
+    );
+  };
+
+  const handleToggleOnlineAlerts = () => {
+    const subscribed = !onlineAlertsOn;
+    const callbacks = {
+      onSuccess: () => {
+        if (subscribed) {
+          Alert.alert(
+            'Online alerts on',
+            `We'll let you know when ${therapist.user.firstName} comes online. Manage quiet hours in Notifications settings.`
+          );
+        }
+      },
+      onError: (error: any) => Alert.alert('Error', error?.message || 'Could not update notifications'),
+    };
+
+    if (favorite) {
+      setFavoriteNotifications.mutate({ therapistId: therapist.id, notifyWhenOnline: subscribed }, callbacks);
+    } else {
+      togglePresence.mutate({ therapist, subscribed }, callbacks);
+    }
+  };
+
   const renderAbout = () => (
     <View style={styles.tabContent}>
       <View style={styles.section}>
@@ -154,6 +201,11 @@ export default function TherapistDetailScreen() {
           {therapist.yearsOfExperience} years of experience
         </Text>
       </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Cancellation Policy</Text>
+        <CancellationPolicyTiers policy={getCancellationPolicy(therapist.cancellationPolicy)} />
+      </View>
     </View>
   );
 
@@ -215,7 +267,32 @@ export default function TherapistDetailScreen() {
         </View>
       )}
 
-      {!selectedDate && (
+      {/* Nothing to pick this month, offer the waitlist instead */}
+      {!selectedDate && isFullyBooked && (
+        <View style={styles.waitlistCard}>
+          <Ionicons
+            name={waitlistEntry ? 'checkmark-circle-outline' : 'hourglass-outline'}
+            size={28}
+            color="#4F46E5"
+          />
+          <Text style={styles.waitlistTitle}>
+            {waitlistEntry ? "You're on the waitlist" : 'Fully booked this month'}
+          </Text>
+          <Text style={styles.waitlistText}>
+            {waitlistEntry
+              ? "We'll notify you as soon as a matching slot opens up."
+              : "Join the waitlist and we'll hold the next matching slot for you."}
+          </Text>
+          <Button
+            title={waitlistEntry ? 'Manage Waitlist' : 'Join Waitlist'}
+            onPress={() => router.push(`/therapist/${id}/waitlist` as any)}
+            variant={waitlistEntry ? 'outline' : 'primary'}
+            size="sm"
+          />
+        </View>
+      )}
+
+      {!selectedDate && !isFullyBooked && (
         <View style={styles.selectDateHint}>
           <Ionicons name="hand-left-outline" size={24} color="#9CA3AF" />
           <Text style={styles.selectDateText}>Select a date to see available times</Text>
@@ -289,9 +366,29 @@ export default function TherapistDetailScreen() {
           >
             <Ionicons name="arrow-back" size={24} color="#111827" />
           </TouchableOpacity>
-          <TouchableOpacity style={styles.shareButton}>
-            <Ionicons name="share-outline" size={24} color="#111827" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.shareButton}
+              onPress={handleToggleOnlineAlerts}
+              disabled={togglePresence.isPending || setFavoriteNotifications.isPending}
+            >
+              <Ionicons
+                name={onlineAlertsOn ? 'notifications' : 'notifications-outline'}
+                size={22}
+                color={onlineAlertsOn ? '#4F46E5' : '#111827'}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.shareButton} onPress={handleToggleFavorite}>
+              <Ionicons
+                name={favorite ? 'heart' : 'heart-outline'}
+                size={24}
+                color={favorite ? '#EF4444' : '#111827'}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.shareButton}>
+              <Ionicons name="share-outline" size={24} color="#111827" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={styles.profileHeader}>
@@ -333,13 +430,13 @@ export default function TherapistDetailScreen() {
             <View>
               <Text style={styles.priceLabel}>Hourly Rate</Text>
               <Text style={styles.priceValue}>
-                ${(therapist.hourlyRate / 100).toFixed(0)}
+                {formatPrice(therapist.hourlyRate, therapist.currency)}
               </Text>
             </View>
             <View>
               <Text style={styles.priceLabel}>Per Minute</Text>
               <Text style={styles.priceValue}>
-                ${(therapist.perMinuteRate / 100).toFixed(2)}
+                {formatPrice(therapist.perMinuteRate, therapist.currency)}
               </Text>
             </View>
           </View>
@@ -428,6 +525,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   shareButton: {
     width: 40,
     height: 40,
@@ -718,4 +819,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6B7280',
   },
+  waitlistCard: {
+    alignItems: 'center',
+    marginTop: 16,
+    padding: 20,
+    gap: 8,
+    backgroundColor: '#EEF2FF',
+    borderRadius: 12,
+  },
+  waitlistTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  waitlistText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
 });
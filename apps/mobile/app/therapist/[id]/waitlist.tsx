@@ -0,0 +1,410 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTherapist } from '@/hooks/useTherapists';
+import {
+  useJoinWaitlist,
+  useLeaveWaitlist,
+  useTherapistWaitlistEntry,
+} from '@/hooks/useWaitlist';
+import { WAITLIST_TIME_WINDOWS } from '@/services/waitlist';
+import { Avatar, Card } from '@/components/ui';
+import type { WaitlistTimeOfDay } from '@/types';
+
+const DAYS = [0, 1, 2, 3, 4, 5, 6];
+const TIMES = Object.keys(WAITLIST_TIME_WINDOWS) as WaitlistTimeOfDay[];
+
+// Any Sunday works as the base for weekday names
+const getDayName = (day: number) =>
+  new Date(2024, 0, 7 + day).toLocaleDateString('en', { weekday: 'short' });
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+export default function WaitlistScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [preferredDays, setPreferredDays] = useState<number[]>([]);
+  const [preferredTimes, setPreferredTimes] = useState<WaitlistTimeOfDay[]>([]);
+
+  const { data: therapist, isLoading: therapistLoading } = useTherapist(id!);
+  const { data: entry, isLoading: entryLoading } = useTherapistWaitlistEntry(id!);
+  const joinWaitlist = useJoinWaitlist();
+  const leaveWaitlist = useLeaveWaitlist();
+
+  const handleJoin = async () => {
+    try {
+      await joinWaitlist.mutateAsync({
+        therapistId: id!,
+        data: { preferredDays, preferredTimes },
+      });
+      Alert.alert(t('waitlist.joinedTitle'), t('waitlist.joinedMessage'));
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error?.message || t('errors.general'));
+    }
+  };
+
+  const handleLeave = () => {
+    if (!entry) return;
+
+    Alert.alert(t('waitlist.leaveTitle'), t('waitlist.leaveMessage'), [
+      { text: t('common.no'), style: 'cancel' },
+      {
+        text: t('common.yes'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await leaveWaitlist.mutateAsync(entry.id);
+          } catch (error: any) {
+            Alert.alert(t('common.error'), error?.message || t('errors.general'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const describeDays = (days: number[]) =>
+    days.length === 0 ? t('waitlist.anyDay') : [...days].sort((a, b) => a - b).map(getDayName).join(', ');
+
+  const describeTimes = (times: WaitlistTimeOfDay[]) =>
+    times.length === 0
+      ? t('waitlist.anyTime')
+      : TIMES.filter((time) => times.includes(time))
+          .map((time) => t(`waitlist.times.${time}`))
+          .join(', ');
+
+  if (therapistLoading || entryLoading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </SafeAreaView>
+    );
+  }
+
+  if (!therapist) {
+    return (
+      <SafeAreaView style={styles.errorContainer}>
+        <Text style={styles.errorText}>{t('errors.notFound')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Text style={styles.backButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="close" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('waitlist.title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Therapist */}
+        <Card variant="elevated" style={styles.card}>
+          <View style={styles.therapistRow}>
+            <Avatar
+              source={therapist.user.avatarUrl}
+              name={`${therapist.user.firstName} ${therapist.user.lastName}`}
+              size="md"
+            />
+            <View style={styles.therapistInfo}>
+              <Text style={styles.therapistName}>
+                {therapist.user.firstName} {therapist.user.lastName}
+              </Text>
+              <Text style={styles.therapistTitle}>{therapist.professionalTitle}</Text>
+            </View>
+          </View>
+          <Text style={styles.hintText}>{t('waitlist.description')}</Text>
+        </Card>
+
+        {entry ? (
+          <Card variant="elevated" style={styles.card}>
+            <View style={styles.statusRow}>
+              <Ionicons name="checkmark-circle" size={20} color="#10B981" />
+              <Text style={styles.statusText}>{t('waitlist.onWaitlist')}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('waitlist.days')}</Text>
+              <Text style={styles.summaryValue}>{describeDays(entry.preferredDays)}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('waitlist.timesTitle')}</Text>
+              <Text style={styles.summaryValue}>{describeTimes(entry.preferredTimes)}</Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.dangerButton, leaveWaitlist.isPending && styles.buttonDisabled]}
+              onPress={handleLeave}
+              disabled={leaveWaitlist.isPending}
+            >
+              {leaveWaitlist.isPending ? (
+                <ActivityIndicator color="#EF4444" size="small" />
+              ) : (
+                <Text style={styles.dangerButtonText}>{t('waitlist.leave')}</Text>
+              )}
+            </TouchableOpacity>
+          </Card>
+        ) : (
+          <Card variant="elevated" style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('waitlist.days')}</Text>
+            <View style={styles.chips}>
+              {DAYS.map((day) => {
+                const isSelected = preferredDays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setPreferredDays(toggle(preferredDays, day))}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {getDayName(day)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.sectionTitle, styles.sectionSpacing]}>
+              {t('waitlist.timesTitle')}
+            </Text>
+            <View style={styles.chips}>
+              {TIMES.map((time) => {
+                const isSelected = preferredTimes.includes(time);
+                return (
+                  <TouchableOpacity
+                    key={time}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setPreferredTimes(toggle(preferredTimes, time))}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                      {t(`waitlist.times.${time}`)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.hintText}>{t('waitlist.anyHint')}</Text>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, joinWaitlist.isPending && styles.buttonDisabled]}
+              onPress={handleJoin}
+              disabled={joinWaitlist.isPending}
+            >
+              {joinWaitlist.isPending ? (
+                <ActivityIndicator color="#FFFFFF" size="small" />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('waitlist.join')}</Text>
+              )}
+            </TouchableOpacity>
+          </Card>
+        )}
+
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  backButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  therapistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  therapistInfo: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  therapistName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  therapistTitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  sectionSpacing: {
+    marginTop: 20,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+    lineHeight: 18,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  statusText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  summaryValue: {
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 16,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  dangerButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FCA5A5',
+    backgroundColor: '#FEF2F2',
+    marginTop: 12,
+  },
+  dangerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  bottomSpacer: {
+    height: 40,
+  },
+});
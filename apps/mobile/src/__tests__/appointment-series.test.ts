@@ -0,0 +1,116 @@
+import {
+  MAX_SERIES_OCCURRENCES,
+  buildSeriesOccurrences,
+  getAffectedSeriesAppointments,
+  getOccurrenceConflict,
+  shiftSeriesOccurrences,
+} from '../services/appointment-series';
+import type { Appointment } from '../types';
+
+const makeAppointment = (id: string, scheduledAt: Date, overrides: Partial<Appointment> = {}) =>
+  ({
+    id,
+    scheduledAt: scheduledAt.toISOString(),
+    status: 'CONFIRMED',
+    ...overrides,
+  }) as Appointment;
+
+describe('Appointment Series', () => {
+  const firstStart = new Date(2025, 0, 6, 10, 0); // Monday 10:00 local
+
+  describe('buildSeriesOccurrences', () => {
+    it('should repeat weekly for the requested number of sessions', () => {
+      const occurrences = buildSeriesOccurrences(firstStart, { frequency: 'WEEKLY', count: 3 });
+
+      expect(occurrences.map((o) => o.date)).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+      expect(occurrences.map((o) => o.index)).toEqual([1, 2, 3]);
+      expect(occurrences.every((o) => o.startTime === '10:00')).toBe(true);
+    });
+
+    it('should space biweekly sessions two weeks apart', () => {
+      const occurrences = buildSeriesOccurrences(firstStart, { frequency: 'BIWEEKLY', count: 3 });
+      expect(occurrences.map((o) => o.date)).toEqual(['2025-01-06', '2025-01-20', '2025-02-03']);
+    });
+
+    it('should stop on the until date, inclusive', () => {
+      const occurrences = buildSeriesOccurrences(firstStart, {
+        frequency: 'WEEKLY',
+        until: '2025-01-20',
+      });
+      expect(occurrences.map((o) => o.date)).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+    });
+
+    it('should never exceed the maximum series length', () => {
+      expect(buildSeriesOccurrences(firstStart, { frequency: 'WEEKLY', count: 100 })).toHaveLength(
+        MAX_SERIES_OCCURRENCES
+      );
+      expect(
+        buildSeriesOccurrences(firstStart, { frequency: 'WEEKLY', until: '2030-01-01' })
+      ).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+  });
+
+  describe('getOccurrenceConflict', () => {
+    const availability = {
+      date: '2025-01-13',
+      slots: [
+        { startTime: '10:00', endTime: '11:00' },
+        { startTime: '11:00', endTime: '12:00' },
+      ],
+      bookedSlots: [{ startTime: '11:00', endTime: '12:00' }],
+    };
+
+    it('should accept an open slot', () => {
+      expect(getOccurrenceConflict({ startTime: '10:00' }, availability)).toBeNull();
+    });
+
+    it('should flag a slot that is already booked', () => {
+      expect(getOccurrenceConflict({ startTime: '11:00' }, availability)).toBe('booked');
+    });
+
+    it('should flag a time outside working hours', () => {
+      expect(getOccurrenceConflict({ startTime: '15:00' }, availability)).toBe('unavailable');
+    });
+  });
+
+  describe('getAffectedSeriesAppointments', () => {
+    const now = new Date(2025, 0, 10).getTime();
+    const appointments = [
+      makeAppointment('a3', new Date(2025, 0, 20, 10)),
+      makeAppointment('a1', new Date(2025, 0, 6, 10), { status: 'COMPLETED' }),
+      makeAppointment('a2', new Date(2025, 0, 13, 10)),
+      makeAppointment('a4', new Date(2025, 0, 27, 10), { status: 'CANCELLED' }),
+      makeAppointment('a5', new Date(2025, 1, 3, 10)),
+    ];
+
+    it('should include every upcoming session for ALL', () => {
+      const affected = getAffectedSeriesAppointments(appointments, appointments[0]!, 'ALL', now);
+      expect(affected.map((a) => a.id)).toEqual(['a2', 'a3', 'a5']);
+    });
+
+    it('should start from the given session for FUTURE', () => {
+      const affected = getAffectedSeriesAppointments(appointments, appointments[0]!, 'FUTURE', now);
+      expect(affected.map((a) => a.id)).toEqual(['a3', 'a5']);
+    });
+  });
+
+  describe('shiftSeriesOccurrences', () => {
+    it('should move every session by the anchor offset', () => {
+      const appointments = [
+        makeAppointment('a1', new Date(2025, 0, 6, 10), { seriesIndex: 2 }),
+        makeAppointment('a2', new Date(2025, 0, 13, 10), { seriesIndex: 3 }),
+      ];
+
+      const shifted = shiftSeriesOccurrences(
+        appointments,
+        appointments[0]!,
+        new Date(2025, 0, 7, 14, 30)
+      );
+
+      expect(shifted).toEqual([
+        expect.objectContaining({ index: 2, date: '2025-01-07', startTime: '14:30' }),
+        expect.objectContaining({ index: 3, date: '2025-01-14', startTime: '14:30' }),
+      ]);
+    });
+  });
+});
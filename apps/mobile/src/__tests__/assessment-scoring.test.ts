@@ -0,0 +1,95 @@
+import {
+  getScoreTrend,
+  getSeverity,
+  isAssessmentComplete,
+  scoreAssessment,
+} from '../services/assessment-scoring';
+import type { AssessmentType } from '../types';
+
+const result = (type: AssessmentType, score: number, completedAt: string) => ({ type, score, completedAt });
+
+describe('assessment-scoring', () => {
+  describe('getSeverity', () => {
+    it('should band PHQ-9 scores at the standard cut-offs', () => {
+      expect(getSeverity('PHQ9', 0)).toBe('MINIMAL');
+      expect(getSeverity('PHQ9', 4)).toBe('MINIMAL');
+      expect(getSeverity('PHQ9', 5)).toBe('MILD');
+      expect(getSeverity('PHQ9', 10)).toBe('MODERATE');
+      expect(getSeverity('PHQ9', 15)).toBe('MODERATELY_SEVERE');
+      expect(getSeverity('PHQ9', 19)).toBe('MODERATELY_SEVERE');
+      expect(getSeverity('PHQ9', 20)).toBe('SEVERE');
+      expect(getSeverity('PHQ9', 27)).toBe('SEVERE');
+    });
+
+    it('should band GAD-7 scores without a moderately severe band', () => {
+      expect(getSeverity('GAD7', 4)).toBe('MINIMAL');
+      expect(getSeverity('GAD7', 9)).toBe('MILD');
+      expect(getSeverity('GAD7', 14)).toBe('MODERATE');
+      expect(getSeverity('GAD7', 15)).toBe('SEVERE');
+    });
+  });
+
+  describe('isAssessmentComplete', () => {
+    it('should require one answer per item', () => {
+      expect(isAssessmentComplete('GAD7', [0, 1, 2, 3, 0, 1, 2])).toBe(true);
+      expect(isAssessmentComplete('GAD7', [0, 1, 2, 3, 0, 1])).toBe(false);
+      expect(isAssessmentComplete('GAD7', [0, 1, 2, 3, 0, 1, null])).toBe(false);
+    });
+
+    it('should reject values outside the response scale', () => {
+      expect(isAssessmentComplete('GAD7', [0, 1, 2, 4, 0, 1, 2])).toBe(false);
+    });
+  });
+
+  describe('scoreAssessment', () => {
+    it('should sum the answers and band the total', () => {
+      expect(scoreAssessment('PHQ9', [1, 1, 2, 2, 1, 1, 1, 1, 0])).toEqual({
+        score: 10,
+        severity: 'MODERATE',
+        riskItems: [],
+        flagged: false,
+      });
+    });
+
+    it('should flag any answer above zero on PHQ-9 item 9', () => {
+      const scored = scoreAssessment('PHQ9', [0, 0, 0, 0, 0, 0, 0, 0, 1]);
+
+      expect(scored.severity).toBe('MINIMAL');
+      expect(scored.riskItems).toEqual([9]);
+      expect(scored.flagged).toBe(true);
+    });
+
+    it('should never flag GAD-7', () => {
+      expect(scoreAssessment('GAD7', [3, 3, 3, 3, 3, 3, 3]).flagged).toBe(false);
+    });
+
+    it('should throw on incomplete answers', () => {
+      expect(() => scoreAssessment('PHQ9', [1, 2, 3])).toThrow('Incomplete PHQ9 answers');
+    });
+  });
+
+  describe('getScoreTrend', () => {
+    it('should need at least two results', () => {
+      expect(getScoreTrend([result('PHQ9', 12, '2025-01-01T10:00:00Z')])).toBeNull();
+    });
+
+    it('should compare the two most recent results regardless of order', () => {
+      expect(
+        getScoreTrend([
+          result('PHQ9', 8, '2025-03-01T10:00:00Z'),
+          result('PHQ9', 20, '2025-01-01T10:00:00Z'),
+          result('PHQ9', 14, '2025-02-01T10:00:00Z'),
+        ])
+      ).toEqual({ change: -6, trend: 'improved' });
+    });
+
+    it('should only count a clinically meaningful change', () => {
+      expect(
+        getScoreTrend([result('PHQ9', 10, '2025-01-01T10:00:00Z'), result('PHQ9', 14, '2025-02-01T10:00:00Z')])
+      ).toEqual({ change: 4, trend: 'stable' });
+      expect(
+        getScoreTrend([result('GAD7', 10, '2025-01-01T10:00:00Z'), result('GAD7', 14, '2025-02-01T10:00:00Z')])
+      ).toEqual({ change: 4, trend: 'worsened' });
+    });
+  });
+});
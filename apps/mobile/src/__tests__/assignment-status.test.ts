@@ -0,0 +1,113 @@
+import {
+  getAssignmentDueState,
+  getAssignmentReminderAt,
+  getDueDateAfter,
+  sortAssignments,
+  summarizeCompletion,
+} from '../services/assignment-status';
+import type { Assignment } from '../types';
+
+const now = new Date(2025, 2, 10, 12, 0);
+
+const assignment = (overrides: Partial<Assignment> = {}): Assignment => ({
+  id: 'a1',
+  appointmentId: 'apt-1',
+  therapistId: 'therapist-1',
+  userId: 'user-1',
+  type: 'EXERCISE',
+  title: 'Breathing exercise',
+  status: 'ASSIGNED',
+  replies: [],
+  createdAt: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('assignment-status', () => {
+  describe('getDueDateAfter', () => {
+    it('should format the day the given number of days later', () => {
+      expect(getDueDateAfter(7, now)).toBe('2025-03-17');
+    });
+  });
+
+  describe('getAssignmentDueState', () => {
+    it('should be completed regardless of the due date', () => {
+      expect(getAssignmentDueState(assignment({ status: 'COMPLETED', dueDate: '2025-03-01' }), now)).toBe('completed');
+    });
+
+    it('should be overdue after the due date', () => {
+      expect(getAssignmentDueState(assignment({ dueDate: '2025-03-09' }), now)).toBe('overdue');
+    });
+
+    it('should be due today on the due date', () => {
+      expect(getAssignmentDueState(assignment({ dueDate: '2025-03-10' }), now)).toBe('dueToday');
+    });
+
+    it('should be upcoming before the due date', () => {
+      expect(getAssignmentDueState(assignment({ dueDate: '2025-03-11' }), now)).toBe('upcoming');
+    });
+
+    it('should handle assignments without a due date', () => {
+      expect(getAssignmentDueState(assignment(), now)).toBe('noDueDate');
+    });
+  });
+
+  describe('sortAssignments', () => {
+    it('should put open assignments first, soonest due and undated last', () => {
+      const sorted = sortAssignments([
+        assignment({ id: 'done', status: 'COMPLETED', completedAt: '2025-03-05T10:00:00.000Z' }),
+        assignment({ id: 'undated' }),
+        assignment({ id: 'later', dueDate: '2025-03-20' }),
+        assignment({ id: 'sooner', dueDate: '2025-03-12' }),
+      ]);
+
+      expect(sorted.map((a) => a.id)).toEqual(['sooner', 'later', 'undated', 'done']);
+    });
+
+    it('should list the most recently completed first', () => {
+      const sorted = sortAssignments([
+        assignment({ id: 'older', status: 'COMPLETED', completedAt: '2025-03-02T10:00:00.000Z' }),
+        assignment({ id: 'newer', status: 'COMPLETED', completedAt: '2025-03-08T10:00:00.000Z' }),
+      ]);
+
+      expect(sorted.map((a) => a.id)).toEqual(['newer', 'older']);
+    });
+  });
+
+  describe('summarizeCompletion', () => {
+    it('should count completed, open and overdue assignments', () => {
+      const summary = summarizeCompletion(
+        [
+          assignment({ status: 'COMPLETED' }),
+          assignment({ dueDate: '2025-03-08' }),
+          assignment({ dueDate: '2025-03-14' }),
+        ],
+        now
+      );
+
+      expect(summary).toEqual({ total: 3, completed: 1, open: 2, overdue: 1 });
+    });
+  });
+
+  describe('getAssignmentReminderAt', () => {
+    it('should remind the morning before the due date', () => {
+      expect(getAssignmentReminderAt(assignment({ dueDate: '2025-03-14' }), now)).toEqual(
+        new Date(2025, 2, 13, 9, 0)
+      );
+    });
+
+    it('should remind the morning of when the day before has passed', () => {
+      expect(getAssignmentReminderAt(assignment({ dueDate: '2025-03-11' }), now)).toEqual(
+        new Date(2025, 2, 11, 9, 0)
+      );
+    });
+
+    it('should not remind once the due morning has passed', () => {
+      expect(getAssignmentReminderAt(assignment({ dueDate: '2025-03-10' }), now)).toBeNull();
+    });
+
+    it('should not remind for completed or undated assignments', () => {
+      expect(getAssignmentReminderAt(assignment({ status: 'COMPLETED', dueDate: '2025-03-14' }), now)).toBeNull();
+      expect(getAssignmentReminderAt(assignment(), now)).toBeNull();
+    });
+  });
+});
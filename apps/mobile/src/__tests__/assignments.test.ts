@@ -0,0 +1,76 @@
+import { assignmentsService } from '../services/assignments';
+import type { Assignment } from '../types';
+
+jest.mock('../services/api', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../services/push-notifications', () => ({
+  pushNotificationService: {
+    scheduleAssignmentReminder: jest.fn(),
+    cancelAssignmentReminder: jest.fn(),
+  },
+}));
+
+const { pushNotificationService } = require('../services/push-notifications');
+
+const content = () => ({ title: 'Homework', body: 'Due soon' });
+
+const assignment = (overrides: Partial<Assignment> = {}): Assignment => ({
+  id: 'a1',
+  appointmentId: 'apt-1',
+  therapistId: 'therapist-1',
+  userId: 'user-1',
+  type: 'EXERCISE',
+  title: 'Breathing exercise',
+  status: 'ASSIGNED',
+  // Far enough ahead that a reminder is always due
+  dueDate: '2099-01-10',
+  replies: [],
+  createdAt: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const cancelledIds = () =>
+  (pushNotificationService.cancelAssignmentReminder as jest.Mock).mock.calls.map(([id]) => id);
+
+describe('Assignment reminders', () => {
+  beforeEach(async () => {
+    await assignmentsService.clearReminders();
+    jest.clearAllMocks();
+  });
+
+  it('should schedule open assignments and cancel completed ones', async () => {
+    await assignmentsService.syncReminders(
+      [assignment(), assignment({ id: 'a2', status: 'COMPLETED' })],
+      content
+    );
+
+    expect(pushNotificationService.scheduleAssignmentReminder).toHaveBeenCalledWith(
+      'a1',
+      expect.any(Date),
+      content()
+    );
+    expect(cancelledIds()).toEqual(['a2']);
+  });
+
+  it('should cancel reminders for assignments no longer in the list', async () => {
+    await assignmentsService.syncReminders([assignment(), assignment({ id: 'a2' })], content);
+    jest.clearAllMocks();
+
+    await assignmentsService.syncReminders([assignment()], content);
+
+    expect(cancelledIds()).toEqual(['a2']);
+  });
+
+  it('should cancel every scheduled reminder on sign out', async () => {
+    await assignmentsService.syncReminders([assignment(), assignment({ id: 'a2' })], content);
+    jest.clearAllMocks();
+
+    await assignmentsService.clearReminders();
+    expect(cancelledIds()).toEqual(['a1', 'a2']);
+
+    // Nothing left over for the next account
+    jest.clearAllMocks();
+    await assignmentsService.syncReminders([], content);
+    expect(pushNotificationService.cancelAssignmentReminder).not.toHaveBeenCalled();
+  });
+});
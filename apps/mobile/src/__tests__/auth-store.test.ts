@@ -17,6 +17,7 @@ jest.mock('../services/auth', () => ({
 // Mock the api service
 jest.mock('../services/api', () => ({
   setLoggingOut: jest.fn(),
+  isNetworkError: (error: any) => !!error?.isNetworkError,
 }));
 
 const { authService } = require('../services/auth');
@@ -167,6 +168,32 @@ describe('Auth Store', () => {
       expect(state.isLoading).toBe(false);
     });
 
+    it('should keep the session with the cached profile when offline', async () => {
+      const cachedUser = { id: '1', email: 'test@example.com', role: 'USER' };
+
+      (SecureStore.getItemAsync as jest.Mock)
+        .mockImplementation((key: string) => {
+          if (key === 'accessToken') return Promise.resolve('stored-access');
+          if (key === 'refreshToken') return Promise.resolve('stored-refresh');
+          return Promise.resolve(null);
+        });
+
+      (AsyncStorage.getItem as jest.Mock)
+        .mockImplementation((key: string) =>
+          Promise.resolve(key === 'cachedUser' ? JSON.stringify(cachedUser) : null)
+        );
+      authService.getMe.mockRejectedValue(
+        Object.assign(new Error('Network Error'), { isNetworkError: true })
+      );
+
+      await useAuthStore.getState().loadStoredAuth();
+
+      const state = useAuthStore.getState();
+      expect(state.isAuthenticated).toBe(true);
+      expect(state.user).toEqual(cachedUser);
+      expect(SecureStore.deleteItemAsync).not.toHaveBeenCalled();
+    });
+
     it('should set isLoading false when no tokens stored', async () => {
       (SecureStore.getItemAsync as jest.Mock).mockResolvedValue(null);
       (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
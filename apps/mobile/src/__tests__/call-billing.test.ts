@@ -0,0 +1,91 @@
+import {
+  CallBilling,
+  buildCallCharge,
+  getBillableMinutes,
+  getCallMeterState,
+  getCapDurationSeconds,
+} from '../services/call-billing';
+
+const billing: CallBilling = {
+  perMinuteRate: 200,
+  capAmount: 3000,
+  paymentIntentId: 'pi_123',
+  currency: 'USD',
+};
+
+describe('Call Billing', () => {
+  describe('getBillableMinutes', () => {
+    it('should bill every started minute', () => {
+      expect(getBillableMinutes(0)).toBe(0);
+      expect(getBillableMinutes(1)).toBe(1);
+      expect(getBillableMinutes(60)).toBe(1);
+      expect(getBillableMinutes(61)).toBe(2);
+    });
+  });
+
+  describe('getCapDurationSeconds', () => {
+    it('should convert the cap into whole minutes of talk time', () => {
+      expect(getCapDurationSeconds(billing)).toBe(15 * 60);
+      expect(getCapDurationSeconds({ perMinuteRate: 200, capAmount: 3100 })).toBe(15 * 60);
+    });
+  });
+
+  describe('getCallMeterState', () => {
+    it('should report running cost well under the cap', () => {
+      expect(getCallMeterState(125, billing)).toEqual({
+        billedSeconds: 125,
+        cost: 600,
+        remainingSeconds: 775,
+        isNearCap: false,
+        isCapReached: false,
+      });
+    });
+
+    it('should flag when the call is close to the cap', () => {
+      const state = getCallMeterState(15 * 60 - 90, billing);
+      expect(state.isNearCap).toBe(true);
+      expect(state.isCapReached).toBe(false);
+    });
+
+    it('should flag when the cap is reached and never exceed it', () => {
+      const state = getCallMeterState(20 * 60, billing);
+      expect(state.isCapReached).toBe(true);
+      expect(state.remainingSeconds).toBe(0);
+      expect(state.cost).toBe(billing.capAmount);
+    });
+  });
+
+  describe('buildCallCharge', () => {
+    const answeredAt = new Date('2025-01-01T10:00:00Z');
+
+    it('should itemise usage and release the unused authorisation', () => {
+      const charge = buildCallCharge(billing, answeredAt, new Date('2025-01-01T10:04:10Z'));
+
+      expect(charge.billedSeconds).toBe(250);
+      expect(charge.billableMinutes).toBe(5);
+      expect(charge.lineItems).toEqual([
+        { type: 'usage', quantity: 5, unitAmount: 200, amount: 1000 },
+      ]);
+      expect(charge.total).toBe(1000);
+      expect(charge.releasedAmount).toBe(2000);
+      expect(charge.startedAt).toBe('2025-01-01T10:00:00.000Z');
+    });
+
+    it('should add a cap adjustment when usage overruns the cap', () => {
+      const charge = buildCallCharge(billing, answeredAt, new Date('2025-01-01T10:15:05Z'));
+
+      expect(charge.lineItems).toEqual([
+        { type: 'usage', quantity: 16, unitAmount: 200, amount: 3200 },
+        { type: 'cap_adjustment', quantity: 1, unitAmount: -200, amount: -200 },
+      ]);
+      expect(charge.total).toBe(billing.capAmount);
+      expect(charge.releasedAmount).toBe(0);
+    });
+
+    it('should charge nothing for a call that ends as it connects', () => {
+      const charge = buildCallCharge(billing, answeredAt, answeredAt);
+      expect(charge.total).toBe(0);
+      expect(charge.releasedAmount).toBe(billing.capAmount);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  AVERAGE_MATCH_SECONDS,
+  CallQueueEntry,
+  estimateWaitSeconds,
+  getEligibleTherapists,
+  getTherapistsInCurrency,
+  isQueueEntryExpired,
+} from '../services/call-queue';
+import type { InstantCallTherapist } from '../types';
+
+const now = new Date('2025-03-10T12:00:00.000Z').getTime();
+
+const therapist = (
+  id: string,
+  overrides: Partial<InstantCallTherapist> = {}
+): InstantCallTherapist => ({
+  id,
+  userId: `user-${id}`,
+  firstName: 'Sam',
+  lastName: 'Lee',
+  professionalTitle: 'Psychologist',
+  averageRating: 4,
+  totalReviews: 10,
+  hourlyRate: 10000,
+  perMinuteRate: 200,
+  languages: ['English'],
+  specializations: ['Anxiety'],
+  ...overrides,
+});
+
+const entry = (
+  id: string,
+  therapistIds: string[],
+  createdAt: string,
+  overrides: Partial<CallQueueEntry> = {}
+): CallQueueEntry => ({
+  id,
+  callerId: `caller-${id}`,
+  specializations: [],
+  therapistIds,
+  ringingCallIds: [],
+  status: 'waiting',
+  createdAt: new Date(createdAt),
+  expiresAt: new Date(now + 10 * 60 * 1000),
+  ...overrides,
+});
+
+describe('call-queue', () => {
+  describe('getEligibleTherapists', () => {
+    const therapists = [
+      therapist('spanish', { languages: ['Spanish'] }),
+      therapist('grief', { specializations: ['Grief'] }),
+      therapist('anxiety', { averageRating: 4.9 }),
+      therapist('both', { specializations: ['Anxiety', 'Depression'], averageRating: 4.1 }),
+    ];
+
+    it('should require the language and at least one concern', () => {
+      const eligible = getEligibleTherapists(therapists, {
+        language: 'english',
+        specializations: ['Anxiety', 'Depression'],
+      });
+
+      expect(eligible.map((t) => t.id)).toEqual(['both', 'anxiety']);
+    });
+
+    it('should accept everyone when nothing was asked for', () => {
+      expect(getEligibleTherapists(therapists, { specializations: [] })).toHaveLength(4);
+    });
+  });
+
+  describe('getTherapistsInCurrency', () => {
+    it('should treat therapists without a currency as USD', () => {
+      const mixed = [therapist('usd'), therapist('eur', { currency: 'EUR' }), therapist('also-usd', { currency: 'USD' })];
+
+      expect(getTherapistsInCurrency(mixed, 'USD').map((t) => t.id)).toEqual(['usd', 'also-usd']);
+      expect(getTherapistsInCurrency(mixed, 'EUR').map((t) => t.id)).toEqual(['eur']);
+    });
+  });
+
+  describe('isQueueEntryExpired', () => {
+    it('should only expire waiting requests past their deadline', () => {
+      const past = new Date(now - 1000);
+
+      expect(isQueueEntryExpired(entry('a', [], '2025-03-10T11:00:00.000Z', { expiresAt: past }), now)).toBe(true);
+      expect(
+        isQueueEntryExpired(entry('b', [], '2025-03-10T11:00:00.000Z', { expiresAt: past, status: 'matched' }), now)
+      ).toBe(false);
+      expect(isQueueEntryExpired(entry('c', [], '2025-03-10T11:00:00.000Z'), now)).toBe(false);
+    });
+  });
+
+  describe('estimateWaitSeconds', () => {
+    it('should spread the requests ahead across the eligible therapists', () => {
+      expect(estimateWaitSeconds(0, 3)).toBe(AVERAGE_MATCH_SECONDS);
+      expect(estimateWaitSeconds(2, 3)).toBe(AVERAGE_MATCH_SECONDS);
+      expect(estimateWaitSeconds(3, 3)).toBe(2 * AVERAGE_MATCH_SECONDS);
+      expect(estimateWaitSeconds(1, 0)).toBe(2 * AVERAGE_MATCH_SECONDS);
+    });
+  });
+});
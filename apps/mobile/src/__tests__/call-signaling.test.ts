@@ -0,0 +1,714 @@
+import { callSignalingService } from '../services/call-signaling';
+import { paymentsService } from '../services/payments';
+import { CALL_RING_TIMEOUT_MS, InvalidCallTransitionError } from '../services/call-state-machine';
+import { CallAlreadyAnsweredError } from '../services/call-queue';
+import type { InstantCallTherapist } from '../types';
+
+// In-memory stand-in for Firestore. The services use @react-native-firebase,
+// which only runs inside the native app, so they can't be pointed at the
+// Firestore emulator from Jest. Instead the fake mimics the semantics the
+// transitions rely on: transactions re-run when a document they read changed
+// before commit, and their writes land together.
+const mockCalls: Record<string, Record<string, any>> = {};
+const mockVersions: Record<string, number> = {};
+const mockSnapshotListeners: Record<string, Array<(doc: any) => void>> = {};
+
+jest.mock('@react-native-firebase/firestore', () => {
+  const SERVER_TIMESTAMP = { __serverTimestamp: true };
+  const timestamp = (ms: number) => ({ toDate: () => new Date(ms), toMillis: () => ms });
+  const toMillis = (value: any) => (typeof value?.toMillis === 'function' ? value.toMillis() : value?.toDate?.().getTime());
+
+  const resolveValues = (data: Record<string, any>) =>
+    Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        value === SERVER_TIMESTAMP ? timestamp(Date.now()) : value,
+      ])
+    );
+
+  const snapshot = (id: string) => ({
+    id,
+    exists: !!mockCalls[id],
+    data: () => (mockCalls[id] ? { ...mockCalls[id] } : undefined),
+  });
+
+  const notify = (id: string) => {
+    (mockSnapshotListeners[id] || []).forEach((listener) => listener(snapshot(id)));
+  };
+
+  const write = (id: string, data: Record<string, any>) => {
+    mockCalls[id] = data;
+    mockVersions[id] = (mockVersions[id] ?? 0) + 1;
+    notify(id);
+  };
+
+  const docRef = (id: string) => ({
+    id,
+    get: async () => snapshot(id),
+    set: async (data: Record<string, any>) => write(id, resolveValues(data)),
+    update: async (data: Record<string, any>) => write(id, { ...mockCalls[id], ...resolveValues(data) }),
+    onSnapshot: (listener: (doc: any) => void) => {
+      mockSnapshotListeners[id] = [...(mockSnapshotListeners[id] || []), listener];
+      listener(snapshot(id));
+      return () => {
+        mockSnapshotListeners[id] = mockSnapshotListeners[id]!.filter((l) => l !== listener);
+      };
+    },
+  });
+
+  type Filter = (data: Record<string, any>) => boolean;
+  interface QueryState {
+    filters: Filter[];
+    order?: { field: string; direction: 'asc' | 'desc' };
+    max?: number;
+  }
+
+  const matches = (op: string, actual: any, expected: any) => {
+    switch (op) {
+      case '==':
+        return actual === expected;
+      case 'in':
+        return expected.includes(actual);
+      case '<':
+        return toMillis(actual) < toMillis(expected);
+      default:
+        throw new Error(`Unsupported operator ${op}`);
+    }
+  };
+
+  const query = (state: QueryState): any => ({
+    where: (field: string, op: string, value: unknown) =>
+      query({ ...state, filters: [...state.filters, (data) => matches(op, data[field], value)] }),
+    orderBy: (field: string, direction: 'asc' | 'desc' = 'asc') => query({ ...state, order: { field, direction } }),
+    limit: (max: number) => query({ ...state, max }),
+    get: async () => {
+      let ids = Object.keys(mockCalls).filter((id) => state.filters.every((filter) => filter(mockCalls[id]!)));
+      if (state.order) {
+        const { field, direction } = state.order;
+        const sign = direction === 'desc' ? -1 : 1;
+        ids = ids.sort((a, b) => sign * (toMillis(mockCalls[a]![field]) - toMillis(mockCalls[b]![field])));
+      }
+      return { docs: ids.slice(0, state.max).map(snapshot) };
+    },
+  });
+
+  const collection = () => ({
+    doc: docRef,
+    ...query({ filters: [] }),
+  });
+
+  const runTransaction = async (updateFunction: (transaction: any) => Promise<unknown>) => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const readVersions = new Map<string, number>();
+      const pendingWrites: Array<() => Promise<void>> = [];
+      const result = await updateFunction({
+        get: async (ref: { id: string; get: () => Promise<unknown> }) => {
+          readVersions.set(ref.id, mockVersions[ref.id] ?? 0);
+          return ref.get();
+        },
+        set: (ref: { set: (data: any) => Promise<void> }, data: Record<string, any>) => {
+          pendingWrites.push(() => ref.set(data));
+        },
+        update: (ref: { update: (data: any) => Promise<void> }, data: Record<string, any>) => {
+          pendingWrites.push(() => ref.update(data));
+        },
+      });
+
+      const stale = [...readVersions].some(([id, version]) => (mockVersions[id] ?? 0) !== version);
+      if (stale) continue;
+      // Writes are synchronous in the fake, so nothing can interleave between them
+      await Promise.all(pendingWrites.map((apply) => apply()));
+      return result;
+    }
+    throw new Error('Transaction contention');
+  };
+
+  const firestore: any = () => ({
+    settings: jest.fn(),
+    collection,
+    runTransaction,
+  });
+  firestore.FieldValue = { serverTimestamp: () => SERVER_TIMESTAMP };
+  firestore.Timestamp = { fromMillis: timestamp, fromDate: (date: Date) => timestamp(date.getTime()) };
+
+  return { __esModule: true, default: firestore };
+});
+
+// Mock the auth store
+const mockAuthState: { user: Record<string, any> | null } = {
+  user: { id: 'patient-00000001', firstName: 'Jane', lastName: 'Doe', role: 'USER' },
+};
+jest.mock('@/store/auth', () => ({
+  useAuthStore: { getState: () => mockAuthState },
+}));
+
+jest.mock('../services/payments', () => ({
+  paymentsService: { captureCallCharge: jest.fn(), releaseCallHold: jest.fn() },
+}));
+
+const PATIENT = { id: 'patient-00000001', firstName: 'Jane', lastName: 'Doe', role: 'USER' };
+const THERAPIST = { id: 'therapist-0000001', firstName: 'Sam', lastName: 'Lee', role: 'THERAPIST' };
+
+const createCall = (therapistId = 'tp-00000001') =>
+  callSignalingService.createCall({
+    receiverId: THERAPIST.id,
+    receiverName: 'Sam Lee',
+    therapistId,
+  });
+
+const queueTherapist = (id: string, userId: string, currency?: string) =>
+  ({
+    id,
+    userId,
+    firstName: 'Sam',
+    lastName: 'Lee',
+    perMinuteRate: 200,
+    currency,
+  }) as InstantCallTherapist;
+
+const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+describe('Call Signaling Service', () => {
+  beforeEach(() => {
+    Object.keys(mockCalls).forEach((id) => delete mockCalls[id]);
+    Object.keys(mockVersions).forEach((id) => delete mockVersions[id]);
+    Object.keys(mockSnapshotListeners).forEach((id) => delete mockSnapshotListeners[id]);
+    mockAuthState.user = PATIENT;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('createCall', () => {
+    it('should create a pending call with a ring deadline', async () => {
+      const before = Date.now();
+      const callId = await createCall();
+
+      const call = await callSignalingService.getCall(callId);
+      expect(call?.status).toBe('pending');
+      expect(call?.expiresAt?.getTime()).toBeGreaterThanOrEqual(before + CALL_RING_TIMEOUT_MS);
+    });
+  });
+
+  describe('transitions', () => {
+    it('should ring, accept and end a call, recording who hung up', async () => {
+      const callId = await createCall();
+
+      mockAuthState.user = THERAPIST;
+      await callSignalingService.updateCallRinging(callId);
+      expect(mockCalls[callId]!.status).toBe('ringing');
+
+      const accepted = await callSignalingService.acceptCall(callId);
+      expect(accepted.status).toBe('accepted');
+      expect(accepted.answeredAt).toBeInstanceOf(Date);
+
+      await callSignalingService.endCall(callId);
+      expect(mockCalls[callId]).toMatchObject({
+        status: 'ended',
+        endReason: 'receiver_hung_up',
+        updatedBy: THERAPIST.id,
+      });
+    });
+
+    it('should record caller hang ups', async () => {
+      const callId = await createCall();
+      await callSignalingService.acceptCall(callId);
+
+      await callSignalingService.endCall(callId);
+
+      expect(mockCalls[callId]!.endReason).toBe('caller_hung_up');
+    });
+
+    it('should record declines and cancellations', async () => {
+      const declinedId = await createCall('tp-00000001');
+      await callSignalingService.declineCall(declinedId);
+      expect(mockCalls[declinedId]).toMatchObject({ status: 'declined', endReason: 'declined' });
+
+      const cancelledId = await createCall('tp-00000002');
+      await callSignalingService.cancelCall(cancelledId);
+      expect(mockCalls[cancelledId]).toMatchObject({
+        status: 'cancelled',
+        endReason: 'caller_cancelled',
+      });
+    });
+
+    it('should reject cancelling a call that was already accepted', async () => {
+      const callId = await createCall();
+      await callSignalingService.acceptCall(callId);
+
+      await expect(callSignalingService.cancelCall(callId)).rejects.toThrow(
+        InvalidCallTransitionError
+      );
+      expect(mockCalls[callId]!.status).toBe('accepted');
+    });
+
+    it('should reject accepting a call that has ended', async () => {
+      const callId = await createCall();
+      await callSignalingService.cancelCall(callId);
+
+      await expect(callSignalingService.acceptCall(callId)).rejects.toThrow(
+        InvalidCallTransitionError
+      );
+    });
+
+    it('should let only one of a concurrent accept and cancel win', async () => {
+      const callId = await createCall();
+
+      const results = await Promise.allSettled([
+        callSignalingService.acceptCall(callId),
+        callSignalingService.cancelCall(callId),
+      ]);
+
+      const winners = results.filter((result) => result.status === 'fulfilled');
+      const losers = results.filter((result) => result.status === 'rejected');
+      expect(winners).toHaveLength(1);
+      expect(losers).toEqual([{ status: 'rejected', reason: expect.any(InvalidCallTransitionError) }]);
+      expect(mockCalls[callId]!.status).toBe(results[0]!.status === 'fulfilled' ? 'accepted' : 'cancelled');
+    });
+
+    it('should not move an answered call back to ringing', async () => {
+      const callId = await createCall();
+      await callSignalingService.acceptCall(callId);
+
+      await callSignalingService.updateCallRinging(callId);
+
+      expect(mockCalls[callId]!.status).toBe('accepted');
+    });
+
+    it('should reject an end reason that does not match the status', async () => {
+      const callId = await createCall();
+      await callSignalingService.acceptCall(callId);
+
+      await expect(callSignalingService.endCall(callId, 'timeout')).rejects.toThrow(
+        'End reason timeout is not valid for status ended'
+      );
+    });
+  });
+
+  describe('billing', () => {
+    const billing = {
+      perMinuteRate: 200,
+      capAmount: 3000,
+      paymentIntentId: 'pi_123',
+      currency: 'USD',
+    };
+
+    it('should capture the used minutes when a metered call ends', async () => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T10:00:00Z') });
+      const callId = await callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId: 'tp-billing1',
+        billing,
+      });
+      await callSignalingService.acceptCall(callId);
+
+      jest.setSystemTime(new Date('2025-01-01T10:03:20Z'));
+      await callSignalingService.endCall(callId);
+
+      expect(paymentsService.captureCallCharge).toHaveBeenCalledWith('pi_123', {
+        callId,
+        amount: 800,
+        lineItems: [{ type: 'usage', quantity: 4, unitAmount: 200, amount: 800 }],
+      });
+      expect(mockCalls[callId]!.charge).toMatchObject({ total: 800, releasedAmount: 2200 });
+    });
+
+    it('should still end the call when the capture fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (paymentsService.captureCallCharge as jest.Mock).mockRejectedValueOnce(new Error('declined'));
+      const callId = await callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId: 'tp-billing2',
+        billing,
+      });
+      await callSignalingService.acceptCall(callId);
+
+      await expect(callSignalingService.endCall(callId)).resolves.toBeUndefined();
+      expect(mockCalls[callId]!.status).toBe('ended');
+      expect(mockCalls[callId]!.charge).toBeUndefined();
+    });
+
+    it('should retry a failed capture on the next sweep', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (paymentsService.captureCallCharge as jest.Mock).mockRejectedValueOnce(new Error('network'));
+      const callId = await callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId: 'tp-billing3',
+        billing,
+      });
+      await callSignalingService.acceptCall(callId);
+      await callSignalingService.endCall(callId);
+      expect(mockCalls[callId]!.chargePending).toBe(true);
+
+      await callSignalingService.expireStaleCalls(PATIENT.id);
+
+      expect(paymentsService.captureCallCharge).toHaveBeenCalledTimes(2);
+      expect(mockCalls[callId]).toMatchObject({ chargePending: false, charge: { currency: 'USD' } });
+    });
+
+    it('should end and settle a call left accepted past its spending cap', async () => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T10:00:00Z') });
+      const liveId = await callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId: 'tp-billing4',
+        billing,
+      });
+      await callSignalingService.acceptCall(liveId);
+      jest.setSystemTime(new Date('2025-01-01T10:20:00Z'));
+      const freshId = await callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId: 'tp-billing5',
+        billing,
+      });
+      await callSignalingService.acceptCall(freshId);
+
+      // The 3000 cap at 200/min pays for 15 minutes
+      await callSignalingService.expireStaleCalls(PATIENT.id);
+
+      expect(mockCalls[liveId]).toMatchObject({
+        status: 'ended',
+        endReason: 'spending_cap_reached',
+        chargePending: false,
+        charge: { total: 3000, releasedAmount: 0 },
+      });
+      expect(mockCalls[freshId]).toMatchObject({ status: 'accepted', chargePending: true });
+      expect(paymentsService.captureCallCharge).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('spending cap release', () => {
+    const billing = {
+      perMinuteRate: 200,
+      capAmount: 3000,
+      paymentIntentId: 'pi_hold',
+      currency: 'USD',
+    };
+    const createMeteredCall = (therapistId = 'tp-hold0001') =>
+      callSignalingService.createCall({
+        receiverId: THERAPIST.id,
+        receiverName: 'Sam Lee',
+        therapistId,
+        billing,
+      });
+
+    it('should release the hold when a call is declined, cancelled or missed', async () => {
+      const declinedId = await createMeteredCall('tp-hold0001');
+      await callSignalingService.declineCall(declinedId);
+      const cancelledId = await createMeteredCall('tp-hold0002');
+      await callSignalingService.cancelCall(cancelledId);
+      const missedId = await createMeteredCall('tp-hold0003');
+      await callSignalingService.markCallMissed(missedId);
+
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledTimes(3);
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledWith('pi_hold');
+    });
+
+    it('should release the hold when an unanswered call times out', async () => {
+      const callId = await createMeteredCall();
+      mockCalls[callId]!.expiresAt = { toDate: () => new Date(Date.now() - 1000) };
+
+      await callSignalingService.expireCall(callId);
+
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledWith('pi_hold');
+    });
+
+    it('should capture rather than release an answered call', async () => {
+      const callId = await createMeteredCall();
+      await callSignalingService.acceptCall(callId);
+      await callSignalingService.endCall(callId);
+
+      expect(paymentsService.captureCallCharge).toHaveBeenCalled();
+      expect(paymentsService.releaseCallHold).not.toHaveBeenCalled();
+    });
+
+    it('should cancel and release an abandoned call, but leave an answered one alone', async () => {
+      const ringingId = await createMeteredCall('tp-hold0001');
+      await callSignalingService.abandonCall(ringingId);
+      expect(mockCalls[ringingId]).toMatchObject({ status: 'cancelled', endReason: 'caller_cancelled' });
+
+      const answeredId = await createMeteredCall('tp-hold0002');
+      await callSignalingService.acceptCall(answeredId);
+      await callSignalingService.abandonCall(answeredId);
+
+      expect(mockCalls[answeredId]!.status).toBe('accepted');
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a failed release from failing the call', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (paymentsService.releaseCallHold as jest.Mock).mockRejectedValueOnce(new Error('network'));
+      const callId = await createMeteredCall();
+
+      await expect(callSignalingService.declineCall(callId)).resolves.toBeUndefined();
+      expect(mockCalls[callId]!.status).toBe('declined');
+    });
+  });
+
+  describe('getCallHistory', () => {
+    it('should merge outgoing and incoming calls, newest first', async () => {
+      mockCalls['call-old'] = {
+        callerId: PATIENT.id,
+        receiverId: THERAPIST.id,
+        status: 'ended',
+        createdAt: { toDate: () => new Date('2025-01-01T10:00:00Z') },
+      };
+      mockCalls['call-new'] = {
+        callerId: THERAPIST.id,
+        receiverId: PATIENT.id,
+        status: 'missed',
+        createdAt: { toDate: () => new Date('2025-01-02T10:00:00Z') },
+      };
+      mockCalls['call-other'] = {
+        callerId: 'someone-else',
+        receiverId: THERAPIST.id,
+        status: 'ended',
+        createdAt: { toDate: () => new Date('2025-01-03T10:00:00Z') },
+      };
+
+      const history = await callSignalingService.getCallHistory(PATIENT.id);
+
+      expect(history.map((call) => call.id)).toEqual(['call-new', 'call-old']);
+      expect(history[0]!.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should page through older calls', async () => {
+      const at = (day: number) => ({
+        toDate: () => new Date(Date.UTC(2025, 0, day)),
+        toMillis: () => Date.UTC(2025, 0, day),
+      });
+      for (let day = 1; day <= 5; day++) {
+        const outgoing = day % 2 === 0;
+        mockCalls[`call-${day}`] = {
+          callerId: outgoing ? PATIENT.id : THERAPIST.id,
+          receiverId: outgoing ? THERAPIST.id : PATIENT.id,
+          status: 'ended',
+          createdAt: at(day),
+        };
+      }
+
+      const first = await callSignalingService.getCallHistory(PATIENT.id, { limit: 2 });
+      const second = await callSignalingService.getCallHistory(PATIENT.id, {
+        limit: 2,
+        before: first[first.length - 1]!.createdAt,
+      });
+      const last = await callSignalingService.getCallHistory(PATIENT.id, {
+        limit: 2,
+        before: second[second.length - 1]!.createdAt,
+      });
+
+      expect(first.map((call) => call.id)).toEqual(['call-5', 'call-4']);
+      expect(second.map((call) => call.id)).toEqual(['call-3', 'call-2']);
+      expect(last.map((call) => call.id)).toEqual(['call-1']);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should not expire a call before its deadline', async () => {
+      const callId = await createCall();
+
+      expect(await callSignalingService.expireCall(callId)).toBe(false);
+      expect(mockCalls[callId]!.status).toBe('pending');
+    });
+
+    it('should mark an unanswered call missed once it expires', async () => {
+      const callId = await createCall();
+      mockCalls[callId]!.expiresAt = { toDate: () => new Date(Date.now() - 1000) };
+
+      expect(await callSignalingService.expireCall(callId)).toBe(true);
+      expect(mockCalls[callId]).toMatchObject({ status: 'missed', endReason: 'timeout' });
+    });
+
+    it('should sweep stale calls left by a killed caller app', async () => {
+      const staleId = await createCall('tp-00000001');
+      const freshId = await createCall('tp-00000002');
+      mockCalls[staleId]!.expiresAt = { toDate: () => new Date(Date.now() - 1000) };
+
+      mockAuthState.user = THERAPIST;
+      const expired = await callSignalingService.expireStaleCalls(THERAPIST.id);
+
+      expect(expired).toBe(1);
+      expect(mockCalls[staleId]!.status).toBe('missed');
+      expect(mockCalls[freshId]!.status).toBe('pending');
+    });
+
+    it('should only sweep a bounded batch of unanswered calls', async () => {
+      const past = { toDate: () => new Date(Date.now() - 1000), toMillis: () => Date.now() - 1000 };
+      for (let i = 0; i < 25; i++) {
+        mockCalls[`call-stale-${i}`] = { callerId: PATIENT.id, receiverId: THERAPIST.id, status: 'ringing', expiresAt: past };
+      }
+      mockCalls['call-ended'] = { callerId: PATIENT.id, receiverId: THERAPIST.id, status: 'ended', expiresAt: past };
+
+      const expired = await callSignalingService.expireStaleCalls(PATIENT.id);
+
+      expect(expired).toBe(20);
+      expect(mockCalls['call-ended']!.status).toBe('ended');
+    });
+
+    it('should time out a watched call without the caller screen', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const callId = await createCall();
+
+      mockAuthState.user = THERAPIST;
+      const onStatusChange = jest.fn();
+      const unsubscribe = callSignalingService.subscribeToCall(callId, onStatusChange);
+
+      jest.advanceTimersByTime(CALL_RING_TIMEOUT_MS);
+      await flushPromises();
+
+      expect(mockCalls[callId]).toMatchObject({ status: 'missed', endReason: 'timeout' });
+      expect(onStatusChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'missed' })
+      );
+      unsubscribe();
+    });
+  });
+
+  describe('call queue', () => {
+    const fanOut = async () => {
+      const entryId = await callSignalingService.joinQueue({
+        therapistIds: ['tp-00000001', 'tp-00000002'],
+        specializations: ['Anxiety'],
+      });
+      const callIds = await callSignalingService.ringQueuedTherapists(entryId, [
+        queueTherapist('tp-00000001', THERAPIST.id),
+        queueTherapist('tp-00000002', 'therapist-0000002'),
+      ]);
+      return { entryId, callIds };
+    };
+
+    it('should ring every therapist for a queued request', async () => {
+      const { entryId, callIds } = await fanOut();
+
+      expect(callIds).toHaveLength(2);
+      expect(mockCalls[entryId]).toMatchObject({ status: 'waiting', ringingCallIds: callIds });
+      callIds.forEach((callId) => {
+        expect(mockCalls[callId]).toMatchObject({ status: 'pending', queueEntryId: entryId });
+      });
+    });
+
+    it('should not ring a request that is no longer waiting', async () => {
+      const entryId = await callSignalingService.joinQueue({ therapistIds: ['tp-00000001'], specializations: [] });
+      await callSignalingService.leaveQueue(entryId);
+
+      const callIds = await callSignalingService.ringQueuedTherapists(entryId, [
+        queueTherapist('tp-00000001', THERAPIST.id),
+      ]);
+
+      expect(callIds).toEqual([]);
+      expect(Object.values(mockCalls).filter((doc) => doc.queueEntryId === entryId)).toHaveLength(0);
+    });
+
+    it('should not start a second round while one is ringing', async () => {
+      const { entryId, callIds } = await fanOut();
+
+      const again = await callSignalingService.ringQueuedTherapists(entryId, [
+        queueTherapist('tp-00000001', THERAPIST.id),
+      ]);
+
+      expect(again).toEqual([]);
+      expect(mockCalls[entryId]!.ringingCallIds).toEqual(callIds);
+    });
+
+    it('should let the first accept win and cancel the other calls', async () => {
+      const { entryId, callIds } = await fanOut();
+
+      mockAuthState.user = THERAPIST;
+      await callSignalingService.acceptCall(callIds[0]!);
+
+      expect(mockCalls[callIds[0]!]!.status).toBe('accepted');
+      expect(mockCalls[callIds[1]!]).toMatchObject({ status: 'cancelled', endReason: 'answered_elsewhere' });
+      expect(mockCalls[entryId]).toMatchObject({
+        status: 'matched',
+        matchedCallId: callIds[0],
+        matchedTherapistId: 'tp-00000001',
+        ringingCallIds: [],
+      });
+    });
+
+    it('should reject a second accept for the same request', async () => {
+      const { callIds } = await fanOut();
+      await callSignalingService.acceptCall(callIds[0]!);
+
+      await expect(callSignalingService.acceptCall(callIds[1]!)).rejects.toThrow(CallAlreadyAnsweredError);
+      expect(mockCalls[callIds[0]!]!.status).toBe('accepted');
+    });
+
+    it('should keep waiting after a decline until the round is cleared', async () => {
+      const { entryId, callIds } = await fanOut();
+      await callSignalingService.declineCall(callIds[0]!);
+
+      expect(mockCalls[entryId]!.status).toBe('waiting');
+      await callSignalingService.finishQueueRound(entryId);
+      expect(mockCalls[entryId]!.ringingCallIds).toEqual([]);
+    });
+
+    it('should cancel ringing calls when the caller leaves the queue', async () => {
+      const { entryId, callIds } = await fanOut();
+      await callSignalingService.declineCall(callIds[0]!);
+
+      await callSignalingService.leaveQueue(entryId);
+
+      expect(mockCalls[entryId]!.status).toBe('cancelled');
+      expect(mockCalls[callIds[0]!]!.status).toBe('declined');
+      expect(mockCalls[callIds[1]!]).toMatchObject({ status: 'cancelled', endReason: 'caller_cancelled' });
+    });
+
+    it('should release the shared hold once, when the request leaves the queue', async () => {
+      const billing = { perMinuteRate: 200, capAmount: 3000, paymentIntentId: 'pi_queue', currency: 'USD' };
+      const entryId = await callSignalingService.joinQueue({
+        therapistIds: ['tp-00000001', 'tp-00000002'],
+        specializations: [],
+        billing,
+      });
+      const callIds = await callSignalingService.ringQueuedTherapists(
+        entryId,
+        [queueTherapist('tp-00000001', THERAPIST.id), queueTherapist('tp-00000002', 'therapist-0000002')],
+        billing
+      );
+
+      await callSignalingService.declineCall(callIds[0]!);
+      expect(paymentsService.releaseCallHold).not.toHaveBeenCalled();
+
+      await callSignalingService.leaveQueue(entryId, 'expired');
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledTimes(1);
+      expect(paymentsService.releaseCallHold).toHaveBeenCalledWith('pi_queue');
+    });
+
+    it('should only ring therapists who charge in the currency of the hold', async () => {
+      const billing = { perMinuteRate: 200, capAmount: 3000, paymentIntentId: 'pi_queue', currency: 'USD' };
+      const entryId = await callSignalingService.joinQueue({
+        therapistIds: ['tp-00000001', 'tp-00000002'],
+        specializations: [],
+        billing,
+      });
+
+      const callIds = await callSignalingService.ringQueuedTherapists(
+        entryId,
+        [queueTherapist('tp-00000001', THERAPIST.id), queueTherapist('tp-00000002', 'therapist-0000002', 'EUR')],
+        billing
+      );
+
+      expect(callIds).toHaveLength(1);
+      expect(mockCalls[callIds[0]!]).toMatchObject({ therapistId: 'tp-00000001', billing: { currency: 'USD' } });
+    });
+
+    it('should not leave a queue that was already matched', async () => {
+      const { entryId, callIds } = await fanOut();
+      await callSignalingService.acceptCall(callIds[1]!);
+
+      await callSignalingService.leaveQueue(entryId, 'expired');
+
+      expect(mockCalls[entryId]!.status).toBe('matched');
+      expect(mockCalls[callIds[1]!]!.status).toBe('accepted');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  CallStatus,
+  CALL_RING_TIMEOUT_MS,
+  InvalidCallTransitionError,
+  assertTransition,
+  canTransition,
+  getCallDurationSeconds,
+  isCallExpired,
+  isTerminalStatus,
+} from '../services/call-state-machine';
+
+const ALL_STATUSES: CallStatus[] = [
+  'pending',
+  'ringing',
+  'accepted',
+  'declined',
+  'ended',
+  'missed',
+  'cancelled',
+];
+
+const ALLOWED: Array<[CallStatus, CallStatus]> = [
+  ['pending', 'ringing'],
+  ['pending', 'accepted'],
+  ['pending', 'declined'],
+  ['pending', 'cancelled'],
+  ['pending', 'missed'],
+  ['ringing', 'accepted'],
+  ['ringing', 'declined'],
+  ['ringing', 'cancelled'],
+  ['ringing', 'missed'],
+  ['accepted', 'ended'],
+];
+
+const isAllowed = (from: CallStatus, to: CallStatus) =>
+  ALLOWED.some(([f, t]) => f === from && t === to);
+
+const ALL_PAIRS = ALL_STATUSES.flatMap((from) =>
+  ALL_STATUSES.map((to) => [from, to] as [CallStatus, CallStatus])
+);
+
+describe('Call State Machine', () => {
+  describe('canTransition', () => {
+    it.each(ALL_PAIRS.filter(([from, to]) => isAllowed(from, to)))(
+      'should allow %s -> %s',
+      (from, to) => {
+        expect(canTransition(from, to)).toBe(true);
+        expect(() => assertTransition(from, to)).not.toThrow();
+      }
+    );
+
+    it.each(ALL_PAIRS.filter(([from, to]) => !isAllowed(from, to)))(
+      'should reject %s -> %s',
+      (from, to) => {
+        expect(canTransition(from, to)).toBe(false);
+        expect(() => assertTransition(from, to)).toThrow(InvalidCallTransitionError);
+      }
+    );
+  });
+
+  describe('isTerminalStatus', () => {
+    it('should treat declined, ended, missed and cancelled as terminal', () => {
+      expect(ALL_STATUSES.filter(isTerminalStatus)).toEqual([
+        'declined',
+        'ended',
+        'missed',
+        'cancelled',
+      ]);
+    });
+  });
+
+  describe('isCallExpired', () => {
+    const now = new Date('2025-01-01T10:00:00Z').getTime();
+
+    it('should expire a ringing call past its deadline', () => {
+      const call = { status: 'ringing' as const, expiresAt: new Date(now - 1) };
+      expect(isCallExpired(call, now)).toBe(true);
+    });
+
+    it('should not expire a call before its deadline', () => {
+      const call = { status: 'pending' as const, expiresAt: new Date(now + 1000) };
+      expect(isCallExpired(call, now)).toBe(false);
+    });
+
+    it('should fall back to createdAt when expiresAt is missing', () => {
+      const call = {
+        status: 'pending' as const,
+        createdAt: new Date(now - CALL_RING_TIMEOUT_MS - 1),
+      };
+      expect(isCallExpired(call, now)).toBe(true);
+    });
+
+    it('should never expire an answered call', () => {
+      const call = { status: 'accepted' as const, expiresAt: new Date(now - 1) };
+      expect(isCallExpired(call, now)).toBe(false);
+    });
+  });
+
+  describe('getCallDurationSeconds', () => {
+    it('should measure from answer to end', () => {
+      const answeredAt = new Date('2025-01-01T10:00:00Z');
+      const endedAt = new Date('2025-01-01T10:12:30Z');
+      expect(getCallDurationSeconds({ answeredAt, endedAt })).toBe(750);
+    });
+
+    it('should return null for calls that were never answered', () => {
+      expect(getCallDurationSeconds({ endedAt: new Date() })).toBeNull();
+    });
+  });
+});
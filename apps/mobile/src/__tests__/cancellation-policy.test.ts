@@ -0,0 +1,126 @@
+import { CANCELLATION_POLICY_PRESETS } from '@hopefull/types';
+import { evaluateCancellation, getCancellationPolicy } from '../services/cancellation-policy';
+
+const appointment = {
+  scheduledAt: '2025-03-10T15:00:00Z',
+  amount: 10000,
+};
+
+describe('Cancellation Policy', () => {
+  describe('getCancellationPolicy', () => {
+    it('should fall back to the default preset', () => {
+      expect(getCancellationPolicy().preset).toBe('MODERATE');
+      expect(getCancellationPolicy('STRICT')).toBe(CANCELLATION_POLICY_PRESETS.STRICT);
+    });
+  });
+
+  describe('evaluateCancellation', () => {
+    it('should refund in full well ahead of the session', () => {
+      const result = evaluateCancellation({
+        appointment,
+        actor: 'USER',
+        now: new Date('2025-03-08T15:00:00Z'),
+      });
+
+      expect(result.refundPercent).toBe(100);
+      expect(result.refundAmount).toBe(10000);
+      expect(result.hoursBefore).toBe(48);
+      expect(result.reasons).toEqual([
+        {
+          code: 'REFUND_TIER',
+          refundPercent: 100,
+          tier: { minHoursBefore: 24, refundPercent: 100 },
+        },
+      ]);
+    });
+
+    it('should drop to the next tier at exactly the boundary', () => {
+      const result = evaluateCancellation({
+        appointment,
+        actor: 'USER',
+        now: new Date('2025-03-09T15:00:00Z'),
+      });
+      expect(result.refundPercent).toBe(50);
+    });
+
+    it('should use the therapist preset by default', () => {
+      const result = evaluateCancellation({
+        appointment: { ...appointment, therapist: { cancellationPolicy: 'FLEXIBLE' } },
+        actor: 'USER',
+        now: new Date('2025-03-10T10:00:00Z'),
+      });
+      expect(result.refundPercent).toBe(100);
+    });
+
+    it('should refund nothing once the session has started', () => {
+      const result = evaluateCancellation({
+        appointment,
+        actor: 'USER',
+        now: new Date('2025-03-10T15:05:00Z'),
+      });
+
+      expect(result.refundAmount).toBe(0);
+      expect(result.reasons[0].code).toBe('SESSION_STARTED');
+    });
+
+    it('should always refund in full when the therapist cancels', () => {
+      const result = evaluateCancellation({
+        appointment,
+        actor: 'THERAPIST',
+        now: new Date('2025-03-10T14:00:00Z'),
+        policy: CANCELLATION_POLICY_PRESETS.STRICT,
+      });
+
+      expect(result.refundAmount).toBe(10000);
+      expect(result.reasons).toEqual([{ code: 'THERAPIST_CANCELLED', refundPercent: 100 }]);
+    });
+
+    it('should round partial refunds down to whole cents', () => {
+      const result = evaluateCancellation({
+        appointment: { ...appointment, amount: 4999 },
+        actor: 'USER',
+        now: new Date('2025-03-10T03:00:00Z'),
+      });
+      expect(result.refundAmount).toBe(2499);
+    });
+
+    describe('timezones', () => {
+      it('should compare instants regardless of the offset they are written in', () => {
+        // 09:00 in Ho Chi Minh City is 02:00 UTC, so this is 25 hours ahead
+        const result = evaluateCancellation({
+          appointment: { ...appointment, scheduledAt: '2025-03-11T09:00:00+07:00' },
+          actor: 'USER',
+          now: new Date('2025-03-10T01:00:00Z'),
+        });
+
+        expect(result.hoursBefore).toBe(25);
+        expect(result.refundPercent).toBe(100);
+      });
+
+      it('should count elapsed hours across a spring-forward DST change', () => {
+        // US clocks skip 02:00 -> 03:00 on 9 March 2025: 10:00 EDT the next
+        // day reads as 24 hours on the wall clock but only 23 have passed
+        const result = evaluateCancellation({
+          appointment: { ...appointment, scheduledAt: '2025-03-09T10:00:00-04:00' },
+          actor: 'USER',
+          now: new Date('2025-03-08T10:00:00-05:00'),
+        });
+
+        expect(result.hoursBefore).toBe(23);
+        expect(result.refundPercent).toBe(50);
+      });
+
+      it('should count elapsed hours across a fall-back DST change', () => {
+        // 2 November 2025 repeats 01:00-02:00 in the US: 25 hours elapse
+        const result = evaluateCancellation({
+          appointment: { ...appointment, scheduledAt: '2025-11-02T10:00:00-05:00' },
+          actor: 'USER',
+          now: new Date('2025-11-01T10:00:00-04:00'),
+        });
+
+        expect(result.hoursBefore).toBe(25);
+        expect(result.refundPercent).toBe(100);
+      });
+    });
+  });
+});
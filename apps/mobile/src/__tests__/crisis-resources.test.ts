@@ -0,0 +1,81 @@
+import {
+  buildSmsUrl,
+  getCrisisResources,
+  getRegionFromLocale,
+} from '../services/crisis-resources';
+
+describe('crisis-resources', () => {
+  describe('getCrisisResources', () => {
+    it('should return the local emergency number and helplines', () => {
+      const list = getCrisisResources('GB', 'en');
+
+      expect(list.country).toBe('GB');
+      expect(list.emergencyNumber).toBe('999');
+      expect(list.resources.map((r) => r.id)).toEqual(['gb-samaritans', 'gb-shout', 'find-a-helpline']);
+    });
+
+    it('should cover Vietnam with its emergency number', () => {
+      const list = getCrisisResources('VN', 'vi');
+
+      expect(list.country).toBe('VN');
+      expect(list.emergencyNumber).toBe('115');
+      expect(list.resources.map((r) => r.id)).toEqual(['vn-111', 'find-a-helpline']);
+    });
+
+    it('should accept lowercase country codes', () => {
+      expect(getCrisisResources('us', 'en').emergencyNumber).toBe('911');
+    });
+
+    it('should put helplines in the user language first', () => {
+      const list = getCrisisResources('CA', 'vi');
+
+      expect(list.resources[0].id).toBe('find-a-helpline');
+      expect(list.resources[1].id).toBe('ca-988');
+    });
+
+    it('should match on the language part of a locale', () => {
+      const list = getCrisisResources('US', 'es-MX');
+
+      expect(list.resources.map((r) => r.id)).toEqual([
+        'us-988',
+        'us-crisis-text-line',
+        'find-a-helpline',
+      ]);
+    });
+
+    it('should fall back to the worldwide directory for unknown countries', () => {
+      expect(getCrisisResources('ZZ', 'en')).toEqual({
+        country: null,
+        emergencyNumber: null,
+        resources: [expect.objectContaining({ id: 'find-a-helpline' })],
+      });
+      expect(getCrisisResources(undefined, undefined).emergencyNumber).toBeNull();
+    });
+  });
+
+  describe('getRegionFromLocale', () => {
+    it('should read the region from either separator', () => {
+      expect(getRegionFromLocale('en_US')).toBe('US');
+      expect(getRegionFromLocale('es-mx')).toBe('MX');
+    });
+
+    it('should return null without a region', () => {
+      expect(getRegionFromLocale('en')).toBeNull();
+      expect(getRegionFromLocale('zh-Hans')).toBeNull();
+      expect(getRegionFromLocale(null)).toBeNull();
+    });
+  });
+
+  describe('buildSmsUrl', () => {
+    it('should add the keyword in the platform format', () => {
+      const sms = { number: '741741', body: 'HOME' };
+
+      expect(buildSmsUrl(sms, 'ios')).toBe('sms:741741&body=HOME');
+      expect(buildSmsUrl(sms, 'android')).toBe('sms:741741?body=HOME');
+    });
+
+    it('should leave out an empty body', () => {
+      expect(buildSmsUrl({ number: '988' }, 'ios')).toBe('sms:988');
+    });
+  });
+});
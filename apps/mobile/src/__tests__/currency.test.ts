@@ -0,0 +1,88 @@
+import {
+  convertAmount,
+  formatAmountForInput,
+  getCurrencyFractionDigits,
+  getDisplayCurrency,
+  getExchangeRate,
+  parseAmount,
+  sumByCurrency,
+} from '../services/currency';
+import type { ExchangeRates } from '../types';
+
+const rates: ExchangeRates = {
+  base: 'USD',
+  rates: { EUR: 0.9, VND: 25000, GBP: 0.8 },
+  updatedAt: '2025-03-10T00:00:00.000Z',
+};
+
+describe('currency', () => {
+  describe('getDisplayCurrency', () => {
+    it('should prefer the chosen currency', () => {
+      expect(getDisplayCurrency({ displayCurrency: 'GBP', country: 'VN' }, 'vi')).toBe('GBP');
+    });
+
+    it('should fall back to the country, then the language', () => {
+      expect(getDisplayCurrency({ country: 'mx' }, 'es')).toBe('MXN');
+      expect(getDisplayCurrency({ preferredLanguage: 'vi' }, 'en')).toBe('VND');
+      expect(getDisplayCurrency(null, 'es')).toBe('EUR');
+      expect(getDisplayCurrency({ displayCurrency: 'XYZ' }, 'en')).toBe('USD');
+    });
+  });
+
+  describe('getCurrencyFractionDigits', () => {
+    it('should follow the currency minor unit', () => {
+      expect(getCurrencyFractionDigits('USD')).toBe(2);
+      expect(getCurrencyFractionDigits('VND')).toBe(0);
+      expect(getCurrencyFractionDigits('not-a-currency')).toBe(2);
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should convert between minor units through the base currency', () => {
+      // $85.00 -> 2,125,000 dong
+      expect(convertAmount(8500, 'USD', 'VND', rates)).toBe(2125000);
+      // 2,125,000 dong -> €76.50
+      expect(convertAmount(2125000, 'VND', 'EUR', rates)).toBe(7650);
+      expect(getExchangeRate('EUR', 'GBP', rates)).toBeCloseTo(0.8889, 4);
+    });
+
+    it('should keep the amount in the same currency', () => {
+      expect(convertAmount(8500, 'EUR', 'EUR', undefined)).toBe(8500);
+    });
+
+    it('should return null without a rate', () => {
+      expect(convertAmount(8500, 'USD', 'MXN', rates)).toBeNull();
+      expect(convertAmount(8500, 'USD', 'EUR', undefined)).toBeNull();
+    });
+  });
+
+  describe('rate inputs', () => {
+    it('should parse typed rates into minor units', () => {
+      expect(parseAmount('85', 'USD')).toBe(8500);
+      expect(parseAmount('85,50', 'EUR')).toBe(8550);
+      expect(parseAmount('500000', 'VND')).toBe(500000);
+      expect(parseAmount('-5', 'USD')).toBeNull();
+      expect(parseAmount('abc', 'USD')).toBeNull();
+    });
+
+    it('should show saved rates as plain numbers', () => {
+      expect(formatAmountForInput(8550, 'USD')).toBe('85.50');
+      expect(formatAmountForInput(500000, 'VND')).toBe('500000');
+    });
+  });
+
+  describe('sumByCurrency', () => {
+    it('should total each currency separately', () => {
+      expect(
+        sumByCurrency([
+          { amount: 8500, currency: 'USD' },
+          { amount: 500000, currency: 'VND' },
+          { amount: 1500 },
+        ])
+      ).toEqual([
+        { currency: 'USD', amount: 10000 },
+        { currency: 'VND', amount: 500000 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { getCareTeamStatus, sortCareTeam } from '../services/favorites';
+import type { FavoriteTherapist, Therapist } from '../types';
+
+// Mock the api service
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), put: jest.fn(), patch: jest.fn(), delete: jest.fn() },
+}));
+
+const now = new Date('2025-03-10T12:00:00.000Z').getTime();
+
+const member = (
+  therapistId: string,
+  overrides: { isOnline?: boolean; nextAvailableAt?: string | null; createdAt?: string } = {}
+): FavoriteTherapist => ({
+  therapistId,
+  therapist: { id: therapistId, isOnline: overrides.isOnline ?? false } as Therapist,
+  notifyWhenOnline: true,
+  nextAvailableAt: overrides.nextAvailableAt ?? null,
+  createdAt: overrides.createdAt ?? '2025-01-01T00:00:00.000Z',
+});
+
+describe('favorites', () => {
+  describe('getCareTeamStatus', () => {
+    it('should report online therapists first', () => {
+      const status = getCareTeamStatus(
+        member('t1', { isOnline: true, nextAvailableAt: '2025-03-11T09:00:00.000Z' }),
+        now
+      );
+
+      expect(status).toEqual({ kind: 'online' });
+    });
+
+    it('should report the next opening', () => {
+      const status = getCareTeamStatus(member('t1', { nextAvailableAt: '2025-03-11T09:00:00.000Z' }), now);
+
+      expect(status).toEqual({ kind: 'next', at: '2025-03-11T09:00:00.000Z' });
+    });
+
+    it('should treat a past or missing opening as unavailable', () => {
+      expect(getCareTeamStatus(member('t1', { nextAvailableAt: '2025-03-10T08:00:00.000Z' }), now)).toEqual({
+        kind: 'unavailable',
+      });
+      expect(getCareTeamStatus(member('t1'), now)).toEqual({ kind: 'unavailable' });
+    });
+  });
+
+  describe('sortCareTeam', () => {
+    it('should order online, then soonest opening, then the rest by when they were saved', () => {
+      const sorted = sortCareTeam(
+        [
+          member('none-newer', { createdAt: '2025-02-01T00:00:00.000Z' }),
+          member('later', { nextAvailableAt: '2025-03-14T09:00:00.000Z' }),
+          member('none-older', { createdAt: '2025-01-01T00:00:00.000Z' }),
+          member('online', { isOnline: true }),
+          member('sooner', { nextAvailableAt: '2025-03-11T09:00:00.000Z' }),
+        ],
+        now
+      );
+
+      expect(sorted.map((m) => m.therapistId)).toEqual(['online', 'sooner', 'later', 'none-older', 'none-newer']);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  formatIntakeAnswer,
+  getVisibleQuestions,
+  pruneIntakeAnswers,
+  validateIntakeAnswers,
+} from '../services/intake-form';
+import type { IntakeQuestion } from '../types';
+
+const questions: IntakeQuestion[] = [
+  {
+    id: 'previousTherapy',
+    type: 'SINGLE_CHOICE',
+    label: 'Have you been in therapy before?',
+    required: true,
+    options: [
+      { value: 'yes', label: 'Yes' },
+      { value: 'no', label: 'No' },
+    ],
+  },
+  {
+    id: 'previousTherapyDetails',
+    type: 'TEXT',
+    label: 'Tell us about it',
+    multiline: true,
+    required: true,
+    showIf: { questionId: 'previousTherapy', operator: 'EQUALS', value: 'yes' },
+  },
+  {
+    id: 'concerns',
+    type: 'MULTI_CHOICE',
+    label: 'What brings you here?',
+    options: [
+      { value: 'anxiety', label: 'Anxiety' },
+      { value: 'sleep', label: 'Sleep' },
+    ],
+  },
+  {
+    id: 'sleepHours',
+    type: 'SCALE',
+    label: 'Hours of sleep per night',
+    min: 0,
+    max: 12,
+    showIf: { questionId: 'concerns', operator: 'INCLUDES', value: 'sleep' },
+  },
+  {
+    id: 'sleepSince',
+    type: 'DATE',
+    label: 'Since when?',
+    required: true,
+    showIf: { questionId: 'sleepHours', operator: 'AT_MOST', value: 5 },
+  },
+];
+
+const ids = (list: IntakeQuestion[]) => list.map((q) => q.id);
+
+describe('Intake Form', () => {
+  describe('getVisibleQuestions', () => {
+    it('should hide follow-ups until their condition is met', () => {
+      expect(ids(getVisibleQuestions(questions, {}))).toEqual(['previousTherapy', 'concerns']);
+      expect(ids(getVisibleQuestions(questions, { previousTherapy: 'yes' }))).toContain(
+        'previousTherapyDetails'
+      );
+      expect(ids(getVisibleQuestions(questions, { previousTherapy: 'no' }))).not.toContain(
+        'previousTherapyDetails'
+      );
+    });
+
+    it('should evaluate numeric and multi choice conditions', () => {
+      const answers = { concerns: ['sleep'], sleepHours: 4 };
+      expect(ids(getVisibleQuestions(questions, answers))).toEqual([
+        'previousTherapy',
+        'concerns',
+        'sleepHours',
+        'sleepSince',
+      ]);
+      expect(ids(getVisibleQuestions(questions, { ...answers, sleepHours: 7 }))).not.toContain(
+        'sleepSince'
+      );
+    });
+
+    it('should hide questions whose parent is hidden', () => {
+      // sleepHours still has an answer, but the branch it belongs to is closed
+      const answers = { concerns: ['anxiety'], sleepHours: 4 };
+      expect(ids(getVisibleQuestions(questions, answers))).toEqual(['previousTherapy', 'concerns']);
+    });
+  });
+
+  describe('validateIntakeAnswers', () => {
+    it('should require visible required questions only', () => {
+      expect(validateIntakeAnswers(questions, {})).toEqual({ previousTherapy: 'required' });
+      expect(validateIntakeAnswers(questions, { previousTherapy: 'yes', previousTherapyDetails: '  ' })).toEqual({
+        previousTherapyDetails: 'required',
+      });
+    });
+
+    it('should reject answers outside the question definition', () => {
+      expect(
+        validateIntakeAnswers(questions, {
+          previousTherapy: 'maybe',
+          concerns: ['sleep', 'other'],
+          sleepHours: 13,
+        })
+      ).toEqual({
+        previousTherapy: 'invalidOption',
+        concerns: 'invalidOption',
+        sleepHours: 'outOfRange',
+      });
+    });
+
+    it('should validate calendar dates', () => {
+      const base = { previousTherapy: 'no', concerns: ['sleep'], sleepHours: 3 };
+      expect(validateIntakeAnswers(questions, { ...base, sleepSince: '2025-02-30' })).toEqual({
+        sleepSince: 'invalidDate',
+      });
+      expect(validateIntakeAnswers(questions, { ...base, sleepSince: '2025-02-28' })).toEqual({});
+    });
+  });
+
+  describe('pruneIntakeAnswers', () => {
+    it('should drop hidden and empty answers', () => {
+      expect(
+        pruneIntakeAnswers(questions, {
+          previousTherapy: 'no',
+          previousTherapyDetails: 'stale',
+          concerns: [],
+          sleepHours: 4,
+        })
+      ).toEqual({ previousTherapy: 'no' });
+    });
+  });
+
+  describe('formatIntakeAnswer', () => {
+    it('should show option labels and scale positions', () => {
+      expect(formatIntakeAnswer(questions[0], 'yes')).toBe('Yes');
+      expect(formatIntakeAnswer(questions[2], ['anxiety', 'sleep'])).toBe('Anxiety, Sleep');
+      expect(formatIntakeAnswer(questions[3], 6)).toBe('6 / 12');
+      expect(formatIntakeAnswer(questions[4], '2025-01-15')).toBe('2025-01-15');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  BillablePayment,
+  buildInvoiceHtml,
+  buildSuperbillHtml,
+  getCptCode,
+  getInvoiceNumber,
+  getSuperbillGaps,
+  getSuperbillPayments,
+} from '../services/invoice-documents';
+import type { Appointment, Payment, Therapist } from '../types';
+
+const therapist: Therapist = {
+  id: 'therapist-1',
+  userId: 'user-t1',
+  professionalTitle: 'LCSW',
+  yearsOfExperience: 8,
+  state: 'CA',
+  timezone: 'America/Los_Angeles',
+  verificationStatus: 'APPROVED',
+  isOnline: false,
+  hourlyRate: 12000,
+  perMinuteRate: 200,
+  averageRating: 4.9,
+  totalReviews: 40,
+  totalBookings: 120,
+  user: { id: 'user-t1', firstName: 'Maya', lastName: 'Chen' },
+  languages: [],
+  specializations: [],
+  billing: { licenseNumber: 'LCS 12345', licenseState: 'CA', npi: '1234567890', taxId: '12-3456789' },
+};
+
+const makeAppointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  id: 'appt-1',
+  userId: 'client-1',
+  therapistId: therapist.id,
+  scheduledAt: '2025-03-04T18:00:00.000Z',
+  duration: 60,
+  timezone: 'America/Los_Angeles',
+  type: 'SCHEDULED',
+  status: 'COMPLETED',
+  amount: 12000,
+  currency: 'USD',
+  createdAt: '2025-02-20T10:00:00.000Z',
+  therapist,
+  diagnosisCodes: ['F41.1'],
+  ...overrides,
+});
+
+const makePayment = (overrides: Partial<Payment> = {}, appointment = makeAppointment()): BillablePayment => ({
+  id: 'pay_abcdef123456',
+  userId: 'client-1',
+  appointmentId: appointment.id,
+  amount: 12000,
+  platformFee: 1800,
+  therapistAmount: 10200,
+  currency: 'USD',
+  status: 'SUCCESS',
+  paidAt: '2025-02-20T10:01:00.000Z',
+  createdAt: '2025-02-20T10:00:00.000Z',
+  appointment,
+  ...overrides,
+});
+
+const options = {
+  client: { firstName: 'Sam', lastName: 'Rivera', email: 'sam@example.com' },
+  issuedAt: new Date('2025-04-01T12:00:00.000Z'),
+  timeZone: 'America/Los_Angeles',
+};
+
+describe('invoice documents', () => {
+  describe('getCptCode', () => {
+    it('should pick the psychotherapy code for the session length', () => {
+      expect(getCptCode({ duration: 30 })).toBe('90832');
+      expect(getCptCode({ duration: 45 })).toBe('90834');
+      expect(getCptCode({ duration: 60 })).toBe('90837');
+    });
+
+    it('should prefer the code the therapist recorded', () => {
+      expect(getCptCode({ duration: 60, cptCode: '90847' })).toBe('90847');
+    });
+  });
+
+  it('should number invoices by year and payment', () => {
+    expect(getInvoiceNumber(makePayment())).toBe('INV-2025-EF123456');
+  });
+
+  describe('getSuperbillPayments', () => {
+    it('should keep paid sessions in the range, oldest first', () => {
+      const later = makePayment(
+        { id: 'pay-2' },
+        makeAppointment({ id: 'appt-2', scheduledAt: '2025-03-18T18:00:00.000Z' })
+      );
+      const outside = makePayment(
+        { id: 'pay-3' },
+        makeAppointment({ id: 'appt-3', scheduledAt: '2025-04-02T18:00:00.000Z' })
+      );
+      const refunded = makePayment({ id: 'pay-4', status: 'REFUNDED' });
+      const payments = getSuperbillPayments(
+        [later, outside, refunded, makePayment()],
+        new Date('2025-03-01T00:00:00.000Z'),
+        new Date('2025-03-31T23:59:59.000Z')
+      );
+      expect(payments.map((payment) => payment.id)).toEqual(['pay_abcdef123456', 'pay-2']);
+    });
+
+    it('should flag what an insurer may reject', () => {
+      const unlicensed: Therapist = {
+        ...therapist,
+        id: 'therapist-2',
+        user: { id: 'user-t2', firstName: 'Omar', lastName: 'Haddad' },
+        billing: undefined,
+      };
+      const payments = getSuperbillPayments(
+        [
+          makePayment(),
+          makePayment({ id: 'pay-2' }, makeAppointment({ therapist: unlicensed, diagnosisCodes: [] })),
+        ],
+        new Date('2025-03-01T00:00:00.000Z'),
+        new Date('2025-03-31T23:59:59.000Z')
+      );
+      expect(getSuperbillGaps(payments)).toEqual({
+        therapistsWithoutLicense: ['Omar Haddad'],
+        sessionsWithoutDiagnosis: 1,
+      });
+    });
+  });
+
+  describe('layout', () => {
+    it('should render a paid invoice', () => {
+      expect(buildInvoiceHtml(makePayment(), options)).toMatchSnapshot();
+    });
+
+    it('should show refunds on a partially refunded invoice', () => {
+      const payment = makePayment({
+        refunds: [
+          {
+            id: 'refund-1',
+            paymentId: 'pay_abcdef123456',
+            amount: 6000,
+            currency: 'USD',
+            reason: 'SESSION_ISSUE',
+            status: 'SUCCEEDED',
+            destination: 'CARD',
+            createdAt: '2025-03-05T10:00:00.000Z',
+          },
+        ],
+      });
+      expect(buildInvoiceHtml(payment, options)).toMatchSnapshot();
+    });
+
+    it('should render a superbill grouped by therapist', () => {
+      const other: Therapist = {
+        ...therapist,
+        id: 'therapist-2',
+        professionalTitle: 'PsyD',
+        user: { id: 'user-t2', firstName: 'Omar', lastName: '<Haddad>' },
+        billing: undefined,
+      };
+      const payments = [
+        makePayment(),
+        makePayment(
+          { id: 'pay-2', amount: 500000, currency: 'VND' },
+          makeAppointment({
+            id: 'appt-2',
+            therapistId: other.id,
+            therapist: other,
+            duration: 45,
+            diagnosisCodes: [],
+          })
+        ),
+      ];
+      expect(
+        buildSuperbillHtml(payments, {
+          ...options,
+          from: new Date('2025-03-01T08:00:00.000Z'),
+          to: new Date('2025-04-01T06:59:59.000Z'),
+        })
+      ).toMatchSnapshot();
+    });
+
+    it('should say when the period has no sessions', () => {
+      expect(
+        buildSuperbillHtml([], {
+          ...options,
+          from: new Date('2025-03-01T08:00:00.000Z'),
+          to: new Date('2025-04-01T06:59:59.000Z'),
+        })
+      ).toContain('No paid sessions in this period.');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { getMoodOption, getNextReminderAt, summarizeMood } from '../services/mood-journal';
+
+describe('mood-journal', () => {
+  describe('getNextReminderAt', () => {
+    it('should fire later today when the time has not passed', () => {
+      const next = getNextReminderAt('20:00', new Date(2025, 2, 10, 9, 15));
+
+      expect(next).toEqual(new Date(2025, 2, 10, 20, 0));
+    });
+
+    it('should fire tomorrow when the time has passed', () => {
+      const next = getNextReminderAt('09:00', new Date(2025, 2, 10, 9, 15));
+
+      expect(next).toEqual(new Date(2025, 2, 11, 9, 0));
+    });
+
+    it('should roll over to tomorrow at exactly the reminder time', () => {
+      const next = getNextReminderAt('09:00', new Date(2025, 2, 10, 9, 0));
+
+      expect(next).toEqual(new Date(2025, 2, 11, 9, 0));
+    });
+  });
+
+  describe('summarizeMood', () => {
+    it('should sort entries newest first and average the mood', () => {
+      const summary = summarizeMood([
+        { date: '2025-03-08', mood: 2 },
+        { date: '2025-03-10', mood: 4 },
+        { date: '2025-03-09', mood: 5 },
+      ]);
+
+      expect(summary.entries.map((e) => e.date)).toEqual(['2025-03-10', '2025-03-09', '2025-03-08']);
+      expect(summary.average).toBe(3.7);
+      expect(summary.lowDays).toBe(1);
+    });
+
+    it('should have no average without entries', () => {
+      expect(summarizeMood([])).toEqual({ entries: [], average: null, lowDays: 0 });
+    });
+  });
+
+  describe('getMoodOption', () => {
+    it('should return the option for a score', () => {
+      expect(getMoodOption(5).icon).toBe('sunny-outline');
+    });
+  });
+});
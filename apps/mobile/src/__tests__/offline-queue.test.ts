@@ -0,0 +1,272 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { offlineQueue, detectConflict } from '../services/offline-queue';
+
+// Mock the api service
+jest.mock('../services/api', () => ({
+  isNetworkError: (error: any) => !!error?.isNetworkError,
+}));
+
+// Mock the appointments service
+jest.mock('../services/appointments', () => ({
+  appointmentsService: {
+    findById: jest.fn(),
+    cancel: jest.fn(),
+    addReview: jest.fn(),
+  },
+}));
+
+// Mock the therapist dashboard service
+jest.mock('../services/therapist-dashboard', () => ({
+  therapistDashboardService: {
+    addSessionNotes: jest.fn(),
+  },
+}));
+
+// Mock React Query's online state
+jest.mock('@tanstack/react-query', () => ({
+  onlineManager: {
+    isOnline: jest.fn(() => true),
+  },
+}));
+
+const { appointmentsService } = require('../services/appointments');
+const { therapistDashboardService } = require('../services/therapist-dashboard');
+const { onlineManager } = require('@tanstack/react-query');
+
+const networkError = () => Object.assign(new Error('Network Error'), { isNetworkError: true });
+const httpError = (statusCode: number) =>
+  Object.assign(new Error('Request failed'), { statusCode, isNetworkError: false });
+
+const mockAppointment = (overrides: Record<string, any> = {}) => ({
+  id: 'appt-1',
+  status: 'CONFIRMED',
+  sessionNotes: undefined,
+  review: undefined,
+  ...overrides,
+});
+
+describe('Offline Mutation Queue', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    onlineManager.isOnline.mockReturnValue(true);
+    await offlineQueue.clear();
+  });
+
+  describe('runOrEnqueue', () => {
+    it('should send the mutation immediately when online', async () => {
+      appointmentsService.cancel.mockResolvedValue({});
+
+      const result = await offlineQueue.runOrEnqueue({
+        type: 'cancel',
+        appointmentId: 'appt-1',
+        payload: { reason: 'Schedule conflict' },
+      });
+
+      expect(result.queued).toBe(false);
+      expect(appointmentsService.cancel).toHaveBeenCalledWith('appt-1', 'Schedule conflict');
+      expect(await offlineQueue.getPending()).toHaveLength(0);
+    });
+
+    it('should queue the mutation when offline', async () => {
+      onlineManager.isOnline.mockReturnValue(false);
+
+      const result = await offlineQueue.runOrEnqueue(
+        { type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'Feeling better' } },
+        mockAppointment() as any
+      );
+
+      expect(result.queued).toBe(true);
+      expect(appointmentsService.cancel).not.toHaveBeenCalled();
+
+      const pending = await offlineQueue.getPending();
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toMatchObject({
+        type: 'cancel',
+        appointmentId: 'appt-1',
+        snapshot: { status: 'CONFIRMED', hasReview: false },
+      });
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+        '@hopefull_offline_queue',
+        expect.stringContaining('appt-1')
+      );
+    });
+
+    it('should queue the mutation when the request never reaches the server', async () => {
+      appointmentsService.cancel.mockRejectedValue(networkError());
+
+      const result = await offlineQueue.runOrEnqueue({
+        type: 'cancel',
+        appointmentId: 'appt-1',
+        payload: { reason: 'Other' },
+      });
+
+      expect(result.queued).toBe(true);
+      expect(await offlineQueue.getPending()).toHaveLength(1);
+    });
+
+    it('should rethrow server errors without queueing', async () => {
+      appointmentsService.cancel.mockRejectedValue(httpError(400));
+
+      await expect(
+        offlineQueue.runOrEnqueue({
+          type: 'cancel',
+          appointmentId: 'appt-1',
+          payload: { reason: 'Other' },
+        })
+      ).rejects.toThrow('Request failed');
+      expect(await offlineQueue.getPending()).toHaveLength(0);
+    });
+
+    it('should replay earlier pending mutations before sending a new one', async () => {
+      onlineManager.isOnline.mockReturnValue(false);
+      await offlineQueue.runOrEnqueue(
+        { type: 'addSessionNotes', appointmentId: 'appt-1', payload: { notes: 'First draft' } },
+        mockAppointment() as any
+      );
+
+      onlineManager.isOnline.mockReturnValue(true);
+      appointmentsService.findById.mockResolvedValue(mockAppointment());
+      therapistDashboardService.addSessionNotes.mockResolvedValue({});
+
+      const result = await offlineQueue.runOrEnqueue({
+        type: 'addSessionNotes',
+        appointmentId: 'appt-1',
+        payload: { notes: 'Second draft' },
+      });
+
+      expect(result.queued).toBe(false);
+      expect(therapistDashboardService.addSessionNotes.mock.calls).toEqual([
+        ['appt-1', 'First draft'],
+        ['appt-1', 'Second draft'],
+      ]);
+      expect(await offlineQueue.getPending()).toHaveLength(0);
+    });
+
+    it('should queue behind earlier mutations the server still fails on', async () => {
+      onlineManager.isOnline.mockReturnValue(false);
+      await offlineQueue.runOrEnqueue({
+        type: 'addSessionNotes',
+        appointmentId: 'appt-1',
+        payload: { notes: 'First draft' },
+      });
+
+      onlineManager.isOnline.mockReturnValue(true);
+      appointmentsService.findById.mockRejectedValue(httpError(503));
+
+      const result = await offlineQueue.runOrEnqueue({
+        type: 'addSessionNotes',
+        appointmentId: 'appt-1',
+        payload: { notes: 'Second draft' },
+      });
+
+      expect(result.queued).toBe(true);
+      expect(therapistDashboardService.addSessionNotes).not.toHaveBeenCalled();
+      expect(await offlineQueue.getPending()).toHaveLength(2);
+    });
+  });
+
+  describe('replay', () => {
+    it('should tell replay listeners about every replay', async () => {
+      onlineManager.isOnline.mockReturnValue(false);
+      await offlineQueue.runOrEnqueue({ type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'Other' } });
+      appointmentsService.findById.mockRejectedValue(httpError(500));
+
+      const listener = jest.fn();
+      const unsubscribe = offlineQueue.onReplay(listener);
+      await offlineQueue.replay();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith({ applied: [], conflicts: [], remaining: 1 });
+    });
+
+    it('should replay queued mutations in order', async () => {
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'A' } });
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-2', payload: { reason: 'B' } });
+      appointmentsService.findById.mockImplementation((id: string) =>
+        Promise.resolve(mockAppointment({ id }))
+      );
+      appointmentsService.cancel.mockResolvedValue({});
+
+      const result = await offlineQueue.replay();
+
+      expect(result.applied.map((m) => m.appointmentId)).toEqual(['appt-1', 'appt-2']);
+      expect(result.conflicts).toHaveLength(0);
+      expect(result.remaining).toBe(0);
+      expect(appointmentsService.cancel.mock.calls).toEqual([
+        ['appt-1', 'A'],
+        ['appt-2', 'B'],
+      ]);
+    });
+
+    it('should drop a mutation that conflicts with the server state', async () => {
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'A' } });
+      appointmentsService.findById.mockResolvedValue(mockAppointment({ status: 'CANCELLED' }));
+
+      const result = await offlineQueue.replay();
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]!.reason).toBe('ALREADY_CANCELLED');
+      expect(appointmentsService.cancel).not.toHaveBeenCalled();
+      expect(await offlineQueue.getPending()).toHaveLength(0);
+    });
+
+    it('should keep the queue when the connection drops mid-replay', async () => {
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'A' } });
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-2', payload: { reason: 'B' } });
+      appointmentsService.findById
+        .mockResolvedValueOnce(mockAppointment({ id: 'appt-1' }))
+        .mockRejectedValueOnce(networkError());
+      appointmentsService.cancel.mockResolvedValue({});
+
+      const result = await offlineQueue.replay();
+
+      expect(result.applied).toHaveLength(1);
+      expect(result.remaining).toBe(1);
+      const pending = await offlineQueue.getPending();
+      expect(pending[0]!.appointmentId).toBe('appt-2');
+    });
+
+    it('should report a missing appointment as a conflict', async () => {
+      await offlineQueue.enqueue({ type: 'cancel', appointmentId: 'appt-1', payload: { reason: 'A' } });
+      appointmentsService.findById.mockRejectedValue(httpError(404));
+
+      const result = await offlineQueue.replay();
+
+      expect(result.conflicts[0]!.reason).toBe('NOT_FOUND');
+      expect(result.remaining).toBe(0);
+    });
+  });
+
+  describe('detectConflict', () => {
+    const base = { id: 'm-1', appointmentId: 'appt-1', queuedAt: new Date().toISOString() };
+
+    it('should reject a review once one already exists', () => {
+      const conflict = detectConflict(
+        { ...base, type: 'addReview', payload: { rating: 5 } },
+        mockAppointment({ status: 'COMPLETED', review: { rating: 4 } }) as any
+      );
+      expect(conflict).toBe('ALREADY_REVIEWED');
+    });
+
+    it('should reject session notes edited elsewhere', () => {
+      const conflict = detectConflict(
+        {
+          ...base,
+          type: 'addSessionNotes',
+          payload: { notes: 'Offline notes' },
+          snapshot: { status: 'COMPLETED', sessionNotes: 'Original', hasReview: false },
+        },
+        mockAppointment({ status: 'COMPLETED', sessionNotes: 'Edited on web' }) as any
+      );
+      expect(conflict).toBe('NOTES_CHANGED');
+    });
+
+    it('should allow a cancel for a confirmed appointment', () => {
+      const conflict = detectConflict(
+        { ...base, type: 'cancel', payload: { reason: 'A' } },
+        mockAppointment() as any
+      );
+      expect(conflict).toBeNull();
+    });
+  });
+});
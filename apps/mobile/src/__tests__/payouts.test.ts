@@ -0,0 +1,95 @@
+import { getNextPayoutDate, getPayoutSetupState, summarizePayoutPayments } from '../services/payouts';
+import type { Payment, PayoutAccount } from '../types';
+
+const makeAccount = (overrides: Partial<PayoutAccount> = {}): PayoutAccount => ({
+  onboardingStatus: 'COMPLETE',
+  payoutsEnabled: true,
+  requirementsDue: [],
+  ...overrides,
+});
+
+const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'pay-1',
+  userId: 'client-1',
+  appointmentId: 'appt-1',
+  amount: 12000,
+  platformFee: 1800,
+  therapistAmount: 10200,
+  currency: 'USD',
+  status: 'SUCCESS',
+  createdAt: '2025-03-04T18:00:00.000Z',
+  ...overrides,
+});
+
+describe('payouts', () => {
+  describe('getPayoutSetupState', () => {
+    it('should ask for setup until onboarding starts', () => {
+      expect(getPayoutSetupState(undefined)).toBe('setup');
+      expect(getPayoutSetupState(makeAccount({ onboardingStatus: 'NOT_STARTED' }))).toBe('setup');
+    });
+
+    it('should put outstanding requirements first', () => {
+      expect(getPayoutSetupState(makeAccount({ onboardingStatus: 'RESTRICTED', payoutsEnabled: false }))).toBe(
+        'actionRequired'
+      );
+      expect(getPayoutSetupState(makeAccount({ onboardingStatus: 'PENDING', requirementsDue: ['external_account'] }))).toBe(
+        'actionRequired'
+      );
+    });
+
+    it('should wait for review before payouts are enabled', () => {
+      expect(getPayoutSetupState(makeAccount({ onboardingStatus: 'PENDING', payoutsEnabled: false }))).toBe('inReview');
+      expect(getPayoutSetupState(makeAccount({ payoutsEnabled: false }))).toBe('inReview');
+    });
+
+    it('should be active once payouts are enabled', () => {
+      expect(getPayoutSetupState(makeAccount())).toBe('active');
+    });
+  });
+
+  describe('getNextPayoutDate', () => {
+    // Wednesday
+    const now = new Date(2025, 2, 12, 15, 30);
+
+    it('should pay daily schedules tomorrow', () => {
+      expect(getNextPayoutDate({ interval: 'daily', delayDays: 2 }, now)).toEqual(new Date(2025, 2, 13));
+    });
+
+    it('should pay weekly schedules on the next anchor day', () => {
+      expect(getNextPayoutDate({ interval: 'weekly', weeklyAnchor: 5, delayDays: 2 }, now)).toEqual(new Date(2025, 2, 14));
+      expect(getNextPayoutDate({ interval: 'weekly', weeklyAnchor: 1, delayDays: 2 }, now)).toEqual(new Date(2025, 2, 17));
+    });
+
+    it('should skip to next week when today is the anchor day', () => {
+      expect(getNextPayoutDate({ interval: 'weekly', weeklyAnchor: 3, delayDays: 2 }, now)).toEqual(new Date(2025, 2, 19));
+    });
+
+    it('should pay monthly schedules on the anchor day', () => {
+      expect(getNextPayoutDate({ interval: 'monthly', monthlyAnchor: 20, delayDays: 2 }, now)).toEqual(
+        new Date(2025, 2, 20)
+      );
+      expect(getNextPayoutDate({ interval: 'monthly', monthlyAnchor: 1, delayDays: 2 }, now)).toEqual(new Date(2025, 3, 1));
+    });
+
+    it('should clamp the monthly anchor to short months', () => {
+      const endOfJanuary = new Date(2025, 0, 31, 9, 0);
+      expect(getNextPayoutDate({ interval: 'monthly', monthlyAnchor: 31, delayDays: 2 }, endOfJanuary)).toEqual(
+        new Date(2025, 1, 28)
+      );
+    });
+
+    it('should have no date for manual payouts', () => {
+      expect(getNextPayoutDate({ interval: 'manual', delayDays: 2 }, now)).toBeNull();
+    });
+  });
+
+  it('should total the payments in a payout', () => {
+    expect(
+      summarizePayoutPayments([
+        makePayment(),
+        makePayment({ id: 'pay-2', amount: 8000, platformFee: 1200, therapistAmount: 6800 }),
+      ])
+    ).toEqual({ gross: 20000, platformFees: 3000, net: 17000 });
+    expect(summarizePayoutPayments([])).toEqual({ gross: 0, platformFees: 0, net: 0 });
+  });
+});
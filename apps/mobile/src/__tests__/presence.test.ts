@@ -0,0 +1,108 @@
+import { getNextAlertAt, getQuietHoursEnd, isInQuietHours } from '../services/presence';
+import type { PresenceAlertSettings, PresenceSubscription, Therapist } from '../types';
+
+// Mock the api service
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), put: jest.fn(), patch: jest.fn(), delete: jest.fn() },
+}));
+
+const settings = (overrides: Partial<PresenceAlertSettings> = {}): PresenceAlertSettings => ({
+  cooldownMinutes: 60,
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'UTC',
+  ...overrides,
+});
+
+// 10–11 March 2025 on the UTC clock the default settings use
+const at = (day: number, hours: number, minutes: number) => new Date(Date.UTC(2025, 2, day, hours, minutes));
+
+const subscription = (lastNotifiedAt: Date | null = null): PresenceSubscription => ({
+  therapistId: 't1',
+  therapist: { id: 't1', isOnline: false } as Therapist,
+  lastNotifiedAt: lastNotifiedAt?.toISOString() ?? null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('presence', () => {
+  describe('isInQuietHours', () => {
+    it('should handle a window that wraps past midnight', () => {
+      expect(isInQuietHours(settings(), at(10, 23, 30))).toBe(true);
+      expect(isInQuietHours(settings(), at(10, 7, 59))).toBe(true);
+      expect(isInQuietHours(settings(), at(10, 8, 0))).toBe(false);
+      expect(isInQuietHours(settings(), at(10, 21, 59))).toBe(false);
+    });
+
+    it('should handle a window within the same day', () => {
+      const daytime = settings({ quietHoursStart: '13:00', quietHoursEnd: '15:00' });
+
+      expect(isInQuietHours(daytime, at(10, 14, 0))).toBe(true);
+      expect(isInQuietHours(daytime, at(10, 15, 0))).toBe(false);
+    });
+
+    it('should never be quiet when disabled or empty', () => {
+      const night = at(10, 23, 30);
+
+      expect(isInQuietHours(settings({ quietHoursEnabled: false }), night)).toBe(false);
+      expect(isInQuietHours(settings({ quietHoursStart: '22:00', quietHoursEnd: '22:00' }), night)).toBe(false);
+    });
+
+    it('should use the timezone from the settings rather than the device clock', () => {
+      const tokyo = settings({ timezone: 'Asia/Tokyo' });
+
+      // 13:30 UTC is 22:30 in Tokyo
+      expect(isInQuietHours(tokyo, at(10, 13, 30))).toBe(true);
+      // 23:30 UTC is 08:30 the next morning in Tokyo
+      expect(isInQuietHours(tokyo, at(10, 23, 30))).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    it('should return the next end time', () => {
+      expect(getQuietHoursEnd(settings(), at(10, 23, 30))).toEqual(at(11, 8, 0));
+      expect(getQuietHoursEnd(settings(), at(11, 2, 0))).toEqual(at(11, 8, 0));
+    });
+
+    it('should end at 08:00 in the settings timezone', () => {
+      // 23:00 in Tokyo is 14:00 UTC, quiet hours end at 08:00 JST = 23:00 UTC
+      expect(getQuietHoursEnd(settings({ timezone: 'Asia/Tokyo' }), at(10, 14, 0))).toEqual(at(10, 23, 0));
+    });
+
+    it('should keep the end time across a daylight saving change', () => {
+      // New York springs forward overnight on 9 March 2025, 08:00 EDT is 12:00 UTC
+      const newYork = settings({ timezone: 'America/New_York' });
+
+      expect(getQuietHoursEnd(newYork, at(9, 3, 30))).toEqual(at(9, 12, 0));
+    });
+  });
+
+  describe('getNextAlertAt', () => {
+    const now = at(10, 12, 0);
+
+    it('should allow an alert straight away outside the cooldown and quiet hours', () => {
+      expect(getNextAlertAt(subscription(), settings(), now)).toBeNull();
+      expect(getNextAlertAt(subscription(at(10, 10, 0)), settings(), now)).toBeNull();
+    });
+
+    it('should wait out the cooldown after the last alert', () => {
+      const next = getNextAlertAt(subscription(at(10, 11, 30)), settings(), now);
+
+      expect(next).toEqual(at(10, 12, 30));
+    });
+
+    it('should hold alerts until quiet hours end', () => {
+      const night = at(10, 23, 0);
+
+      expect(getNextAlertAt(subscription(), settings(), night)).toEqual(at(11, 8, 0));
+    });
+
+    it('should push a cooldown that ends in quiet hours to the morning', () => {
+      const evening = at(10, 21, 30);
+      const next = getNextAlertAt(subscription(at(10, 21, 15)), settings(), evening);
+
+      expect(next).toEqual(at(11, 8, 0));
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  getExpectedArrival,
+  getPaymentStatus,
+  getRefundSummary,
+  isRefundOpen,
+} from '../services/refunds';
+import type { Payment, Refund } from '../types';
+
+const makeRefund = (overrides: Partial<Refund> = {}): Refund => ({
+  id: 'refund-1',
+  paymentId: 'payment-1',
+  amount: 4000,
+  currency: 'USD',
+  reason: 'CLIENT_CANCELLED',
+  status: 'SUCCEEDED',
+  destination: 'CARD',
+  // Monday
+  createdAt: '2025-03-10T12:00:00.000Z',
+  ...overrides,
+});
+
+const makePayment = (refunds: Refund[]): Payment => ({
+  id: 'payment-1',
+  userId: 'user-1',
+  appointmentId: 'appt-1',
+  amount: 8500,
+  platformFee: 1275,
+  therapistAmount: 7225,
+  currency: 'USD',
+  status: 'SUCCESS',
+  createdAt: '2025-03-01T12:00:00.000Z',
+  refunds,
+});
+
+describe('refunds', () => {
+  describe('getExpectedArrival', () => {
+    it('should add 5 to 10 business days for card refunds', () => {
+      const arrival = getExpectedArrival(makeRefund());
+      expect(arrival?.from.toISOString()).toBe('2025-03-17T12:00:00.000Z');
+      expect(arrival?.to.toISOString()).toBe('2025-03-24T12:00:00.000Z');
+    });
+
+    it('should count from when the refund was sent', () => {
+      const arrival = getExpectedArrival(makeRefund({ processedAt: '2025-03-14T12:00:00.000Z' }));
+      expect(arrival?.from.toISOString()).toBe('2025-03-21T12:00:00.000Z');
+    });
+
+    it('should prefer the date given by the server', () => {
+      const arrival = getExpectedArrival(makeRefund({ expectedArrivalAt: '2025-03-13T00:00:00.000Z' }));
+      expect(arrival?.from).toEqual(arrival?.to);
+      expect(arrival?.to.toISOString()).toBe('2025-03-13T00:00:00.000Z');
+    });
+
+    it('should land wallet refunds straight away', () => {
+      const arrival = getExpectedArrival(makeRefund({ destination: 'WALLET' }));
+      expect(arrival?.to.toISOString()).toBe('2025-03-10T12:00:00.000Z');
+    });
+
+    it('should return null for failed refunds', () => {
+      expect(getExpectedArrival(makeRefund({ status: 'FAILED' }))).toBeNull();
+    });
+  });
+
+  describe('getRefundSummary', () => {
+    it('should split sent and open refunds', () => {
+      const payment = makePayment([
+        makeRefund(),
+        makeRefund({ id: 'refund-2', amount: 1500, status: 'PROCESSING' }),
+        makeRefund({ id: 'refund-3', amount: 1000, status: 'FAILED' }),
+      ]);
+      expect(getRefundSummary(payment)).toEqual({ refunded: 4000, pending: 1500, retained: 3000 });
+      expect(isRefundOpen(makeRefund({ status: 'PENDING' }))).toBe(true);
+    });
+  });
+
+  describe('getPaymentStatus', () => {
+    it('should mark partial and full refunds', () => {
+      expect(getPaymentStatus(makePayment([makeRefund()]))).toBe('PARTIALLY_REFUNDED');
+      expect(getPaymentStatus(makePayment([makeRefund({ amount: 8500 })]))).toBe('REFUNDED');
+    });
+
+    it('should keep the payment status without sent refunds', () => {
+      expect(getPaymentStatus(makePayment([makeRefund({ status: 'PENDING' })]))).toBe('SUCCESS');
+      expect(getPaymentStatus(makePayment([]))).toBe('SUCCESS');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  getReschedulePolicy,
+  getRescheduleTerms,
+} from '../services/reschedule-policy';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-03-10T12:00:00Z').getTime();
+
+const appointmentIn = (hours: number, rescheduleCount = 0) => ({
+  scheduledAt: new Date(now + hours * HOUR).toISOString(),
+  amount: 10000,
+  rescheduleCount,
+});
+
+describe('Reschedule Policy', () => {
+  describe('getRescheduleTerms', () => {
+    it('should be free the first time when more than 24h out', () => {
+      expect(getRescheduleTerms(appointmentIn(48), DEFAULT_RESCHEDULE_POLICY, now)).toEqual({
+        allowed: true,
+        fee: 0,
+        reason: 'free',
+      });
+    });
+
+    it('should charge the fee within 24h', () => {
+      expect(getRescheduleTerms(appointmentIn(10), DEFAULT_RESCHEDULE_POLICY, now)).toEqual({
+        allowed: true,
+        fee: 5000,
+        reason: 'late',
+      });
+    });
+
+    it('should charge the fee once the free reschedule is used', () => {
+      expect(getRescheduleTerms(appointmentIn(48, 1), DEFAULT_RESCHEDULE_POLICY, now)).toEqual({
+        allowed: true,
+        fee: 5000,
+        reason: 'freeUsed',
+      });
+    });
+
+    it('should not allow rescheduling inside the notice window', () => {
+      expect(getRescheduleTerms(appointmentIn(1), DEFAULT_RESCHEDULE_POLICY, now)).toEqual({
+        allowed: false,
+        fee: 0,
+        reason: 'tooLate',
+      });
+    });
+
+    it('should treat exactly 24h out as late', () => {
+      expect(getRescheduleTerms(appointmentIn(24), DEFAULT_RESCHEDULE_POLICY, now).reason).toBe(
+        'late'
+      );
+    });
+  });
+
+  describe('getReschedulePolicy', () => {
+    it('should apply therapist overrides on top of the defaults', () => {
+      const policy = getReschedulePolicy({ reschedulePolicy: { freeReschedules: 2, feePercent: 0 } });
+
+      expect(policy).toEqual({ ...DEFAULT_RESCHEDULE_POLICY, freeReschedules: 2, feePercent: 0 });
+      expect(getRescheduleTerms(appointmentIn(48, 1), policy, now).reason).toBe('free');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  changeNoteTemplate,
+  createEmptyNoteContent,
+  getMissingSections,
+  pickLatestDraft,
+} from '../services/session-note-form';
+import type { SessionNote, SessionNoteContent } from '../types';
+
+const soap = (sections: Record<string, string>): SessionNoteContent => ({
+  ...createEmptyNoteContent('SOAP'),
+  sections: { ...createEmptyNoteContent('SOAP').sections, ...sections },
+});
+
+const note = (overrides: Partial<SessionNote> = {}): SessionNote => ({
+  ...soap({ subjective: 'From the server' }),
+  id: 'note-1',
+  appointmentId: 'apt-1',
+  therapistId: 'therapist-1',
+  userId: 'user-1',
+  status: 'DRAFT',
+  addenda: [],
+  createdAt: '2025-03-10T09:00:00.000Z',
+  updatedAt: '2025-03-10T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('session-note-form', () => {
+  describe('createEmptyNoteContent', () => {
+    it('should start every section of the template empty', () => {
+      expect(createEmptyNoteContent('DAP').sections).toEqual({ data: '', assessment: '', plan: '' });
+    });
+
+    it('should default to SOAP', () => {
+      expect(createEmptyNoteContent().template).toBe('SOAP');
+    });
+  });
+
+  describe('changeNoteTemplate', () => {
+    it('should merge subjective and objective into data when switching to DAP', () => {
+      const dap = changeNoteTemplate(
+        soap({ subjective: 'Reports poor sleep', objective: 'Flat affect', plan: 'Sleep diary' }),
+        'DAP'
+      );
+
+      expect(dap.template).toBe('DAP');
+      expect(dap.sections).toEqual({
+        data: 'Reports poor sleep\n\nFlat affect',
+        assessment: '',
+        plan: 'Sleep diary',
+      });
+    });
+
+    it('should move data into subjective when switching back to SOAP', () => {
+      const dap = changeNoteTemplate(soap({ subjective: 'Reports poor sleep' }), 'DAP');
+      const back = changeNoteTemplate(dap, 'SOAP');
+
+      expect(back.sections.subjective).toBe('Reports poor sleep');
+      expect(back.sections.objective).toBe('');
+    });
+
+    it('should keep goals and interventions', () => {
+      const content = { ...soap({}), interventions: ['CBT'], homework: 'Thought record' };
+
+      const dap = changeNoteTemplate(content, 'DAP');
+
+      expect(dap.interventions).toEqual(['CBT']);
+      expect(dap.homework).toBe('Thought record');
+    });
+  });
+
+  describe('getMissingSections', () => {
+    it('should list sections that are empty or whitespace', () => {
+      const content = soap({ subjective: 'Text', objective: '   ', assessment: 'Text' });
+
+      expect(getMissingSections(content)).toEqual(['objective', 'plan']);
+    });
+  });
+
+  describe('pickLatestDraft', () => {
+    it('should prefer a local draft saved after the server copy', () => {
+      const local = { content: soap({ subjective: 'Offline edit' }), savedAt: '2025-03-10T10:05:00.000Z' };
+
+      expect(pickLatestDraft(note(), local).sections.subjective).toBe('Offline edit');
+    });
+
+    it('should ignore a local draft older than the server copy', () => {
+      const local = { content: soap({ subjective: 'Stale' }), savedAt: '2025-03-10T09:30:00.000Z' };
+
+      expect(pickLatestDraft(note(), local).sections.subjective).toBe('From the server');
+    });
+
+    it('should always use the server copy once signed', () => {
+      const local = { content: soap({ subjective: 'Offline edit' }), savedAt: '2025-03-10T11:00:00.000Z' };
+
+      expect(pickLatestDraft(note({ status: 'SIGNED' }), local).sections.subjective).toBe('From the server');
+    });
+
+    it('should fall back to an empty note', () => {
+      expect(pickLatestDraft(null, null)).toEqual(createEmptyNoteContent());
+    });
+  });
+});
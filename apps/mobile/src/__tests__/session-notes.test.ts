@@ -0,0 +1,30 @@
+import { sessionNotesService } from '../services/session-notes';
+import { createEmptyNoteContent } from '../services/session-note-form';
+
+jest.mock('../services/api', () => ({ __esModule: true, default: {} }));
+
+describe('Session note drafts', () => {
+  beforeEach(async () => {
+    await sessionNotesService.clearLocalDrafts();
+  });
+
+  it('should keep a draft per appointment until it is cleared', async () => {
+    await sessionNotesService.setLocalDraft('apt-1', createEmptyNoteContent('SOAP'));
+    await sessionNotesService.setLocalDraft('apt-2', createEmptyNoteContent('DAP'));
+
+    await sessionNotesService.clearLocalDraft('apt-1');
+
+    expect(await sessionNotesService.getLocalDraft('apt-1')).toBeNull();
+    expect((await sessionNotesService.getLocalDraft('apt-2'))?.content.template).toBe('DAP');
+  });
+
+  it('should remove every draft on sign out', async () => {
+    await sessionNotesService.setLocalDraft('apt-1', createEmptyNoteContent('SOAP'));
+    await sessionNotesService.setLocalDraft('apt-2', createEmptyNoteContent('SOAP'));
+
+    await sessionNotesService.clearLocalDrafts();
+
+    expect(await sessionNotesService.getLocalDraft('apt-1')).toBeNull();
+    expect(await sessionNotesService.getLocalDraft('apt-2')).toBeNull();
+  });
+});
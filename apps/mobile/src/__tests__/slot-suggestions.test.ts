@@ -0,0 +1,188 @@
+import {
+  buildBookingProfile,
+  buildHeatmapWeeks,
+  findFirstAvailableSlot,
+  getHeatLevel,
+  getSlotsForDuration,
+  getSuggestionDates,
+  suggestSlots,
+} from '../services/slot-suggestions';
+import type { Appointment, TherapistAvailability, TimeSlot } from '../types';
+
+// Monday morning, device-local
+const now = new Date('2025-03-10T08:00:00');
+
+const hourSlots = (...starts: number[]): TimeSlot[] =>
+  starts.map((hour) => ({
+    startTime: `${String(hour).padStart(2, '0')}:00`,
+    endTime: `${String(hour + 1).padStart(2, '0')}:00`,
+  }));
+
+const day = (date: string, slots: TimeSlot[], bookedSlots: TimeSlot[] = []): TherapistAvailability => ({
+  date,
+  slots,
+  bookedSlots,
+});
+
+const appointment = (scheduledAt: string, overrides: Partial<Appointment> = {}): Appointment => ({
+  id: scheduledAt,
+  userId: 'user-1',
+  therapistId: 'therapist-1',
+  scheduledAt,
+  duration: 60,
+  timezone: 'UTC',
+  type: 'SCHEDULED',
+  status: 'COMPLETED',
+  amount: 10000,
+  createdAt: scheduledAt,
+  ...overrides,
+});
+
+describe('slot-suggestions', () => {
+  describe('getHeatLevel', () => {
+    it('should scale open slots against the busiest day', () => {
+      expect(getHeatLevel(0, 8)).toBe(0);
+      expect(getHeatLevel(1, 8)).toBe(1);
+      expect(getHeatLevel(4, 8)).toBe(2);
+      expect(getHeatLevel(8, 8)).toBe(4);
+      expect(getHeatLevel(3, 0)).toBe(0);
+    });
+  });
+
+  describe('buildHeatmapWeeks', () => {
+    it('should lay the month out in Sunday-first weeks', () => {
+      // March 2025 starts on a Saturday
+      const weeks = buildHeatmapWeeks(
+        '2025-03',
+        [
+          { date: '2025-03-01', availableSlots: 6, hasSlots: true },
+          { date: '2025-03-12', availableSlots: 8, hasSlots: true },
+          { date: '2025-03-13', availableSlots: 4, hasSlots: true },
+          { date: '2025-03-14', availableSlots: 2, hasSlots: false },
+        ],
+        '2025-03-10'
+      );
+
+      expect(weeks).toHaveLength(6);
+      expect(weeks.every((week) => week.length === 7)).toBe(true);
+      expect(weeks[0].slice(0, 6)).toEqual(Array(6).fill(null));
+      expect(weeks[0][6]).toEqual({ date: '2025-03-01', availableSlots: 0, level: 0, isPast: true });
+
+      const cells = weeks.flat();
+      expect(cells.find((cell) => cell?.date === '2025-03-12')?.level).toBe(4);
+      expect(cells.find((cell) => cell?.date === '2025-03-13')?.level).toBe(2);
+      expect(cells.find((cell) => cell?.date === '2025-03-14')?.availableSlots).toBe(0);
+    });
+  });
+
+  describe('getSlotsForDuration', () => {
+    it('should only start where enough back-to-back slots follow', () => {
+      const slots = [
+        ...hourSlots(14, 9, 10),
+        { startTime: '11:30', endTime: '12:00' },
+      ];
+
+      expect(getSlotsForDuration(slots, 60).map((s) => s.startTime)).toEqual(['09:00', '10:00', '14:00']);
+      expect(getSlotsForDuration(slots, 90).map((s) => s.startTime)).toEqual(['09:00']);
+    });
+  });
+
+  describe('buildBookingProfile', () => {
+    it('should count each session in the timezone it was booked from', () => {
+      const profile = buildBookingProfile(
+        [
+          // 18:00 on a Tuesday in New York
+          appointment('2025-03-04T23:00:00.000Z', { timezone: 'America/New_York' }),
+          // 18:00 on a Tuesday in London
+          appointment('2025-03-11T18:00:00.000Z', { timezone: 'Europe/London' }),
+          appointment('2025-03-12T09:00:00.000Z', { status: 'CANCELLED' }),
+          appointment('2025-03-13T09:00:00.000Z', { type: 'INSTANT' }),
+        ],
+        'UTC'
+      );
+
+      expect(profile.total).toBe(2);
+      expect(profile.hours[18]).toBe(2);
+      expect(profile.weekdays[2]).toBe(2);
+    });
+  });
+
+  describe('suggestions', () => {
+    // Always books Wednesday evenings
+    const profile = buildBookingProfile(
+      [appointment('2025-02-26T18:00:00.000Z'), appointment('2025-03-05T18:00:00.000Z')],
+      'UTC'
+    );
+
+    it('should check the usual weekdays first', () => {
+      const dates = getSuggestionDates(
+        [
+          { date: '2025-03-11', availableSlots: 3, hasSlots: true },
+          { date: '2025-03-12', availableSlots: 3, hasSlots: true },
+          { date: '2025-03-13', availableSlots: 0, hasSlots: false },
+          { date: '2025-04-30', availableSlots: 3, hasSlots: true },
+        ],
+        profile,
+        now
+      );
+
+      expect(dates).toEqual(['2025-03-12', '2025-03-11']);
+    });
+
+    it('should suggest the closest slot to the usual time on each day', () => {
+      const suggestions = suggestSlots(
+        [day('2025-03-11', hourSlots(9, 17)), day('2025-03-12', hourSlots(9, 18, 19), hourSlots(18))],
+        profile,
+        60,
+        3,
+        now
+      );
+
+      expect(suggestions.map((s) => [s.date, s.slot.startTime])).toEqual([
+        ['2025-03-12', '19:00'],
+        ['2025-03-11', '17:00'],
+      ]);
+    });
+
+    it('should not suggest anything without booking history', () => {
+      const empty = buildBookingProfile([], 'UTC');
+
+      expect(suggestSlots([day('2025-03-11', hourSlots(9))], empty, 60, 3, now)).toEqual([]);
+    });
+  });
+
+  describe('findFirstAvailableSlot', () => {
+    const dates = [
+      { date: '2025-03-12', availableSlots: 2, hasSlots: true },
+      { date: '2025-03-10', availableSlots: 2, hasSlots: true },
+      { date: '2025-03-11', availableSlots: 0, hasSlots: false },
+      { date: '2025-03-09', availableSlots: 4, hasSlots: true },
+    ];
+    const days: Record<string, TherapistAvailability> = {
+      '2025-03-10': day('2025-03-10', hourSlots(7, 9, 11)),
+      '2025-03-12': day('2025-03-12', hourSlots(10, 11)),
+    };
+
+    it('should return the earliest upcoming slot that fits', async () => {
+      const loadDay = jest.fn(async (date: string) => days[date]);
+
+      const choice = await findFirstAvailableSlot(dates, 60, loadDay, now);
+
+      expect(choice).toEqual({ date: '2025-03-10', slot: { startTime: '09:00', endTime: '10:00' } });
+      expect(loadDay).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move on to later days when the session does not fit', async () => {
+      const loadDay = jest.fn(async (date: string) => days[date]);
+
+      const choice = await findFirstAvailableSlot(dates, 120, loadDay, now);
+
+      expect(choice).toEqual({ date: '2025-03-12', slot: { startTime: '10:00', endTime: '11:00' } });
+      expect(loadDay.mock.calls.map(([date]) => date)).toEqual(['2025-03-10', '2025-03-12']);
+    });
+
+    it('should return null when nothing fits', async () => {
+      expect(await findFirstAvailableSlot(dates, 240, async (date) => days[date], now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  getAvailabilityMonths,
+  getMatchingDates,
+  isEligible,
+  rankTherapists,
+  scoreTherapist,
+} from '../services/therapist-matching';
+import type { AvailabilitySummary, ExchangeRates, MatchingAnswers, Therapist } from '../types';
+
+// Monday
+const now = new Date(2025, 2, 10, 12, 0);
+
+const therapist = (overrides: Partial<Therapist> & { specialties?: string[] } = {}): Therapist => {
+  const { specialties = ['Anxiety'], ...rest } = overrides;
+  return {
+    id: 't1',
+    userId: 'u1',
+    professionalTitle: 'Psychologist',
+    yearsOfExperience: 5,
+    timezone: 'UTC',
+    verificationStatus: 'APPROVED',
+    isOnline: false,
+    hourlyRate: 10000,
+    perMinuteRate: 200,
+    averageRating: 4,
+    totalReviews: 10,
+    totalBookings: 20,
+    user: { id: 'u1', firstName: 'Ada', lastName: 'Lane' },
+    languages: [{ id: 'l1', language: 'English', proficiency: 'NATIVE' }],
+    specializations: specialties.map((name, i) => ({ specialization: { id: `s${i}`, name } })),
+    ...rest,
+  };
+};
+
+const answers = (overrides: Partial<MatchingAnswers> = {}): MatchingAnswers => ({
+  concerns: ['Anxiety'],
+  days: 'ANY',
+  periods: [],
+  ...overrides,
+});
+
+const summary = (dates: AvailabilitySummary['dates']): AvailabilitySummary => ({
+  month: '2025-03',
+  therapistTimezone: 'UTC',
+  dates,
+});
+
+describe('therapist-matching', () => {
+  describe('isEligible', () => {
+    it('should require the chosen language', () => {
+      expect(isEligible(therapist(), answers({ language: 'english' }))).toBe(true);
+      expect(isEligible(therapist(), answers({ language: 'Spanish' }))).toBe(false);
+    });
+
+    it('should exclude therapists over budget', () => {
+      expect(isEligible(therapist({ hourlyRate: 12000 }), answers({ maxBudget: 12000 }))).toBe(true);
+      expect(isEligible(therapist({ hourlyRate: 12001 }), answers({ maxBudget: 12000 }))).toBe(false);
+    });
+
+    it('should convert rates in other currencies before checking the budget', () => {
+      const rates: ExchangeRates = { base: 'USD', rates: { VND: 25000, EUR: 0.9 }, updatedAt: '2025-03-10T00:00:00.000Z' };
+
+      // 2,500,000 VND is $100 an hour
+      expect(isEligible(therapist({ currency: 'VND', hourlyRate: 2500000 }), answers({ maxBudget: 12000 }), rates)).toBe(
+        true
+      );
+      // €117 is $130 an hour
+      expect(isEligible(therapist({ currency: 'EUR', hourlyRate: 11700 }), answers({ maxBudget: 12000 }), rates)).toBe(
+        false
+      );
+    });
+
+    it('should not exclude a rate that cannot be converted', () => {
+      expect(isEligible(therapist({ currency: 'VND', hourlyRate: 2500000 }), answers({ maxBudget: 12000 }))).toBe(true);
+    });
+
+    it('should only exclude a known, different gender', () => {
+      expect(isEligible(therapist({ gender: 'MALE' }), answers({ gender: 'FEMALE' }))).toBe(false);
+      expect(isEligible(therapist(), answers({ gender: 'FEMALE' }))).toBe(true);
+    });
+  });
+
+  describe('getAvailabilityMonths', () => {
+    it('should include next month when the window crosses into it', () => {
+      expect(getAvailabilityMonths(new Date(2025, 2, 10))).toEqual(['2025-03']);
+      expect(getAvailabilityMonths(new Date(2025, 2, 25))).toEqual(['2025-03', '2025-04']);
+    });
+  });
+
+  describe('getMatchingDates', () => {
+    const dates = summary([
+      { date: '2025-03-09', availableSlots: 3, hasSlots: true }, // yesterday
+      { date: '2025-03-11', availableSlots: 2, hasSlots: true, periods: ['EVENING'] },
+      { date: '2025-03-12', availableSlots: 0, hasSlots: false },
+      { date: '2025-03-15', availableSlots: 4, hasSlots: true, periods: ['MORNING'] }, // Saturday
+      { date: '2025-03-30', availableSlots: 1, hasSlots: true }, // outside the window
+    ]);
+
+    it('should keep open days within the window', () => {
+      const matching = getMatchingDates([dates], { days: 'ANY', periods: [] }, now);
+
+      expect(matching.map((d) => d.date)).toEqual(['2025-03-11', '2025-03-15']);
+    });
+
+    it('should filter by weekdays or weekends', () => {
+      expect(getMatchingDates([dates], { days: 'WEEKENDS', periods: [] }, now).map((d) => d.date)).toEqual([
+        '2025-03-15',
+      ]);
+      expect(getMatchingDates([dates], { days: 'WEEKDAYS', periods: [] }, now).map((d) => d.date)).toEqual([
+        '2025-03-11',
+      ]);
+    });
+
+    it('should filter by time of day when the summary has periods', () => {
+      const matching = getMatchingDates([dates], { days: 'ANY', periods: ['EVENING'] }, now);
+
+      expect(matching.map((d) => d.date)).toEqual(['2025-03-11']);
+    });
+  });
+
+  describe('scoreTherapist', () => {
+    it('should explain the match', () => {
+      const match = scoreTherapist(
+        therapist({ specialties: ['Anxiety', 'Depression'], gender: 'FEMALE', averageRating: 4.8 }),
+        answers({ concerns: ['Anxiety', 'Stress'], language: 'English', gender: 'FEMALE', maxBudget: 12000 }),
+        [summary([{ date: '2025-03-11', availableSlots: 2, hasSlots: true }])],
+        now
+      );
+
+      expect(match?.reasons).toEqual([
+        { type: 'CONCERNS', matched: ['Anxiety'] },
+        { type: 'LANGUAGE', language: 'English' },
+        { type: 'GENDER' },
+        { type: 'BUDGET', hourlyRate: 10000, currency: 'USD' },
+        { type: 'AVAILABILITY', days: 1, firstDate: '2025-03-11' },
+        { type: 'RATING', rating: 4.8, reviews: 10 },
+      ]);
+    });
+
+    it('should score against the criteria that were answered', () => {
+      const perfect = scoreTherapist(therapist({ averageRating: 5 }), answers(), undefined, now);
+
+      expect(perfect?.score).toBe(100);
+    });
+
+    it('should return null for ineligible therapists', () => {
+      expect(scoreTherapist(therapist(), answers({ language: 'Arabic' }), undefined, now)).toBeNull();
+    });
+  });
+
+  describe('rankTherapists', () => {
+    it('should rank by score and drop ineligible therapists', () => {
+      const ranked = rankTherapists(
+        [
+          therapist({ id: 'partial', specialties: ['Anxiety'] }),
+          therapist({ id: 'full', specialties: ['Anxiety', 'Grief'] }),
+          therapist({ id: 'expensive', specialties: ['Anxiety', 'Grief'], hourlyRate: 20000 }),
+        ],
+        answers({ concerns: ['Anxiety', 'Grief'], maxBudget: 15000 }),
+        {},
+        5,
+        now
+      );
+
+      expect(ranked.map((m) => m.therapist.id)).toEqual(['full', 'partial']);
+    });
+
+    it('should break ties on review count and respect the limit', () => {
+      const ranked = rankTherapists(
+        [therapist({ id: 'few', totalReviews: 3 }), therapist({ id: 'many', totalReviews: 40 })],
+        answers(),
+        {},
+        1,
+        now
+      );
+
+      expect(ranked.map((m) => m.therapist.id)).toEqual(['many']);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  buildAvailabilitySummary,
+  buildDaySlots,
+  fromMinutes,
+  getBlocksForDate,
+  toMinutes,
+  validateBlocks,
+} from '../services/therapist-schedule';
+import type { TherapistAvailabilitySettings } from '../types';
+
+// 2025-03-10 is a Monday
+const settings: TherapistAvailabilitySettings = {
+  schedule: [
+    { dayOfWeek: 1, startTime: '09:00', endTime: '12:00', isActive: true },
+    { dayOfWeek: 1, startTime: '14:00', endTime: '16:00', isActive: true },
+    { dayOfWeek: 2, startTime: '09:00', endTime: '17:00', isActive: false },
+  ],
+  overrides: [{ date: '2025-03-17', blocks: [{ startTime: '10:00', endTime: '11:00' }] }],
+  timeOff: [{ startDate: '2025-03-24', endDate: '2025-03-28' }],
+  bufferMinutes: 0,
+};
+
+describe('Therapist Schedule', () => {
+  describe('time helpers', () => {
+    it('should convert between HH:mm and minutes', () => {
+      expect(toMinutes('09:30')).toBe(570);
+      expect(fromMinutes(570)).toBe('09:30');
+      expect(fromMinutes(24 * 60 + 30)).toBe('24:00');
+      expect(fromMinutes(-30)).toBe('00:00');
+    });
+  });
+
+  describe('validateBlocks', () => {
+    it('should accept separate blocks in any order', () => {
+      expect(
+        validateBlocks([
+          { startTime: '14:00', endTime: '16:00' },
+          { startTime: '09:00', endTime: '14:00' },
+        ])
+      ).toBeNull();
+    });
+
+    it('should reject blocks that end before they start', () => {
+      expect(validateBlocks([{ startTime: '10:00', endTime: '10:00' }])).toBe('invalidRange');
+    });
+
+    it('should reject overlapping blocks', () => {
+      expect(
+        validateBlocks([
+          { startTime: '09:00', endTime: '12:00' },
+          { startTime: '11:30', endTime: '13:00' },
+        ])
+      ).toBe('overlap');
+    });
+  });
+
+  describe('getBlocksForDate', () => {
+    it('should use the active weekly blocks for the weekday', () => {
+      expect(getBlocksForDate(settings, '2025-03-10')).toEqual({
+        source: 'weekly',
+        blocks: [
+          { startTime: '09:00', endTime: '12:00' },
+          { startTime: '14:00', endTime: '16:00' },
+        ],
+      });
+      expect(getBlocksForDate(settings, '2025-03-11').blocks).toEqual([]);
+    });
+
+    it('should prefer a date override over the weekly schedule', () => {
+      expect(getBlocksForDate(settings, '2025-03-17')).toEqual({
+        source: 'override',
+        blocks: [{ startTime: '10:00', endTime: '11:00' }],
+      });
+    });
+
+    it('should block every day of a time off range, inclusive', () => {
+      expect(getBlocksForDate(settings, '2025-03-24').source).toBe('timeOff');
+      expect(getBlocksForDate(settings, '2025-03-28').source).toBe('timeOff');
+      expect(getBlocksForDate(settings, '2025-03-31').source).toBe('weekly');
+    });
+  });
+
+  describe('buildDaySlots', () => {
+    const blocks = [{ startTime: '09:00', endTime: '12:00' }];
+
+    it('should fill blocks with back-to-back sessions', () => {
+      expect(buildDaySlots(blocks, 0).map((s) => s.startTime)).toEqual(['09:00', '10:00', '11:00']);
+    });
+
+    it('should leave the buffer free after each session', () => {
+      expect(buildDaySlots(blocks, 15)).toEqual([
+        { startTime: '09:00', endTime: '10:00' },
+        { startTime: '10:15', endTime: '11:15' },
+      ]);
+    });
+
+    it('should skip blocks shorter than a session', () => {
+      expect(buildDaySlots([{ startTime: '09:00', endTime: '09:30' }], 0)).toEqual([]);
+    });
+  });
+
+  describe('buildAvailabilitySummary', () => {
+    it('should count slots for every day of the month', () => {
+      const summary = buildAvailabilitySummary(settings, '2025-03', 'UTC', '2025-03-01');
+      const byDate = new Map(summary.dates.map((d) => [d.date, d]));
+
+      expect(summary.dates).toHaveLength(31);
+      expect(byDate.get('2025-03-10')).toEqual({ date: '2025-03-10', availableSlots: 5, hasSlots: true });
+      expect(byDate.get('2025-03-11')?.hasSlots).toBe(false);
+      expect(byDate.get('2025-03-17')?.availableSlots).toBe(1);
+      expect(byDate.get('2025-03-24')?.hasSlots).toBe(false);
+      expect(byDate.get('2025-03-31')?.availableSlots).toBe(5);
+    });
+
+    it('should not offer days in the past', () => {
+      const summary = buildAvailabilitySummary(settings, '2025-03', 'UTC', '2025-03-15');
+      expect(summary.dates.find((d) => d.date === '2025-03-10')?.hasSlots).toBe(false);
+      expect(summary.dates.find((d) => d.date === '2025-03-17')?.hasSlots).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  getHoldSecondsRemaining,
+  isMonthFullyBooked,
+  isOfferClaimable,
+} from '../services/waitlist';
+import type { AvailabilitySummary } from '../types';
+
+// Mock the api service
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), post: jest.fn(), delete: jest.fn() },
+}));
+
+const summary = (hasSlots: boolean[]): AvailabilitySummary => ({
+  month: '2025-03',
+  therapistTimezone: 'America/New_York',
+  dates: hasSlots.map((has, i) => ({
+    date: `2025-03-${String(i + 1).padStart(2, '0')}`,
+    availableSlots: has ? 3 : 0,
+    hasSlots: has,
+  })),
+});
+
+describe('Waitlist', () => {
+  describe('isMonthFullyBooked', () => {
+    it('should be fully booked when no day has a slot', () => {
+      expect(isMonthFullyBooked(summary([false, false, false]))).toBe(true);
+    });
+
+    it('should not be fully booked when any day has a slot', () => {
+      expect(isMonthFullyBooked(summary([false, true, false]))).toBe(false);
+    });
+
+    it('should not treat a missing or empty summary as fully booked', () => {
+      expect(isMonthFullyBooked(undefined)).toBe(false);
+      expect(isMonthFullyBooked(summary([]))).toBe(false);
+    });
+  });
+
+  describe('hold countdown', () => {
+    const now = new Date('2025-03-10T10:00:00Z').getTime();
+    const offer = { status: 'HELD' as const, expiresAt: '2025-03-10T10:15:00Z' };
+
+    it('should count down to the expiry in whole seconds', () => {
+      expect(getHoldSecondsRemaining(offer, now)).toBe(900);
+      expect(getHoldSecondsRemaining(offer, now + 500)).toBe(900);
+      expect(getHoldSecondsRemaining(offer, now + 1000)).toBe(899);
+    });
+
+    it('should never go below zero', () => {
+      expect(getHoldSecondsRemaining(offer, now + 20 * 60 * 1000)).toBe(0);
+    });
+
+    it('should only be claimable while held and unexpired', () => {
+      expect(isOfferClaimable(offer, now)).toBe(true);
+      expect(isOfferClaimable(offer, now + 15 * 60 * 1000)).toBe(false);
+      expect(isOfferClaimable({ ...offer, status: 'CLAIMED' }, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  PACKAGE_OPTIONS,
+  findPackageForBooking,
+  getDaysUntilExpiry,
+  getPackagePrice,
+  getWalletBalance,
+  planBookingFunding,
+} from '../services/wallet';
+import type { SessionPackage } from '../types';
+
+// Mock the api service
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), post: jest.fn() },
+}));
+
+const now = new Date('2025-03-10T12:00:00.000Z');
+
+const sessionPackage = (id: string, overrides: Partial<SessionPackage> = {}): SessionPackage => ({
+  id,
+  therapistId: 'therapist-1',
+  sessionCount: 4,
+  sessionsUsed: 1,
+  duration: 60,
+  pricePaid: 36000,
+  currency: 'USD',
+  status: 'ACTIVE',
+  purchasedAt: '2025-02-01T00:00:00.000Z',
+  expiresAt: '2025-05-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('wallet', () => {
+  describe('getPackagePrice', () => {
+    it('should discount the full price of every session', () => {
+      expect(getPackagePrice(10000, PACKAGE_OPTIONS[0])).toBe(36000);
+      expect(getPackagePrice(10000, PACKAGE_OPTIONS[1])).toBe(68000);
+    });
+  });
+
+  describe('findPackageForBooking', () => {
+    it('should pick the usable package that expires first', () => {
+      const packages = [
+        sessionPackage('later'),
+        sessionPackage('sooner', { expiresAt: '2025-04-01T00:00:00.000Z' }),
+        sessionPackage('other-therapist', { therapistId: 'therapist-2', expiresAt: '2025-03-20T00:00:00.000Z' }),
+        sessionPackage('other-length', { duration: 30, expiresAt: '2025-03-20T00:00:00.000Z' }),
+        sessionPackage('used-up', { sessionsUsed: 4, expiresAt: '2025-03-20T00:00:00.000Z' }),
+        sessionPackage('lapsed', { expiresAt: '2025-03-01T00:00:00.000Z' }),
+      ];
+
+      expect(findPackageForBooking(packages, 'therapist-1', 60, now)?.id).toBe('sooner');
+    });
+
+    it('should return null without a matching package', () => {
+      expect(findPackageForBooking([sessionPackage('a', { status: 'REFUNDED' })], 'therapist-1', 60, now)).toBeNull();
+    });
+  });
+
+  describe('planBookingFunding', () => {
+    it('should use package sessions, then the wallet, then the card', () => {
+      expect(
+        planBookingFunding({ sessionPrice: 10000, sessionCount: 4, packageSessionsLeft: 2, walletBalance: 5000 })
+      ).toEqual({ packageSessions: 2, walletAmount: 5000, cardAmount: 15000 });
+    });
+
+    it('should not charge the card when balances cover the booking', () => {
+      expect(
+        planBookingFunding({ sessionPrice: 10000, sessionCount: 1, packageSessionsLeft: 0, walletBalance: 25000 })
+      ).toEqual({ packageSessions: 0, walletAmount: 10000, cardAmount: 0 });
+      expect(
+        planBookingFunding({ sessionPrice: 10000, sessionCount: 1, packageSessionsLeft: 3, walletBalance: 25000 })
+      ).toEqual({ packageSessions: 1, walletAmount: 0, cardAmount: 0 });
+    });
+  });
+
+  it('should read the balance in the booking currency', () => {
+    const balances = [
+      { currency: 'USD', amount: 2500 },
+      { currency: 'VND', amount: 100000 },
+    ];
+
+    expect(getWalletBalance(balances, 'VND')).toBe(100000);
+    expect(getWalletBalance(balances, 'EUR')).toBe(0);
+    expect(getWalletBalance(undefined, 'USD')).toBe(0);
+  });
+
+  it('should count whole days until a package expires', () => {
+    expect(getDaysUntilExpiry(sessionPackage('a', { expiresAt: '2025-03-12T00:00:00.000Z' }), now)).toBe(2);
+    expect(getDaysUntilExpiry(sessionPackage('b', { expiresAt: '2025-03-01T00:00:00.000Z' }), now)).toBe(0);
+  });
+});
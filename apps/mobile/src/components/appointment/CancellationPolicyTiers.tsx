@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import type { CancellationPolicy, CancellationRefundTier } from '@hopefull/types';
+
+export function getRefundColor(refundPercent: number): string {
+  if (refundPercent === 100) return '#10B981';
+  if (refundPercent > 0) return '#F59E0B';
+  return '#EF4444';
+}
+
+function getRefundLabel(t: TFunction, refundPercent: number): string {
+  if (refundPercent === 100) return t('cancellationPolicy.fullRefund');
+  if (refundPercent === 0) return t('cancellationPolicy.noRefund');
+  return t('cancellationPolicy.partialRefund', { percent: refundPercent });
+}
+
+/**
+ * "More than 24 hours before: Full refund" etc. Each tier runs up to the
+ * threshold of the one before it.
+ */
+export function getTierLabel(t: TFunction, tiers: CancellationRefundTier[], tier: CancellationRefundTier): string {
+  const index = tiers.indexOf(tier);
+  const refund = getRefundLabel(t, tier.refundPercent);
+  const upper = index > 0 ? tiers[index - 1].minHoursBefore : null;
+
+  if (upper === null) {
+    return t('cancellationPolicy.tierMoreThan', { hours: tier.minHoursBefore, refund });
+  }
+  if (tier.minHoursBefore === 0) {
+    return t('cancellationPolicy.tierLessThan', { hours: upper, refund });
+  }
+  return t('cancellationPolicy.tierBetween', { from: tier.minHoursBefore, to: upper, refund });
+}
+
+interface CancellationPolicyTiersProps {
+  policy: CancellationPolicy;
+}
+
+export function CancellationPolicyTiers({ policy }: CancellationPolicyTiersProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View>
+      {policy.tiers.map((tier) => (
+        <View key={tier.minHoursBefore} style={styles.policyItem}>
+          <View style={[styles.policyDot, { backgroundColor: getRefundColor(tier.refundPercent) }]} />
+          <Text style={styles.policyText}>{getTierLabel(t, policy.tiers, tier)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  policyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 12,
+  },
+  policyDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  policyText: {
+    fontSize: 14,
+    color: '#374151',
+    flex: 1,
+  },
+});
@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { ASSESSMENTS, SEVERITY_COLORS, getScoreTrend } from '@/services/assessment-scoring';
+import type { AssessmentResult, AssessmentType } from '@/types';
+
+// Enough bars to fit a phone screen
+const MAX_POINTS = 8;
+const CHART_HEIGHT = 120;
+
+interface AssessmentTrendChartProps {
+  type: AssessmentType;
+  results: AssessmentResult[];
+}
+
+export function AssessmentTrendChart({ type, results }: AssessmentTrendChartProps) {
+  const { t } = useTranslation();
+  const { maxScore } = ASSESSMENTS[type];
+
+  const points = results
+    .filter((r) => r.type === type)
+    .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+    .slice(-MAX_POINTS);
+  const trend = getScoreTrend(points);
+  const latest = points[points.length - 1];
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t(`assessments.types.${type}`)}</Text>
+        {latest && (
+          <Text style={[styles.latest, { color: SEVERITY_COLORS[latest.severity] }]}>
+            {latest.score}/{maxScore} · {t(`assessments.severity.${latest.severity}`)}
+          </Text>
+        )}
+      </View>
+
+      {points.length === 0 ? (
+        <Text style={styles.empty}>{t('assessments.noResults')}</Text>
+      ) : (
+        <View style={styles.chart}>
+          {points.map((point) => (
+            <View key={point.id} style={styles.column}>
+              <Text style={styles.score}>{point.score}</Text>
+              <View style={styles.track}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      // Keep a sliver visible for a score of zero
+                      height: Math.max((point.score / maxScore) * CHART_HEIGHT, 2),
+                      backgroundColor: SEVERITY_COLORS[point.severity],
+                    },
+                  ]}
+                />
+              </View>
+              <Text style={styles.date}>{format(new Date(point.completedAt), 'M/d')}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {trend && (
+        <Text style={styles.trend}>
+          {t(`assessments.trend.${trend.trend}`, { change: Math.abs(trend.change) })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  latest: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  empty: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  score: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  track: {
+    height: CHART_HEIGHT,
+    width: '100%',
+    justifyContent: 'flex-end',
+    backgroundColor: '#F3F4F6',
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 6,
+  },
+  date: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  trend: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { DUE_STATE_COLORS, getAssignmentDueState, getAssignmentIcon } from '@/services/assignment-status';
+import type { Assignment } from '@/types';
+
+interface AssignmentRowProps {
+  assignment: Assignment;
+  onPress?: () => void;
+  onRemove?: () => void;
+}
+
+export function AssignmentRow({ assignment, onPress, onRemove }: AssignmentRowProps) {
+  const { t } = useTranslation();
+  const state = getAssignmentDueState(assignment);
+  const isCompleted = state === 'completed';
+  const dueDate = assignment.dueDate ? format(parseISO(assignment.dueDate), 'MMM d') : '';
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} disabled={!onPress}>
+      <View style={[styles.icon, isCompleted && styles.iconCompleted]}>
+        <Ionicons
+          name={isCompleted ? 'checkmark' : getAssignmentIcon(assignment.type)}
+          size={18}
+          color={isCompleted ? '#10B981' : '#4F46E5'}
+        />
+      </View>
+      <View style={styles.content}>
+        <Text style={[styles.title, isCompleted && styles.titleCompleted]} numberOfLines={1}>
+          {assignment.title}
+        </Text>
+        <Text style={[styles.meta, { color: DUE_STATE_COLORS[state] }]}>
+          {t(`assignments.dueStates.${state}`, { date: dueDate })}
+          {assignment.replies.length > 0 ? `  ·  ${t('assignments.replyCount', { count: assignment.replies.length })}` : ''}
+        </Text>
+      </View>
+      {onRemove ? (
+        <TouchableOpacity onPress={onRemove} hitSlop={8}>
+          <Ionicons name="trash-outline" size={18} color="#9CA3AF" />
+        </TouchableOpacity>
+      ) : (
+        onPress && <Ionicons name="chevron-forward" size={18} color="#9CA3AF" />
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  icon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconCompleted: {
+    backgroundColor: '#D1FAE5',
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  titleCompleted: {
+    color: '#6B7280',
+    textDecorationLine: 'line-through',
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
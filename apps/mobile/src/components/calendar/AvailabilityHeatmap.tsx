@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { CalendarHeader } from './CalendarHeader';
+import { HEAT_LEVEL_COLORS, buildHeatmapWeeks } from '../../services/slot-suggestions';
+import type { AvailabilitySummaryDate } from '../../types';
+
+interface AvailabilityHeatmapProps {
+  // yyyy-MM
+  month: string;
+  selectedDate: string | null;
+  availabilityData: AvailabilitySummaryDate[];
+  onDateSelect: (date: string) => void;
+  onPrevMonth: () => void;
+  onNextMonth: () => void;
+  canGoBack?: boolean;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function AvailabilityHeatmap({
+  month,
+  selectedDate,
+  availabilityData,
+  onDateSelect,
+  onPrevMonth,
+  onNextMonth,
+  canGoBack,
+}: AvailabilityHeatmapProps) {
+  const weeks = useMemo(() => buildHeatmapWeeks(month, availabilityData), [month, availabilityData]);
+  const [year, monthNumber] = month.split('-').map(Number);
+
+  return (
+    <View style={styles.container}>
+      <CalendarHeader
+        month={monthNumber - 1}
+        year={year}
+        onPrevMonth={onPrevMonth}
+        onNextMonth={onNextMonth}
+        canGoBack={canGoBack}
+      />
+
+      <View style={styles.row}>
+        {DAY_NAMES.map((day) => (
+          <View key={day} style={styles.cell}>
+            <Text style={styles.weekDayText}>{day}</Text>
+          </View>
+        ))}
+        <View style={styles.weekTotalCell}>
+          <Text style={styles.weekDayText}>Open</Text>
+        </View>
+      </View>
+
+      {weeks.map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.row}>
+          {week.map((cell, dayIndex) => (
+            <View key={dayIndex} style={styles.cell}>
+              {cell && (
+                <TouchableOpacity
+                  style={[
+                    styles.square,
+                    { backgroundColor: HEAT_LEVEL_COLORS[cell.level] },
+                    selectedDate === cell.date && styles.squareSelected,
+                    cell.isPast && styles.squarePast,
+                  ]}
+                  onPress={() => onDateSelect(cell.date)}
+                  disabled={cell.isPast || cell.availableSlots === 0}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.dayText, cell.level >= 3 && styles.dayTextDark]}>
+                    {Number(cell.date.slice(-2))}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          <View style={styles.weekTotalCell}>
+            <Text style={styles.weekTotalText}>
+              {week.reduce((sum, cell) => sum + (cell?.availableSlots ?? 0), 0)}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Fewer</Text>
+        {HEAT_LEVEL_COLORS.map((color) => (
+          <View key={color} style={[styles.legendSquare, { backgroundColor: color }]} />
+        ))}
+        <Text style={styles.legendText}>More open slots</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  weekTotalCell: {
+    width: 44,
+    alignItems: 'center',
+  },
+  weekDayText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  square: {
+    width: 38,
+    height: 38,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  squareSelected: {
+    borderWidth: 2,
+    borderColor: '#4F46E5',
+  },
+  squarePast: {
+    opacity: 0.4,
+  },
+  dayText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  dayTextDark: {
+    color: '#FFFFFF',
+  },
+  weekTotalText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 12,
+  },
+  legendSquare: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginHorizontal: 4,
+  },
+});
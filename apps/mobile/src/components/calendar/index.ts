@@ -1,3 +1,4 @@
 export { Calendar } from './Calendar';
 export { CalendarHeader } from './CalendarHeader';
 export { CalendarDay } from './CalendarDay';
+export { AvailabilityHeatmap } from './AvailabilityHeatmap';
@@ -0,0 +1,354 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useStripe } from '@stripe/stripe-react-native';
+import { usePaymentMethods } from '@/hooks/usePayments';
+import { paymentsService } from '@/services/payments';
+import {
+  CallBilling,
+  SPENDING_CAP_MINUTES,
+  getCapAmountForMinutes,
+} from '@/services/call-billing';
+import { formatCurrencyFromCents } from '@/utils/formatting';
+
+interface SpendingCapModalProps {
+  visible: boolean;
+  // Rate used to size the cap; the highest rate when the therapist isn't known yet
+  perMinuteRate: number;
+  // The therapist's currency; the rate is in its minor units and the cap is held in it
+  currency: string;
+  onAuthorized: (billing: CallBilling) => void;
+  onCancel: () => void;
+}
+
+export function SpendingCapModal({
+  visible,
+  perMinuteRate,
+  currency,
+  onAuthorized,
+  onCancel,
+}: SpendingCapModalProps) {
+  const { t } = useTranslation();
+  const { confirmPayment } = useStripe();
+  const { data: paymentMethods, isLoading: paymentMethodsLoading } = usePaymentMethods();
+
+  const [selectedMinutes, setSelectedMinutes] = useState(SPENDING_CAP_MINUTES[0]!);
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cleared on unmount so a hold that completes after the caller left is released
+  const isMountedRef = useRef(true);
+
+  const paymentMethod = paymentMethods?.find((m) => m.isDefault) || paymentMethods?.[0];
+  const capAmount = getCapAmountForMinutes(selectedMinutes, perMinuteRate);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      setSelectedMinutes(SPENDING_CAP_MINUTES[0]!);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleAuthorize = async () => {
+    if (!paymentMethod) return;
+
+    try {
+      setIsAuthorizing(true);
+      setError(null);
+
+      // Hold the cap on the card; only the minutes actually used are captured
+      const { clientSecret, paymentIntentId } = await paymentsService.createPaymentIntent({
+        amount: capAmount,
+        currency,
+        paymentMethodId: paymentMethod.id,
+        captureMethod: 'manual',
+      });
+
+      const { error: stripeError, paymentIntent } = await confirmPayment(clientSecret, {
+        paymentMethodType: 'Card',
+        paymentMethodData: {
+          paymentMethodId: paymentMethod.stripePaymentMethodId,
+        },
+      });
+
+      if (stripeError || paymentIntent?.status !== 'RequiresCapture') {
+        // Don't leave a half-finished authorisation behind
+        paymentsService.releaseCallHold(paymentIntentId).catch((releaseError) => {
+          console.error('Failed to release spending cap:', releaseError);
+        });
+        setError(stripeError?.message ?? t('instantCall.billing.authorizationFailed'));
+        return;
+      }
+
+      if (!isMountedRef.current) {
+        await paymentsService.releaseCallHold(paymentIntent.id || paymentIntentId);
+        return;
+      }
+
+      onAuthorized({
+        perMinuteRate,
+        capAmount,
+        paymentIntentId: paymentIntent.id || paymentIntentId,
+        currency,
+      });
+    } catch (err: any) {
+      setError(err?.message || t('errors.general'));
+    } finally {
+      setIsAuthorizing(false);
+    }
+  };
+
+  const handleAddPaymentMethod = () => {
+    onCancel();
+    router.push('/profile/add-payment-method');
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onCancel} />
+
+        <View style={styles.sheet}>
+          <View style={styles.handleBar} />
+
+          <Text style={styles.title}>{t('instantCall.billing.capTitle')}</Text>
+          <Text style={styles.subtitle}>
+            {t('instantCall.billing.capSubtitle', {
+              rate: formatCurrencyFromCents(perMinuteRate, currency),
+            })}
+          </Text>
+
+          <View style={styles.options}>
+            {SPENDING_CAP_MINUTES.map((minutes) => {
+              const isSelected = minutes === selectedMinutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.option, isSelected && styles.optionSelected]}
+                  onPress={() => setSelectedMinutes(minutes)}
+                >
+                  <Text style={[styles.optionAmount, isSelected && styles.optionTextSelected]}>
+                    {formatCurrencyFromCents(getCapAmountForMinutes(minutes, perMinuteRate), currency)}
+                  </Text>
+                  <Text style={[styles.optionMinutes, isSelected && styles.optionTextSelected]}>
+                    {t('instantCall.billing.upToMinutes', { minutes })}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {paymentMethodsLoading ? (
+            <ActivityIndicator color="#4F46E5" style={styles.paymentLoading} />
+          ) : paymentMethod ? (
+            <View style={styles.paymentRow}>
+              <Ionicons name="card-outline" size={20} color="#4F46E5" />
+              <Text style={styles.paymentText}>
+                {paymentMethod.brand?.toUpperCase()} •••• {paymentMethod.last4}
+              </Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.paymentRow} onPress={handleAddPaymentMethod}>
+              <Ionicons name="add-circle-outline" size={20} color="#4F46E5" />
+              <Text style={[styles.paymentText, styles.addPaymentText]}>
+                {t('booking.addPaymentMethod')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.note}>{t('instantCall.billing.capNote')}</Text>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.confirmButton,
+                (!paymentMethod || isAuthorizing) && styles.confirmDisabled,
+              ]}
+              onPress={handleAuthorize}
+              disabled={!paymentMethod || isAuthorizing}
+            >
+              {isAuthorizing ? (
+                <ActivityIndicator color="#fff" size="small" />
+              ) : (
+                <Text style={styles.confirmText}>
+                  {t('instantCall.billing.authorize', {
+                    amount: formatCurrencyFromCents(capAmount, currency),
+                  })}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.bottomSpacer} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 12,
+  },
+  handleBar: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#E5E7EB',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#111827',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginBottom: 20,
+  },
+  option: {
+    flexBasis: '47%',
+    flexGrow: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#F9FAFB',
+  },
+  optionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  optionAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111827',
+  },
+  optionMinutes: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  optionTextSelected: {
+    color: '#4F46E5',
+  },
+  paymentLoading: {
+    marginVertical: 12,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+  },
+  paymentText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  addPaymentText: {
+    color: '#4F46E5',
+  },
+  note: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#DC2626',
+    marginTop: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  confirmButton: {
+    flex: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#4F46E5',
+  },
+  confirmDisabled: {
+    backgroundColor: '#A5B4FC',
+  },
+  confirmText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  bottomSpacer: {
+    height: Platform.OS === 'ios' ? 32 : 16,
+  },
+});
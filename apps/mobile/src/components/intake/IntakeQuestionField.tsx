@@ -0,0 +1,222 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import type { IntakeAnswerIssue } from '@/services/intake-form';
+import type { IntakeAnswerValue, IntakeQuestion } from '@/types';
+
+interface IntakeQuestionFieldProps {
+  question: IntakeQuestion;
+  value?: IntakeAnswerValue;
+  issue?: IntakeAnswerIssue;
+  onChange: (value: IntakeAnswerValue) => void;
+}
+
+export function IntakeQuestionField({ question, value, issue, onChange }: IntakeQuestionFieldProps) {
+  const { t } = useTranslation();
+
+  const renderInput = () => {
+    switch (question.type) {
+      case 'TEXT':
+        return (
+          <TextInput
+            style={[styles.textInput, question.multiline && styles.textInputMultiline]}
+            value={typeof value === 'string' ? value : ''}
+            onChangeText={onChange}
+            placeholder={t('intake.textPlaceholder')}
+            placeholderTextColor="#9CA3AF"
+            multiline={question.multiline}
+            textAlignVertical={question.multiline ? 'top' : 'center'}
+          />
+        );
+
+      case 'SINGLE_CHOICE':
+      case 'MULTI_CHOICE': {
+        const isMulti = question.type === 'MULTI_CHOICE';
+        const selected = Array.isArray(value) ? value : value !== undefined ? [String(value)] : [];
+
+        return question.options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          const handlePress = () => {
+            if (!isMulti) {
+              onChange(option.value);
+            } else {
+              onChange(
+                isSelected ? selected.filter((v) => v !== option.value) : [...selected, option.value]
+              );
+            }
+          };
+
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={handlePress}
+            >
+              <Ionicons
+                name={isMulti ? (isSelected ? 'checkbox' : 'square-outline') : (isSelected ? 'radio-button-on' : 'radio-button-off')}
+                size={20}
+                color={isSelected ? '#4F46E5' : '#D1D5DB'}
+              />
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        });
+      }
+
+      case 'SCALE': {
+        const points = Array.from({ length: question.max - question.min + 1 }, (_, i) => question.min + i);
+        return (
+          <View>
+            <View style={styles.scaleRow}>
+              {points.map((point) => (
+                <TouchableOpacity
+                  key={point}
+                  style={[styles.scalePoint, value === point && styles.scalePointSelected]}
+                  onPress={() => onChange(point)}
+                >
+                  <Text style={[styles.scaleText, value === point && styles.scaleTextSelected]}>
+                    {point}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {(question.minLabel || question.maxLabel) && (
+              <View style={styles.scaleLabels}>
+                <Text style={styles.scaleLabel}>{question.minLabel}</Text>
+                <Text style={styles.scaleLabel}>{question.maxLabel}</Text>
+              </View>
+            )}
+          </View>
+        );
+      }
+
+      case 'DATE':
+        return (
+          <TextInput
+            style={styles.textInput}
+            value={typeof value === 'string' ? value : ''}
+            onChangeText={onChange}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+          />
+        );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>
+        {question.label}
+        {question.required && <Text style={styles.required}> *</Text>}
+      </Text>
+      {question.helpText && <Text style={styles.helpText}>{question.helpText}</Text>}
+      {renderInput()}
+      {issue && <Text style={styles.issueText}>{t(`intake.issues.${issue}`)}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  required: {
+    color: '#EF4444',
+  },
+  helpText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    color: '#111827',
+    backgroundColor: '#fff',
+    marginTop: 8,
+  },
+  textInputMultiline: {
+    minHeight: 96,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    marginTop: 8,
+    borderRadius: 12,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  optionSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '500',
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  scalePoint: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scalePointSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  scaleText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  scaleTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  scaleLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  scaleLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  issueText: {
+    fontSize: 13,
+    color: '#EF4444',
+    marginTop: 6,
+  },
+});
@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { getExpectedArrival } from '@/services/refunds';
+import { formatCurrencyFromCents, formatDateShort } from '@/utils/formatting';
+import type { Refund } from '@/types';
+
+export const REFUND_STATUS_COLORS: Record<Refund['status'], string> = {
+  PENDING: '#D97706',
+  PROCESSING: '#2563EB',
+  SUCCEEDED: '#059669',
+  FAILED: '#DC2626',
+};
+
+interface RefundRowProps {
+  refund: Refund;
+  onPress?: () => void;
+}
+
+export function RefundRow({ refund, onPress }: RefundRowProps) {
+  const { t } = useTranslation();
+  const arrival = getExpectedArrival(refund);
+
+  let arrivalText = '';
+  if (arrival && refund.destination === 'WALLET') {
+    arrivalText = refund.status === 'SUCCEEDED' ? t('refunds.arrivedWallet', { date: formatDateShort(arrival.to) }) : '';
+  } else if (arrival) {
+    arrivalText =
+      arrival.from.getTime() === arrival.to.getTime()
+        ? t('refunds.arrives', { date: formatDateShort(arrival.to) })
+        : t('refunds.arrivesBetween', { from: formatDateShort(arrival.from), to: formatDateShort(arrival.to) });
+  }
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} disabled={!onPress}>
+      <View style={styles.icon}>
+        <Ionicons name="arrow-undo" size={16} color={REFUND_STATUS_COLORS[refund.status]} />
+      </View>
+      <View style={styles.content}>
+        <Text style={styles.title}>
+          {formatCurrencyFromCents(refund.amount, refund.currency)}
+          <Text style={{ color: REFUND_STATUS_COLORS[refund.status] }}> · {t(`refunds.status.${refund.status}`)}</Text>
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {refund.status === 'FAILED' ? t('refunds.failed') : arrivalText || t(`refunds.reasons.${refund.reason}`)}
+        </Text>
+      </View>
+      {onPress && <Ionicons name="chevron-forward" size={16} color="#9CA3AF" />}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  icon: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { formatCurrencyFromCents, formatDateShort } from '@/utils/formatting';
+import type { Payout } from '@/types';
+
+export const PAYOUT_STATUS_COLORS: Record<Payout['status'], { color: string; bg: string }> = {
+  PENDING: { color: '#D97706', bg: '#FEF3C7' },
+  IN_TRANSIT: { color: '#2563EB', bg: '#DBEAFE' },
+  PAID: { color: '#059669', bg: '#D1FAE5' },
+  FAILED: { color: '#DC2626', bg: '#FEE2E2' },
+  CANCELED: { color: '#6B7280', bg: '#F3F4F6' },
+};
+
+interface PayoutRowProps {
+  payout: Payout;
+  onPress?: () => void;
+}
+
+export function PayoutRow({ payout, onPress }: PayoutRowProps) {
+  const { t } = useTranslation();
+  const status = PAYOUT_STATUS_COLORS[payout.status];
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={onPress} disabled={!onPress}>
+      <View style={styles.content}>
+        <Text style={styles.amount}>{formatCurrencyFromCents(payout.amount, payout.currency)}</Text>
+        <Text style={styles.meta}>
+          {t(payout.status === 'PAID' ? 'payouts.arrived' : 'payouts.arrives', {
+            date: formatDateShort(payout.arrivalDate),
+          })}
+          {' · '}
+          {t('payouts.paymentCount', { count: payout.paymentCount })}
+        </Text>
+      </View>
+      <View style={[styles.badge, { backgroundColor: status.bg }]}>
+        <Text style={[styles.badgeText, { color: status.color }]}>{t(`payouts.status.${payout.status}`)}</Text>
+      </View>
+      {onPress && <Ionicons name="chevron-forward" size={16} color="#9CA3AF" />}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  content: {
+    flex: 1,
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
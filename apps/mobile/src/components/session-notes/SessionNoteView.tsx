@@ -0,0 +1,138 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SESSION_NOTE_SECTIONS } from '@/services/session-note-form';
+import { formatDateTime } from '@/utils/formatting';
+import type { SessionNote, SessionNoteGoal } from '@/types';
+
+export const GOAL_PROGRESS_COLORS: Record<SessionNoteGoal['progress'], string> = {
+  NOT_STARTED: '#9CA3AF',
+  IN_PROGRESS: '#F59E0B',
+  ACHIEVED: '#10B981',
+};
+
+interface SessionNoteViewProps {
+  note: SessionNote;
+}
+
+export function SessionNoteView({ note }: SessionNoteViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View>
+      {SESSION_NOTE_SECTIONS[note.template].map((section) => (
+        <View key={section} style={styles.block}>
+          <Text style={styles.label}>{t(`sessionNotes.sections.${section}`)}</Text>
+          <Text style={styles.text}>{note.sections[section] || '—'}</Text>
+        </View>
+      ))}
+
+      {note.goals.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.label}>{t('sessionNotes.goals')}</Text>
+          {note.goals.map((goal) => (
+            <View key={goal.id} style={styles.goalRow}>
+              <View style={[styles.dot, { backgroundColor: GOAL_PROGRESS_COLORS[goal.progress] }]} />
+              <Text style={styles.goalText}>{goal.description}</Text>
+              <Text style={[styles.goalProgress, { color: GOAL_PROGRESS_COLORS[goal.progress] }]}>
+                {t(`sessionNotes.progress.${goal.progress}`)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {note.interventions.length > 0 && (
+        <View style={styles.block}>
+          <Text style={styles.label}>{t('sessionNotes.interventions')}</Text>
+          <Text style={styles.text}>
+            {note.interventions.map((i) => t(`sessionNotes.interventionTypes.${i}`, { defaultValue: i })).join(', ')}
+          </Text>
+        </View>
+      )}
+
+      {!!note.homework && (
+        <View style={styles.block}>
+          <Text style={styles.label}>{t('sessionNotes.homework')}</Text>
+          <Text style={styles.text}>{note.homework}</Text>
+        </View>
+      )}
+
+      {note.status === 'SIGNED' && note.signedAt && (
+        <View style={styles.signedRow}>
+          <Ionicons name="lock-closed" size={14} color="#10B981" />
+          <Text style={styles.signedText}>
+            {t('sessionNotes.signedBy', { name: note.signedByName, date: formatDateTime(note.signedAt) })}
+          </Text>
+        </View>
+      )}
+
+      {note.addenda.map((addendum) => (
+        <View key={addendum.id} style={styles.addendum}>
+          <Text style={styles.label}>
+            {t('sessionNotes.addendumBy', { name: addendum.authorName, date: formatDateTime(addendum.createdAt) })}
+          </Text>
+          <Text style={styles.text}>{addendum.content}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  block: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 22,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  goalText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  goalProgress: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  signedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  signedText: {
+    fontSize: 13,
+    color: '#10B981',
+    fontWeight: '500',
+  },
+  addendum: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+  },
+});
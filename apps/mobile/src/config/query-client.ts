@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { QueryClient, onlineManager } from '@tanstack/react-query';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import type { PersistQueryClientProviderProps } from '@tanstack/react-query-persist-client';
+
+// How long cached data stays usable offline
+const CACHE_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+
+// Query key roots written to disk so they can be shown without a connection
+const PERSISTED_QUERY_ROOTS = new Set(['appointments', 'appointment', 'therapist', 'payment-history']);
+
+// Drive React Query's online state from the device connection instead of
+// browser events, which don't exist in React Native
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(!!state.isConnected);
+  })
+);
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: 2,
+      staleTime: 1000 * 60 * 5, // 5 minutes
+      gcTime: CACHE_MAX_AGE,
+      // Serve cached data first and only pause the fetch when offline
+      networkMode: 'offlineFirst',
+    },
+  },
+});
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: '@hopefull_query_cache',
+  throttleTime: 1000,
+});
+
+export const persistOptions: PersistQueryClientProviderProps['persistOptions'] = {
+  persister: queryPersister,
+  maxAge: CACHE_MAX_AGE,
+  // Bump when cached response shapes change so stale data is dropped
+  buster: '1',
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === 'success' &&
+      PERSISTED_QUERY_ROOTS.has(String(query.queryKey[0])),
+    // Offline mutations are replayed from the offline queue, not the query cache
+    shouldDehydrateMutation: () => false,
+  },
+};
+
+// Wipe the in-memory and on-disk cache, e.g. when the user signs out
+export async function clearQueryCache(): Promise<void> {
+  queryClient.clear();
+  await queryPersister.removeClient();
+}
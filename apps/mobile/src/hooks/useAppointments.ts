@@ -1,6 +1,20 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { appointmentsService, CreateAppointmentData, CreateReviewData } from '../services';
-import type { AppointmentFilters } from '../types';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
+import { appointmentsService, therapistsService, CreateAppointmentData, CreateReviewData } from '../services';
+import type {
+  CancelSeriesData,
+  CreateAppointmentSeriesData,
+  RescheduleRequestData,
+  RescheduleResponseData,
+  RescheduleSeriesData,
+} from '../services/appointments';
+import {
+  getOccurrenceConflict,
+  OccurrenceConflict,
+  SeriesOccurrence,
+} from '../services/appointment-series';
+import { offlineQueue } from '../services/offline-queue';
+import { therapistKeys } from './useTherapistDashboard';
+import type { Appointment, AppointmentFilters } from '../types';
 
 /**
  * Returns the count of confirmed appointments starting within the next 24 hours.
@@ -46,20 +60,144 @@ export function useCreateAppointment() {
 
   return useMutation({
     mutationFn: (data: CreateAppointmentData) => appointmentsService.create(data),
-    onSuccess: () => {
+    onSuccess: (_, data) => {
       queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      if (data.waitlistOfferId) {
+        queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      }
+      if (data.packageId || data.walletAmount) {
+        queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      }
     },
   });
 }
 
+export function useCreateAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAppointmentSeriesData) => appointmentsService.createSeries(data),
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      if (data.packageId || data.walletAmount) {
+        queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      }
+    },
+  });
+}
+
+export function useAppointmentSeries(seriesId?: string) {
+  return useQuery({
+    queryKey: ['appointment-series', seriesId],
+    queryFn: () => appointmentsService.findSeries(seriesId!),
+    enabled: !!seriesId,
+  });
+}
+
+/**
+ * Checks every occurrence of a prospective series against the therapist's
+ * availability for that day. Shares the cache with useTherapistAvailability.
+ */
+export function useSeriesConflicts(therapistId: string, occurrences: SeriesOccurrence[]) {
+  return useQueries({
+    queries: occurrences.map((occurrence) => ({
+      queryKey: ['therapist-availability', therapistId, occurrence.date],
+      queryFn: () => therapistsService.getAvailability(therapistId, occurrence.date),
+      enabled: !!therapistId,
+    })),
+    combine: (results) => {
+      const conflicts = new Map<number, OccurrenceConflict>();
+      occurrences.forEach((occurrence, i) => {
+        const availability = results[i]?.data;
+        if (!availability) return;
+        const conflict = getOccurrenceConflict(occurrence, availability);
+        if (conflict) conflicts.set(occurrence.index, conflict);
+      });
+      return {
+        conflicts,
+        isLoading: results.some((result) => result.isLoading),
+        isError: results.some((result) => result.isError),
+        refetchFailed: () => {
+          results.filter((result) => result.isError).forEach((result) => result.refetch());
+        },
+      };
+    },
+  });
+}
+
+function invalidateSeries(queryClient: ReturnType<typeof useQueryClient>, seriesId: string) {
+  queryClient.invalidateQueries({ queryKey: ['appointment-series', seriesId] });
+  queryClient.invalidateQueries({ queryKey: ['appointment'] });
+  queryClient.invalidateQueries({ queryKey: ['appointments'] });
+}
+
+export function useCancelAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ seriesId, data }: { seriesId: string; data: CancelSeriesData }) =>
+      appointmentsService.cancelSeries(seriesId, data),
+    onSuccess: (_, { seriesId }) => invalidateSeries(queryClient, seriesId),
+  });
+}
+
+export function useRescheduleAppointmentSeries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ seriesId, data }: { seriesId: string; data: RescheduleSeriesData }) =>
+      appointmentsService.rescheduleSeries(seriesId, data),
+    onSuccess: (_, { seriesId }) => invalidateSeries(queryClient, seriesId),
+  });
+}
+
 export function useCancelAppointment() {
   const queryClient = useQueryClient();
 
   return useMutation({
+    // Runs offline too: the offline queue decides whether to send or hold it
+    networkMode: 'always',
     mutationFn: ({ id, reason }: { id: string; reason: string }) =>
-      appointmentsService.cancel(id, reason),
-    onSuccess: () => {
+      offlineQueue.runOrEnqueue(
+        { type: 'cancel', appointmentId: id, payload: { reason } },
+        queryClient.getQueryData<Appointment>(['appointment', id])
+      ),
+    onSuccess: (result, { id, reason }) => {
+      if (result.queued) {
+        // Show the cancellation right away; the server confirms it on replay
+        queryClient.setQueryData<Appointment>(['appointment', id], (previous) =>
+          previous ? { ...previous, status: 'CANCELLED', cancellationReason: reason } : previous
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    },
+  });
+}
+
+export function useRequestReschedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RescheduleRequestData }) =>
+      appointmentsService.requestReschedule(id, data),
+    onSuccess: (appointment, { id }) => {
+      queryClient.setQueryData(['appointment', id], appointment);
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+    },
+  });
+}
+
+export function useRespondToReschedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, response }: { id: string; response: RescheduleResponseData }) =>
+      appointmentsService.respondToReschedule(id, response),
+    onSuccess: (appointment, { id }) => {
+      queryClient.setQueryData(['appointment', id], appointment);
       queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: therapistKeys.appointments() });
+      queryClient.invalidateQueries({ queryKey: therapistKeys.upcomingAppointments() });
     },
   });
 }
@@ -68,8 +206,12 @@ export function useAddReview() {
   const queryClient = useQueryClient();
 
   return useMutation({
+    networkMode: 'always',
     mutationFn: ({ id, reviewData }: { id: string; reviewData: CreateReviewData }) =>
-      appointmentsService.addReview(id, reviewData),
+      offlineQueue.runOrEnqueue(
+        { type: 'addReview', appointmentId: id, payload: reviewData },
+        queryClient.getQueryData<Appointment>(['appointment', id])
+      ),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['appointment', id] });
       queryClient.invalidateQueries({ queryKey: ['appointments'] });
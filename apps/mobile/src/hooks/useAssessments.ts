@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { assessmentsService } from '../services/assessments';
+
+export function usePendingAssessments(enabled = true) {
+  return useQuery({
+    queryKey: ['assessments', 'pending'],
+    queryFn: () => assessmentsService.getPending(),
+    enabled,
+  });
+}
+
+export function useAssessmentRequest(requestId: string) {
+  return useQuery({
+    queryKey: ['assessments', 'request', requestId],
+    queryFn: () => assessmentsService.getRequest(requestId),
+    enabled: !!requestId,
+  });
+}
+
+export function useMyAssessmentResults(enabled = true) {
+  return useQuery({
+    queryKey: ['assessments', 'results'],
+    queryFn: () => assessmentsService.getMyResults(),
+    enabled,
+  });
+}
+
+export function useAppointmentAssessments(appointmentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['appointment-assessments', appointmentId],
+    queryFn: () => assessmentsService.getAppointmentResults(appointmentId),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+export function useSubmitAssessment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ requestId, answers }: { requestId: string; answers: number[] }) =>
+      assessmentsService.submit(requestId, answers),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assessments'] });
+    },
+  });
+}
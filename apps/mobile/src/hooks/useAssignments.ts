@@ -0,0 +1,108 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { assignmentsService, AssignmentInput } from '../services/assignments';
+import type { Assignment } from '../types';
+
+export function useMyAssignments(enabled = true) {
+  return useQuery({
+    queryKey: ['assignments'],
+    queryFn: () => assignmentsService.getMyAssignments(),
+    enabled,
+  });
+}
+
+export function useAssignment(id: string) {
+  return useQuery({
+    queryKey: ['assignment', id],
+    queryFn: () => assignmentsService.getAssignment(id),
+    enabled: !!id,
+  });
+}
+
+export function useAppointmentAssignments(appointmentId: string) {
+  return useQuery({
+    queryKey: ['appointment-assignments', appointmentId],
+    queryFn: () => assignmentsService.getAppointmentAssignments(appointmentId),
+    enabled: !!appointmentId,
+  });
+}
+
+export function useClientAssignments(userId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['client-assignments', userId],
+    queryFn: () => assignmentsService.getClientAssignments(userId),
+    enabled: !!userId && enabled,
+  });
+}
+
+function useInvalidateAssignments() {
+  const queryClient = useQueryClient();
+
+  return (assignment?: Assignment) => {
+    queryClient.invalidateQueries({ queryKey: ['assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['appointment-assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['client-assignments'] });
+    if (assignment) {
+      queryClient.setQueryData(['assignment', assignment.id], assignment);
+    }
+  };
+}
+
+export function useCreateAssignment() {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({ appointmentId, data }: { appointmentId: string; data: AssignmentInput }) =>
+      assignmentsService.create(appointmentId, data),
+    onSuccess: (assignment) => invalidate(assignment),
+  });
+}
+
+export function useDeleteAssignment() {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: (id: string) => assignmentsService.remove(id),
+    onSuccess: () => invalidate(),
+  });
+}
+
+export function useSetAssignmentCompleted() {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({ id, completed }: { id: string; completed: boolean }) =>
+      assignmentsService.setCompleted(id, completed),
+    onSuccess: (assignment) => invalidate(assignment),
+  });
+}
+
+export function useReplyToAssignment() {
+  const invalidate = useInvalidateAssignments();
+
+  return useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) => assignmentsService.reply(id, body),
+    onSuccess: (assignment) => invalidate(assignment),
+  });
+}
+
+/**
+ * Keeps the device's homework reminders in step with the client's open
+ * assignments whenever the list changes.
+ */
+export function useAssignmentReminders(enabled = true) {
+  const { t } = useTranslation();
+  const { data: assignments } = useMyAssignments(enabled);
+
+  useEffect(() => {
+    if (!assignments) return;
+
+    assignmentsService
+      .syncReminders(assignments, (assignment) => ({
+        title: t('assignments.reminderTitle'),
+        body: t('assignments.reminderBody', { title: assignment.title }),
+      }))
+      .catch((error) => console.error('[Assignments] Error scheduling reminders:', error));
+  }, [assignments, t]);
+}
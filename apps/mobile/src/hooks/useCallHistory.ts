@@ -0,0 +1,16 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useAuthStore } from '@/store/auth';
+import { CALL_HISTORY_PAGE_SIZE, callSignalingService } from '@/services/call-signaling';
+
+export function useCallHistory() {
+  const { user } = useAuthStore();
+
+  return useInfiniteQuery({
+    queryKey: ['call-history', user?.id],
+    queryFn: ({ pageParam }) => callSignalingService.getCallHistory(user!.id, { before: pageParam }),
+    getNextPageParam: (lastPage) =>
+      lastPage.length < CALL_HISTORY_PAGE_SIZE ? undefined : lastPage[lastPage.length - 1]?.createdAt,
+    initialPageParam: undefined as Date | undefined,
+    enabled: !!user?.id,
+  });
+}
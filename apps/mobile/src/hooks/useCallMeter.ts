@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { CallBilling, CallMeterState, getCallMeterState } from '@/services/call-billing';
+
+/**
+ * Running cost of a metered call, ticking every second from answeredAt so
+ * both parties see the same figure.
+ */
+export function useCallMeter(billing?: CallBilling, answeredAt?: Date): CallMeterState | null {
+  const [now, setNow] = useState(Date.now());
+  const answeredAtMs = answeredAt?.getTime();
+  const isMetered = !!billing && answeredAtMs !== undefined;
+
+  useEffect(() => {
+    if (!isMetered) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isMetered]);
+
+  if (!billing || answeredAtMs === undefined) return null;
+  return getCallMeterState((now - answeredAtMs) / 1000, billing);
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { paymentsService } from '../services/payments';
+import { usersService } from '../services/users';
+import { useAuthStore } from '../store/auth';
+import { useLocaleStore } from '../store/locale';
+import { DEFAULT_CURRENCY, convertAmount, getDisplayCurrency } from '../services/currency';
+import { formatCurrencyFromCents } from '../utils/formatting';
+
+export function useExchangeRates() {
+  return useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: () => paymentsService.getExchangeRates(),
+    staleTime: 60 * 60 * 1000,
+  });
+}
+
+/**
+ * The client's display currency and helpers to show therapist prices in it.
+ * Prices stay in the therapist's currency until rates have loaded.
+ */
+export function useDisplayCurrency() {
+  const { user } = useAuthStore();
+  const { language } = useLocaleStore();
+  const { data: rates } = useExchangeRates();
+  const currency = getDisplayCurrency(user, language);
+
+  const convert = (amount: number, from: string = DEFAULT_CURRENCY) =>
+    convertAmount(amount, from, currency, rates);
+
+  const formatPrice = (amount: number, from: string = DEFAULT_CURRENCY) => {
+    const converted = convert(amount, from);
+    return converted === null
+      ? formatCurrencyFromCents(amount, from)
+      : formatCurrencyFromCents(converted, currency);
+  };
+
+  return { currency, rates, convert, formatPrice };
+}
+
+export function useUpdateDisplayCurrency() {
+  const { user, setUser } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async (displayCurrency: string) => {
+      await usersService.updateProfile({ displayCurrency });
+    },
+    onSuccess: (_, displayCurrency) => {
+      if (user) setUser({ ...user, displayCurrency });
+    },
+  });
+}
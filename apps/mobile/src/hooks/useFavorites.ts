@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { favoritesService } from '../services/favorites';
+import type { FavoriteTherapist, Therapist } from '../types';
+
+export function useCareTeam(enabled = true) {
+  return useQuery({
+    queryKey: ['favorites'],
+    queryFn: () => favoritesService.getCareTeam(),
+    enabled,
+  });
+}
+
+// The saved entry for one therapist, null when not a favorite
+export function useFavorite(therapistId: string) {
+  return useQuery({
+    queryKey: ['favorites'],
+    queryFn: () => favoritesService.getCareTeam(),
+    select: (members) => members.find((member) => member.therapistId === therapistId) ?? null,
+    enabled: !!therapistId,
+  });
+}
+
+export function useToggleFavorite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ therapist, favorite }: { therapist: Therapist; favorite: boolean }) => {
+      if (favorite) {
+        await favoritesService.add(therapist.id);
+      } else {
+        await favoritesService.remove(therapist.id);
+      }
+    },
+    onMutate: async ({ therapist, favorite }) => {
+      // Flip the heart straight away
+      await queryClient.cancelQueries({ queryKey: ['favorites'] });
+      const previous = queryClient.getQueryData<FavoriteTherapist[]>(['favorites']);
+
+      if (previous) {
+        queryClient.setQueryData<FavoriteTherapist[]>(
+          ['favorites'],
+          favorite
+            ? [
+                ...previous,
+                {
+                  therapistId: therapist.id,
+                  therapist,
+                  notifyWhenOnline: true,
+                  nextAvailableAt: null,
+                  createdAt: new Date().toISOString(),
+                },
+              ]
+            : previous.filter((member) => member.therapistId !== therapist.id)
+        );
+      }
+
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['favorites'], context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+    },
+  });
+}
+
+export function useSetFavoriteNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ therapistId, notifyWhenOnline }: { therapistId: string; notifyWhenOnline: boolean }) =>
+      favoritesService.setNotifyWhenOnline(therapistId, notifyWhenOnline),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+    },
+  });
+}
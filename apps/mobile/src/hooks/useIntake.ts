@@ -0,0 +1,31 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { intakeService } from '../services/intake';
+import type { IntakeAnswers } from '../services/intake-form';
+
+export function useIntakeTemplates() {
+  return useQuery({
+    queryKey: ['intake-templates'],
+    queryFn: () => intakeService.getTemplates(),
+  });
+}
+
+export function useAppointmentIntake(appointmentId: string) {
+  return useQuery({
+    queryKey: ['appointment-intake', appointmentId],
+    queryFn: () => intakeService.getAppointmentIntake(appointmentId),
+    enabled: !!appointmentId,
+  });
+}
+
+export function useSubmitIntake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ appointmentId, answers }: { appointmentId: string; answers: IntakeAnswers }) =>
+      intakeService.submit(appointmentId, answers),
+    onSuccess: (intake, { appointmentId }) => {
+      queryClient.setQueryData(['appointment-intake', appointmentId], intake);
+      queryClient.invalidateQueries({ queryKey: ['appointment', appointmentId] });
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { paymentsService } from '../services/payments';
+import { invoicesService } from '../services/invoices';
+import {
+  BillablePayment,
+  buildInvoiceHtml,
+  buildSuperbillHtml,
+  getInvoiceNumber,
+} from '../services/invoice-documents';
+import { useAuthStore } from '../store/auth';
+
+export function useBillablePayments(from: string, to: string) {
+  return useQuery({
+    queryKey: ['billable-payments', from, to],
+    queryFn: () => paymentsService.getBillablePayments(from, to),
+    enabled: !!from && !!to,
+  });
+}
+
+export function useShareInvoice() {
+  const { user } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async (payment: BillablePayment) => {
+      if (!user) throw new Error('Not signed in');
+      const html = buildInvoiceHtml(payment, {
+        client: user,
+        issuedAt: new Date(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      await invoicesService.sharePdf(html, getInvoiceNumber(payment));
+    },
+  });
+}
+
+export function useShareSuperbill() {
+  const { user } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async ({ payments, from, to }: { payments: BillablePayment[]; from: Date; to: Date }) => {
+      if (!user) throw new Error('Not signed in');
+      const html = buildSuperbillHtml(payments, {
+        from,
+        to,
+        client: user,
+        issuedAt: new Date(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      await invoicesService.sharePdf(html, 'Superbill');
+    },
+  });
+}
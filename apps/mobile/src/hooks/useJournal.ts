@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { journalService, JournalEntryInput } from '../services/journal';
+import type { JournalReminder } from '../services/mood-journal';
+
+export function useJournalEntries() {
+  return useQuery({
+    queryKey: ['journal'],
+    queryFn: () => journalService.getEntries(),
+  });
+}
+
+export function useSaveJournalEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id?: string; data: Partial<JournalEntryInput> }) =>
+      id ? journalService.updateEntry(id, data) : journalService.createEntry(data as JournalEntryInput),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['journal'] });
+    },
+  });
+}
+
+export function useDeleteJournalEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => journalService.deleteEntry(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['journal'] });
+    },
+  });
+}
+
+export function useAppointmentJournal(appointmentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['appointment-journal', appointmentId],
+    queryFn: () => journalService.getAppointmentTimeline(appointmentId),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+export function useJournalReminder() {
+  return useQuery({
+    queryKey: ['journal-reminder'],
+    queryFn: () => journalService.getReminder(),
+  });
+}
+
+export function useSetJournalReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ reminder, content }: { reminder: JournalReminder; content: { title: string; body: string } }) =>
+      journalService.setReminder(reminder, content),
+    onSuccess: (reminder) => {
+      queryClient.setQueryData(['journal-reminder'], reminder);
+    },
+  });
+}
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { onlineManager } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { useAuthStore } from '@/store/auth';
+import { queryClient, clearQueryCache } from '@/config/query-client';
+import { offlineQueue, QueuedMutation, MutationConflict, ReplayResult } from '@/services/offline-queue';
+import { assignmentsService } from '@/services/assignments';
+import { sessionNotesService } from '@/services/session-notes';
+
+const CONFLICT_MESSAGE_KEYS: Record<MutationConflict['reason'], string> = {
+  ALREADY_CANCELLED: 'offline.conflicts.alreadyCancelled',
+  STATUS_CHANGED: 'offline.conflicts.statusChanged',
+  ALREADY_REVIEWED: 'offline.conflicts.alreadyReviewed',
+  NOTES_CHANGED: 'offline.conflicts.notesChanged',
+  NOT_FOUND: 'offline.conflicts.notFound',
+  REJECTED: 'offline.conflicts.rejected',
+};
+
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Replays mutations queued while offline whenever connectivity returns,
+ * retrying with backoff if the server fails while we're online, and clears
+ * cached data, the queue and the previous user's reminders on sign out.
+ * Used once in the root layout.
+ */
+export function useOfflineQueueSync() {
+  const { t } = useTranslation();
+  const { isAuthenticated, isLoading } = useAuthStore();
+  const wasAuthenticatedRef = useRef(false);
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    if (!isAuthenticated) {
+      // Only wipe on an actual sign out, not on a cold start before auth loads
+      if (wasAuthenticatedRef.current) {
+        wasAuthenticatedRef.current = false;
+        offlineQueue.clear();
+        clearQueryCache();
+        assignmentsService.clearReminders().catch((error) => {
+          console.error('[Assignments] Error clearing reminders:', error);
+        });
+        sessionNotesService.clearLocalDrafts().catch((error) => {
+          console.error('[SessionNotes] Error clearing note drafts:', error);
+        });
+      }
+      return;
+    }
+
+    wasAuthenticatedRef.current = true;
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryAttempt = 0;
+
+    const handleResult = (result: ReplayResult) => {
+      clearTimeout(retryTimer);
+      if (result.remaining > 0 && onlineManager.isOnline()) {
+        // Server trouble rather than a lost connection; try again later
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** retryAttempt, RETRY_MAX_DELAY_MS);
+        retryAttempt += 1;
+        retryTimer = setTimeout(() => offlineQueue.replay(), delay);
+      } else {
+        retryAttempt = 0;
+      }
+
+      if (result.applied.length === 0 && result.conflicts.length === 0) return;
+
+      queryClient.invalidateQueries({ queryKey: ['appointments'] });
+      queryClient.invalidateQueries({ queryKey: ['appointment'] });
+      queryClient.invalidateQueries({ queryKey: ['therapist', 'appointments'] });
+
+      if (result.conflicts.length > 0) {
+        const messages = result.conflicts.map((conflict) => t(CONFLICT_MESSAGE_KEYS[conflict.reason]));
+        Alert.alert(t('offline.conflictTitle'), [...new Set(messages)].join('\n\n'));
+      }
+    };
+
+    const unsubscribeReplay = offlineQueue.onReplay(handleResult);
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) offlineQueue.replay();
+    });
+    offlineQueue.replay();
+
+    return () => {
+      clearTimeout(retryTimer);
+      unsubscribeReplay();
+      unsubscribeOnline();
+    };
+  }, [isAuthenticated, isLoading]);
+}
+
+/**
+ * Mutations still waiting to be sent, optionally for a single appointment.
+ */
+export function usePendingMutations(appointmentId?: string) {
+  const [pending, setPending] = useState<QueuedMutation[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    offlineQueue.getPending().then((queue) => {
+      if (isMounted) setPending(queue);
+    });
+    const unsubscribe = offlineQueue.subscribe((queue) => setPending(queue));
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return appointmentId ? pending.filter((m) => m.appointmentId === appointmentId) : pending;
+}
+
+export function useIsOnline() {
+  const [isOnline, setIsOnline] = useState(onlineManager.isOnline());
+
+  useEffect(() => onlineManager.subscribe(setIsOnline), []);
+
+  return isOnline;
+}
@@ -15,6 +15,22 @@ export function usePaymentHistory(page = 1, limit = 20) {
   });
 }
 
+export function useAppointmentRefunds(appointmentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['refunds', { appointmentId }],
+    queryFn: () => paymentsService.getRefunds({ appointmentId }),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+export function useRefund(id: string) {
+  return useQuery({
+    queryKey: ['refunds', id],
+    queryFn: () => paymentsService.getRefund(id),
+    enabled: !!id,
+  });
+}
+
 export function useAddPaymentMethod() {
   const queryClient = useQueryClient();
 
@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { presenceService } from '../services/presence';
+import type { PresenceAlertSettings, PresenceSubscription, Therapist } from '../types';
+
+export function usePresenceSubscriptions(enabled = true) {
+  return useQuery({
+    queryKey: ['presence-subscriptions'],
+    queryFn: () => presenceService.getSubscriptions(),
+    enabled,
+  });
+}
+
+// The subscription for one therapist, null when not subscribed
+export function usePresenceSubscription(therapistId: string) {
+  return useQuery({
+    queryKey: ['presence-subscriptions'],
+    queryFn: () => presenceService.getSubscriptions(),
+    select: (subscriptions) =>
+      subscriptions.find((subscription) => subscription.therapistId === therapistId) ?? null,
+    enabled: !!therapistId,
+  });
+}
+
+export function useTogglePresenceSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ therapist, subscribed }: { therapist: Therapist; subscribed: boolean }) => {
+      if (subscribed) {
+        await presenceService.subscribe(therapist.id);
+      } else {
+        await presenceService.unsubscribe(therapist.id);
+      }
+    },
+    onMutate: async ({ therapist, subscribed }) => {
+      // Flip the bell straight away
+      await queryClient.cancelQueries({ queryKey: ['presence-subscriptions'] });
+      const previous = queryClient.getQueryData<PresenceSubscription[]>(['presence-subscriptions']);
+
+      if (previous) {
+        queryClient.setQueryData<PresenceSubscription[]>(
+          ['presence-subscriptions'],
+          subscribed
+            ? [
+                ...previous,
+                {
+                  therapistId: therapist.id,
+                  therapist,
+                  lastNotifiedAt: null,
+                  createdAt: new Date().toISOString(),
+                },
+              ]
+            : previous.filter((subscription) => subscription.therapistId !== therapist.id)
+        );
+      }
+
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['presence-subscriptions'], context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['presence-subscriptions'] });
+    },
+  });
+}
+
+export function usePresenceSettings() {
+  return useQuery({
+    queryKey: ['presence-settings'],
+    queryFn: () => presenceService.getSettings(),
+  });
+}
+
+export function useUpdatePresenceSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: Partial<PresenceAlertSettings>) => presenceService.updateSettings(settings),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['presence-settings'], settings);
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { safetyService, ReportSafetyConcernData } from '../services/safety';
+
+export function useSafetyIncidents(appointmentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['safety-incidents', appointmentId],
+    queryFn: () => safetyService.getAppointmentIncidents(appointmentId),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+export function useReportSafetyConcern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ appointmentId, data }: { appointmentId: string; data: ReportSafetyConcernData }) =>
+      safetyService.reportConcern(appointmentId, data),
+    onSuccess: (_, { appointmentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['safety-incidents', appointmentId] });
+    },
+  });
+}
+
+export function useAddSafetyNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ incidentId, note }: { incidentId: string; note: string }) =>
+      safetyService.addNote(incidentId, note),
+    onSuccess: (incident) => {
+      queryClient.invalidateQueries({ queryKey: ['safety-incidents', incident.appointmentId] });
+    },
+  });
+}
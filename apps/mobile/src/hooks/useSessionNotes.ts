@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { sessionNotesService } from '../services/session-notes';
+import { isSameNoteContent, pickLatestDraft, toNoteContent } from '../services/session-note-form';
+import type { SessionNote, SessionNoteContent } from '../types';
+
+// Quiet period after the last keystroke before a draft is sent
+const AUTOSAVE_DELAY_MS = 2000;
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+export function useSessionNote(appointmentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['session-note', appointmentId],
+    queryFn: () => sessionNotesService.getNote(appointmentId),
+    enabled: !!appointmentId && enabled,
+  });
+}
+
+export function useClientNoteHistory(userId: string) {
+  return useQuery({
+    queryKey: ['client-session-notes', userId],
+    queryFn: () => sessionNotesService.getClientHistory(userId),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Editable draft of an appointment's note. Every change is kept on the
+ * device straight away and sent to the server once typing pauses.
+ */
+export function useSessionNoteDraft(appointmentId: string) {
+  const queryClient = useQueryClient();
+  const { data: note, isLoading } = useSessionNote(appointmentId);
+  const { data: localDraft, isLoading: isLoadingLocal } = useQuery({
+    queryKey: ['session-note-local', appointmentId],
+    queryFn: () => sessionNotesService.getLocalDraft(appointmentId),
+    gcTime: 0,
+  });
+
+  const [content, setContentState] = useState<SessionNoteContent | null>(null);
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const savedRef = useRef<SessionNoteContent | null>(null);
+  const latestRef = useRef<SessionNoteContent | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inFlightRef = useRef<Promise<boolean> | null>(null);
+
+  useEffect(() => {
+    if (content || isLoading || isLoadingLocal) return;
+    const initial = pickLatestDraft(note, localDraft);
+    savedRef.current = note ? toNoteContent(note) : null;
+    latestRef.current = initial;
+    setContentState(initial);
+  }, [content, isLoading, isLoadingLocal, note, localDraft]);
+
+  // Saves run one at a time so an older draft can't land on the server after a newer one
+  const save = useCallback(
+    (next: SessionNoteContent): Promise<boolean> => {
+      const run = async (): Promise<boolean> => {
+        if (savedRef.current && isSameNoteContent(savedRef.current, next)) return true;
+
+        setStatus('saving');
+        try {
+          const saved = await sessionNotesService.saveDraft(appointmentId, next);
+          savedRef.current = next;
+          queryClient.setQueryData<SessionNote>(['session-note', appointmentId], saved);
+          // Keep the device copy if the therapist typed more while this was sending
+          if (latestRef.current && isSameNoteContent(latestRef.current, next)) {
+            await sessionNotesService.clearLocalDraft(appointmentId);
+          }
+          setStatus('saved');
+          return true;
+        } catch {
+          // The device copy stays until a later save goes through
+          setStatus('error');
+          return false;
+        }
+      };
+
+      const queued = (inFlightRef.current ?? Promise.resolve(true)).then(run);
+      inFlightRef.current = queued;
+      return queued;
+    },
+    [appointmentId, queryClient]
+  );
+
+  const setContent = useCallback(
+    (next: SessionNoteContent) => {
+      latestRef.current = next;
+      setContentState(next);
+      sessionNotesService.setLocalDraft(appointmentId, next);
+
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        save(next);
+      }, AUTOSAVE_DELAY_MS);
+    },
+    [appointmentId, save]
+  );
+
+  // Send any pending change now, e.g. before signing
+  const flush = useCallback(async (): Promise<boolean> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    return latestRef.current ? save(latestRef.current) : true;
+  }, [save]);
+
+  // Don't wait out the delay when leaving the screen
+  useEffect(
+    () => () => {
+      if (timerRef.current && latestRef.current) {
+        clearTimeout(timerRef.current);
+        save(latestRef.current);
+      }
+    },
+    [save]
+  );
+
+  return { note, content, setContent, status, flush, isLoading: isLoading || isLoadingLocal };
+}
+
+export function useSignSessionNote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (appointmentId: string) => sessionNotesService.sign(appointmentId),
+    onSuccess: (note, appointmentId) => {
+      queryClient.setQueryData(['session-note', appointmentId], note);
+      queryClient.invalidateQueries({ queryKey: ['client-session-notes', note.userId] });
+    },
+  });
+}
+
+export function useAddNoteAddendum() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ appointmentId, content }: { appointmentId: string; content: string }) =>
+      sessionNotesService.addAddendum(appointmentId, content),
+    onSuccess: (note, { appointmentId }) => {
+      queryClient.setQueryData(['session-note', appointmentId], note);
+      queryClient.invalidateQueries({ queryKey: ['client-session-notes', note.userId] });
+    },
+  });
+}
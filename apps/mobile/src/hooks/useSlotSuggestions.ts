@@ -0,0 +1,71 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addMonths, format } from 'date-fns';
+import { appointmentsService } from '../services/appointments';
+import { therapistsService } from '../services/therapists';
+import { getAvailabilityMonths } from '../services/therapist-matching';
+import {
+  FIRST_AVAILABLE_MONTHS,
+  buildBookingProfile,
+  findFirstAvailableSlot,
+  getSuggestionDates,
+  suggestSlots,
+} from '../services/slot-suggestions';
+
+// Day availability through the same cache entries as useTherapistAvailability
+function useDayLoader(therapistId: string) {
+  const queryClient = useQueryClient();
+  return (date: string) =>
+    queryClient.fetchQuery({
+      queryKey: ['therapist-availability', therapistId, date],
+      queryFn: () => therapistsService.getAvailability(therapistId, date),
+    });
+}
+
+export function useSuggestedSlots(therapistId: string, duration: number) {
+  const loadDay = useDayLoader(therapistId);
+
+  return useQuery({
+    queryKey: ['suggested-slots', therapistId, duration],
+    queryFn: async () => {
+      const [pastAppointments, ...summaries] = await Promise.all([
+        appointmentsService.findByUser({ status: 'past' }),
+        ...getAvailabilityMonths().map((month) => therapistsService.getAvailabilitySummary(therapistId, month)),
+      ]);
+
+      const profile = buildBookingProfile(pastAppointments, Intl.DateTimeFormat().resolvedOptions().timeZone);
+      if (!profile.total) return [];
+
+      const dates = getSuggestionDates(
+        summaries.flatMap((summary) => summary.dates),
+        profile
+      );
+      const days = await Promise.all(dates.map(loadDay));
+      return suggestSlots(days, profile, duration);
+    },
+    enabled: !!therapistId,
+  });
+}
+
+export function useFirstAvailableSlot(therapistId: string) {
+  const queryClient = useQueryClient();
+  const loadDay = useDayLoader(therapistId);
+
+  return useMutation({
+    mutationFn: async (duration: number) => {
+      const months = Array.from({ length: FIRST_AVAILABLE_MONTHS }, (_, i) =>
+        format(addMonths(new Date(), i), 'yyyy-MM')
+      );
+
+      // Month by month so a nearby opening doesn't wait on later months
+      for (const month of months) {
+        const summary = await queryClient.fetchQuery({
+          queryKey: ['therapist-availability-summary', therapistId, month],
+          queryFn: () => therapistsService.getAvailabilitySummary(therapistId, month),
+        });
+        const choice = await findFirstAvailableSlot(summary.dates, duration, loadDay);
+        if (choice) return choice;
+      }
+      return null;
+    },
+  });
+}
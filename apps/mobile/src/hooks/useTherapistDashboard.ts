@@ -1,6 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import therapistDashboardService, { TherapistProfile } from '@/services/therapist-dashboard';
-import type { TherapistStats, TherapistAppointmentFilters, Appointment } from '@/types';
+import { offlineQueue } from '@/services/offline-queue';
+import type { CancellationPolicyPreset } from '@hopefull/types';
+import type {
+  TherapistStats,
+  TherapistAppointmentFilters,
+  TherapistAvailabilitySettings,
+  Appointment,
+} from '@/types';
 
 // Query keys
 export const therapistKeys = {
@@ -10,6 +17,11 @@ export const therapistKeys = {
   appointments: (filters?: TherapistAppointmentFilters) => [...therapistKeys.all, 'appointments', filters] as const,
   upcomingAppointments: (limit?: number) => [...therapistKeys.all, 'upcoming', limit] as const,
   earnings: (period?: string) => [...therapistKeys.all, 'earnings', period] as const,
+  availabilitySettings: () => [...therapistKeys.all, 'availability-settings'] as const,
+  payoutAccount: () => [...therapistKeys.all, 'payouts', 'account'] as const,
+  payoutBalances: () => [...therapistKeys.all, 'payouts', 'balance'] as const,
+  payouts: (page?: number, limit?: number) => [...therapistKeys.all, 'payouts', 'list', page, limit] as const,
+  payout: (id: string) => [...therapistKeys.all, 'payouts', id] as const,
 };
 
 // Get therapist profile
@@ -53,6 +65,46 @@ export function useTherapistEarnings(period: 'week' | 'month' | 'year' = 'month'
   });
 }
 
+// Get Connect onboarding status, bank account and schedule
+export function usePayoutAccount() {
+  return useQuery({
+    queryKey: therapistKeys.payoutAccount(),
+    queryFn: () => therapistDashboardService.getPayoutAccount(),
+  });
+}
+
+// Get available and pending balance
+export function usePayoutBalances() {
+  return useQuery({
+    queryKey: therapistKeys.payoutBalances(),
+    queryFn: () => therapistDashboardService.getPayoutBalances(),
+  });
+}
+
+// Get payouts
+export function usePayouts(page = 1, limit = 10) {
+  return useQuery({
+    queryKey: therapistKeys.payouts(page, limit),
+    queryFn: () => therapistDashboardService.getPayouts(page, limit),
+  });
+}
+
+// Get a payout with its payments
+export function usePayout(id: string) {
+  return useQuery({
+    queryKey: therapistKeys.payout(id),
+    queryFn: () => therapistDashboardService.getPayout(id),
+    enabled: !!id,
+  });
+}
+
+// Get a Connect onboarding link mutation
+export function useCreatePayoutOnboardingLink() {
+  return useMutation({
+    mutationFn: () => therapistDashboardService.createPayoutOnboardingLink(),
+  });
+}
+
 // Update online status mutation
 export function useUpdateOnlineStatus() {
   const queryClient = useQueryClient();
@@ -98,6 +150,72 @@ export function useUpdateAutoOffline() {
   });
 }
 
+// Update cancellation policy mutation
+export function useUpdateCancellationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preset: CancellationPolicyPreset) =>
+      therapistDashboardService.updateCancellationPolicy(preset),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(therapistKeys.profile(), profile);
+      // Public profile shown to clients
+      queryClient.invalidateQueries({ queryKey: ['therapist', profile.id] });
+    },
+  });
+}
+
+// Update session rates mutation
+export function useUpdateRates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rates: { currency: string; hourlyRate: number; perMinuteRate: number }) =>
+      therapistDashboardService.updateRates(rates),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(therapistKeys.profile(), profile);
+      // Public profile shown to clients
+      queryClient.invalidateQueries({ queryKey: ['therapist', profile.id] });
+    },
+  });
+}
+
+// Update intake template mutation
+export function useUpdateIntakeTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templateId: string | null) => therapistDashboardService.updateIntakeTemplate(templateId),
+    onSuccess: (profile) => {
+      queryClient.setQueryData(therapistKeys.profile(), profile);
+    },
+  });
+}
+
+// Get availability settings for the schedule editor
+export function useAvailabilitySettings() {
+  return useQuery({
+    queryKey: therapistKeys.availabilitySettings(),
+    queryFn: () => therapistDashboardService.getAvailabilitySettings(),
+  });
+}
+
+// Save availability settings mutation
+export function useUpdateAvailabilitySettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: TherapistAvailabilitySettings) =>
+      therapistDashboardService.updateAvailabilitySettings(settings),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(therapistKeys.availabilitySettings(), settings);
+      // Client-facing availability is derived from these settings
+      queryClient.invalidateQueries({ queryKey: ['therapist-availability'] });
+      queryClient.invalidateQueries({ queryKey: ['therapist-availability-summary'] });
+    },
+  });
+}
+
 // Accept appointment mutation
 export function useAcceptAppointment() {
   const queryClient = useQueryClient();
@@ -146,9 +264,18 @@ export function useAddSessionNotes() {
   const queryClient = useQueryClient();
 
   return useMutation({
+    networkMode: 'always',
     mutationFn: ({ appointmentId, notes }: { appointmentId: string; notes: string }) =>
-      therapistDashboardService.addSessionNotes(appointmentId, notes),
-    onSuccess: () => {
+      offlineQueue.runOrEnqueue(
+        { type: 'addSessionNotes', appointmentId, payload: { notes } },
+        queryClient.getQueryData<Appointment>(['appointment', appointmentId])
+      ),
+    onSuccess: (result, { appointmentId, notes }) => {
+      if (result.queued) {
+        queryClient.setQueryData<Appointment>(['appointment', appointmentId], (previous) =>
+          previous ? { ...previous, sessionNotes: notes } : previous
+        );
+      }
       queryClient.invalidateQueries({ queryKey: therapistKeys.appointments() });
     },
   });
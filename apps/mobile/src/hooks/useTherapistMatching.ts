@@ -0,0 +1,29 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { matchingService } from '../services/matching';
+import type { MatchingAnswers } from '../types';
+
+export function useMatchingAnswers() {
+  return useQuery({
+    queryKey: ['matching-answers'],
+    queryFn: () => matchingService.getAnswers(),
+  });
+}
+
+export function useSaveMatchingAnswers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (answers: MatchingAnswers) => matchingService.saveAnswers(answers),
+    onSuccess: (answers) => {
+      queryClient.setQueryData(['matching-answers'], answers);
+    },
+  });
+}
+
+export function useTherapistMatches(answers: MatchingAnswers | null | undefined) {
+  return useQuery({
+    queryKey: ['therapist-matches', answers],
+    queryFn: () => matchingService.findMatches(answers!),
+    enabled: !!answers,
+  });
+}
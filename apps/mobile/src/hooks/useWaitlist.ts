@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { waitlistService, JoinWaitlistData } from '../services/waitlist';
+
+export function useMyWaitlist() {
+  return useQuery({
+    queryKey: ['waitlist'],
+    queryFn: () => waitlistService.getMyEntries(),
+  });
+}
+
+// The user's open entry for one therapist, if any
+export function useTherapistWaitlistEntry(therapistId: string) {
+  return useQuery({
+    queryKey: ['waitlist'],
+    queryFn: () => waitlistService.getMyEntries(),
+    select: (entries) =>
+      entries.find(
+        (entry) =>
+          entry.therapistId === therapistId &&
+          (entry.status === 'ACTIVE' || entry.status === 'OFFERED')
+      ) ?? null,
+    enabled: !!therapistId,
+  });
+}
+
+export function useJoinWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ therapistId, data }: { therapistId: string; data: JoinWaitlistData }) =>
+      waitlistService.join(therapistId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+  });
+}
+
+export function useLeaveWaitlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entryId: string) => waitlistService.leave(entryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    },
+  });
+}
+
+export function useWaitlistOffer(offerId?: string) {
+  return useQuery({
+    queryKey: ['waitlist-offer', offerId],
+    queryFn: () => waitlistService.getOffer(offerId!),
+    enabled: !!offerId,
+  });
+}
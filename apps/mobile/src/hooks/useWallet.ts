@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { walletService, PurchasePackageData } from '../services/wallet';
+
+export function useWalletBalances() {
+  return useQuery({
+    queryKey: ['wallet', 'balances'],
+    queryFn: () => walletService.getBalances(),
+  });
+}
+
+export function useSessionPackages() {
+  return useQuery({
+    queryKey: ['wallet', 'packages'],
+    queryFn: () => walletService.getPackages(),
+  });
+}
+
+export function useWalletTransactions(page = 1, limit = 20) {
+  return useQuery({
+    queryKey: ['wallet', 'transactions', page, limit],
+    queryFn: () => walletService.getTransactions(page, limit),
+  });
+}
+
+export function usePurchasePackage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: PurchasePackageData) => walletService.purchasePackage(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-history'] });
+    },
+  });
+}
@@ -27,8 +27,8 @@ export const resources = {
   ar: { translation: ar },
 };
 
-// Get the device's preferred language using React Native's built-in locale detection
-const getDeviceLanguage = (): LanguageCode => {
+// Get the device locale (e.g. "en_US") using React Native's built-in locale detection
+export const getDeviceLocale = (): string => {
   let deviceLocale = 'en';
 
   try {
@@ -43,8 +43,13 @@ const getDeviceLanguage = (): LanguageCode => {
     console.log('Could not detect device language, defaulting to English');
   }
 
+  return deviceLocale;
+};
+
+// Get the device's preferred language
+const getDeviceLanguage = (): LanguageCode => {
   // Extract language code (e.g., "en_US" -> "en")
-  const langCode = deviceLocale.split(/[-_]/)[0];
+  const langCode = getDeviceLocale().split(/[-_]/)[0];
 
   if (langCode && langCode in LANGUAGES) {
     return langCode as LanguageCode;
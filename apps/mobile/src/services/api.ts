@@ -14,6 +14,15 @@ const getApiUrl = () => {
 
 const API_URL = getApiUrl();
 
+export interface ApiRequestError extends Error {
+  statusCode?: number;
+  // True when the request never got a response (offline, DNS, timeout)
+  isNetworkError: boolean;
+}
+
+export const isNetworkError = (error: unknown): boolean =>
+  !!(error as ApiRequestError | undefined)?.isNetworkError;
+
 export const api = axios.create({
   baseURL: API_URL,
   headers: {
@@ -83,7 +92,11 @@ api.interceptors.response.use(
       error.message ||
       'An unexpected error occurred';
 
-    return Promise.reject(new Error(message));
+    const requestError = new Error(message) as ApiRequestError;
+    requestError.statusCode = error.response?.status;
+    requestError.isNetworkError = !error.response;
+
+    return Promise.reject(requestError);
   }
 );
 
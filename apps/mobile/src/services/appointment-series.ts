@@ -0,0 +1,116 @@
+import { addWeeks, format, startOfDay } from 'date-fns';
+import type {
+  Appointment,
+  RecurrenceFrequency,
+  SeriesScope,
+  TherapistAvailability,
+} from '../types';
+
+// Upper bound for a single series, about six months of weekly sessions
+export const MAX_SERIES_OCCURRENCES = 26;
+
+const WEEKS_BETWEEN: Record<RecurrenceFrequency, number> = {
+  WEEKLY: 1,
+  BIWEEKLY: 2,
+};
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Ends after this many sessions...
+  count?: number;
+  // ...or on this day (yyyy-MM-dd, inclusive)
+  until?: string;
+}
+
+export interface SeriesOccurrence {
+  index: number; // 1-based
+  scheduledAt: Date;
+  date: string; // yyyy-MM-dd, the therapist availability key
+  startTime: string; // HH:mm
+}
+
+export type OccurrenceConflict = 'unavailable' | 'booked';
+
+export function formatAvailabilityDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Expand a recurrence rule into the session start times, beginning with
+ * `firstStart`. Always capped at MAX_SERIES_OCCURRENCES.
+ */
+export function buildSeriesOccurrences(firstStart: Date, rule: RecurrenceRule): SeriesOccurrence[] {
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const lastDay = rule.until ? startOfDay(new Date(`${rule.until}T00:00:00`)) : null;
+  const occurrences: SeriesOccurrence[] = [];
+
+  for (let i = 0; i < limit; i++) {
+    const scheduledAt = addWeeks(firstStart, i * WEEKS_BETWEEN[rule.frequency]);
+    if (lastDay && startOfDay(scheduledAt) > lastDay) break;
+
+    occurrences.push({
+      index: i + 1,
+      scheduledAt,
+      date: formatAvailabilityDate(scheduledAt),
+      startTime: format(scheduledAt, 'HH:mm'),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Why an occurrence can't be booked, or null when the slot is free.
+ */
+export function getOccurrenceConflict(
+  occurrence: Pick<SeriesOccurrence, 'startTime'>,
+  availability: TherapistAvailability
+): OccurrenceConflict | null {
+  if (availability.bookedSlots?.some((slot) => slot.startTime === occurrence.startTime)) {
+    return 'booked';
+  }
+  if (!availability.slots.some((slot) => slot.startTime === occurrence.startTime)) {
+    return 'unavailable';
+  }
+  return null;
+}
+
+/**
+ * Bookings a series-wide change touches: ALL is every session that hasn't
+ * started yet, FUTURE only those from `from` onwards (including it).
+ */
+export function getAffectedSeriesAppointments(
+  appointments: Appointment[],
+  from: Appointment,
+  scope: SeriesScope,
+  now = Date.now()
+): Appointment[] {
+  const earliest = scope === 'ALL' ? now : Math.max(now, new Date(from.scheduledAt).getTime());
+
+  return appointments
+    .filter((a) => a.status === 'PENDING' || a.status === 'CONFIRMED')
+    .filter((a) => new Date(a.scheduledAt).getTime() >= earliest)
+    .sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime());
+}
+
+/**
+ * Where each affected booking lands when `anchor` moves to `newStart`. The
+ * others keep their spacing, so they all shift by the same offset.
+ */
+export function shiftSeriesOccurrences(
+  appointments: Appointment[],
+  anchor: Appointment,
+  newStart: Date
+): SeriesOccurrence[] {
+  const offset = newStart.getTime() - new Date(anchor.scheduledAt).getTime();
+
+  return appointments.map((appointment, i) => {
+    const scheduledAt = new Date(new Date(appointment.scheduledAt).getTime() + offset);
+    return {
+      index: appointment.seriesIndex ?? i + 1,
+      scheduledAt,
+      date: formatAvailabilityDate(scheduledAt),
+      startTime: format(scheduledAt, 'HH:mm'),
+    };
+  });
+}
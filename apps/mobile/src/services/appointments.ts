@@ -1,5 +1,12 @@
 import api from './api';
-import type { Appointment, AppointmentFilters, Review } from '../types';
+import type {
+  Appointment,
+  AppointmentFilters,
+  AppointmentSeries,
+  RecurrenceFrequency,
+  Review,
+  SeriesScope,
+} from '../types';
 
 export interface CreateAppointmentData {
   therapistId: string;
@@ -7,11 +14,49 @@ export interface CreateAppointmentData {
   duration: number;
   timezone: string;
   amount: number;
+  // The therapist's currency, amount is in its minor units
+  currency?: string;
   bookingNotes?: string;
   paymentMethodId?: string;
+  // Absent when the package and wallet cover the whole booking
   stripePaymentIntentId?: string;
+  // Package to draw sessions from, and wallet balance to spend, before the card
+  packageId?: string;
+  walletAmount?: number;
+  // Claims a slot held from the waitlist
+  waitlistOfferId?: string;
 }
 
+export interface CreateAppointmentSeriesData extends Omit<CreateAppointmentData, 'scheduledAt'> {
+  frequency: RecurrenceFrequency;
+  // Start times of the sessions to book; conflicts are already left out
+  occurrences: string[];
+  until?: string;
+}
+
+export interface CancelSeriesData {
+  scope: SeriesScope;
+  fromAppointmentId: string;
+  reason: string;
+}
+
+export interface RescheduleSeriesData {
+  scope: SeriesScope;
+  fromAppointmentId: string;
+  // New start time for `fromAppointmentId`; the rest move by the same offset
+  scheduledAt: string;
+}
+
+export interface RescheduleRequestData {
+  scheduledAt: string;
+  // Payment for the reschedule fee, when the policy charges one
+  stripePaymentIntentId?: string;
+}
+
+export type RescheduleResponseData =
+  | { action: 'ACCEPT' | 'DECLINE' }
+  | { action: 'PROPOSE'; scheduledAt: string };
+
 export interface CreateReviewData {
   rating: number;
   feedback?: string;
@@ -25,6 +70,29 @@ export const appointmentsService = {
     return response.data;
   },
 
+  async createSeries(data: CreateAppointmentSeriesData): Promise<AppointmentSeries> {
+    const response = await api.post('/appointments/series', data);
+    return response.data;
+  },
+
+  async findSeries(seriesId: string): Promise<AppointmentSeries> {
+    const { data } = await api.get(`/appointments/series/${seriesId}`);
+    return data;
+  },
+
+  async cancelSeries(seriesId: string, cancelData: CancelSeriesData): Promise<Appointment[]> {
+    const { data } = await api.patch(`/appointments/series/${seriesId}/cancel`, cancelData);
+    return data;
+  },
+
+  async rescheduleSeries(
+    seriesId: string,
+    rescheduleData: RescheduleSeriesData
+  ): Promise<Appointment[]> {
+    const { data } = await api.patch(`/appointments/series/${seriesId}/reschedule`, rescheduleData);
+    return data;
+  },
+
   async findByUser(filters?: AppointmentFilters): Promise<Appointment[]> {
     const params = filters?.status ? `?status=${filters.status}` : '';
     const { data } = await api.get(`/appointments${params}`);
@@ -46,6 +114,16 @@ export const appointmentsService = {
     return data;
   },
 
+  async requestReschedule(id: string, requestData: RescheduleRequestData): Promise<Appointment> {
+    const { data } = await api.post(`/appointments/${id}/reschedule`, requestData);
+    return data;
+  },
+
+  async respondToReschedule(id: string, response: RescheduleResponseData): Promise<Appointment> {
+    const { data } = await api.patch(`/appointments/${id}/reschedule`, response);
+    return data;
+  },
+
   async complete(id: string, sessionNotes?: string): Promise<Appointment> {
     const { data } = await api.patch(`/appointments/${id}/complete`, { sessionNotes });
     return data;
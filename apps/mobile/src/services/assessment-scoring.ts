@@ -0,0 +1,116 @@
+import type { AssessmentResult, AssessmentSeverity, AssessmentType } from '../types';
+
+// Every item is answered on the same frequency scale
+export const ASSESSMENT_RESPONSE_VALUES = [0, 1, 2, 3];
+
+export interface AssessmentDefinition {
+  type: AssessmentType;
+  itemCount: number;
+  maxScore: number;
+  // Lowest score of each band, highest band first
+  bands: { minScore: number; severity: AssessmentSeverity }[];
+  // 1-based items where any answer above zero is flagged to the therapist
+  riskItems: number[];
+  // Smallest change in score that is clinically meaningful
+  meaningfulChange: number;
+}
+
+export const ASSESSMENTS: Record<AssessmentType, AssessmentDefinition> = {
+  PHQ9: {
+    type: 'PHQ9',
+    itemCount: 9,
+    maxScore: 27,
+    bands: [
+      { minScore: 20, severity: 'SEVERE' },
+      { minScore: 15, severity: 'MODERATELY_SEVERE' },
+      { minScore: 10, severity: 'MODERATE' },
+      { minScore: 5, severity: 'MILD' },
+      { minScore: 0, severity: 'MINIMAL' },
+    ],
+    riskItems: [9],
+    meaningfulChange: 5,
+  },
+  GAD7: {
+    type: 'GAD7',
+    itemCount: 7,
+    maxScore: 21,
+    bands: [
+      { minScore: 15, severity: 'SEVERE' },
+      { minScore: 10, severity: 'MODERATE' },
+      { minScore: 5, severity: 'MILD' },
+      { minScore: 0, severity: 'MINIMAL' },
+    ],
+    riskItems: [],
+    meaningfulChange: 4,
+  },
+};
+
+export const SEVERITY_COLORS: Record<AssessmentSeverity, string> = {
+  MINIMAL: '#10B981',
+  MILD: '#84CC16',
+  MODERATE: '#F59E0B',
+  MODERATELY_SEVERE: '#F97316',
+  SEVERE: '#EF4444',
+};
+
+export interface AssessmentScore {
+  score: number;
+  severity: AssessmentSeverity;
+  riskItems: number[];
+  flagged: boolean;
+}
+
+export function isAssessmentComplete(type: AssessmentType, answers: (number | null)[]): answers is number[] {
+  return (
+    answers.length === ASSESSMENTS[type].itemCount &&
+    answers.every((answer) => answer !== null && ASSESSMENT_RESPONSE_VALUES.includes(answer))
+  );
+}
+
+export function getSeverity(type: AssessmentType, score: number): AssessmentSeverity {
+  const band = ASSESSMENTS[type].bands.find((b) => score >= b.minScore);
+  return band?.severity ?? 'MINIMAL';
+}
+
+/**
+ * Total score, severity band and any high-risk items. Mirrors the scoring
+ * the server applies to submissions.
+ */
+export function scoreAssessment(type: AssessmentType, answers: number[]): AssessmentScore {
+  if (!isAssessmentComplete(type, answers)) {
+    throw new Error(`Incomplete ${type} answers`);
+  }
+
+  const score = answers.reduce((sum, answer) => sum + answer, 0);
+  const riskItems = ASSESSMENTS[type].riskItems.filter((item) => answers[item - 1] > 0);
+
+  return {
+    score,
+    severity: getSeverity(type, score),
+    riskItems,
+    flagged: riskItems.length > 0,
+  };
+}
+
+export type ScoreTrend = 'improved' | 'worsened' | 'stable';
+
+/**
+ * Change between the two most recent results of one type. Lower scores are
+ * better, and only a meaningful change counts as a trend.
+ */
+export function getScoreTrend(results: Pick<AssessmentResult, 'type' | 'score' | 'completedAt'>[]): {
+  change: number;
+  trend: ScoreTrend;
+} | null {
+  if (results.length < 2) return null;
+
+  const [previous, latest] = [...results]
+    .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+    .slice(-2);
+  const change = latest.score - previous.score;
+  const { meaningfulChange } = ASSESSMENTS[latest.type];
+
+  if (change <= -meaningfulChange) return { change, trend: 'improved' };
+  if (change >= meaningfulChange) return { change, trend: 'worsened' };
+  return { change, trend: 'stable' };
+}
@@ -0,0 +1,32 @@
+import api from './api';
+import type { AssessmentRequest, AssessmentResult } from '../types';
+
+export const assessmentsService = {
+  // Assessments the client still has to fill in before upcoming sessions
+  async getPending(): Promise<AssessmentRequest[]> {
+    const response = await api.get<AssessmentRequest[]>('/assessments/pending');
+    return response.data;
+  },
+
+  async getRequest(requestId: string): Promise<AssessmentRequest> {
+    const response = await api.get<AssessmentRequest>(`/assessments/requests/${requestId}`);
+    return response.data;
+  },
+
+  // The server scores the answers and alerts the therapist on flagged items
+  async submit(requestId: string, answers: number[]): Promise<AssessmentResult> {
+    const response = await api.post<AssessmentResult>(`/assessments/requests/${requestId}`, { answers });
+    return response.data;
+  },
+
+  async getMyResults(): Promise<AssessmentResult[]> {
+    const response = await api.get<AssessmentResult[]>('/assessments/results');
+    return response.data;
+  },
+
+  // The client's results, for the therapist assigned to this appointment
+  async getAppointmentResults(appointmentId: string): Promise<AssessmentResult[]> {
+    const response = await api.get<AssessmentResult[]>(`/appointments/${appointmentId}/assessments`);
+    return response.data;
+  },
+};
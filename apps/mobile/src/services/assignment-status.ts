@@ -0,0 +1,87 @@
+import { addDays, format, parseISO, set, subDays } from 'date-fns';
+import type { Ionicons } from '@expo/vector-icons';
+import type { Assignment, AssignmentType } from '../types';
+
+export const ASSIGNMENT_TYPES: { type: AssignmentType; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { type: 'WORKSHEET', icon: 'document-text-outline' },
+  { type: 'READING', icon: 'book-outline' },
+  { type: 'EXERCISE', icon: 'fitness-outline' },
+];
+
+// Due dates offered when assigning, in days after the session
+export const ASSIGNMENT_DUE_OPTIONS = [1, 3, 7, 14];
+
+// Hour of the local reminder, sent the day before the due date
+const REMINDER_HOUR = 9;
+
+export type AssignmentDueState = 'completed' | 'overdue' | 'dueToday' | 'upcoming' | 'noDueDate';
+
+export const DUE_STATE_COLORS: Record<AssignmentDueState, string> = {
+  completed: '#10B981',
+  overdue: '#EF4444',
+  dueToday: '#F59E0B',
+  upcoming: '#4F46E5',
+  noDueDate: '#6B7280',
+};
+
+export function getAssignmentIcon(type: AssignmentType) {
+  return ASSIGNMENT_TYPES.find((option) => option.type === type)?.icon ?? 'document-text-outline';
+}
+
+export function getDueDateAfter(days: number, from = new Date()): string {
+  return format(addDays(from, days), 'yyyy-MM-dd');
+}
+
+export function getAssignmentDueState(
+  assignment: Pick<Assignment, 'status' | 'dueDate'>,
+  now = new Date()
+): AssignmentDueState {
+  if (assignment.status === 'COMPLETED') return 'completed';
+  if (!assignment.dueDate) return 'noDueDate';
+
+  const today = format(now, 'yyyy-MM-dd');
+  if (assignment.dueDate < today) return 'overdue';
+  if (assignment.dueDate === today) return 'dueToday';
+  return 'upcoming';
+}
+
+/**
+ * Open assignments first, soonest due at the top and undated ones after
+ * them; completed ones last, most recently finished first.
+ */
+export function sortAssignments<T extends Pick<Assignment, 'status' | 'dueDate' | 'createdAt' | 'completedAt'>>(
+  assignments: T[]
+): T[] {
+  return [...assignments].sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'COMPLETED' ? 1 : -1;
+    if (a.status === 'COMPLETED') return (b.completedAt ?? '').localeCompare(a.completedAt ?? '');
+    if (a.dueDate !== b.dueDate) {
+      if (!a.dueDate) return 1;
+      if (!b.dueDate) return -1;
+      return a.dueDate.localeCompare(b.dueDate);
+    }
+    return a.createdAt.localeCompare(b.createdAt);
+  });
+}
+
+export function summarizeCompletion(assignments: Pick<Assignment, 'status' | 'dueDate'>[], now = new Date()) {
+  const completed = assignments.filter((assignment) => assignment.status === 'COMPLETED').length;
+  const overdue = assignments.filter((assignment) => getAssignmentDueState(assignment, now) === 'overdue').length;
+
+  return { total: assignments.length, completed, open: assignments.length - completed, overdue };
+}
+
+/**
+ * When to remind the client about an open assignment: the morning before it's
+ * due, or the morning of if that has passed. Null when there's nothing left
+ * to remind about.
+ */
+export function getAssignmentReminderAt(
+  assignment: Pick<Assignment, 'status' | 'dueDate'>,
+  now = new Date()
+): Date | null {
+  if (assignment.status === 'COMPLETED' || !assignment.dueDate) return null;
+
+  const dueMorning = set(parseISO(assignment.dueDate), { hours: REMINDER_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+  return [subDays(dueMorning, 1), dueMorning].find((at) => at > now) ?? null;
+}
@@ -0,0 +1,89 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from './api';
+import { pushNotificationService } from './push-notifications';
+import { getAssignmentReminderAt } from './assignment-status';
+import type { Assignment } from '../types';
+
+// Assignments with a reminder scheduled on this device
+const REMINDERS_STORAGE_KEY = '@hopefull_assignment_reminders';
+
+export type AssignmentInput = Pick<Assignment, 'type' | 'title' | 'instructions' | 'resourceUrl' | 'dueDate'>;
+
+async function getScheduledReminderIds(): Promise<string[]> {
+  const stored = await AsyncStorage.getItem(REMINDERS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export const assignmentsService = {
+  // Everything assigned to the current client, across therapists
+  async getMyAssignments(): Promise<Assignment[]> {
+    const response = await api.get<Assignment[]>('/assignments');
+    return response.data;
+  },
+
+  async getAssignment(id: string): Promise<Assignment> {
+    const response = await api.get<Assignment>(`/assignments/${id}`);
+    return response.data;
+  },
+
+  async getAppointmentAssignments(appointmentId: string): Promise<Assignment[]> {
+    const response = await api.get<Assignment[]>(`/appointments/${appointmentId}/assignments`);
+    return response.data;
+  },
+
+  // A client's assignments from every session with the current therapist
+  async getClientAssignments(userId: string): Promise<Assignment[]> {
+    const response = await api.get<Assignment[]>(`/therapists/me/clients/${userId}/assignments`);
+    return response.data;
+  },
+
+  async create(appointmentId: string, data: AssignmentInput): Promise<Assignment> {
+    const response = await api.post<Assignment>(`/appointments/${appointmentId}/assignments`, data);
+    return response.data;
+  },
+
+  async remove(id: string): Promise<void> {
+    await api.delete(`/assignments/${id}`);
+  },
+
+  async setCompleted(id: string, completed: boolean): Promise<Assignment> {
+    const response = await api.patch<Assignment>(`/assignments/${id}`, {
+      status: completed ? 'COMPLETED' : 'ASSIGNED',
+    });
+    return response.data;
+  },
+
+  async reply(id: string, body: string): Promise<Assignment> {
+    const response = await api.post<Assignment>(`/assignments/${id}/replies`, { body });
+    return response.data;
+  },
+
+  // Reminders are scheduled on the device, so they're kept in step with the list here
+  async syncReminders(
+    assignments: Assignment[],
+    getContent: (assignment: Assignment) => { title: string; body: string }
+  ): Promise<void> {
+    const listed = new Set(assignments.map((assignment) => assignment.id));
+    // Deleted by the therapist since the last sync
+    const removed = (await getScheduledReminderIds()).filter((id) => !listed.has(id));
+    const scheduled: string[] = [];
+
+    await Promise.all([
+      ...removed.map((id) => pushNotificationService.cancelAssignmentReminder(id)),
+      ...assignments.map((assignment) => {
+        const at = getAssignmentReminderAt(assignment);
+        if (!at) return pushNotificationService.cancelAssignmentReminder(assignment.id);
+        scheduled.push(assignment.id);
+        return pushNotificationService.scheduleAssignmentReminder(assignment.id, at, getContent(assignment));
+      }),
+    ]);
+    await AsyncStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(scheduled));
+  },
+
+  // Cancel every reminder scheduled on this device, e.g. on sign out
+  async clearReminders(): Promise<void> {
+    const ids = await getScheduledReminderIds();
+    await Promise.all(ids.map((id) => pushNotificationService.cancelAssignmentReminder(id)));
+    await AsyncStorage.removeItem(REMINDERS_STORAGE_KEY);
+  },
+};
@@ -0,0 +1,110 @@
+// Cap presets offered before dialing, in minutes at the therapist's rate
+export const SPENDING_CAP_MINUTES = [15, 30, 45, 60];
+
+// Warn both parties when this much talk time is left under the cap
+export const CAP_WARNING_SECONDS = 2 * 60;
+
+// Snapshot of the pre-authorisation, stored on the call document
+export interface CallBilling {
+  perMinuteRate: number; // cents
+  capAmount: number; // cents
+  paymentIntentId: string;
+  currency: string;
+}
+
+export interface CallChargeLineItem {
+  type: 'usage' | 'cap_adjustment';
+  quantity: number;
+  unitAmount: number; // cents
+  amount: number; // cents
+}
+
+export interface CallCharge {
+  billedSeconds: number;
+  billableMinutes: number;
+  lineItems: CallChargeLineItem[];
+  total: number; // cents
+  // Part of the authorisation that is released back to the caller
+  releasedAmount: number; // cents
+  currency: string;
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface CallMeterState {
+  billedSeconds: number;
+  cost: number; // cents
+  remainingSeconds: number;
+  isNearCap: boolean;
+  isCapReached: boolean;
+}
+
+// Every started minute is billed
+export function getBillableMinutes(seconds: number): number {
+  return Math.ceil(Math.max(0, seconds) / 60);
+}
+
+// Longest call the cap pays for
+export function getCapDurationSeconds(billing: Pick<CallBilling, 'perMinuteRate' | 'capAmount'>): number {
+  if (billing.perMinuteRate <= 0) return Infinity;
+  return Math.floor(billing.capAmount / billing.perMinuteRate) * 60;
+}
+
+export function getCapAmountForMinutes(minutes: number, perMinuteRate: number): number {
+  return minutes * perMinuteRate;
+}
+
+export function getCallMeterState(billedSeconds: number, billing: CallBilling): CallMeterState {
+  const seconds = Math.max(0, Math.floor(billedSeconds));
+  const cost = Math.min(getBillableMinutes(seconds) * billing.perMinuteRate, billing.capAmount);
+  const remainingSeconds = Math.max(0, getCapDurationSeconds(billing) - seconds);
+
+  return {
+    billedSeconds: seconds,
+    cost,
+    remainingSeconds,
+    isNearCap: remainingSeconds <= CAP_WARNING_SECONDS,
+    isCapReached: remainingSeconds === 0,
+  };
+}
+
+/**
+ * Itemised final charge for an answered call. Usage is billed per started
+ * minute and never exceeds the pre-authorised cap.
+ */
+export function buildCallCharge(billing: CallBilling, answeredAt: Date, endedAt: Date): CallCharge {
+  const billedSeconds = Math.max(0, Math.round((endedAt.getTime() - answeredAt.getTime()) / 1000));
+  const billableMinutes = getBillableMinutes(billedSeconds);
+  const usageAmount = billableMinutes * billing.perMinuteRate;
+
+  const lineItems: CallChargeLineItem[] = [
+    {
+      type: 'usage',
+      quantity: billableMinutes,
+      unitAmount: billing.perMinuteRate,
+      amount: usageAmount,
+    },
+  ];
+
+  if (usageAmount > billing.capAmount) {
+    lineItems.push({
+      type: 'cap_adjustment',
+      quantity: 1,
+      unitAmount: billing.capAmount - usageAmount,
+      amount: billing.capAmount - usageAmount,
+    });
+  }
+
+  const total = lineItems.reduce((sum, item) => sum + item.amount, 0);
+
+  return {
+    billedSeconds,
+    billableMinutes,
+    lineItems,
+    total,
+    releasedAmount: billing.capAmount - total,
+    currency: billing.currency,
+    startedAt: answeredAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+  };
+}
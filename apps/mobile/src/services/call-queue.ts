@@ -0,0 +1,87 @@
+import type { InstantCallTherapist } from '../types';
+import type { CallBilling } from './call-billing';
+import { DEFAULT_CURRENCY } from './currency';
+
+export type QueueEntryStatus = 'waiting' | 'matched' | 'cancelled' | 'expired';
+
+export interface CallQueueEntry {
+  id: string;
+  callerId: string;
+  language?: string;
+  specializations: string[];
+  // Therapists who could take this request when it joined the queue
+  therapistIds: string[];
+  // Calls ringing in the current fan-out round, empty between rounds
+  ringingCallIds: string[];
+  status: QueueEntryStatus;
+  // Earlier requests waiting for the same therapists, 0 means next up. Assigned
+  // by the server so clients never read each other's entries; a request without
+  // one is treated as next up.
+  position?: number;
+  createdAt: Date;
+  // Requests still waiting past this are expired
+  expiresAt: Date;
+  matchedCallId?: string;
+  matchedTherapistId?: string;
+  // Spending cap shared by every call rung for this request
+  billing?: CallBilling;
+}
+
+// How long a request may wait in the queue before giving up
+export const QUEUE_MAX_WAIT_MS = 10 * 60 * 1000;
+// Most therapists rung at once for a single request
+export const MAX_FAN_OUT = 5;
+// Pause between a round nobody answered and ringing again
+export const QUEUE_ROUND_DELAY_MS = 5000;
+// Typical time from ringing to an answer, used for wait estimates
+export const AVERAGE_MATCH_SECONDS = 60;
+
+export class CallAlreadyAnsweredError extends Error {
+  constructor(public readonly callId: string) {
+    super(`Call ${callId} was answered by another therapist`);
+    this.name = 'CallAlreadyAnsweredError';
+  }
+}
+
+/**
+ * Online therapists who can take the request: they must speak the language
+ * and, when the client named concerns, cover at least one of them. Closest
+ * specialization match first, then rating.
+ */
+export function getEligibleTherapists(
+  therapists: InstantCallTherapist[],
+  criteria: { language?: string; specializations: string[] }
+): InstantCallTherapist[] {
+  const language = criteria.language?.toLowerCase();
+  const overlap = (therapist: InstantCallTherapist) =>
+    therapist.specializations.filter((name) => criteria.specializations.includes(name)).length;
+
+  return therapists
+    .filter(
+      (therapist) =>
+        (!language || therapist.languages.some((l) => l.toLowerCase() === language)) &&
+        (!criteria.specializations.length || overlap(therapist) > 0)
+    )
+    .sort((a, b) => overlap(b) - overlap(a) || b.averageRating - a.averageRating);
+}
+
+export function getTherapistCurrency(therapist: Pick<InstantCallTherapist, 'currency'>): string {
+  return therapist.currency ?? DEFAULT_CURRENCY;
+}
+
+// A spending cap can only be captured in the currency it was held in
+export function getTherapistsInCurrency(
+  therapists: InstantCallTherapist[],
+  currency: string
+): InstantCallTherapist[] {
+  return therapists.filter((therapist) => getTherapistCurrency(therapist) === currency);
+}
+
+export function isQueueEntryExpired(entry: CallQueueEntry, now = Date.now()): boolean {
+  return entry.status === 'waiting' && entry.expiresAt.getTime() <= now;
+}
+
+// Each eligible therapist clears roughly one request per match cycle
+export function estimateWaitSeconds(position: number, therapistCount: number): number {
+  return Math.ceil((position + 1) / Math.max(therapistCount, 1)) * AVERAGE_MATCH_SECONDS;
+}
@@ -2,14 +2,36 @@ import firestore, {
   FirebaseFirestoreTypes,
 } from '@react-native-firebase/firestore';
 import { useAuthStore } from '@/store/auth';
+import {
+  CallStatus,
+  CallEndReason,
+  CALL_RING_TIMEOUT_MS,
+  END_REASONS_BY_STATUS,
+  RINGING_STATUSES,
+  assertTransition,
+  getCallDeadline,
+  isCallExpired,
+  isRingingStatus,
+  isTerminalStatus,
+} from './call-state-machine';
+import { CallBilling, CallCharge, buildCallCharge, getCapDurationSeconds } from './call-billing';
+import {
+  CallAlreadyAnsweredError,
+  CallQueueEntry,
+  QUEUE_MAX_WAIT_MS,
+  QueueEntryStatus,
+  getTherapistsInCurrency,
+} from './call-queue';
+import { paymentsService } from './payments';
+import type { InstantCallTherapist } from '@/types';
+
+export type { CallStatus, CallEndReason } from './call-state-machine';
 
 // Disable offline persistence to avoid queue issues
 firestore().settings({
   persistence: false,
 });
 
-export type CallStatus = 'pending' | 'ringing' | 'accepted' | 'declined' | 'ended' | 'missed' | 'cancelled';
-
 export interface ParticipantMediaState {
   videoEnabled: boolean;
   audioEnabled: boolean;
@@ -30,9 +52,21 @@ export interface CallDocument {
   status: CallStatus;
   type: 'instant' | 'scheduled';
   appointmentId?: string;
+  // Instant calls rung for a queued request
+  queueEntryId?: string;
   createdAt: Date;
+  // Ring deadline; unanswered calls past this are marked missed by whichever client sees them
+  expiresAt?: Date;
   answeredAt?: Date;
   endedAt?: Date;
+  endReason?: CallEndReason;
+  // User who made the last status change
+  updatedBy?: string;
+  // Instant calls: pre-authorised spending cap and, once ended, the final charge
+  billing?: CallBilling;
+  charge?: CallCharge;
+  // Set when a metered call is answered and cleared once its charge is captured
+  chargePending?: boolean;
   // Media state for each participant
   callerMedia?: ParticipantMediaState;
   receiverMedia?: ParticipantMediaState;
@@ -45,14 +79,144 @@ export interface CreateCallParams {
   therapistId: string;
   appointmentId?: string;
   type?: 'instant' | 'scheduled';
+  billing?: CallBilling;
+  queueEntryId?: string;
+}
+
+export interface JoinQueueParams {
+  therapistIds: string[];
+  language?: string;
+  specializations: string[];
+  billing?: CallBilling;
 }
 
 const CALLS_COLLECTION = 'calls';
+// Unanswered and unsettled calls checked per direction on each sweep
+const STALE_CALL_SWEEP_LIMIT = 20;
+export const CALL_HISTORY_PAGE_SIZE = 20;
+const CALL_QUEUE_COLLECTION = 'callQueue';
+
+// Firestore returns Timestamps for date fields even though CallDocument declares Date
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  return undefined;
+};
+
+const toCallDocument = (
+  doc: FirebaseFirestoreTypes.DocumentSnapshot
+): CallDocument => {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    ...data,
+    createdAt: toDate(data.createdAt),
+    expiresAt: toDate(data.expiresAt),
+    answeredAt: toDate(data.answeredAt),
+    endedAt: toDate(data.endedAt),
+  } as CallDocument;
+};
+
+// Answered metered calls run out of authorised minutes at this point
+const isPastSpendingCap = (call: CallDocument): boolean => {
+  if (!call.billing || !call.answeredAt) return false;
+  return call.answeredAt.getTime() + getCapDurationSeconds(call.billing) * 1000 < Date.now();
+};
+
+const toQueueEntry = (
+  doc: FirebaseFirestoreTypes.DocumentSnapshot
+): CallQueueEntry => {
+  const data = doc.data() || {};
+  return {
+    id: doc.id,
+    ...data,
+    // The server timestamp is still null in snapshots of our own pending write
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    expiresAt: toDate(data.expiresAt),
+  } as CallQueueEntry;
+};
+
+interface TransitionOptions {
+  endReason?: CallEndReason;
+  fields?: Record<string, any>;
+  // Re-checked inside the transaction; returning false skips the write
+  shouldApply?: (call: CallDocument) => boolean;
+}
 
 class CallSignalingService {
   private currentCallId: string | null = null;
   private callListener: (() => void) | null = null;
 
+  /**
+   * Move a call to a new status. Runs in a transaction so the current status
+   * is read and validated against the state machine before writing, and
+   * concurrent updates (e.g. accept vs. cancel) can't both win.
+   * Returns the updated call, or null when shouldApply declined the write.
+   */
+  private async transition(
+    callId: string,
+    to: CallStatus,
+    options: TransitionOptions = {}
+  ): Promise<CallDocument | null> {
+    const { endReason, fields = {}, shouldApply } = options;
+    const callRef = firestore().collection(CALLS_COLLECTION).doc(callId);
+
+    const result = await firestore().runTransaction(async (transaction) => {
+      const callDoc = await transaction.get(callRef);
+      if (!callDoc.exists) {
+        throw new Error(`Call ${callId} not found`);
+      }
+
+      const call = toCallDocument(callDoc);
+      if (shouldApply && !shouldApply(call)) {
+        return null;
+      }
+
+      const update = this.buildTransitionUpdate(call, to, endReason, fields);
+      transaction.update(callRef, update);
+      return { ...call, status: to, endReason: update.endReason } as CallDocument;
+    });
+
+    if (result && isTerminalStatus(to) && !result.answeredAt && !result.queueEntryId && result.billing) {
+      // Nothing to capture; a queued request's shared hold is released with the request
+      await this.releaseSpendingCap(result.billing);
+    }
+    return result;
+  }
+
+  /**
+   * Validate a status change against the state machine and build the write
+   * for it, for use inside a transaction.
+   */
+  private buildTransitionUpdate(
+    call: CallDocument,
+    to: CallStatus,
+    endReason?: CallEndReason,
+    fields: Record<string, any> = {}
+  ): Record<string, any> {
+    const allowedReasons = END_REASONS_BY_STATUS[to];
+    if (endReason && !allowedReasons?.includes(endReason)) {
+      throw new Error(`End reason ${endReason} is not valid for status ${to}`);
+    }
+    assertTransition(call.status, to);
+
+    const user = useAuthStore.getState().user;
+    const update: Record<string, any> = {
+      ...fields,
+      status: to,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    };
+    if (user) {
+      update.updatedBy = user.id;
+    }
+    if (isTerminalStatus(to)) {
+      update.endedAt = firestore.FieldValue.serverTimestamp();
+      update.endReason = endReason ?? allowedReasons?.[0];
+    }
+    return update;
+  }
+
   /**
    * Test Firestore connectivity - call this to diagnose issues
    */
@@ -94,9 +258,9 @@ class CallSignalingService {
   }
 
   /**
-   * Create a new call request
+   * Ids and Firestore data for a new call from the signed-in user
    */
-  async createCall(params: CreateCallParams): Promise<string> {
+  private buildCallData(params: CreateCallParams): { callId: string; callData: Record<string, any> } {
     const user = useAuthStore.getState().user;
     if (!user) {
       throw new Error('User not authenticated');
@@ -125,6 +289,7 @@ class CallSignalingService {
       status: 'pending',
       type: params.type || 'instant',
       createdAt: firestore.FieldValue.serverTimestamp(),
+      expiresAt: firestore.Timestamp.fromMillis(Date.now() + CALL_RING_TIMEOUT_MS),
     };
 
     // Only add optional fields if they have values
@@ -137,6 +302,21 @@ class CallSignalingService {
     if (params.appointmentId) {
       callData.appointmentId = params.appointmentId;
     }
+    if (params.billing) {
+      callData.billing = params.billing;
+    }
+    if (params.queueEntryId) {
+      callData.queueEntryId = params.queueEntryId;
+    }
+
+    return { callId, callData };
+  }
+
+  /**
+   * Create a new call request
+   */
+  async createCall(params: CreateCallParams): Promise<string> {
+    const { callId, callData } = this.buildCallData(params);
 
     console.log('Creating call with data:', JSON.stringify(callData, null, 2));
 
@@ -169,68 +349,166 @@ class CallSignalingService {
    * Update call status to ringing (when call is being shown to receiver)
    */
   async updateCallRinging(callId: string): Promise<void> {
-    await firestore()
-      .collection(CALLS_COLLECTION)
-      .doc(callId)
-      .update({
-        status: 'ringing',
-      });
+    await this.transition(callId, 'ringing', {
+      // Another device may already have answered or the caller hung up
+      shouldApply: (call) => call.status === 'pending',
+    });
+  }
+
+  /**
+   * Fields written when a call is answered. Metered calls are flagged until
+   * their charge is captured so a later sweep can retry a failed capture.
+   */
+  private buildAnswerFields(call: CallDocument | null): Record<string, any> {
+    const fields: Record<string, any> = { answeredAt: firestore.FieldValue.serverTimestamp() };
+    if (call?.billing) {
+      fields.chargePending = true;
+    }
+    return fields;
   }
 
   /**
-   * Accept a call
+   * Accept a call. Throws CallAlreadyAnsweredError when the call was rung for
+   * a queued request that another therapist has already taken.
    */
   async acceptCall(callId: string): Promise<CallDocument> {
-    const callRef = firestore().collection(CALLS_COLLECTION).doc(callId);
+    const call = await this.getCall(callId);
+    if (call?.queueEntryId) {
+      await this.acceptQueuedCall(callId, call.queueEntryId);
+    } else {
+      await this.transition(callId, 'accepted', { fields: this.buildAnswerFields(call) });
+    }
 
-    await callRef.update({
-      status: 'accepted',
-      answeredAt: firestore.FieldValue.serverTimestamp(),
-    });
+    const callDoc = await firestore().collection(CALLS_COLLECTION).doc(callId).get();
+    return toCallDocument(callDoc);
+  }
 
-    const callDoc = await callRef.get();
-    return { id: callDoc.id, ...callDoc.data() } as CallDocument;
+  /**
+   * Accept a call rung for a queued request. The request, this call and the
+   * other therapists' calls are written in one transaction, so only the first
+   * accept wins and the other ringing calls are cancelled with it.
+   */
+  private async acceptQueuedCall(callId: string, entryId: string): Promise<void> {
+    const entryRef = firestore().collection(CALL_QUEUE_COLLECTION).doc(entryId);
+    const callsRef = firestore().collection(CALLS_COLLECTION);
+
+    await firestore().runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists || toQueueEntry(entryDoc).status !== 'waiting') {
+        throw new CallAlreadyAnsweredError(callId);
+      }
+      const entry = toQueueEntry(entryDoc);
+
+      // Every read has to happen before the first write
+      const callDoc = await transaction.get(callsRef.doc(callId));
+      if (!callDoc.exists) {
+        throw new Error(`Call ${callId} not found`);
+      }
+      const call = toCallDocument(callDoc);
+      const others: CallDocument[] = [];
+      for (const otherId of entry.ringingCallIds.filter((id) => id !== callId)) {
+        const otherDoc = await transaction.get(callsRef.doc(otherId));
+        if (!otherDoc.exists) continue;
+        others.push(toCallDocument(otherDoc));
+      }
+
+      transaction.update(
+        callsRef.doc(callId),
+        this.buildTransitionUpdate(call, 'accepted', undefined, this.buildAnswerFields(call))
+      );
+      others
+        .filter((other) => isRingingStatus(other.status))
+        .forEach((other) => {
+          transaction.update(
+            callsRef.doc(other.id),
+            this.buildTransitionUpdate(other, 'cancelled', 'answered_elsewhere')
+          );
+        });
+      transaction.update(entryRef, {
+        status: 'matched',
+        matchedCallId: callId,
+        matchedTherapistId: call.therapistId,
+        ringingCallIds: [],
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      });
+    });
   }
 
   /**
    * Decline a call
    */
   async declineCall(callId: string): Promise<void> {
-    await firestore()
-      .collection(CALLS_COLLECTION)
-      .doc(callId)
-      .update({
-        status: 'declined',
-        endedAt: firestore.FieldValue.serverTimestamp(),
-      });
+    await this.transition(callId, 'declined', { endReason: 'declined' });
   }
 
   /**
    * Cancel an outgoing call
    */
   async cancelCall(callId: string): Promise<void> {
-    await firestore()
-      .collection(CALLS_COLLECTION)
-      .doc(callId)
-      .update({
-        status: 'cancelled',
-        endedAt: firestore.FieldValue.serverTimestamp(),
-      });
+    await this.transition(callId, 'cancelled', { endReason: 'caller_cancelled' });
     this.currentCallId = null;
   }
 
   /**
-   * End an ongoing call
+   * Cancel an outgoing call the caller walked away from. Does nothing once
+   * the call was answered or has already ended.
    */
-  async endCall(callId: string): Promise<void> {
-    await firestore()
-      .collection(CALLS_COLLECTION)
-      .doc(callId)
-      .update({
-        status: 'ended',
-        endedAt: firestore.FieldValue.serverTimestamp(),
-      });
+  async abandonCall(callId: string): Promise<void> {
+    await this.transition(callId, 'cancelled', {
+      endReason: 'caller_cancelled',
+      shouldApply: (call) => isRingingStatus(call.status),
+    });
+    this.currentCallId = null;
+  }
+
+  /**
+   * End an ongoing call. The reason defaults to a hang up by the current user.
+   */
+  async endCall(callId: string, reason?: CallEndReason): Promise<void> {
+    const user = useAuthStore.getState().user;
+    const call = await this.getCall(callId);
+    const endReason =
+      reason ?? (call && call.receiverId === user?.id ? 'receiver_hung_up' : 'caller_hung_up');
+
+    await this.transition(callId, 'ended', { endReason });
     this.currentCallId = null;
+
+    const endedCall = await this.getCall(callId);
+    if (endedCall?.billing && !endedCall.charge) {
+      await this.settleCharge(endedCall);
+    }
+  }
+
+  /**
+   * Capture the final charge for a metered call and record it on the call.
+   * Failures are logged rather than thrown; the call has already ended.
+   */
+  private async settleCharge(call: CallDocument): Promise<void> {
+    if (!call.billing || !call.answeredAt || !call.endedAt) return;
+
+    const charge = buildCallCharge(call.billing, call.answeredAt, call.endedAt);
+    try {
+      await paymentsService.captureCallCharge(call.billing.paymentIntentId, {
+        callId: call.id,
+        amount: charge.total,
+        lineItems: charge.lineItems,
+      });
+      await firestore().collection(CALLS_COLLECTION).doc(call.id).update({ charge, chargePending: false });
+    } catch (error) {
+      console.error('Failed to settle call charge:', call.id, error);
+    }
+  }
+
+  /**
+   * Release a spending cap that will never be captured. Failures are logged
+   * rather than thrown; the authorisation lapses on its own eventually.
+   */
+  async releaseSpendingCap(billing: CallBilling): Promise<void> {
+    try {
+      await paymentsService.releaseCallHold(billing.paymentIntentId);
+    } catch (error) {
+      console.error('Failed to release spending cap:', billing.paymentIntentId, error);
+    }
   }
 
   /**
@@ -266,14 +544,232 @@ class CallSignalingService {
    * Mark call as missed (no answer)
    */
   async markCallMissed(callId: string): Promise<void> {
-    await firestore()
+    await this.transition(callId, 'missed', { endReason: 'timeout' });
+    this.currentCallId = null;
+  }
+
+  /**
+   * Mark the call missed if it is still unanswered past its ring deadline.
+   * Safe to call from either party at any time; returns whether it expired the call.
+   */
+  async expireCall(callId: string): Promise<boolean> {
+    const result = await this.transition(callId, 'missed', {
+      endReason: 'timeout',
+      shouldApply: (call) => isCallExpired(call),
+    });
+    return result !== null;
+  }
+
+  /**
+   * Time out any of the user's calls left pending/ringing, e.g. because the
+   * caller's app was killed before the call was answered, and settle metered
+   * calls whose charge was never captured. Returns the number of calls timed out.
+   */
+  async expireStaleCalls(userId: string): Promise<number> {
+    const unanswered = firestore()
       .collection(CALLS_COLLECTION)
-      .doc(callId)
-      .update({
-        status: 'missed',
-        endedAt: firestore.FieldValue.serverTimestamp(),
+      .where('status', 'in', RINGING_STATUSES);
+    // Two equality queries instead of an OR query to avoid a composite index
+    const [outgoing, incoming] = await Promise.all([
+      unanswered.where('callerId', '==', userId).limit(STALE_CALL_SWEEP_LIMIT).get(),
+      unanswered.where('receiverId', '==', userId).limit(STALE_CALL_SWEEP_LIMIT).get(),
+    ]);
+
+    const staleCallIds = [...outgoing.docs, ...incoming.docs]
+      .map(toCallDocument)
+      .filter((call) => isCallExpired(call))
+      .map((call) => call.id);
+
+    let expired = 0;
+    for (const callId of new Set(staleCallIds)) {
+      try {
+        if (await this.expireCall(callId)) expired++;
+      } catch (error) {
+        console.error('Failed to expire call:', callId, error);
+      }
+    }
+
+    await this.settlePendingCharges(userId);
+    return expired;
+  }
+
+  /**
+   * Capture the charge for metered calls that ended without one, e.g. because
+   * the capture failed or the app was killed mid-call. A call still marked
+   * accepted past its spending cap can't be running anymore and is ended first.
+   */
+  private async settlePendingCharges(userId: string): Promise<void> {
+    const unsettled = firestore()
+      .collection(CALLS_COLLECTION)
+      .where('chargePending', '==', true);
+    const [outgoing, incoming] = await Promise.all([
+      unsettled.where('callerId', '==', userId).limit(STALE_CALL_SWEEP_LIMIT).get(),
+      unsettled.where('receiverId', '==', userId).limit(STALE_CALL_SWEEP_LIMIT).get(),
+    ]);
+
+    const calls = new Map(
+      [...outgoing.docs, ...incoming.docs].map((doc) => [doc.id, toCallDocument(doc)])
+    );
+    for (const call of calls.values()) {
+      try {
+        if (call.status === 'ended') {
+          await this.settleCharge(call);
+        } else if (call.status === 'accepted' && isPastSpendingCap(call)) {
+          await this.transition(call.id, 'ended', {
+            endReason: 'spending_cap_reached',
+            shouldApply: (current) => current.status === 'accepted',
+          });
+          const endedCall = await this.getCall(call.id);
+          if (endedCall) await this.settleCharge(endedCall);
+        }
+      } catch (error) {
+        console.error('Failed to settle call charge:', call.id, error);
+      }
+    }
+  }
+
+  /**
+   * Put an instant call request in the queue for the given therapists
+   */
+  async joinQueue(params: JoinQueueParams): Promise<string> {
+    const user = useAuthStore.getState().user;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const entryId = `queue-${user.id.slice(-8)}-${Date.now().toString(36)}`;
+    const entryData: Record<string, any> = {
+      callerId: user.id,
+      therapistIds: params.therapistIds,
+      specializations: params.specializations,
+      ringingCallIds: [],
+      status: 'waiting',
+      createdAt: firestore.FieldValue.serverTimestamp(),
+      expiresAt: firestore.Timestamp.fromMillis(Date.now() + QUEUE_MAX_WAIT_MS),
+    };
+    if (params.language) {
+      entryData.language = params.language;
+    }
+    if (params.billing) {
+      entryData.billing = params.billing;
+    }
+
+    await firestore().collection(CALL_QUEUE_COLLECTION).doc(entryId).set(entryData);
+    return entryId;
+  }
+
+  /**
+   * Ring several therapists at once for a queued request. Whoever accepts
+   * first takes the request; see acceptQueuedCall. The calls and the entry's
+   * ringingCallIds are written together, and only while the request is still
+   * waiting with no round ringing, so nothing rings for a request that was
+   * matched or left in the meantime. Therapists who charge in a different
+   * currency from the hold are left out. Returns no ids when the round was skipped.
+   */
+  async ringQueuedTherapists(
+    entryId: string,
+    therapists: InstantCallTherapist[],
+    billing?: CallBilling
+  ): Promise<string[]> {
+    const entryRef = firestore().collection(CALL_QUEUE_COLLECTION).doc(entryId);
+    const callsRef = firestore().collection(CALLS_COLLECTION);
+    const payable = billing ? getTherapistsInCurrency(therapists, billing.currency) : therapists;
+    if (payable.length === 0) return [];
+
+    return firestore().runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) return [];
+      const entry = toQueueEntry(entryDoc);
+      if (entry.status !== 'waiting' || entry.ringingCallIds.length > 0) return [];
+
+      const callIds = payable.map((therapist) => {
+        const { callId, callData } = this.buildCallData({
+          receiverId: therapist.userId,
+          receiverName: `${therapist.firstName} ${therapist.lastName}`,
+          receiverAvatar: therapist.avatarUrl,
+          therapistId: therapist.id,
+          type: 'instant',
+          billing: billing ? { ...billing, perMinuteRate: therapist.perMinuteRate } : undefined,
+          queueEntryId: entryId,
+        });
+        transaction.set(callsRef.doc(callId), callData);
+        return callId;
       });
+
+      transaction.update(entryRef, { ringingCallIds: callIds });
+      return callIds;
+    });
+  }
+
+  /**
+   * Clear a round of calls nobody answered so the request can be rung again
+   */
+  async finishQueueRound(entryId: string): Promise<void> {
+    const entryRef = firestore().collection(CALL_QUEUE_COLLECTION).doc(entryId);
+    await firestore().runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists || toQueueEntry(entryDoc).status !== 'waiting') return;
+      transaction.update(entryRef, { ringingCallIds: [] });
+    });
+  }
+
+  /**
+   * Take a request out of the queue, cancelling any calls still ringing for it
+   * and releasing its spending cap. Does nothing once the request has been matched.
+   */
+  async leaveQueue(
+    entryId: string,
+    status: Extract<QueueEntryStatus, 'cancelled' | 'expired'> = 'cancelled'
+  ): Promise<void> {
+    const entryRef = firestore().collection(CALL_QUEUE_COLLECTION).doc(entryId);
+    const callsRef = firestore().collection(CALLS_COLLECTION);
+
+    const left = await firestore().runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) return null;
+      const entry = toQueueEntry(entryDoc);
+      if (entry.status !== 'waiting') return null;
+
+      const ringing: CallDocument[] = [];
+      for (const callId of entry.ringingCallIds) {
+        const callDoc = await transaction.get(callsRef.doc(callId));
+        if (!callDoc.exists) continue;
+        const call = toCallDocument(callDoc);
+        if (isRingingStatus(call.status)) ringing.push(call);
+      }
+
+      ringing.forEach((call) => {
+        transaction.update(callsRef.doc(call.id), this.buildTransitionUpdate(call, 'cancelled', 'caller_cancelled'));
+      });
+      transaction.update(entryRef, {
+        status,
+        ringingCallIds: [],
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      });
+      return entry;
+    });
     this.currentCallId = null;
+
+    if (left?.billing) {
+      await this.releaseSpendingCap(left.billing);
+    }
+  }
+
+  /**
+   * Listen for changes to a queued request
+   */
+  subscribeToQueueEntry(
+    entryId: string,
+    onChange: (entry: CallQueueEntry) => void
+  ): () => void {
+    return firestore()
+      .collection(CALL_QUEUE_COLLECTION)
+      .doc(entryId)
+      .onSnapshot((doc: FirebaseFirestoreTypes.DocumentSnapshot) => {
+        // Skip snapshots from before the entry is written
+        if (!doc.exists) return;
+        onChange(toQueueEntry(doc));
+      });
   }
 
   /**
@@ -289,27 +785,86 @@ class CallSignalingService {
       return null;
     }
 
-    return { id: callDoc.id, ...callDoc.data() } as CallDocument;
+    return toCallDocument(callDoc);
+  }
+
+  /**
+   * A page of past and current calls the user made or received, newest
+   * first. Pass the createdAt of the oldest call loaded so far as `before`
+   * to get the next page.
+   */
+  async getCallHistory(
+    userId: string,
+    { limit = CALL_HISTORY_PAGE_SIZE, before }: { limit?: number; before?: Date } = {}
+  ): Promise<CallDocument[]> {
+    const callsRef = firestore().collection(CALLS_COLLECTION);
+    // One query per direction; each needs a (callerId|receiverId, createdAt desc) index
+    const page = (field: 'callerId' | 'receiverId') => {
+      let query = callsRef.where(field, '==', userId);
+      if (before) {
+        query = query.where('createdAt', '<', firestore.Timestamp.fromDate(before));
+      }
+      return query.orderBy('createdAt', 'desc').limit(limit).get();
+    };
+    const [outgoing, incoming] = await Promise.all([page('callerId'), page('receiverId')]);
+
+    // The newest `limit` of the merged results; anything older is on the next page
+    const calls = new Map<string, CallDocument>();
+    [...outgoing.docs, ...incoming.docs].forEach((doc) => {
+      calls.set(doc.id, toCallDocument(doc));
+    });
+
+    return [...calls.values()]
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
   }
 
   /**
-   * Listen for call status changes (for caller)
+   * Listen for call status changes. While the call is unanswered, this also
+   * enforces the ring timeout so it doesn't depend on the caller's screen.
    */
   subscribeToCall(
     callId: string,
     onStatusChange: (call: CallDocument) => void
   ): () => void {
+    let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearTimeoutTimer = () => {
+      if (timeoutTimer) {
+        clearTimeout(timeoutTimer);
+        timeoutTimer = null;
+      }
+    };
+
+    const scheduleExpiry = (call: CallDocument) => {
+      clearTimeoutTimer();
+      if (!isRingingStatus(call.status)) return;
+
+      const deadline = getCallDeadline(call);
+      if (deadline === null) return;
+
+      timeoutTimer = setTimeout(() => {
+        this.expireCall(callId).catch((error) => {
+          console.error('Failed to expire call:', error);
+        });
+      }, Math.max(deadline - Date.now(), 0));
+    };
+
     const unsubscribe = firestore()
       .collection(CALLS_COLLECTION)
       .doc(callId)
       .onSnapshot((doc: FirebaseFirestoreTypes.DocumentSnapshot) => {
         if (doc.exists) {
-          const call = { id: doc.id, ...doc.data() } as CallDocument;
+          const call = toCallDocument(doc);
+          scheduleExpiry(call);
           onStatusChange(call);
         }
       });
 
-    return unsubscribe;
+    return () => {
+      clearTimeoutTimer();
+      unsubscribe();
+    };
   }
 
   /**
@@ -347,9 +902,14 @@ class CallSignalingService {
             // 'modified' events (pending→ringing, ringing→accepted, etc.) are status
             // updates on existing calls and must not re-trigger navigation.
             if (change.type === 'added') {
-              const call = { id: change.doc.id, ...change.doc.data() } as CallDocument;
+              const call = toCallDocument(change.doc);
               console.log('Incoming call:', call.id, 'status:', call.status);
-              if (call.status === 'pending' || call.status === 'ringing') {
+              if (isCallExpired(call)) {
+                // Caller gave up long ago (or their app was killed); don't ring
+                this.expireCall(call.id).catch((error) => {
+                  console.error('Failed to expire call:', error);
+                });
+              } else if (isRingingStatus(call.status)) {
                 onIncomingCall(call);
               }
             }
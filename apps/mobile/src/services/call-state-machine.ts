@@ -0,0 +1,96 @@
+export type CallStatus = 'pending' | 'ringing' | 'accepted' | 'declined' | 'ended' | 'missed' | 'cancelled';
+
+export type CallEndReason =
+  | 'caller_cancelled'
+  | 'answered_elsewhere'
+  | 'declined'
+  | 'timeout'
+  | 'caller_hung_up'
+  | 'receiver_hung_up'
+  | 'connection_lost'
+  | 'spending_cap_reached';
+
+// How long a call may stay pending/ringing before it counts as missed
+export const CALL_RING_TIMEOUT_MS = 60 * 1000;
+
+// Allowed next states for each status. Terminal statuses have none.
+export const CALL_TRANSITIONS: Record<CallStatus, readonly CallStatus[]> = {
+  pending: ['ringing', 'accepted', 'declined', 'cancelled', 'missed'],
+  ringing: ['accepted', 'declined', 'cancelled', 'missed'],
+  accepted: ['ended'],
+  declined: [],
+  ended: [],
+  missed: [],
+  cancelled: [],
+};
+
+// End reasons that are valid for each terminal status
+export const END_REASONS_BY_STATUS: Partial<Record<CallStatus, readonly CallEndReason[]>> = {
+  declined: ['declined'],
+  // answered_elsewhere: a queued request another therapist picked up first
+  cancelled: ['caller_cancelled', 'answered_elsewhere'],
+  missed: ['timeout'],
+  ended: ['caller_hung_up', 'receiver_hung_up', 'connection_lost', 'spending_cap_reached'],
+};
+
+export class InvalidCallTransitionError extends Error {
+  constructor(
+    public readonly from: CallStatus,
+    public readonly to: CallStatus
+  ) {
+    super(`Invalid call transition: ${from} -> ${to}`);
+    this.name = 'InvalidCallTransitionError';
+  }
+}
+
+export function canTransition(from: CallStatus, to: CallStatus): boolean {
+  return CALL_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function assertTransition(from: CallStatus, to: CallStatus): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidCallTransitionError(from, to);
+  }
+}
+
+export function isTerminalStatus(status: CallStatus): boolean {
+  return CALL_TRANSITIONS[status].length === 0;
+}
+
+// Calls still waiting to be answered
+export const RINGING_STATUSES: readonly CallStatus[] = ['pending', 'ringing'];
+
+export function isRingingStatus(status: CallStatus): boolean {
+  return RINGING_STATUSES.includes(status);
+}
+
+/**
+ * Ring deadline for a call, in epoch ms. Falls back to createdAt for calls
+ * created before expiresAt was written.
+ */
+export function getCallDeadline(call: { expiresAt?: Date; createdAt?: Date }): number | null {
+  if (call.expiresAt) return call.expiresAt.getTime();
+  if (call.createdAt) return call.createdAt.getTime() + CALL_RING_TIMEOUT_MS;
+  return null;
+}
+
+/**
+ * Whether an unanswered call has passed its ring deadline.
+ */
+export function isCallExpired(
+  call: { status: CallStatus; expiresAt?: Date; createdAt?: Date },
+  now: number = Date.now()
+): boolean {
+  if (!isRingingStatus(call.status)) return false;
+
+  const deadline = getCallDeadline(call);
+  return deadline !== null && now >= deadline;
+}
+
+/**
+ * Talk time in seconds, or null for calls that were never answered.
+ */
+export function getCallDurationSeconds(call: { answeredAt?: Date; endedAt?: Date }): number | null {
+  if (!call.answeredAt || !call.endedAt) return null;
+  return Math.max(0, Math.round((call.endedAt.getTime() - call.answeredAt.getTime()) / 1000));
+}
@@ -0,0 +1,66 @@
+import {
+  CANCELLATION_POLICY_PRESETS,
+  DEFAULT_CANCELLATION_POLICY_PRESET,
+} from '@hopefull/types';
+import type {
+  CancellationActor,
+  CancellationEvaluation,
+  CancellationPolicy,
+  CancellationPolicyPreset,
+  CancellationReason,
+} from '@hopefull/types';
+import type { Appointment, Therapist } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getCancellationPolicy(preset?: CancellationPolicyPreset | null): CancellationPolicy {
+  return CANCELLATION_POLICY_PRESETS[preset ?? DEFAULT_CANCELLATION_POLICY_PRESET];
+}
+
+export interface CancellationInput {
+  appointment: Pick<Appointment, 'scheduledAt' | 'amount'> & {
+    therapist?: Pick<Therapist, 'cancellationPolicy'>;
+  };
+  actor: CancellationActor;
+  now?: Date | number;
+  // Defaults to the therapist's preset
+  policy?: CancellationPolicy;
+}
+
+/**
+ * Refund owed if the appointment is cancelled by `actor` at `now`.
+ *
+ * Timing is measured between absolute instants, so the device timezone,
+ * the appointment timezone and DST changes in between don't shift tiers:
+ * "24 hours before" is always 24 elapsed hours.
+ */
+export function evaluateCancellation({
+  appointment,
+  actor,
+  now = Date.now(),
+  policy = getCancellationPolicy(appointment.therapist?.cancellationPolicy),
+}: CancellationInput): CancellationEvaluation {
+  const nowMs = typeof now === 'number' ? now : now.getTime();
+  const hoursBefore = (new Date(appointment.scheduledAt).getTime() - nowMs) / HOUR_MS;
+
+  let reason: CancellationReason;
+
+  if (actor === 'THERAPIST') {
+    // Clients are never out of pocket for a therapist's cancellation
+    reason = { code: 'THERAPIST_CANCELLED', refundPercent: 100 };
+  } else if (actor === 'SYSTEM') {
+    reason = { code: 'SYSTEM_CANCELLED', refundPercent: 100 };
+  } else if (hoursBefore <= 0) {
+    reason = { code: 'SESSION_STARTED', refundPercent: 0 };
+  } else {
+    const tier = policy.tiers.find((t) => hoursBefore > t.minHoursBefore);
+    reason = { code: 'REFUND_TIER', refundPercent: tier?.refundPercent ?? 0, tier };
+  }
+
+  return {
+    refundPercent: reason.refundPercent,
+    refundAmount: Math.floor((appointment.amount * reason.refundPercent) / 100),
+    hoursBefore,
+    reasons: [reason],
+  };
+}
@@ -0,0 +1,175 @@
+export interface CrisisResource {
+  id: string;
+  name: string;
+  phone?: string;
+  sms?: { number: string; body?: string };
+  url?: string;
+  languages: string[]; // ISO 639-1, as in User.preferredLanguage
+}
+
+interface CountryCrisisResources {
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
+
+// Directory of helplines worldwide, shown everywhere as the last resort
+const FIND_A_HELPLINE: CrisisResource = {
+  id: 'find-a-helpline',
+  name: 'Find A Helpline',
+  url: 'https://findahelpline.com',
+  languages: ['en', 'es', 'vi', 'ar'],
+};
+
+// Keyed by ISO 3166-1 alpha-2 country code. Every service listed is free
+// and open 24/7; only add numbers confirmed on the provider's own site.
+export const CRISIS_RESOURCES: Record<string, CountryCrisisResources> = {
+  US: {
+    emergencyNumber: '911',
+    resources: [
+      {
+        id: 'us-988',
+        name: '988 Suicide & Crisis Lifeline',
+        phone: '988',
+        sms: { number: '988' },
+        url: 'https://988lifeline.org',
+        languages: ['en', 'es'],
+      },
+      {
+        id: 'us-crisis-text-line',
+        name: 'Crisis Text Line',
+        sms: { number: '741741', body: 'HOME' },
+        languages: ['en', 'es'],
+      },
+    ],
+  },
+  CA: {
+    emergencyNumber: '911',
+    resources: [
+      {
+        id: 'ca-988',
+        name: '9-8-8 Suicide Crisis Helpline',
+        phone: '988',
+        sms: { number: '988' },
+        url: 'https://988.ca',
+        languages: ['en', 'fr'],
+      },
+    ],
+  },
+  GB: {
+    emergencyNumber: '999',
+    resources: [
+      {
+        id: 'gb-samaritans',
+        name: 'Samaritans',
+        phone: '116123',
+        url: 'https://www.samaritans.org',
+        languages: ['en'],
+      },
+      {
+        id: 'gb-shout',
+        name: 'Shout',
+        sms: { number: '85258', body: 'SHOUT' },
+        languages: ['en'],
+      },
+    ],
+  },
+  IE: {
+    emergencyNumber: '112',
+    resources: [
+      {
+        id: 'ie-samaritans',
+        name: 'Samaritans Ireland',
+        phone: '116123',
+        url: 'https://www.samaritans.org',
+        languages: ['en'],
+      },
+    ],
+  },
+  AU: {
+    emergencyNumber: '000',
+    resources: [
+      {
+        id: 'au-lifeline',
+        name: 'Lifeline Australia',
+        phone: '131114',
+        url: 'https://www.lifeline.org.au',
+        languages: ['en'],
+      },
+    ],
+  },
+  ES: {
+    emergencyNumber: '112',
+    resources: [
+      {
+        id: 'es-024',
+        name: 'Línea 024',
+        phone: '024',
+        languages: ['es'],
+      },
+    ],
+  },
+  MX: {
+    emergencyNumber: '911',
+    resources: [
+      {
+        id: 'mx-linea-de-la-vida',
+        name: 'Línea de la Vida',
+        phone: '8009112000',
+        languages: ['es'],
+      },
+    ],
+  },
+  VN: {
+    // Ambulance; police is 113
+    emergencyNumber: '115',
+    resources: [
+      {
+        id: 'vn-111',
+        name: 'Tổng đài Quốc gia Bảo vệ Trẻ em 111',
+        phone: '111',
+        url: 'https://tongdai111.vn',
+        languages: ['vi'],
+      },
+    ],
+  },
+};
+
+export interface CrisisResourceList {
+  country: string | null;
+  // Null when we don't know the local number; the UI says so instead
+  emergencyNumber: string | null;
+  resources: CrisisResource[];
+}
+
+/**
+ * Helplines for a country with the ones in the user's language first.
+ * Unknown countries only get the worldwide directory.
+ */
+export function getCrisisResources(country?: string | null, language?: string | null): CrisisResourceList {
+  const code = country?.toUpperCase() ?? null;
+  const local = code ? CRISIS_RESOURCES[code] : undefined;
+  const lang = language?.split(/[-_]/)[0].toLowerCase();
+
+  const resources = [...(local?.resources ?? []), FIND_A_HELPLINE];
+  const speaksLanguage = (resource: CrisisResource) => (lang && resource.languages.includes(lang) ? 0 : 1);
+
+  return {
+    country: local ? code : null,
+    emergencyNumber: local?.emergencyNumber ?? null,
+    // Stable sort keeps the curated order within each group
+    resources: resources.sort((a, b) => speaksLanguage(a) - speaksLanguage(b)),
+  };
+}
+
+// Region part of a locale such as en_US or es-MX
+export function getRegionFromLocale(locale?: string | null): string | null {
+  const region = locale?.split(/[-_@]/)[1];
+  return region && /^[A-Za-z]{2}$/.test(region) ? region.toUpperCase() : null;
+}
+
+export function buildSmsUrl(sms: NonNullable<CrisisResource['sms']>, os: string): string {
+  if (!sms.body) return `sms:${sms.number}`;
+  // iOS takes the body after '&', Android as a query string
+  const separator = os === 'ios' ? '&' : '?';
+  return `sms:${sms.number}${separator}body=${encodeURIComponent(sms.body)}`;
+}
@@ -0,0 +1,117 @@
+import type { ExchangeRates } from '../types';
+
+// Currencies therapists can price in and clients can display prices in
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'MXN', 'VND'] as const;
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+// Used when the client hasn't picked a display currency
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+  US: 'USD',
+  GB: 'GBP',
+  ES: 'EUR',
+  FR: 'EUR',
+  DE: 'EUR',
+  MX: 'MXN',
+  VN: 'VND',
+};
+
+const LANGUAGE_CURRENCIES: Record<string, CurrencyCode> = {
+  es: 'EUR',
+  vi: 'VND',
+};
+
+export function isSupportedCurrency(currency: string | undefined | null): currency is CurrencyCode {
+  return !!currency && (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * The client's chosen display currency, else one guessed from their country,
+ * then their app language.
+ */
+export function getDisplayCurrency(user: {
+  displayCurrency?: string;
+  country?: string;
+  preferredLanguage?: string;
+} | null, appLanguage?: string): CurrencyCode {
+  const chosen = user?.displayCurrency;
+  if (isSupportedCurrency(chosen)) return chosen;
+
+  const byCountry = user?.country ? COUNTRY_CURRENCIES[user.country.toUpperCase()] : undefined;
+  if (byCountry) return byCountry;
+
+  const language = (user?.preferredLanguage ?? appLanguage)?.split('-')[0];
+  return (language && LANGUAGE_CURRENCIES[language]) || DEFAULT_CURRENCY;
+}
+
+/**
+ * Digits after the decimal point, so amounts can be kept in minor units:
+ * 2 for USD (cents), 0 for VND.
+ */
+export function getCurrencyFractionDigits(currency: string): number {
+  try {
+    return (
+      new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions()
+        .maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
+
+// Amount typed by a therapist ("85", "85.50", "85,50") in minor units, null when invalid
+export function parseAmount(text: string, currency: string): number | null {
+  const normalized = text.trim().replace(',', '.');
+  if (!/^\d+(\.\d+)?$/.test(normalized)) return null;
+  return Math.round(Number(normalized) * 10 ** getCurrencyFractionDigits(currency));
+}
+
+// Minor units back to the plain number shown in a rate input
+export function formatAmountForInput(amount: number, currency: string): string {
+  const digits = getCurrencyFractionDigits(currency);
+  return (amount / 10 ** digits).toFixed(digits);
+}
+
+// How many units of `to` one unit of `from` buys, null without a rate for either
+export function getExchangeRate(from: string, to: string, rates: ExchangeRates | undefined): number | null {
+  if (from === to) return 1;
+  if (!rates) return null;
+
+  const perBase = (currency: string) => (currency === rates.base ? 1 : rates.rates[currency]);
+  const fromRate = perBase(from);
+  const toRate = perBase(to);
+  if (!fromRate || !toRate) return null;
+
+  return toRate / fromRate;
+}
+
+/**
+ * Convert an amount in `from` minor units to `to` minor units, rounded to
+ * the nearest whole minor unit. Null when the rate is unknown.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates | undefined
+): number | null {
+  const rate = getExchangeRate(from, to, rates);
+  if (rate === null) return null;
+  if (from === to) return amount;
+
+  const major = amount / 10 ** getCurrencyFractionDigits(from);
+  return Math.round(major * rate * 10 ** getCurrencyFractionDigits(to));
+}
+
+// Totals per currency, amounts in different currencies can't be added up
+export function sumByCurrency(
+  items: { amount: number; currency?: string }[]
+): { currency: string; amount: number }[] {
+  const totals = new Map<string, number>();
+  items.forEach((item) => {
+    const currency = item.currency ?? DEFAULT_CURRENCY;
+    totals.set(currency, (totals.get(currency) ?? 0) + item.amount);
+  });
+  return Array.from(totals, ([currency, amount]) => ({ currency, amount }));
+}
@@ -0,0 +1,53 @@
+import api from './api';
+import type { FavoriteTherapist } from '../types';
+
+export type CareTeamStatus =
+  | { kind: 'online' }
+  | { kind: 'next'; at: string }
+  | { kind: 'unavailable' };
+
+export function getCareTeamStatus(member: FavoriteTherapist, now = Date.now()): CareTeamStatus {
+  if (member.therapist.isOnline) return { kind: 'online' };
+  if (member.nextAvailableAt && new Date(member.nextAvailableAt).getTime() > now) {
+    return { kind: 'next', at: member.nextAvailableAt };
+  }
+  return { kind: 'unavailable' };
+}
+
+/**
+ * Who to show first on the home tab: therapists online now, then whoever has
+ * the soonest opening, then the rest in the order they were saved.
+ */
+export function sortCareTeam(members: FavoriteTherapist[], now = Date.now()): FavoriteTherapist[] {
+  const rank = (member: FavoriteTherapist) => {
+    const status = getCareTeamStatus(member, now);
+    if (status.kind === 'online') return -Infinity;
+    if (status.kind === 'next') return new Date(status.at).getTime();
+    return Infinity;
+  };
+
+  return [...members].sort((a, b) => rank(a) - rank(b) || a.createdAt.localeCompare(b.createdAt));
+}
+
+export const favoritesService = {
+  async getCareTeam(): Promise<FavoriteTherapist[]> {
+    const response = await api.get<FavoriteTherapist[]>('/users/me/favorites');
+    return response.data;
+  },
+
+  async add(therapistId: string): Promise<FavoriteTherapist> {
+    const response = await api.put<FavoriteTherapist>(`/users/me/favorites/${therapistId}`);
+    return response.data;
+  },
+
+  async remove(therapistId: string): Promise<void> {
+    await api.delete(`/users/me/favorites/${therapistId}`);
+  },
+
+  async setNotifyWhenOnline(therapistId: string, notifyWhenOnline: boolean): Promise<FavoriteTherapist> {
+    const response = await api.patch<FavoriteTherapist>(`/users/me/favorites/${therapistId}`, {
+      notifyWhenOnline,
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,132 @@
+import { isValid, parse } from 'date-fns';
+import type {
+  IntakeAnswerValue,
+  IntakeCondition,
+  IntakeQuestion,
+} from '../types';
+
+export type IntakeAnswers = Record<string, IntakeAnswerValue>;
+
+export type IntakeAnswerIssue = 'required' | 'invalidOption' | 'outOfRange' | 'invalidDate';
+
+export function isAnswerEmpty(value: IntakeAnswerValue | undefined): boolean {
+  if (value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function matchesCondition(condition: IntakeCondition, value: IntakeAnswerValue | undefined): boolean {
+  // Unanswered questions never reveal follow-ups
+  if (isAnswerEmpty(value)) return false;
+
+  switch (condition.operator) {
+    case 'EQUALS':
+      return value === condition.value;
+    case 'NOT_EQUALS':
+      return value !== condition.value;
+    case 'INCLUDES':
+      return Array.isArray(value) && value.includes(String(condition.value));
+    case 'AT_LEAST':
+      return typeof value === 'number' && value >= Number(condition.value);
+    case 'AT_MOST':
+      return typeof value === 'number' && value <= Number(condition.value);
+  }
+}
+
+/**
+ * Questions the client should see, in order. A condition only looks at
+ * answers to questions that are themselves visible, so hiding a question
+ * also hides everything that depends on it.
+ */
+export function getVisibleQuestions(questions: IntakeQuestion[], answers: IntakeAnswers): IntakeQuestion[] {
+  const visible = new Set<string>();
+
+  return questions.filter((question) => {
+    const condition = question.showIf;
+    const isVisible =
+      !condition ||
+      (visible.has(condition.questionId) && matchesCondition(condition, answers[condition.questionId]));
+
+    if (isVisible) visible.add(question.id);
+    return isVisible;
+  });
+}
+
+function validateAnswer(question: IntakeQuestion, value: IntakeAnswerValue | undefined): IntakeAnswerIssue | null {
+  if (isAnswerEmpty(value)) {
+    return question.required ? 'required' : null;
+  }
+
+  switch (question.type) {
+    case 'TEXT':
+      return typeof value === 'string' ? null : 'required';
+    case 'SINGLE_CHOICE':
+      return question.options.some((o) => o.value === value) ? null : 'invalidOption';
+    case 'MULTI_CHOICE':
+      return Array.isArray(value) && value.every((v) => question.options.some((o) => o.value === v))
+        ? null
+        : 'invalidOption';
+    case 'SCALE':
+      return typeof value === 'number' && value >= question.min && value <= question.max
+        ? null
+        : 'outOfRange';
+    case 'DATE':
+      return typeof value === 'string' &&
+        /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        isValid(parse(value, 'yyyy-MM-dd', new Date()))
+        ? null
+        : 'invalidDate';
+  }
+}
+
+/**
+ * Problems with the visible answers, keyed by question id. Empty when the
+ * form can be submitted.
+ */
+export function validateIntakeAnswers(
+  questions: IntakeQuestion[],
+  answers: IntakeAnswers
+): Record<string, IntakeAnswerIssue> {
+  const issues: Record<string, IntakeAnswerIssue> = {};
+
+  for (const question of getVisibleQuestions(questions, answers)) {
+    const issue = validateAnswer(question, answers[question.id]);
+    if (issue) issues[question.id] = issue;
+  }
+
+  return issues;
+}
+
+/**
+ * Answers to submit: only visible, non-empty ones, so a branch the client
+ * backed out of doesn't leave stale answers behind.
+ */
+export function pruneIntakeAnswers(questions: IntakeQuestion[], answers: IntakeAnswers): IntakeAnswers {
+  const pruned: IntakeAnswers = {};
+
+  for (const question of getVisibleQuestions(questions, answers)) {
+    const value = answers[question.id];
+    if (!isAnswerEmpty(value)) pruned[question.id] = value;
+  }
+
+  return pruned;
+}
+
+/**
+ * Human-readable answer for the therapist's view.
+ */
+export function formatIntakeAnswer(question: IntakeQuestion, value: IntakeAnswerValue): string {
+  switch (question.type) {
+    case 'SINGLE_CHOICE':
+      return question.options.find((o) => o.value === value)?.label ?? String(value);
+    case 'MULTI_CHOICE':
+      return (Array.isArray(value) ? value : [String(value)])
+        .map((v) => question.options.find((o) => o.value === v)?.label ?? v)
+        .join(', ');
+    case 'SCALE':
+      return `${value} / ${question.max}`;
+    default:
+      return String(value);
+  }
+}
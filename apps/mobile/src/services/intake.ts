@@ -0,0 +1,21 @@
+import api from './api';
+import type { IntakeResponse, IntakeTemplate } from '../types';
+import type { IntakeAnswers } from './intake-form';
+
+export const intakeService = {
+  // The therapist's own templates plus the built-in ones
+  async getTemplates(): Promise<IntakeTemplate[]> {
+    const response = await api.get<IntakeTemplate[]>('/intake/templates');
+    return response.data;
+  },
+
+  async getAppointmentIntake(appointmentId: string): Promise<IntakeResponse> {
+    const response = await api.get<IntakeResponse>(`/appointments/${appointmentId}/intake`);
+    return response.data;
+  },
+
+  async submit(appointmentId: string, answers: IntakeAnswers): Promise<IntakeResponse> {
+    const response = await api.post<IntakeResponse>(`/appointments/${appointmentId}/intake`, { answers });
+    return response.data;
+  },
+};
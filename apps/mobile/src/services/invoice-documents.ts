@@ -0,0 +1,296 @@
+import { getCurrencyFractionDigits, sumByCurrency } from './currency';
+import { getPaymentStatus, getRefundSummary } from './refunds';
+import type { Appointment, Payment, Therapist, User } from '../types';
+
+// Every session is held over video
+export const PLACE_OF_SERVICE_TELEHEALTH = '02';
+
+// Psychotherapy codes by session length, using the CMS time ranges
+const CPT_BY_MINUTES = [
+  { minMinutes: 53, code: '90837' },
+  { minMinutes: 38, code: '90834' },
+  { minMinutes: 0, code: '90832' },
+];
+
+export interface DocumentOptions {
+  client: Pick<User, 'firstName' | 'lastName' | 'email'>;
+  issuedAt: Date;
+  // Dates are printed in this zone so they match what the client saw in the app
+  timeZone: string;
+}
+
+export interface SuperbillOptions extends DocumentOptions {
+  from: Date;
+  to: Date;
+}
+
+export type BillablePayment = Payment & { appointment: Appointment };
+
+export function getCptCode(appointment: Pick<Appointment, 'duration' | 'cptCode'>): string {
+  if (appointment.cptCode) return appointment.cptCode;
+  return CPT_BY_MINUTES.find((entry) => appointment.duration >= entry.minMinutes)!.code;
+}
+
+export function getInvoiceNumber(payment: Pick<Payment, 'id' | 'createdAt'>): string {
+  const year = payment.createdAt.slice(0, 4);
+  return `INV-${year}-${payment.id.slice(-8).toUpperCase()}`;
+}
+
+// What the client ended up paying once refunds were sent back
+export function getPaidAmount(payment: Payment): number {
+  return payment.amount - getRefundSummary(payment).refunded;
+}
+
+export function isBillable(payment: Payment): payment is BillablePayment {
+  const status = getPaymentStatus(payment);
+  return !!payment.appointment && (status === 'SUCCESS' || status === 'PARTIALLY_REFUNDED');
+}
+
+/**
+ * Paid sessions held between the two dates, oldest first. Fully refunded
+ * sessions are left out since there is nothing to claim.
+ */
+export function getSuperbillPayments(payments: Payment[], from: Date, to: Date): BillablePayment[] {
+  return payments
+    .filter(isBillable)
+    .filter((payment) => {
+      const time = new Date(payment.appointment.scheduledAt).getTime();
+      return time >= from.getTime() && time <= to.getTime();
+    })
+    .sort((a, b) => a.appointment.scheduledAt.localeCompare(b.appointment.scheduledAt));
+}
+
+/**
+ * What an insurer is likely to reject the superbill for: therapists without
+ * a license on file and sessions without a diagnosis.
+ */
+export function getSuperbillGaps(payments: BillablePayment[]): {
+  therapistsWithoutLicense: string[];
+  sessionsWithoutDiagnosis: number;
+} {
+  const therapistsWithoutLicense = new Set<string>();
+  let sessionsWithoutDiagnosis = 0;
+
+  for (const { appointment } of payments) {
+    if (appointment.therapist && !appointment.therapist.billing?.licenseNumber) {
+      therapistsWithoutLicense.add(getTherapistName(appointment.therapist));
+    }
+    if (!appointment.diagnosisCodes?.length) sessionsWithoutDiagnosis++;
+  }
+
+  return { therapistsWithoutLicense: [...therapistsWithoutLicense], sessionsWithoutDiagnosis };
+}
+
+export function buildInvoiceHtml(payment: BillablePayment, options: DocumentOptions): string {
+  const { appointment } = payment;
+  const { refunded } = getRefundSummary(payment);
+  const status = getPaymentStatus(payment);
+
+  return renderDocument(
+    `Invoice ${getInvoiceNumber(payment)}`,
+    `
+    <header>
+      <div>
+        <h1>Invoice</h1>
+        <p class="muted">${escapeHtml(getInvoiceNumber(payment))}</p>
+      </div>
+      <div class="right">
+        <p><strong>Hopefull</strong></p>
+        <p class="muted">Issued ${formatDocumentDate(options.issuedAt, options.timeZone)}</p>
+      </div>
+    </header>
+    <section class="parties">
+      ${renderClient(options)}
+      ${appointment.therapist ? renderProvider(appointment.therapist) : ''}
+    </section>
+    <table>
+      <thead>
+        <tr><th>Date of service</th><th>Description</th><th>CPT</th><th class="right">Amount</th></tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>${formatDocumentDate(appointment.scheduledAt, options.timeZone)}</td>
+          <td>Psychotherapy, ${appointment.duration} min (telehealth)</td>
+          <td>${escapeHtml(getCptCode(appointment))}</td>
+          <td class="right">${formatDocumentMoney(payment.amount, payment.currency)}</td>
+        </tr>
+      </tbody>
+    </table>
+    <table class="totals">
+      ${refunded > 0 ? renderTotalRow('Refunded', `-${formatDocumentMoney(refunded, payment.currency)}`) : ''}
+      ${renderTotalRow('Amount paid', formatDocumentMoney(getPaidAmount(payment), payment.currency), true)}
+    </table>
+    <p class="muted">
+      Paid${payment.paidAt ? ` on ${formatDocumentDate(payment.paidAt, options.timeZone)}` : ''}${
+        status === 'PARTIALLY_REFUNDED' ? ', partially refunded' : ''
+      } · Payment ${escapeHtml(payment.id)}
+    </p>`
+  );
+}
+
+/**
+ * Itemised statement of paid sessions for an insurance claim, one section
+ * per therapist since each claim names a single provider.
+ */
+export function buildSuperbillHtml(payments: Payment[], options: SuperbillOptions): string {
+  const billable = getSuperbillPayments(payments, options.from, options.to);
+  const byTherapist = new Map<string, BillablePayment[]>();
+  for (const payment of billable) {
+    const key = payment.appointment.therapistId;
+    byTherapist.set(key, [...(byTherapist.get(key) ?? []), payment]);
+  }
+
+  const sections = [...byTherapist.values()].map((group) => {
+    const therapist = group[0].appointment.therapist;
+    const rows = group
+      .map(
+        (payment) => `
+        <tr>
+          <td>${formatDocumentDate(payment.appointment.scheduledAt, options.timeZone)}</td>
+          <td>${escapeHtml(getCptCode(payment.appointment))}</td>
+          <td>${escapeHtml(payment.appointment.diagnosisCodes?.join(', ') || '—')}</td>
+          <td>${PLACE_OF_SERVICE_TELEHEALTH}</td>
+          <td>${payment.appointment.duration} min</td>
+          <td class="right">${formatDocumentMoney(payment.amount, payment.currency)}</td>
+          <td class="right">${formatDocumentMoney(getPaidAmount(payment), payment.currency)}</td>
+        </tr>`
+      )
+      .join('');
+
+    return `
+    <section class="provider-section">
+      ${therapist ? renderProvider(therapist) : ''}
+      <table>
+        <thead>
+          <tr>
+            <th>Date of service</th><th>CPT</th><th>Diagnosis (ICD-10)</th><th>POS</th><th>Length</th>
+            <th class="right">Fee</th><th class="right">Paid</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </section>`;
+  });
+
+  const totals = sumByCurrency(
+    billable.map((payment) => ({ amount: getPaidAmount(payment), currency: payment.currency }))
+  );
+
+  return renderDocument(
+    'Superbill',
+    `
+    <header>
+      <div>
+        <h1>Superbill</h1>
+        <p class="muted">
+          ${formatDocumentDate(options.from, options.timeZone)} – ${formatDocumentDate(options.to, options.timeZone)}
+        </p>
+      </div>
+      <div class="right">
+        <p><strong>Hopefull</strong></p>
+        <p class="muted">Issued ${formatDocumentDate(options.issuedAt, options.timeZone)}</p>
+      </div>
+    </header>
+    <section class="parties">
+      ${renderClient(options)}
+    </section>
+    ${sections.length > 0 ? sections.join('') : '<p class="muted">No paid sessions in this period.</p>'}
+    <table class="totals">
+      ${totals
+        .map((total) =>
+          renderTotalRow(`Total paid (${total.currency})`, formatDocumentMoney(total.amount, total.currency), true)
+        )
+        .join('')}
+    </table>
+    <p class="muted">POS ${PLACE_OF_SERVICE_TELEHEALTH}: telehealth, sessions held by video.</p>`
+  );
+}
+
+function getTherapistName(therapist: Therapist): string {
+  return `${therapist.user.firstName} ${therapist.user.lastName}`;
+}
+
+function renderClient({ client }: DocumentOptions): string {
+  return `
+      <div>
+        <h2>Patient</h2>
+        <p>${escapeHtml([client.firstName, client.lastName].filter(Boolean).join(' '))}</p>
+        <p class="muted">${escapeHtml(client.email)}</p>
+      </div>`;
+}
+
+function renderProvider(therapist: Therapist): string {
+  const { billing } = therapist;
+  const license = billing?.licenseNumber
+    ? `License ${escapeHtml(billing.licenseNumber)}${billing.licenseState ? ` (${escapeHtml(billing.licenseState)})` : ''}`
+    : 'License not on file';
+
+  return `
+      <div>
+        <h2>Provider</h2>
+        <p>${escapeHtml(getTherapistName(therapist))}, ${escapeHtml(therapist.professionalTitle)}</p>
+        <p class="muted">${license}</p>
+        ${billing?.npi ? `<p class="muted">NPI ${escapeHtml(billing.npi)}</p>` : ''}
+        ${billing?.taxId ? `<p class="muted">Tax ID ${escapeHtml(billing.taxId)}</p>` : ''}
+        ${billing?.practiceAddress ? `<p class="muted">${escapeHtml(billing.practiceAddress)}</p>` : ''}
+      </div>`;
+}
+
+function renderTotalRow(label: string, value: string, strong = false): string {
+  return strong
+    ? `<tr><td><strong>${label}</strong></td><td class="right"><strong>${value}</strong></td></tr>`
+    : `<tr><td>${label}</td><td class="right">${value}</td></tr>`;
+}
+
+function renderDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111827; font-size: 12px; padding: 32px; }
+      h1 { font-size: 24px; margin: 0; }
+      h2 { font-size: 11px; text-transform: uppercase; color: #6B7280; margin: 0 0 4px; }
+      p { margin: 2px 0; }
+      header, .parties { display: flex; justify-content: space-between; margin-bottom: 24px; }
+      table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+      th { text-align: left; font-size: 11px; color: #6B7280; border-bottom: 1px solid #E5E7EB; padding: 6px 4px; }
+      td { border-bottom: 1px solid #F3F4F6; padding: 6px 4px; }
+      .totals { width: 50%; margin-left: auto; }
+      .provider-section { margin-bottom: 24px; }
+      .right { text-align: right; }
+      .muted { color: #6B7280; }
+    </style>
+  </head>
+  <body>${body}
+  </body>
+</html>`;
+}
+
+function formatDocumentDate(date: Date | string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone }).format(
+    new Date(date)
+  );
+}
+
+// Documents are in English whatever the app language, as insurers expect
+function formatDocumentMoney(amount: number, currency: string): string {
+  const digits = getCurrencyFractionDigits(currency);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount / 10 ** digits);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,13 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+export const invoicesService = {
+  // Renders the document to a PDF on the device and opens the share sheet
+  async sharePdf(html: string, dialogTitle: string): Promise<void> {
+    const { uri } = await Print.printToFileAsync({ html });
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle });
+  },
+};
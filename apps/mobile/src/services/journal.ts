@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from './api';
+import { pushNotificationService } from './push-notifications';
+import { DEFAULT_JOURNAL_REMINDER, JournalReminder } from './mood-journal';
+import type { JournalEntry } from '../types';
+
+const REMINDER_STORAGE_KEY = 'journal_reminder';
+
+export type JournalEntryInput = Pick<JournalEntry, 'date' | 'mood' | 'tags' | 'note' | 'sharedWithTherapist'>;
+
+export const journalService = {
+  async getEntries(): Promise<JournalEntry[]> {
+    const response = await api.get<JournalEntry[]>('/journal');
+    return response.data;
+  },
+
+  async createEntry(data: JournalEntryInput): Promise<JournalEntry> {
+    const response = await api.post<JournalEntry>('/journal', data);
+    return response.data;
+  },
+
+  async updateEntry(id: string, data: Partial<JournalEntryInput>): Promise<JournalEntry> {
+    const response = await api.patch<JournalEntry>(`/journal/${id}`, data);
+    return response.data;
+  },
+
+  async deleteEntry(id: string): Promise<void> {
+    await api.delete(`/journal/${id}`);
+  },
+
+  // Entries the client shared since their previous session, for the therapist
+  async getAppointmentTimeline(appointmentId: string): Promise<JournalEntry[]> {
+    const response = await api.get<JournalEntry[]>(`/appointments/${appointmentId}/journal`);
+    return response.data;
+  },
+
+  // Reminders are scheduled on the device, so the setting is kept locally
+  async getReminder(): Promise<JournalReminder> {
+    const saved = await AsyncStorage.getItem(REMINDER_STORAGE_KEY);
+    return saved ? { ...DEFAULT_JOURNAL_REMINDER, ...JSON.parse(saved) } : DEFAULT_JOURNAL_REMINDER;
+  },
+
+  async setReminder(reminder: JournalReminder, content: { title: string; body: string }): Promise<JournalReminder> {
+    if (reminder.enabled) {
+      await pushNotificationService.scheduleJournalReminder(reminder.time, content);
+    } else {
+      await pushNotificationService.cancelJournalReminder();
+    }
+    await AsyncStorage.setItem(REMINDER_STORAGE_KEY, JSON.stringify(reminder));
+    return reminder;
+  },
+};
@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { therapistsService } from './therapists';
+import { paymentsService } from './payments';
+import { getAvailabilityMonths, rankTherapists, SHORTLIST_SIZE, TherapistMatch } from './therapist-matching';
+import type { AvailabilitySummary, ExchangeRates, MatchingAnswers } from '../types';
+
+const ANSWERS_STORAGE_KEY = '@hopefull_matching_answers';
+
+// Therapists fetched for ranking, and how many of them get their availability checked
+const CANDIDATE_LIMIT = 50;
+const AVAILABILITY_CANDIDATES = SHORTLIST_SIZE * 2;
+
+export const matchingService = {
+  // Answers stay on the device so the shortlist can be reopened later
+  async getAnswers(): Promise<MatchingAnswers | null> {
+    const saved = await AsyncStorage.getItem(ANSWERS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  },
+
+  async saveAnswers(answers: MatchingAnswers): Promise<MatchingAnswers> {
+    await AsyncStorage.setItem(ANSWERS_STORAGE_KEY, JSON.stringify(answers));
+    return answers;
+  },
+
+  /**
+   * Rank therapists by profile first, then check availability for the best
+   * candidates only and rank those again into the shortlist.
+   */
+  async findMatches(answers: MatchingAnswers): Promise<TherapistMatch[]> {
+    // The budget isn't sent as maxPrice: therapists price in their own currency,
+    // so it is checked in isEligible once their rates are converted
+    const { data: therapists } = await therapistsService.findAll({
+      limit: CANDIDATE_LIMIT,
+      language: answers.language,
+    });
+
+    let rates: ExchangeRates | undefined;
+    if (answers.maxBudget) {
+      try {
+        rates = await paymentsService.getExchangeRates();
+      } catch {
+        // Without rates only same-currency therapists are held to the budget
+      }
+    }
+
+    const candidates = rankTherapists(therapists, answers, {}, AVAILABILITY_CANDIDATES, new Date(), rates).map(
+      (m) => m.therapist
+    );
+    const months = getAvailabilityMonths();
+
+    const availability: Record<string, AvailabilitySummary[]> = {};
+    await Promise.all(
+      candidates.map(async (therapist) => {
+        try {
+          availability[therapist.id] = await Promise.all(
+            months.map((month) => therapistsService.getAvailabilitySummary(therapist.id, month))
+          );
+        } catch {
+          // Unknown rather than empty, so the criterion is skipped instead of scoring zero
+        }
+      })
+    );
+
+    return rankTherapists(candidates, answers, availability, SHORTLIST_SIZE, new Date(), rates);
+  },
+};
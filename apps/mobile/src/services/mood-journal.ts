@@ -0,0 +1,46 @@
+import { addDays, set } from 'date-fns';
+import type { Ionicons } from '@expo/vector-icons';
+import type { JournalEntry, MoodScore } from '../types';
+
+export const MOOD_OPTIONS: { score: MoodScore; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { score: 1, icon: 'thunderstorm-outline', color: '#EF4444' },
+  { score: 2, icon: 'rainy-outline', color: '#F97316' },
+  { score: 3, icon: 'cloudy-outline', color: '#F59E0B' },
+  { score: 4, icon: 'partly-sunny-outline', color: '#84CC16' },
+  { score: 5, icon: 'sunny-outline', color: '#10B981' },
+];
+
+// Reminder times offered in the journal settings, HH:mm
+export const JOURNAL_REMINDER_TIMES = ['09:00', '13:00', '20:00', '22:00'];
+
+export const DEFAULT_JOURNAL_REMINDER = { enabled: false, time: '20:00' };
+
+export type JournalReminder = typeof DEFAULT_JOURNAL_REMINDER;
+
+export function getMoodOption(score: MoodScore) {
+  return MOOD_OPTIONS.find((option) => option.score === score) ?? MOOD_OPTIONS[2];
+}
+
+/**
+ * When a daily reminder at `time` fires next: later today, or tomorrow if
+ * that time has already passed.
+ */
+export function getNextReminderAt(time: string, now = new Date()): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const today = set(now, { hours, minutes, seconds: 0, milliseconds: 0 });
+  return today > now ? today : addDays(today, 1);
+}
+
+/**
+ * Newest-first entries with the average mood across them, rounded to one
+ * decimal. Null average when there are no entries.
+ */
+export function summarizeMood<T extends Pick<JournalEntry, 'date' | 'mood'>>(entries: T[]) {
+  const sorted = [...entries].sort((a, b) => b.date.localeCompare(a.date));
+  const average = sorted.length
+    ? Math.round((sorted.reduce((sum, entry) => sum + entry.mood, 0) / sorted.length) * 10) / 10
+    : null;
+  const lowDays = sorted.filter((entry) => entry.mood <= 2).length;
+
+  return { entries: sorted, average, lowDays };
+}
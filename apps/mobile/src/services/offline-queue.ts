@@ -0,0 +1,269 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { onlineManager } from '@tanstack/react-query';
+import { isNetworkError, ApiRequestError } from './api';
+import { appointmentsService, CreateReviewData } from './appointments';
+import { therapistDashboardService } from './therapist-dashboard';
+import type { Appointment } from '../types';
+
+const QUEUE_STORAGE_KEY = '@hopefull_offline_queue';
+
+// Appointment state the user was looking at when the mutation was queued.
+// Compared against the server on replay to detect conflicting changes.
+export interface AppointmentSnapshot {
+  status: Appointment['status'];
+  sessionNotes?: string;
+  hasReview: boolean;
+}
+
+interface QueuedMutationBase {
+  id: string;
+  appointmentId: string;
+  queuedAt: string;
+  snapshot?: AppointmentSnapshot;
+}
+
+export type QueuedMutation =
+  | (QueuedMutationBase & { type: 'cancel'; payload: { reason: string } })
+  | (QueuedMutationBase & { type: 'addReview'; payload: CreateReviewData })
+  | (QueuedMutationBase & { type: 'addSessionNotes'; payload: { notes: string } });
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type QueuedMutationInput = DistributiveOmit<QueuedMutation, 'id' | 'queuedAt' | 'snapshot'>;
+
+export type ConflictReason =
+  | 'ALREADY_CANCELLED'
+  | 'STATUS_CHANGED'
+  | 'ALREADY_REVIEWED'
+  | 'NOTES_CHANGED'
+  | 'NOT_FOUND'
+  | 'REJECTED';
+
+export interface MutationConflict {
+  mutation: QueuedMutation;
+  reason: ConflictReason;
+  message?: string;
+}
+
+export interface ReplayResult {
+  applied: QueuedMutation[];
+  conflicts: MutationConflict[];
+  remaining: number;
+}
+
+export interface RunResult {
+  queued: boolean;
+}
+
+type QueueListener = (queue: QueuedMutation[]) => void;
+type ReplayListener = (result: ReplayResult) => void;
+
+const CANCELLABLE_STATUSES: Appointment['status'][] = ['PENDING', 'CONFIRMED'];
+
+export function createSnapshot(appointment?: Appointment): AppointmentSnapshot | undefined {
+  if (!appointment) return undefined;
+  return {
+    status: appointment.status,
+    sessionNotes: appointment.sessionNotes,
+    hasReview: !!appointment.review,
+  };
+}
+
+/**
+ * Decide whether a queued mutation can still be applied on top of the
+ * current server state. Returns null when it is safe to replay.
+ */
+export function detectConflict(
+  mutation: QueuedMutation,
+  serverAppointment: Appointment
+): ConflictReason | null {
+  switch (mutation.type) {
+    case 'cancel':
+      if (serverAppointment.status === 'CANCELLED') return 'ALREADY_CANCELLED';
+      if (!CANCELLABLE_STATUSES.includes(serverAppointment.status)) return 'STATUS_CHANGED';
+      return null;
+    case 'addReview':
+      if (serverAppointment.review) return 'ALREADY_REVIEWED';
+      if (serverAppointment.status !== 'COMPLETED') return 'STATUS_CHANGED';
+      return null;
+    case 'addSessionNotes':
+      // Notes were edited elsewhere since we went offline; don't overwrite them
+      if (
+        mutation.snapshot &&
+        (serverAppointment.sessionNotes ?? '') !== (mutation.snapshot.sessionNotes ?? '')
+      ) {
+        return 'NOTES_CHANGED';
+      }
+      return null;
+  }
+}
+
+async function execute(mutation: QueuedMutationInput): Promise<void> {
+  switch (mutation.type) {
+    case 'cancel':
+      await appointmentsService.cancel(mutation.appointmentId, mutation.payload.reason);
+      return;
+    case 'addReview':
+      await appointmentsService.addReview(mutation.appointmentId, mutation.payload);
+      return;
+    case 'addSessionNotes':
+      await therapistDashboardService.addSessionNotes(mutation.appointmentId, mutation.payload.notes);
+      return;
+  }
+}
+
+// 4xx responses mean the server understood and refused the request; retrying won't help.
+const isRejection = (error: unknown): boolean => {
+  const statusCode = (error as ApiRequestError | undefined)?.statusCode;
+  return !!statusCode && statusCode >= 400 && statusCode < 500;
+};
+
+const generateId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class OfflineMutationQueue {
+  private queue: QueuedMutation[] | null = null;
+  private listeners = new Set<QueueListener>();
+  private replayListeners = new Set<ReplayListener>();
+  private replayPromise: Promise<ReplayResult> | null = null;
+
+  private async load(): Promise<QueuedMutation[]> {
+    if (this.queue) return this.queue;
+    try {
+      const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+      this.queue = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[OfflineQueue] Failed to load queue:', error);
+      this.queue = [];
+    }
+    return this.queue!;
+  }
+
+  private async save(queue: QueuedMutation[]): Promise<void> {
+    this.queue = queue;
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+    this.listeners.forEach((listener) => listener(queue));
+  }
+
+  private async remove(id: string): Promise<void> {
+    const queue = await this.load();
+    await this.save(queue.filter((mutation) => mutation.id !== id));
+  }
+
+  async getPending(): Promise<QueuedMutation[]> {
+    return [...(await this.load())];
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(input: QueuedMutationInput, appointment?: Appointment): Promise<QueuedMutation> {
+    const queue = await this.load();
+    const mutation = {
+      ...input,
+      id: generateId(),
+      queuedAt: new Date().toISOString(),
+      snapshot: createSnapshot(appointment),
+    } as QueuedMutation;
+
+    await this.save([...queue, mutation]);
+    return mutation;
+  }
+
+  /**
+   * Send the mutation now when online, otherwise (or if the request never
+   * reaches the server) keep it in the queue for replay.
+   */
+  async runOrEnqueue(input: QueuedMutationInput, appointment?: Appointment): Promise<RunResult> {
+    if (onlineManager.isOnline()) {
+      // Keep ordering: anything queued earlier has to go out first
+      const pending = await this.load();
+      const { remaining } = pending.length > 0 ? await this.replay() : { remaining: 0 };
+
+      if (remaining === 0) {
+        try {
+          await execute(input);
+          return { queued: false };
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+    }
+
+    await this.enqueue(input, appointment);
+    return { queued: true };
+  }
+
+  /**
+   * Replay queued mutations in the order they were made. Stops at the first
+   * network failure so later mutations never overtake earlier ones.
+   */
+  replay(): Promise<ReplayResult> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.processQueue()
+        .then((result) => {
+          this.replayListeners.forEach((listener) => listener(result));
+          return result;
+        })
+        .finally(() => {
+          this.replayPromise = null;
+        });
+    }
+    return this.replayPromise;
+  }
+
+  // Notified after every replay, whoever started it
+  onReplay(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  private async processQueue(): Promise<ReplayResult> {
+    const applied: QueuedMutation[] = [];
+    const conflicts: MutationConflict[] = [];
+    let queue = await this.load();
+
+    while (queue.length > 0) {
+      const mutation = queue[0]!;
+
+      try {
+        const serverAppointment = await appointmentsService.findById(mutation.appointmentId);
+        const conflict = detectConflict(mutation, serverAppointment);
+
+        if (conflict) {
+          conflicts.push({ mutation, reason: conflict });
+        } else {
+          await execute(mutation);
+          applied.push(mutation);
+        }
+      } catch (error: any) {
+        if (!isRejection(error)) {
+          // Offline again or server trouble: leave the rest for the next attempt
+          break;
+        }
+        conflicts.push({
+          mutation,
+          reason: error.statusCode === 404 ? 'NOT_FOUND' : 'REJECTED',
+          message: error.message,
+        });
+      }
+
+      await this.remove(mutation.id);
+      queue = await this.load();
+    }
+
+    return { applied, conflicts, remaining: queue.length };
+  }
+
+  async clear(): Promise<void> {
+    await this.save([]);
+  }
+}
+
+export const offlineQueue = new OfflineMutationQueue();
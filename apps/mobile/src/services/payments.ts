@@ -1,5 +1,6 @@
 import api from './api';
-import type { PaymentMethod, Payment, PaginatedResponse } from '../types';
+import type { PaymentMethod, Payment, PaginatedResponse, ExchangeRates, Refund } from '../types';
+import type { CallChargeLineItem } from './call-billing';
 
 export interface AddPaymentMethodData {
   stripePaymentMethodId: string;
@@ -37,6 +38,12 @@ export const paymentsService = {
     return data;
   },
 
+  // Paid sessions in a date range, with appointment and therapist, for the superbill
+  async getBillablePayments(from: string, to: string): Promise<Payment[]> {
+    const { data } = await api.get('/payments/billable', { params: { from, to } });
+    return data;
+  },
+
   async createSetupIntent(): Promise<{ clientSecret: string }> {
     const { data } = await api.post('/payments/setup-intent');
     return data;
@@ -49,10 +56,45 @@ export const paymentsService = {
 
   async createPaymentIntent(params: {
     amount: number;
+    // The therapist's currency, USD when omitted
+    currency?: string;
+    // Shown on the receipt next to the charged amount
+    displayAmount?: number;
+    displayCurrency?: string;
     paymentMethodId: string;
     appointmentId?: string;
+    // 'manual' only authorises the amount; it is charged later via capture
+    captureMethod?: 'automatic' | 'manual';
   }): Promise<{ clientSecret: string; paymentIntentId: string }> {
     const { data } = await api.post('/payments/payment-intent', params);
     return data;
   },
+
+  async getRefunds(params: { appointmentId?: string; paymentId?: string } = {}): Promise<Refund[]> {
+    const { data } = await api.get('/payments/refunds', { params });
+    return data;
+  },
+
+  async getRefund(id: string): Promise<Refund> {
+    const { data } = await api.get(`/payments/refunds/${id}`);
+    return data;
+  },
+
+  async getExchangeRates(): Promise<ExchangeRates> {
+    const { data } = await api.get('/payments/exchange-rates');
+    return data;
+  },
+
+  async captureCallCharge(
+    paymentIntentId: string,
+    params: { callId: string; amount: number; lineItems: CallChargeLineItem[] }
+  ): Promise<Payment> {
+    const { data } = await api.post(`/payments/payment-intent/${paymentIntentId}/capture`, params);
+    return data;
+  },
+
+  // Cancel an uncaptured authorisation so the hold on the card is released
+  async releaseCallHold(paymentIntentId: string): Promise<void> {
+    await api.post(`/payments/payment-intent/${paymentIntentId}/cancel`);
+  },
 };
@@ -0,0 +1,57 @@
+import { addDays, addMonths, getDaysInMonth, setDate, startOfDay } from 'date-fns';
+import type { Payment, PayoutAccount, PayoutSchedule } from '../types';
+
+export type PayoutSetupState = 'setup' | 'actionRequired' | 'inReview' | 'active';
+
+export interface PayoutTotals {
+  // What clients paid
+  gross: number;
+  platformFees: number;
+  // What reached the therapist
+  net: number;
+}
+
+/**
+ * Where the therapist is with Connect onboarding. Anything Stripe still
+ * needs takes priority, since payouts stay paused until it's provided.
+ */
+export function getPayoutSetupState(account: PayoutAccount | undefined): PayoutSetupState {
+  if (!account || account.onboardingStatus === 'NOT_STARTED') return 'setup';
+  if (account.onboardingStatus === 'RESTRICTED' || account.requirementsDue.length > 0) return 'actionRequired';
+  if (account.onboardingStatus === 'PENDING' || !account.payoutsEnabled) return 'inReview';
+  return 'active';
+}
+
+// Day the next payout is sent, null when payouts are manual
+export function getNextPayoutDate(schedule: PayoutSchedule, now = new Date()): Date | null {
+  const today = startOfDay(now);
+
+  switch (schedule.interval) {
+    case 'daily':
+      return addDays(today, 1);
+    case 'weekly': {
+      const anchor = schedule.weeklyAnchor ?? 1;
+      return addDays(today, (anchor - today.getDay() + 7) % 7 || 7);
+    }
+    case 'monthly': {
+      const anchor = schedule.monthlyAnchor ?? 1;
+      const thisMonth = Math.min(anchor, getDaysInMonth(today));
+      if (thisMonth > today.getDate()) return setDate(today, thisMonth);
+      const nextMonth = addMonths(setDate(today, 1), 1);
+      return setDate(nextMonth, Math.min(anchor, getDaysInMonth(nextMonth)));
+    }
+    default:
+      return null;
+  }
+}
+
+export function summarizePayoutPayments(payments: Payment[]): PayoutTotals {
+  return payments.reduce(
+    (totals, payment) => ({
+      gross: totals.gross + payment.amount,
+      platformFees: totals.platformFees + payment.platformFee,
+      net: totals.net + payment.therapistAmount,
+    }),
+    { gross: 0, platformFees: 0, net: 0 }
+  );
+}
@@ -0,0 +1,119 @@
+import api from './api';
+import type { PresenceAlertSettings, PresenceSubscription } from '../types';
+
+export const PRESENCE_COOLDOWN_OPTIONS = [30, 60, 120, 240]; // minutes
+export const QUIET_HOURS_START_OPTIONS = ['20:00', '21:00', '22:00', '23:00'];
+export const QUIET_HOURS_END_OPTIONS = ['06:00', '07:00', '08:00', '09:00'];
+
+export const DEFAULT_PRESENCE_SETTINGS: Omit<PresenceAlertSettings, 'timezone'> = {
+  cooldownMinutes: 60,
+  quietHoursEnabled: true,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes past midnight on the client's clock, which isn't always the device's
+function getMinutesInTimezone(at: Date, timezone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(at);
+    const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+    const minute = Number(parts.find((part) => part.type === 'minute')?.value);
+    if (!Number.isNaN(hour) && !Number.isNaN(minute)) return hour * 60 + minute;
+  } catch {
+    // Unknown timezone name, fall back to the device clock
+  }
+  return at.getHours() * 60 + at.getMinutes();
+}
+
+export function isInQuietHours(settings: PresenceAlertSettings, at = new Date()): boolean {
+  if (!settings.quietHoursEnabled) return false;
+
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  if (start === end) return false;
+
+  const minutes = getMinutesInTimezone(at, settings.timezone);
+  // 22:00 → 08:00 wraps past midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// The next time quiet hours end after `from`, on the settings' clock
+export function getQuietHoursEnd(settings: PresenceAlertSettings, from = new Date()): Date {
+  const end = toMinutes(settings.quietHoursEnd);
+  const startOfMinute = from.getTime() - (from.getTime() % 60000);
+  const minutesUntilEnd = (end - getMinutesInTimezone(from, settings.timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const date = new Date(startOfMinute + (minutesUntilEnd || MINUTES_PER_DAY) * 60000);
+
+  // A DST change in between shifts the wall clock, nudge back onto the end time
+  const drift = getMinutesInTimezone(date, settings.timezone) - end;
+  if (drift !== 0) {
+    const shift = ((drift + MINUTES_PER_DAY + MINUTES_PER_DAY / 2) % MINUTES_PER_DAY) - MINUTES_PER_DAY / 2;
+    date.setTime(date.getTime() - shift * 60000);
+  }
+  return date;
+}
+
+/**
+ * When the server may next push "now online" for this therapist, or null if it
+ * would go out straight away. Alerts for the same therapist are at least
+ * `cooldownMinutes` apart so a therapist flipping their status back and forth
+ * only notifies once, and anything landing in quiet hours waits until they end.
+ */
+export function getNextAlertAt(
+  subscription: PresenceSubscription,
+  settings: PresenceAlertSettings,
+  now = new Date()
+): Date | null {
+  let next = now;
+
+  if (subscription.lastNotifiedAt) {
+    const cooldownEnd = new Date(
+      new Date(subscription.lastNotifiedAt).getTime() + settings.cooldownMinutes * 60 * 1000
+    );
+    if (cooldownEnd.getTime() > next.getTime()) next = cooldownEnd;
+  }
+
+  if (isInQuietHours(settings, next)) {
+    next = getQuietHoursEnd(settings, next);
+  }
+
+  return next.getTime() > now.getTime() ? next : null;
+}
+
+export const presenceService = {
+  async getSubscriptions(): Promise<PresenceSubscription[]> {
+    const response = await api.get<PresenceSubscription[]>('/users/me/presence-subscriptions');
+    return response.data;
+  },
+
+  async subscribe(therapistId: string): Promise<PresenceSubscription> {
+    const response = await api.put<PresenceSubscription>(`/users/me/presence-subscriptions/${therapistId}`);
+    return response.data;
+  },
+
+  async unsubscribe(therapistId: string): Promise<void> {
+    await api.delete(`/users/me/presence-subscriptions/${therapistId}`);
+  },
+
+  async getSettings(): Promise<PresenceAlertSettings> {
+    const response = await api.get<PresenceAlertSettings>('/users/me/presence-settings');
+    return response.data;
+  },
+
+  async updateSettings(settings: Partial<PresenceAlertSettings>): Promise<PresenceAlertSettings> {
+    const response = await api.patch<PresenceAlertSettings>('/users/me/presence-settings', settings);
+    return response.data;
+  },
+};
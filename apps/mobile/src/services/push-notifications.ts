@@ -1,8 +1,11 @@
 import messaging, { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
-import notifee, { AndroidImportance, EventType } from '@notifee/react-native';
+import notifee, { AndroidImportance, EventType, RepeatFrequency, TriggerType } from '@notifee/react-native';
 import { Platform, PermissionsAndroid } from 'react-native';
 import { router, Href } from 'expo-router';
 import { notificationsService } from './notifications';
+import { getNextReminderAt } from './mood-journal';
+
+const JOURNAL_REMINDER_ID = 'journal-reminder';
 
 // Track active chat to suppress notifications
 let activeChatAppointmentId: string | null = null;
@@ -18,6 +21,10 @@ export interface PushNotificationData {
   appointmentId?: string;
   therapistId?: string;
   paymentId?: string;
+  refundId?: string;
+  offerId?: string;
+  assessmentRequestId?: string;
+  assignmentId?: string;
   badgeCount?: string;
 }
 
@@ -212,7 +219,7 @@ class PushNotificationService {
   handleNotificationNavigation(data: PushNotificationData): void {
     if (!data) return;
 
-    const { screen, type, appointmentId, therapistId } = data;
+    const { screen, type, appointmentId, therapistId, refundId, offerId, assessmentRequestId, assignmentId } = data;
 
     // Route by screen first, then fall back to type
     const route = screen || this.getScreenFromType(type);
@@ -238,6 +245,37 @@ class PushNotificationService {
       case 'payment-details':
         router.push('/(tabs)/appointments' as Href);
         break;
+      case 'refund-details':
+        router.push((refundId ? `/profile/refund/${refundId}` : '/profile/payment-history') as Href);
+        break;
+      case 'therapist-profile':
+        if (therapistId) {
+          router.push(`/therapist/${therapistId}` as Href);
+        }
+        break;
+      case 'instant-call':
+        if (therapistId) {
+          router.push(`/instant-call/${therapistId}` as Href);
+        }
+        break;
+      case 'claim-slot':
+        if (therapistId && offerId) {
+          router.push(`/book/${therapistId}?offerId=${offerId}` as Href);
+        }
+        break;
+      case 'journal':
+        router.push('/journal' as Href);
+        break;
+      case 'complete-assessment':
+        if (assessmentRequestId) {
+          router.push(`/assessment/${assessmentRequestId}` as Href);
+        }
+        break;
+      case 'assignment':
+        if (assignmentId) {
+          router.push(`/assignments/${assignmentId}` as Href);
+        }
+        break;
       default:
         router.push('/notifications' as Href);
         break;
@@ -250,14 +288,92 @@ class PushNotificationService {
         return 'chat';
       case 'BOOKING_CONFIRMATION':
       case 'APPOINTMENT_REMINDER':
+      case 'RESCHEDULE_REQUEST':
+      case 'RESCHEDULE_RESPONSE':
+      case 'ASSESSMENT_RISK_FLAG':
         return 'appointment-details';
       case 'PAYMENT_RECEIPT':
         return 'payment-details';
+      case 'REFUND_PROCESSED':
+        return 'refund-details';
+      case 'WAITLIST_SLOT_AVAILABLE':
+        return 'claim-slot';
+      case 'FAVORITE_THERAPIST_ONLINE':
+        return 'therapist-profile';
+      case 'THERAPIST_ONLINE':
+        return 'instant-call';
+      case 'ASSESSMENT_DUE':
+        return 'complete-assessment';
+      case 'ASSIGNMENT_NEW':
+      case 'ASSIGNMENT_COMPLETED':
+      case 'ASSIGNMENT_REPLY':
+        return 'assignment';
       default:
         return undefined;
     }
   }
 
+  // Local daily reminder to write in the mood journal, replaces any existing one
+  async scheduleJournalReminder(time: string, content: { title: string; body: string }): Promise<void> {
+    await notifee.createTriggerNotification(
+      {
+        id: JOURNAL_REMINDER_ID,
+        title: content.title,
+        body: content.body,
+        data: { screen: 'journal' },
+        android: {
+          channelId: 'default',
+          smallIcon: 'notification_icon',
+          pressAction: { id: 'default' },
+        },
+        ios: {
+          sound: 'default',
+        },
+      },
+      {
+        type: TriggerType.TIMESTAMP,
+        timestamp: getNextReminderAt(time).getTime(),
+        repeatFrequency: RepeatFrequency.DAILY,
+      }
+    );
+  }
+
+  async cancelJournalReminder(): Promise<void> {
+    await notifee.cancelTriggerNotification(JOURNAL_REMINDER_ID);
+  }
+
+  // One-off local reminder for a homework assignment, replaces any existing one
+  async scheduleAssignmentReminder(
+    assignmentId: string,
+    at: Date,
+    content: { title: string; body: string }
+  ): Promise<void> {
+    await notifee.createTriggerNotification(
+      {
+        id: `assignment-${assignmentId}`,
+        title: content.title,
+        body: content.body,
+        data: { screen: 'assignment', assignmentId },
+        android: {
+          channelId: 'default',
+          smallIcon: 'notification_icon',
+          pressAction: { id: 'default' },
+        },
+        ios: {
+          sound: 'default',
+        },
+      },
+      {
+        type: TriggerType.TIMESTAMP,
+        timestamp: at.getTime(),
+      }
+    );
+  }
+
+  async cancelAssignmentReminder(assignmentId: string): Promise<void> {
+    await notifee.cancelTriggerNotification(`assignment-${assignmentId}`);
+  }
+
   removeListeners(): void {
     // Firebase messaging listeners are automatically cleaned up
     // Notifee foreground event is tied to component lifecycle
@@ -0,0 +1,60 @@
+import { addBusinessDays } from 'date-fns';
+import type { Payment, Refund } from '../types';
+
+// Business days for a card refund to reach the client's statement
+export const CARD_REFUND_BUSINESS_DAYS = { min: 5, max: 10 };
+
+export interface RefundSummary {
+  refunded: number;
+  // Requested but not yet sent back
+  pending: number;
+  // Still kept after all refunds
+  retained: number;
+}
+
+export function isRefundOpen(refund: Refund): boolean {
+  return refund.status === 'PENDING' || refund.status === 'PROCESSING';
+}
+
+/**
+ * When the money should be back with the client. Wallet refunds land as
+ * soon as they're processed; card refunds take a few business days after
+ * Stripe sends them. Null for failed refunds.
+ */
+export function getExpectedArrival(refund: Refund): { from: Date; to: Date } | null {
+  if (refund.status === 'FAILED') return null;
+
+  if (refund.expectedArrivalAt) {
+    const date = new Date(refund.expectedArrivalAt);
+    return { from: date, to: date };
+  }
+
+  const start = new Date(refund.processedAt ?? refund.createdAt);
+  if (refund.destination === 'WALLET') {
+    return { from: start, to: start };
+  }
+  return {
+    from: addBusinessDays(start, CARD_REFUND_BUSINESS_DAYS.min),
+    to: addBusinessDays(start, CARD_REFUND_BUSINESS_DAYS.max),
+  };
+}
+
+export function getRefundSummary(payment: Pick<Payment, 'amount' | 'refunds'>): RefundSummary {
+  const refunds = payment.refunds ?? [];
+  const refunded = refunds
+    .filter((refund) => refund.status === 'SUCCEEDED')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  const pending = refunds.filter(isRefundOpen).reduce((sum, refund) => sum + refund.amount, 0);
+
+  return { refunded, pending, retained: Math.max(0, payment.amount - refunded - pending) };
+}
+
+/**
+ * Status from the refund records, which can be ahead of the payment's own
+ * status while the server catches up.
+ */
+export function getPaymentStatus(payment: Payment): Payment['status'] {
+  const { refunded } = getRefundSummary(payment);
+  if (refunded <= 0) return payment.status;
+  return refunded >= payment.amount ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+}
@@ -0,0 +1,51 @@
+import type { Appointment, ReschedulePolicy, Therapist } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// One free move when the session is more than a day away
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = {
+  freeReschedules: 1,
+  freeWindowHours: 24,
+  feePercent: 50,
+  minNoticeHours: 2,
+};
+
+export type RescheduleTermsReason = 'free' | 'late' | 'freeUsed' | 'tooLate';
+
+export interface RescheduleTerms {
+  allowed: boolean;
+  fee: number; // cents
+  reason: RescheduleTermsReason;
+}
+
+export function getReschedulePolicy(therapist?: Pick<Therapist, 'reschedulePolicy'>): ReschedulePolicy {
+  return { ...DEFAULT_RESCHEDULE_POLICY, ...therapist?.reschedulePolicy };
+}
+
+/**
+ * What moving this appointment costs right now. The existing payment carries
+ * over, so a fee is the only extra charge.
+ */
+export function getRescheduleTerms(
+  appointment: Pick<Appointment, 'scheduledAt' | 'amount' | 'rescheduleCount'>,
+  policy: ReschedulePolicy = DEFAULT_RESCHEDULE_POLICY,
+  now = Date.now()
+): RescheduleTerms {
+  const hoursUntil = (new Date(appointment.scheduledAt).getTime() - now) / HOUR_MS;
+
+  if (hoursUntil <= policy.minNoticeHours) {
+    return { allowed: false, fee: 0, reason: 'tooLate' };
+  }
+
+  const fee = Math.round((appointment.amount * policy.feePercent) / 100);
+
+  if ((appointment.rescheduleCount ?? 0) >= policy.freeReschedules) {
+    return { allowed: true, fee, reason: 'freeUsed' };
+  }
+
+  if (hoursUntil <= policy.freeWindowHours) {
+    return { allowed: true, fee, reason: 'late' };
+  }
+
+  return { allowed: true, fee: 0, reason: 'free' };
+}
@@ -0,0 +1,33 @@
+import api from './api';
+import type {
+  SafetyAction,
+  SafetyConcernCategory,
+  SafetyConcernSeverity,
+  SafetyIncident,
+} from '../types';
+
+export interface ReportSafetyConcernData {
+  category: SafetyConcernCategory;
+  severity: SafetyConcernSeverity;
+  description: string;
+  actionsTaken: SafetyAction[];
+}
+
+// Incidents can't be edited or deleted once reported, only followed up
+export const safetyService = {
+  async getAppointmentIncidents(appointmentId: string): Promise<SafetyIncident[]> {
+    const response = await api.get<SafetyIncident[]>(`/appointments/${appointmentId}/safety-incidents`);
+    return response.data;
+  },
+
+  // HIGH and IMMINENT concerns are escalated to the clinical team by the server
+  async reportConcern(appointmentId: string, data: ReportSafetyConcernData): Promise<SafetyIncident> {
+    const response = await api.post<SafetyIncident>(`/appointments/${appointmentId}/safety-incidents`, data);
+    return response.data;
+  },
+
+  async addNote(incidentId: string, note: string): Promise<SafetyIncident> {
+    const response = await api.post<SafetyIncident>(`/safety-incidents/${incidentId}/notes`, { note });
+    return response.data;
+  },
+};
@@ -0,0 +1,87 @@
+import type { SessionNote, SessionNoteContent, SessionNoteTemplate } from '../types';
+
+// Section ids per template, in the order they're written
+export const SESSION_NOTE_SECTIONS: Record<SessionNoteTemplate, string[]> = {
+  SOAP: ['subjective', 'objective', 'assessment', 'plan'],
+  DAP: ['data', 'assessment', 'plan'],
+};
+
+export const SESSION_NOTE_INTERVENTIONS = [
+  'CBT',
+  'DBT_SKILLS',
+  'MOTIVATIONAL_INTERVIEWING',
+  'PSYCHOEDUCATION',
+  'MINDFULNESS',
+  'EXPOSURE',
+  'SOLUTION_FOCUSED',
+  'SUPPORTIVE',
+];
+
+// Copy of an unsaved draft kept on the device, so nothing is lost offline
+export interface LocalNoteDraft {
+  content: SessionNoteContent;
+  savedAt: string;
+}
+
+export function createEmptyNoteContent(template: SessionNoteTemplate = 'SOAP'): SessionNoteContent {
+  return {
+    template,
+    sections: Object.fromEntries(SESSION_NOTE_SECTIONS[template].map((id) => [id, ''])),
+    goals: [],
+    interventions: [],
+    homework: '',
+  };
+}
+
+export function toNoteContent(note: SessionNote): SessionNoteContent {
+  const { template, sections, goals, interventions, homework } = note;
+  return { template, sections, goals, interventions, homework };
+}
+
+const joinText = (...parts: (string | undefined)[]) =>
+  parts.map((part) => part?.trim()).filter(Boolean).join('\n\n');
+
+/**
+ * Move a draft to another template without losing what's been written.
+ * Shared sections carry over; SOAP's subjective and objective become DAP's
+ * data and back again into subjective.
+ */
+export function changeNoteTemplate(content: SessionNoteContent, template: SessionNoteTemplate): SessionNoteContent {
+  if (content.template === template) return content;
+
+  const { sections } = content;
+  const next = createEmptyNoteContent(template).sections;
+  for (const id of Object.keys(next)) {
+    next[id] = sections[id] ?? '';
+  }
+
+  if (template === 'DAP') {
+    next.data = joinText(sections.subjective, sections.objective);
+  } else {
+    next.subjective = sections.data ?? '';
+  }
+
+  return { ...content, template, sections: next };
+}
+
+// Sections still empty; every one must be written before signing
+export function getMissingSections(content: SessionNoteContent): string[] {
+  return SESSION_NOTE_SECTIONS[content.template].filter((id) => !content.sections[id]?.trim());
+}
+
+export function isSameNoteContent(a: SessionNoteContent, b: SessionNoteContent): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Content to open the editor with: a local draft newer than the server's
+ * copy wins, except once the note is signed.
+ */
+export function pickLatestDraft(
+  note: SessionNote | null | undefined,
+  local: LocalNoteDraft | null | undefined
+): SessionNoteContent {
+  if (note?.status === 'SIGNED') return toNoteContent(note);
+  if (local && (!note || new Date(local.savedAt) > new Date(note.updatedAt))) return local.content;
+  return note ? toNoteContent(note) : createEmptyNoteContent();
+}
@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from './api';
+import type { LocalNoteDraft } from './session-note-form';
+import type { SessionNote, SessionNoteContent } from '../types';
+
+const draftKey = (appointmentId: string) => `@hopefull_note_draft_${appointmentId}`;
+// Appointments with a draft on this device, so sign out can wipe them all
+const DRAFTS_STORAGE_KEY = '@hopefull_note_drafts';
+
+async function getLocalDraftIds(): Promise<string[]> {
+  const stored = await AsyncStorage.getItem(DRAFTS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export const sessionNotesService = {
+  // Null until the therapist starts writing
+  async getNote(appointmentId: string): Promise<SessionNote | null> {
+    const response = await api.get<SessionNote | null>(`/therapists/me/appointments/${appointmentId}/session-note`);
+    return response.data;
+  },
+
+  async saveDraft(appointmentId: string, content: SessionNoteContent): Promise<SessionNote> {
+    const response = await api.put<SessionNote>(
+      `/therapists/me/appointments/${appointmentId}/session-note`,
+      content
+    );
+    return response.data;
+  },
+
+  // Locks the note; the server rejects any later edits
+  async sign(appointmentId: string): Promise<SessionNote> {
+    const response = await api.post<SessionNote>(`/therapists/me/appointments/${appointmentId}/session-note/sign`);
+    return response.data;
+  },
+
+  async addAddendum(appointmentId: string, content: string): Promise<SessionNote> {
+    const response = await api.post<SessionNote>(
+      `/therapists/me/appointments/${appointmentId}/session-note/addenda`,
+      { content }
+    );
+    return response.data;
+  },
+
+  // Every note for one client, newest appointment first
+  async getClientHistory(userId: string): Promise<SessionNote[]> {
+    const response = await api.get<SessionNote[]>(`/therapists/me/clients/${userId}/session-notes`);
+    return response.data;
+  },
+
+  async getLocalDraft(appointmentId: string): Promise<LocalNoteDraft | null> {
+    const saved = await AsyncStorage.getItem(draftKey(appointmentId));
+    return saved ? JSON.parse(saved) : null;
+  },
+
+  async setLocalDraft(appointmentId: string, content: SessionNoteContent): Promise<void> {
+    const draft: LocalNoteDraft = { content, savedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(draftKey(appointmentId), JSON.stringify(draft));
+
+    const ids = await getLocalDraftIds();
+    if (!ids.includes(appointmentId)) {
+      await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify([...ids, appointmentId]));
+    }
+  },
+
+  async clearLocalDraft(appointmentId: string): Promise<void> {
+    await AsyncStorage.removeItem(draftKey(appointmentId));
+    const ids = await getLocalDraftIds();
+    await AsyncStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(ids.filter((id) => id !== appointmentId)));
+  },
+
+  // Remove every note draft kept on this device, e.g. on sign out
+  async clearLocalDrafts(): Promise<void> {
+    const ids = await getLocalDraftIds();
+    await Promise.all(ids.map((id) => AsyncStorage.removeItem(draftKey(id))));
+    await AsyncStorage.removeItem(DRAFTS_STORAGE_KEY);
+  },
+};
@@ -0,0 +1,223 @@
+import { addDays, format, getDaysInMonth, parseISO } from 'date-fns';
+import { AVAILABILITY_WINDOW_DAYS } from './therapist-matching';
+import type { Appointment, AvailabilitySummaryDate, TherapistAvailability, TimeSlot } from '../types';
+
+// Lightest to darkest, index is the heat level
+export const HEAT_LEVEL_COLORS = ['#F3F4F6', '#D1FAE5', '#6EE7B7', '#10B981', '#047857'];
+// Months searched for the first available slot
+export const FIRST_AVAILABLE_MONTHS = 3;
+// Days checked slot by slot when building suggestions
+export const MAX_SUGGESTION_DAYS = 5;
+// Hours either side of a usual booking time that still count as close
+const HOUR_SPREAD = 3;
+
+export interface SlotChoice {
+  date: string;
+  slot: TimeSlot;
+}
+
+export interface SlotSuggestion extends SlotChoice {
+  score: number;
+}
+
+export interface HeatmapCell {
+  date: string;
+  availableSlots: number;
+  level: number;
+  isPast: boolean;
+}
+
+export interface BookingProfile {
+  // Past sessions by hour of day (0-23) and weekday (0 = Sunday)
+  hours: number[];
+  weekdays: number[];
+  total: number;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function getHeatLevel(availableSlots: number, maxSlots: number): number {
+  if (availableSlots <= 0 || maxSlots <= 0) return 0;
+  const top = HEAT_LEVEL_COLORS.length - 1;
+  return Math.min(top, Math.ceil((availableSlots / maxSlots) * top));
+}
+
+/**
+ * The month as Sunday-first weeks, shaded relative to the busiest day.
+ * Days outside the month are null.
+ */
+export function buildHeatmapWeeks(
+  month: string,
+  dates: AvailabilitySummaryDate[],
+  today = format(new Date(), 'yyyy-MM-dd')
+): (HeatmapCell | null)[][] {
+  const first = parseISO(`${month}-01`);
+  const slotsByDate = new Map(dates.map((d) => [d.date, d.hasSlots ? d.availableSlots : 0]));
+  const maxSlots = Math.max(0, ...dates.filter((d) => d.date >= today).map((d) => slotsByDate.get(d.date) ?? 0));
+
+  const cells: (HeatmapCell | null)[] = Array(first.getDay()).fill(null);
+  for (let day = 0; day < getDaysInMonth(first); day++) {
+    const date = format(addDays(first, day), 'yyyy-MM-dd');
+    const isPast = date < today;
+    const availableSlots = isPast ? 0 : slotsByDate.get(date) ?? 0;
+    cells.push({ date, availableSlots, level: getHeatLevel(availableSlots, maxSlots), isPast });
+  }
+  while (cells.length % 7) cells.push(null);
+
+  const weeks: (HeatmapCell | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+export function getFreeSlots(availability: TherapistAvailability): TimeSlot[] {
+  const bookedTimes = new Set(availability.bookedSlots?.map((s) => s.startTime) || []);
+  return availability.slots.filter((slot) => !bookedTimes.has(slot.startTime));
+}
+
+/**
+ * Start times with enough back-to-back free slots to fit a session of the
+ * given length.
+ */
+export function getSlotsForDuration(slots: TimeSlot[], duration: number): TimeSlot[] {
+  const sorted = [...slots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return sorted.filter((slot, index) => {
+    const start = toMinutes(slot.startTime);
+    let end = toMinutes(slot.endTime);
+    for (let next = index + 1; end - start < duration && next < sorted.length; next++) {
+      if (toMinutes(sorted[next].startTime) !== end) break;
+      end = toMinutes(sorted[next].endTime);
+    }
+    return end - start >= duration;
+  });
+}
+
+// Slots on the day that fit the duration and haven't started yet
+function getUpcomingSlots(day: TherapistAvailability, duration: number, now: Date): TimeSlot[] {
+  const today = format(now, 'yyyy-MM-dd');
+  const currentTime = format(now, 'HH:mm');
+  return getSlotsForDuration(getFreeSlots(day), duration).filter(
+    (slot) => day.date > today || slot.startTime > currentTime
+  );
+}
+
+/**
+ * When the client usually books. Each session counts in the timezone it was
+ * booked from, so an evening session is still an evening session after the
+ * client moves or travels.
+ */
+export function buildBookingProfile(appointments: Appointment[], fallbackTimezone: string): BookingProfile {
+  const profile: BookingProfile = { hours: Array(24).fill(0), weekdays: Array(7).fill(0), total: 0 };
+  const weekdayIndex: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+  appointments
+    .filter((appointment) => appointment.status !== 'CANCELLED' && appointment.type === 'SCHEDULED')
+    .forEach((appointment) => {
+      let parts: Intl.DateTimeFormatPart[];
+      try {
+        parts = new Intl.DateTimeFormat('en-US', {
+          timeZone: appointment.timezone || fallbackTimezone,
+          hour: 'numeric',
+          hourCycle: 'h23',
+          weekday: 'short',
+        }).formatToParts(new Date(appointment.scheduledAt));
+      } catch {
+        // Unknown timezone name
+        return;
+      }
+      const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+      const weekday = weekdayIndex[parts.find((part) => part.type === 'weekday')?.value ?? ''];
+      if (Number.isNaN(hour) || weekday === undefined) return;
+
+      profile.hours[hour % 24]++;
+      profile.weekdays[weekday]++;
+      profile.total++;
+    });
+
+  return profile;
+}
+
+// 0-1, how closely a slot matches the client's usual hour and weekday
+export function scoreSlot(date: string, slot: TimeSlot, profile: BookingProfile): number {
+  if (!profile.total) return 0;
+
+  const hour = Math.floor(toMinutes(slot.startTime) / 60);
+  const hourScore = profile.hours.reduce(
+    (sum, count, bookedHour) => sum + count * Math.max(0, 1 - Math.abs(hour - bookedHour) / HOUR_SPREAD),
+    0
+  );
+  const dayScore = profile.weekdays[parseISO(date).getDay()];
+
+  return (0.7 * hourScore + 0.3 * dayScore) / profile.total;
+}
+
+/**
+ * Upcoming days worth checking for suggestions: open days in the window,
+ * the client's usual weekdays first.
+ */
+export function getSuggestionDates(
+  dates: AvailabilitySummaryDate[],
+  profile: BookingProfile,
+  now = new Date()
+): string[] {
+  const from = format(now, 'yyyy-MM-dd');
+  const to = format(addDays(now, AVAILABILITY_WINDOW_DAYS - 1), 'yyyy-MM-dd');
+
+  return dates
+    .filter((d) => d.hasSlots && d.date >= from && d.date <= to)
+    .sort(
+      (a, b) =>
+        profile.weekdays[parseISO(b.date).getDay()] - profile.weekdays[parseISO(a.date).getDay()] ||
+        a.date.localeCompare(b.date)
+    )
+    .slice(0, MAX_SUGGESTION_DAYS)
+    .map((d) => d.date);
+}
+
+// Best slot per day, best days first
+export function suggestSlots(
+  days: TherapistAvailability[],
+  profile: BookingProfile,
+  duration: number,
+  limit = 3,
+  now = new Date()
+): SlotSuggestion[] {
+  if (!profile.total) return [];
+
+  return days
+    .map((day) =>
+      getUpcomingSlots(day, duration, now)
+        .map((slot) => ({ date: day.date, slot, score: scoreSlot(day.date, slot, profile) }))
+        .sort((a, b) => b.score - a.score)[0]
+    )
+    .filter((suggestion): suggestion is SlotSuggestion => !!suggestion && suggestion.score > 0)
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+    .slice(0, limit);
+}
+
+/**
+ * Walk open days in order and return the earliest slot that fits the
+ * duration. Days are loaded one at a time so the search stops at the first hit.
+ */
+export async function findFirstAvailableSlot(
+  dates: AvailabilitySummaryDate[],
+  duration: number,
+  loadDay: (date: string) => Promise<TherapistAvailability>,
+  now = new Date()
+): Promise<SlotChoice | null> {
+  const from = format(now, 'yyyy-MM-dd');
+  const candidates = dates
+    .filter((d) => d.hasSlots && d.date >= from)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const { date } of candidates) {
+    const [slot] = getUpcomingSlots({ ...(await loadDay(date)), date }, duration, now);
+    if (slot) return { date, slot };
+  }
+  return null;
+}
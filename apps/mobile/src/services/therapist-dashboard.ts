@@ -1,10 +1,16 @@
 import api from './api';
+import type { CancellationPolicyPreset } from '@hopefull/types';
 import type {
   Therapist,
   Appointment,
+  TherapistAvailabilitySettings,
   TherapistStats,
   TherapistAppointmentFilters,
-  PaginatedResponse
+  PaginatedResponse,
+  PayoutAccount,
+  PayoutBalance,
+  Payout,
+  PayoutDetails,
 } from '@/types';
 
 export interface TherapistProfile extends Therapist {
@@ -32,6 +38,36 @@ export const therapistDashboardService = {
     return response.data;
   },
 
+  // Choose the refund policy shown to clients before booking
+  async updateCancellationPolicy(preset: CancellationPolicyPreset): Promise<TherapistProfile> {
+    const response = await api.patch<TherapistProfile>('/therapists/me/cancellation-policy', { preset });
+    return response.data;
+  },
+
+  // Set session rates, in minor units of the chosen currency
+  async updateRates(rates: { currency: string; hourlyRate: number; perMinuteRate: number }): Promise<TherapistProfile> {
+    const response = await api.patch<TherapistProfile>('/therapists/me/rates', rates);
+    return response.data;
+  },
+
+  // Choose the intake form new clients fill in, or null for none
+  async updateIntakeTemplate(templateId: string | null): Promise<TherapistProfile> {
+    const response = await api.patch<TherapistProfile>('/therapists/me/intake-template', { templateId });
+    return response.data;
+  },
+
+  // Get weekly schedule, overrides, time off and buffer
+  async getAvailabilitySettings(): Promise<TherapistAvailabilitySettings> {
+    const response = await api.get<TherapistAvailabilitySettings>('/therapists/me/availability-settings');
+    return response.data;
+  },
+
+  // Replace availability settings
+  async updateAvailabilitySettings(settings: TherapistAvailabilitySettings): Promise<TherapistAvailabilitySettings> {
+    const response = await api.put<TherapistAvailabilitySettings>('/therapists/me/availability-settings', settings);
+    return response.data;
+  },
+
   // Get dashboard stats
   async getStats(): Promise<TherapistStats> {
     const response = await api.get<TherapistStats>('/therapists/me/stats');
@@ -94,6 +130,36 @@ export const therapistDashboardService = {
     const response = await api.get(`/therapists/me/earnings?period=${period}`);
     return response.data;
   },
+
+  // Get Stripe Connect status, bank account and payout schedule
+  async getPayoutAccount(): Promise<PayoutAccount> {
+    const response = await api.get<PayoutAccount>('/therapists/me/payouts/account');
+    return response.data;
+  },
+
+  // Get a Stripe-hosted link to start or finish Connect onboarding
+  async createPayoutOnboardingLink(): Promise<{ url: string }> {
+    const response = await api.post<{ url: string }>('/therapists/me/payouts/onboarding-link');
+    return response.data;
+  },
+
+  // Get available and pending balance, one entry per currency
+  async getPayoutBalances(): Promise<PayoutBalance[]> {
+    const response = await api.get<PayoutBalance[]>('/therapists/me/payouts/balance');
+    return response.data;
+  },
+
+  // Get payouts, newest first
+  async getPayouts(page = 1, limit = 10): Promise<PaginatedResponse<Payout>> {
+    const response = await api.get<PaginatedResponse<Payout>>(`/therapists/me/payouts?page=${page}&limit=${limit}`);
+    return response.data;
+  },
+
+  // Get a payout with the payments it contains
+  async getPayout(id: string): Promise<PayoutDetails> {
+    const response = await api.get<PayoutDetails>(`/therapists/me/payouts/${id}`);
+    return response.data;
+  },
 };
 
 export default therapistDashboardService;
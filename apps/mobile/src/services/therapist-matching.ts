@@ -0,0 +1,208 @@
+import { addDays, format, isWeekend, parseISO } from 'date-fns';
+import type { Ionicons } from '@expo/vector-icons';
+import type {
+  AvailabilitySummary,
+  AvailabilitySummaryDate,
+  ExchangeRates,
+  MatchingAnswers,
+  Specialization,
+  Therapist,
+} from '../types';
+import { DEFAULT_CURRENCY, convertAmount } from './currency';
+
+export const MATCHING_CONCERNS: { specialization: Specialization; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { specialization: 'Anxiety', icon: 'pulse-outline' },
+  { specialization: 'Depression', icon: 'cloud-outline' },
+  { specialization: 'Stress', icon: 'flame-outline' },
+  { specialization: 'Relationship', icon: 'heart-outline' },
+  { specialization: 'Family', icon: 'people-outline' },
+  { specialization: 'Grief', icon: 'leaf-outline' },
+  { specialization: 'PTSD', icon: 'shield-outline' },
+  { specialization: 'Addiction', icon: 'wine-outline' },
+  { specialization: 'Career', icon: 'briefcase-outline' },
+  { specialization: 'Self-esteem', icon: 'person-outline' },
+];
+
+// Hourly budgets offered in the questionnaire, in minor units of MATCHING_BUDGET_CURRENCY
+export const MATCHING_BUDGET_CURRENCY = DEFAULT_CURRENCY;
+export const MATCHING_BUDGETS = [8000, 12000, 16000];
+
+export const SHORTLIST_SIZE = 5;
+
+// How far ahead availability counts towards a match
+export const AVAILABILITY_WINDOW_DAYS = 14;
+
+// Points per criterion; a match is scored against the criteria the client answered
+const WEIGHTS = {
+  concerns: 50,
+  availability: 20,
+  gender: 10,
+  budget: 10,
+  rating: 10,
+};
+
+// Days with availability that earn the full availability score
+const FULL_AVAILABILITY_DAYS = 5;
+
+export type MatchReason =
+  | { type: 'CONCERNS'; matched: string[] }
+  | { type: 'LANGUAGE'; language: string }
+  | { type: 'BUDGET'; hourlyRate: number; currency: string }
+  | { type: 'GENDER' }
+  | { type: 'AVAILABILITY'; days: number; firstDate: string }
+  | { type: 'RATING'; rating: number; reviews: number };
+
+export interface TherapistMatch {
+  therapist: Therapist;
+  score: number; // 0-100
+  reasons: MatchReason[];
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Rates are in each therapist's own currency, so compare them in the budget's
+function isOverBudget(therapist: Therapist, maxBudget: number, rates?: ExchangeRates): boolean {
+  const hourlyRate = convertAmount(
+    therapist.hourlyRate,
+    therapist.currency ?? DEFAULT_CURRENCY,
+    MATCHING_BUDGET_CURRENCY,
+    rates
+  );
+  return hourlyRate !== null && hourlyRate > maxBudget;
+}
+
+/**
+ * Language, budget and gender are requirements rather than preferences, so a
+ * therapist who misses any of them isn't shown at all. An unknown gender, or
+ * a rate that can't be converted without `rates`, doesn't rule anyone out.
+ */
+export function isEligible(therapist: Therapist, answers: MatchingAnswers, rates?: ExchangeRates): boolean {
+  if (
+    answers.language &&
+    !therapist.languages.some((l) => normalize(l.language) === normalize(answers.language!))
+  ) {
+    return false;
+  }
+  if (answers.maxBudget && isOverBudget(therapist, answers.maxBudget, rates)) return false;
+  if (answers.gender && therapist.gender && therapist.gender !== answers.gender) return false;
+  return true;
+}
+
+/**
+ * Month keys (yyyy-MM) the availability window touches, for fetching
+ * availability summaries.
+ */
+export function getAvailabilityMonths(now = new Date()): string[] {
+  const first = format(now, 'yyyy-MM');
+  const last = format(addDays(now, AVAILABILITY_WINDOW_DAYS - 1), 'yyyy-MM');
+  return first === last ? [first] : [first, last];
+}
+
+/**
+ * Days in the availability window with open slots that suit the client.
+ * Periods are only checked when the summary reports them.
+ */
+export function getMatchingDates(
+  summaries: AvailabilitySummary[],
+  answers: Pick<MatchingAnswers, 'days' | 'periods'>,
+  now = new Date()
+): AvailabilitySummaryDate[] {
+  const from = format(now, 'yyyy-MM-dd');
+  const to = format(addDays(now, AVAILABILITY_WINDOW_DAYS - 1), 'yyyy-MM-dd');
+
+  return summaries
+    .flatMap((summary) => summary.dates)
+    .filter((day) => day.hasSlots && day.date >= from && day.date <= to)
+    .filter((day) => {
+      if (answers.days === 'ANY') return true;
+      return isWeekend(parseISO(day.date)) === (answers.days === 'WEEKENDS');
+    })
+    .filter((day) => !answers.periods.length || !day.periods || day.periods.some((p) => answers.periods.includes(p)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Score one therapist against the answers, with the reasons behind it.
+ * Null when the therapist isn't eligible. Without `availability` the
+ * availability criterion is left out, which is enough for a first cut.
+ */
+export function scoreTherapist(
+  therapist: Therapist,
+  answers: MatchingAnswers,
+  availability?: AvailabilitySummary[],
+  now = new Date(),
+  rates?: ExchangeRates
+): TherapistMatch | null {
+  if (!isEligible(therapist, answers, rates)) return null;
+
+  const reasons: MatchReason[] = [];
+  let points = 0;
+  let possible = WEIGHTS.rating;
+
+  if (answers.concerns.length) {
+    possible += WEIGHTS.concerns;
+    const specializations = therapist.specializations.map((s) => normalize(s.specialization.name));
+    const matched = answers.concerns.filter((concern) => specializations.includes(normalize(concern)));
+    if (matched.length) {
+      points += (WEIGHTS.concerns * matched.length) / answers.concerns.length;
+      reasons.push({ type: 'CONCERNS', matched });
+    }
+  }
+
+  if (answers.language) {
+    reasons.push({ type: 'LANGUAGE', language: answers.language });
+  }
+
+  if (answers.gender) {
+    possible += WEIGHTS.gender;
+    if (therapist.gender === answers.gender) {
+      points += WEIGHTS.gender;
+      reasons.push({ type: 'GENDER' });
+    }
+  }
+
+  if (answers.maxBudget) {
+    possible += WEIGHTS.budget;
+    points += WEIGHTS.budget;
+    reasons.push({
+      type: 'BUDGET',
+      hourlyRate: therapist.hourlyRate,
+      currency: therapist.currency ?? DEFAULT_CURRENCY,
+    });
+  }
+
+  if (availability) {
+    possible += WEIGHTS.availability;
+    const dates = getMatchingDates(availability, answers, now);
+    if (dates.length) {
+      points += (WEIGHTS.availability * Math.min(dates.length, FULL_AVAILABILITY_DAYS)) / FULL_AVAILABILITY_DAYS;
+      reasons.push({ type: 'AVAILABILITY', days: dates.length, firstDate: dates[0].date });
+    }
+  }
+
+  points += (WEIGHTS.rating * therapist.averageRating) / 5;
+  if (therapist.averageRating >= 4.5 && therapist.totalReviews >= 5) {
+    reasons.push({ type: 'RATING', rating: therapist.averageRating, reviews: therapist.totalReviews });
+  }
+
+  return { therapist, score: Math.round((points / possible) * 100), reasons };
+}
+
+/**
+ * Eligible therapists, best match first. Ties go to the better-reviewed
+ * therapist.
+ */
+export function rankTherapists(
+  therapists: Therapist[],
+  answers: MatchingAnswers,
+  availability: Record<string, AvailabilitySummary[]> = {},
+  limit = SHORTLIST_SIZE,
+  now = new Date(),
+  rates?: ExchangeRates
+): TherapistMatch[] {
+  return therapists
+    .map((therapist) => scoreTherapist(therapist, answers, availability[therapist.id], now, rates))
+    .filter((match): match is TherapistMatch => match !== null)
+    .sort((a, b) => b.score - a.score || b.therapist.totalReviews - a.therapist.totalReviews)
+    .slice(0, limit);
+}
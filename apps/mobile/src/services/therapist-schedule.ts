@@ -0,0 +1,117 @@
+import { eachDayOfInterval, endOfMonth, format, parse } from 'date-fns';
+import type {
+  AvailabilitySummary,
+  TherapistAvailabilitySettings,
+  TimeSlot,
+} from '../types';
+
+// Length of the sessions clients book into the schedule
+export const SESSION_SLOT_MINUTES = 60;
+
+// Granularity of the time steppers in the editor
+export const SCHEDULE_STEP_MINUTES = 30;
+
+export const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+
+export type ScheduleBlockIssue = 'invalidRange' | 'overlap';
+
+export type DayScheduleSource = 'weekly' | 'override' | 'timeOff';
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function fromMinutes(total: number): string {
+  const clamped = Math.min(Math.max(total, 0), 24 * 60);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * First problem with a day's blocks, or null when they can be saved.
+ */
+export function validateBlocks(blocks: TimeSlot[]): ScheduleBlockIssue | null {
+  if (blocks.some((block) => toMinutes(block.endTime) <= toMinutes(block.startTime))) {
+    return 'invalidRange';
+  }
+
+  const sorted = [...blocks].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+  for (let i = 1; i < sorted.length; i++) {
+    if (toMinutes(sorted[i].startTime) < toMinutes(sorted[i - 1].endTime)) {
+      return 'overlap';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Working hours on a given day (yyyy-MM-dd). Time off wins over a
+ * date-specific override, which wins over the weekly schedule.
+ */
+export function getBlocksForDate(
+  settings: TherapistAvailabilitySettings,
+  date: string
+): { blocks: TimeSlot[]; source: DayScheduleSource } {
+  if (settings.timeOff.some((range) => date >= range.startDate && date <= range.endDate)) {
+    return { blocks: [], source: 'timeOff' };
+  }
+
+  const override = settings.overrides.find((o) => o.date === date);
+  if (override) {
+    return { blocks: override.blocks, source: 'override' };
+  }
+
+  const dayOfWeek = parse(date, 'yyyy-MM-dd', new Date()).getDay();
+  const blocks = settings.schedule
+    .filter((block) => block.isActive && block.dayOfWeek === dayOfWeek)
+    .map(({ startTime, endTime }) => ({ startTime, endTime }));
+
+  return { blocks, source: 'weekly' };
+}
+
+/**
+ * Bookable session slots within the blocks, leaving `bufferMinutes` free
+ * after each session.
+ */
+export function buildDaySlots(
+  blocks: TimeSlot[],
+  bufferMinutes: number,
+  slotMinutes = SESSION_SLOT_MINUTES
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+
+  for (const block of blocks) {
+    const end = toMinutes(block.endTime);
+    for (let start = toMinutes(block.startTime); start + slotMinutes <= end; start += slotMinutes + bufferMinutes) {
+      slots.push({ startTime: fromMinutes(start), endTime: fromMinutes(start + slotMinutes) });
+    }
+  }
+
+  return slots.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+}
+
+/**
+ * What clients would see on the calendar for `month` (yyyy-MM) under these
+ * settings, before existing bookings are taken out. Days before `today`
+ * never have slots.
+ */
+export function buildAvailabilitySummary(
+  settings: TherapistAvailabilitySettings,
+  month: string,
+  therapistTimezone: string,
+  today = format(new Date(), 'yyyy-MM-dd')
+): AvailabilitySummary {
+  const start = parse(`${month}-01`, 'yyyy-MM-dd', new Date());
+
+  const dates = eachDayOfInterval({ start, end: endOfMonth(start) }).map((day) => {
+    const date = format(day, 'yyyy-MM-dd');
+    const availableSlots =
+      date < today
+        ? 0
+        : buildDaySlots(getBlocksForDate(settings, date).blocks, settings.bufferMinutes).length;
+    return { date, availableSlots, hasSlots: availableSlots > 0 };
+  });
+
+  return { month, therapistTimezone, dates };
+}
@@ -8,6 +8,7 @@ export interface UpdateProfileData {
   bio?: string;
   timezone?: string;
   preferredLanguage?: string;
+  displayCurrency?: string;
 }
 
 export interface UploadAvatarData {
@@ -0,0 +1,57 @@
+import api from './api';
+import type {
+  AvailabilitySummary,
+  WaitlistEntry,
+  WaitlistOffer,
+  WaitlistTimeOfDay,
+} from '../types';
+
+export interface JoinWaitlistData {
+  preferredDays: number[];
+  preferredTimes: WaitlistTimeOfDay[];
+}
+
+// Start hour (inclusive) and end hour (exclusive) of each preference
+export const WAITLIST_TIME_WINDOWS: Record<WaitlistTimeOfDay, { start: number; end: number }> = {
+  MORNING: { start: 6, end: 12 },
+  AFTERNOON: { start: 12, end: 17 },
+  EVENING: { start: 17, end: 22 },
+};
+
+/**
+ * A month where no day has a free slot, so the calendar offers nothing to
+ * pick and the waitlist should be offered instead.
+ */
+export function isMonthFullyBooked(summary?: AvailabilitySummary): boolean {
+  if (!summary || summary.dates.length === 0) return false;
+  return summary.dates.every((date) => !date.hasSlots);
+}
+
+export function getHoldSecondsRemaining(offer: Pick<WaitlistOffer, 'expiresAt'>, now = Date.now()): number {
+  return Math.max(0, Math.ceil((new Date(offer.expiresAt).getTime() - now) / 1000));
+}
+
+export function isOfferClaimable(offer: Pick<WaitlistOffer, 'status' | 'expiresAt'>, now = Date.now()): boolean {
+  return offer.status === 'HELD' && getHoldSecondsRemaining(offer, now) > 0;
+}
+
+export const waitlistService = {
+  async join(therapistId: string, data: JoinWaitlistData): Promise<WaitlistEntry> {
+    const response = await api.post<WaitlistEntry>(`/therapists/${therapistId}/waitlist`, data);
+    return response.data;
+  },
+
+  async getMyEntries(): Promise<WaitlistEntry[]> {
+    const response = await api.get<WaitlistEntry[]>('/waitlist');
+    return response.data;
+  },
+
+  async leave(entryId: string): Promise<void> {
+    await api.delete(`/waitlist/${entryId}`);
+  },
+
+  async getOffer(offerId: string): Promise<WaitlistOffer> {
+    const response = await api.get<WaitlistOffer>(`/waitlist/offers/${offerId}`);
+    return response.data;
+  },
+};
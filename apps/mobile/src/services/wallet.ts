@@ -0,0 +1,122 @@
+import api from './api';
+import type {
+  PaginatedResponse,
+  SessionPackage,
+  WalletBalance,
+  WalletTransaction,
+} from '../types';
+
+export interface PackageOption {
+  sessions: number;
+  discountPercent: number;
+  // Days from purchase to use every session
+  validityDays: number;
+}
+
+export const PACKAGE_OPTIONS: PackageOption[] = [
+  { sessions: 4, discountPercent: 10, validityDays: 90 },
+  { sessions: 8, discountPercent: 15, validityDays: 180 },
+];
+
+export const MAX_PACKAGE_DISCOUNT_PERCENT = Math.max(...PACKAGE_OPTIONS.map((option) => option.discountPercent));
+
+// Packages this close to expiry are flagged in the wallet
+export const PACKAGE_EXPIRY_WARNING_DAYS = 14;
+
+export interface BookingFunding {
+  // Sessions drawn from the package, each covers one full session price
+  packageSessions: number;
+  // Taken from the wallet balance in the booking currency
+  walletAmount: number;
+  // Left over for the card
+  cardAmount: number;
+}
+
+export interface PurchasePackageData {
+  therapistId: string;
+  sessions: number;
+  duration: number;
+  paymentMethodId: string;
+  stripePaymentIntentId: string;
+}
+
+export function getPackagePrice(sessionPrice: number, option: PackageOption): number {
+  return Math.round(sessionPrice * option.sessions * (1 - option.discountPercent / 100));
+}
+
+export function getPackageSessionsLeft(pkg: SessionPackage): number {
+  return Math.max(0, pkg.sessionCount - pkg.sessionsUsed);
+}
+
+export function isPackageUsable(pkg: SessionPackage, now = new Date()): boolean {
+  return (
+    pkg.status === 'ACTIVE' && getPackageSessionsLeft(pkg) > 0 && new Date(pkg.expiresAt).getTime() > now.getTime()
+  );
+}
+
+export function getDaysUntilExpiry(pkg: SessionPackage, now = new Date()): number {
+  return Math.max(0, Math.ceil((new Date(pkg.expiresAt).getTime() - now.getTime()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * The package a booking draws from: usable, with this therapist and for this
+ * session length. The one expiring soonest goes first.
+ */
+export function findPackageForBooking(
+  packages: SessionPackage[],
+  therapistId: string,
+  duration: number,
+  now = new Date()
+): SessionPackage | null {
+  return (
+    packages
+      .filter((pkg) => pkg.therapistId === therapistId && pkg.duration === duration && isPackageUsable(pkg, now))
+      .sort((a, b) => a.expiresAt.localeCompare(b.expiresAt))[0] ?? null
+  );
+}
+
+export function getWalletBalance(balances: WalletBalance[] | undefined, currency: string): number {
+  return balances?.find((balance) => balance.currency === currency)?.amount ?? 0;
+}
+
+/**
+ * Split a booking across the package, then the wallet, then the card.
+ * Package sessions cover whole sessions; the wallet only pays in its own
+ * currency.
+ */
+export function planBookingFunding(params: {
+  sessionPrice: number;
+  sessionCount: number;
+  packageSessionsLeft: number;
+  walletBalance: number;
+}): BookingFunding {
+  const packageSessions = Math.min(params.sessionCount, params.packageSessionsLeft);
+  const remaining = params.sessionPrice * (params.sessionCount - packageSessions);
+  const walletAmount = Math.min(remaining, Math.max(0, params.walletBalance));
+
+  return { packageSessions, walletAmount, cardAmount: remaining - walletAmount };
+}
+
+export const walletService = {
+  async getBalances(): Promise<WalletBalance[]> {
+    const response = await api.get<WalletBalance[]>('/wallet/balances');
+    return response.data;
+  },
+
+  async getPackages(): Promise<SessionPackage[]> {
+    const response = await api.get<SessionPackage[]>('/wallet/packages');
+    return response.data;
+  },
+
+  async getTransactions(page = 1, limit = 20): Promise<PaginatedResponse<WalletTransaction>> {
+    const response = await api.get<PaginatedResponse<WalletTransaction>>(
+      `/wallet/transactions?page=${page}&limit=${limit}`
+    );
+    return response.data;
+  },
+
+  async purchasePackage(data: PurchasePackageData): Promise<SessionPackage> {
+    const response = await api.post<SessionPackage>('/wallet/packages', data);
+    return response.data;
+  },
+};
@@ -3,7 +3,10 @@ import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { isBiometricEnabled } from '@/services/biometric';
 import { authService } from '@/services/auth';
-import { setLoggingOut } from '@/services/api';
+import { setLoggingOut, isNetworkError } from '@/services/api';
+
+// Last known profile, used to keep the session usable on an offline cold start
+const CACHED_USER_KEY = 'cachedUser';
 
 interface User {
   id: string;
@@ -12,6 +15,9 @@ interface User {
   firstName?: string;
   lastName?: string;
   avatarUrl?: string;
+  preferredLanguage?: string;
+  country?: string;
+  displayCurrency?: string;
 }
 
 interface AuthState {
@@ -49,6 +55,11 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 
   setUser: (user) => {
     set({ user, isAuthenticated: !!user });
+    if (user) {
+      AsyncStorage.setItem(CACHED_USER_KEY, JSON.stringify(user));
+    } else {
+      AsyncStorage.removeItem(CACHED_USER_KEY);
+    }
   },
 
   setTokens: async (accessToken, refreshToken) => {
@@ -65,6 +76,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       await SecureStore.deleteItemAsync('accessToken');
       await SecureStore.deleteItemAsync('refreshToken');
+      await AsyncStorage.removeItem(CACHED_USER_KEY);
     } catch (error) {
       console.error('Error clearing tokens:', error);
     }
@@ -102,13 +114,21 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         // to the wrong tabs (user vs therapist) before the role is known.
         try {
           const user = await authService.getMe();
+          await AsyncStorage.setItem(CACHED_USER_KEY, JSON.stringify(user));
           set({ user, isAuthenticated: true });
         } catch (error) {
-          // Token might be expired, clear auth state
-          console.error('Failed to fetch user profile:', error);
-          await SecureStore.deleteItemAsync('accessToken');
-          await SecureStore.deleteItemAsync('refreshToken');
-          set({ accessToken: null, refreshToken: null, isAuthenticated: false });
+          // Offline: the token may still be valid, so keep the session with the cached profile
+          const cachedUser = isNetworkError(error) ? await AsyncStorage.getItem(CACHED_USER_KEY) : null;
+
+          if (cachedUser) {
+            set({ user: JSON.parse(cachedUser), isAuthenticated: true });
+          } else {
+            // Token might be expired, clear auth state
+            console.error('Failed to fetch user profile:', error);
+            await SecureStore.deleteItemAsync('accessToken');
+            await SecureStore.deleteItemAsync('refreshToken');
+            set({ accessToken: null, refreshToken: null, isAuthenticated: false });
+          }
         }
       }
 
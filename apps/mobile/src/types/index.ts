@@ -1,3 +1,5 @@
+import type { CancellationPolicyPreset } from '@hopefull/types';
+
 // User types
 export interface User {
   id: string;
@@ -12,6 +14,8 @@ export interface User {
   bio?: string;
   timezone?: string;
   preferredLanguage?: string;
+  country?: string; // ISO 3166-1 alpha-2
+  displayCurrency?: string; // ISO 4217, prices are converted into it
   emailVerified: boolean;
   phoneVerified: boolean;
   createdAt: string;
@@ -30,6 +34,8 @@ export interface Therapist {
   timezone: string;
   verificationStatus: 'PENDING' | 'APPROVED' | 'REJECTED';
   isOnline: boolean;
+  // ISO 4217; rates are in its minor units and sessions are charged in it. USD when missing
+  currency?: string;
   hourlyRate: number;
   perMinuteRate: number;
   averageRating: number;
@@ -38,6 +44,22 @@ export interface Therapist {
   user: Pick<User, 'id' | 'firstName' | 'lastName' | 'avatarUrl'>;
   languages: TherapistLanguage[];
   specializations: TherapistSpecialization[];
+  // Overrides of the platform reschedule policy
+  reschedulePolicy?: Partial<ReschedulePolicy>;
+  cancellationPolicy?: CancellationPolicyPreset;
+  // Intake form sent to new clients, none when null
+  intakeTemplateId?: string | null;
+  gender?: TherapistGender;
+  billing?: TherapistBillingInfo;
+}
+
+// Printed on invoices and superbills so clients can claim from their insurer
+export interface TherapistBillingInfo {
+  licenseNumber: string;
+  licenseState?: string;
+  npi?: string;
+  taxId?: string;
+  practiceAddress?: string;
 }
 
 export interface TherapistLanguage {
@@ -75,6 +97,8 @@ export interface InstantCallTherapist {
   professionalTitle: string;
   averageRating: number;
   totalReviews: number;
+  // ISO 4217; rates are in its minor units and calls are charged in it. USD when missing
+  currency?: string;
   hourlyRate: number;
   perMinuteRate: number;
   languages: string[];
@@ -92,6 +116,8 @@ export interface AvailabilitySummaryDate {
   date: string;
   availableSlots: number;
   hasSlots: boolean;
+  // Parts of the day with open slots
+  periods?: WaitlistTimeOfDay[];
 }
 
 // Appointment types
@@ -105,6 +131,7 @@ export interface Appointment {
   type: 'SCHEDULED' | 'INSTANT';
   status: 'PENDING' | 'CONFIRMED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
   amount: number;
+  currency?: string; // the therapist's, USD when missing
   bookingNotes?: string;
   sessionNotes?: string;
   cancellationReason?: string;
@@ -116,6 +143,325 @@ export interface Appointment {
   user?: User;
   review?: Review;
   payment?: Payment;
+  seriesId?: string;
+  seriesIndex?: number; // 1-based position within the series
+  series?: AppointmentSeries;
+  rescheduleCount?: number;
+  rescheduleRequest?: RescheduleRequest;
+  // Only on a client's first session with the therapist
+  intake?: IntakeResponse;
+  // Billing codes the therapist recorded; CPT falls back to one for the duration
+  cptCode?: string;
+  diagnosisCodes?: string[]; // ICD-10
+}
+
+// Rescheduling
+export interface ReschedulePolicy {
+  freeReschedules: number; // per appointment
+  freeWindowHours: number; // free only when the session is further out than this
+  feePercent: number; // of the session fee, charged otherwise
+  minNoticeHours: number; // no rescheduling closer to the session than this
+}
+
+export interface RescheduleRequest {
+  id: string;
+  appointmentId: string;
+  requestedBy: 'USER' | 'THERAPIST';
+  previousScheduledAt: string;
+  proposedAt: string;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'COUNTER_PROPOSED';
+  // Alternative offered by the therapist
+  counterProposedAt?: string;
+  fee: number;
+  createdAt: string;
+}
+
+// Recurring appointment series
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY';
+
+// Which bookings of a series a change applies to
+export type SeriesScope = 'ALL' | 'FUTURE';
+
+export interface AppointmentSeries {
+  id: string;
+  userId: string;
+  therapistId: string;
+  frequency: RecurrenceFrequency;
+  occurrenceCount: number;
+  until?: string;
+  duration: number;
+  timezone: string;
+  createdAt: string;
+  appointments?: Appointment[];
+}
+
+// Waitlist for fully booked therapists
+export type WaitlistTimeOfDay = 'MORNING' | 'AFTERNOON' | 'EVENING';
+
+export interface WaitlistEntry {
+  id: string;
+  userId: string;
+  therapistId: string;
+  preferredDays: number[]; // 0-6 (Sunday-Saturday), empty for any day
+  preferredTimes: WaitlistTimeOfDay[]; // empty for any time
+  status: 'ACTIVE' | 'OFFERED' | 'FULFILLED' | 'CANCELLED';
+  createdAt: string;
+  therapist?: Therapist;
+}
+
+// A freed-up slot held for one waitlisted user until it expires
+export interface WaitlistOffer {
+  id: string;
+  waitlistEntryId: string;
+  therapistId: string;
+  scheduledAt: string;
+  startTime: string; // HH:mm
+  endTime: string;
+  expiresAt: string;
+  status: 'HELD' | 'CLAIMED' | 'EXPIRED';
+}
+
+// Intake questionnaires
+export type IntakeQuestionType = 'TEXT' | 'SINGLE_CHOICE' | 'MULTI_CHOICE' | 'SCALE' | 'DATE';
+
+export type IntakeAnswerValue = string | string[] | number;
+
+// Shows a question only when an earlier answer matches
+export interface IntakeCondition {
+  questionId: string;
+  operator: 'EQUALS' | 'NOT_EQUALS' | 'INCLUDES' | 'AT_LEAST' | 'AT_MOST';
+  value: string | number;
+}
+
+export interface IntakeChoiceOption {
+  value: string;
+  label: string;
+}
+
+interface IntakeQuestionBase {
+  id: string;
+  label: string;
+  helpText?: string;
+  required?: boolean;
+  showIf?: IntakeCondition;
+}
+
+export type IntakeQuestion =
+  | (IntakeQuestionBase & { type: 'TEXT'; multiline?: boolean })
+  | (IntakeQuestionBase & { type: 'SINGLE_CHOICE' | 'MULTI_CHOICE'; options: IntakeChoiceOption[] })
+  | (IntakeQuestionBase & { type: 'SCALE'; min: number; max: number; minLabel?: string; maxLabel?: string })
+  | (IntakeQuestionBase & { type: 'DATE' }); // yyyy-MM-dd
+
+export interface IntakeTemplate {
+  id: string;
+  therapistId: string | null; // null for the platform's built-in templates
+  name: string;
+  description?: string;
+  questions: IntakeQuestion[];
+  createdAt: string;
+}
+
+export interface IntakeResponse {
+  id: string;
+  appointmentId: string;
+  templateId: string;
+  template?: IntakeTemplate;
+  status: 'PENDING' | 'SUBMITTED';
+  answers: Record<string, IntakeAnswerValue>;
+  submittedAt?: string;
+}
+
+// Standardised assessments
+export type AssessmentType = 'PHQ9' | 'GAD7';
+
+export type AssessmentSeverity = 'MINIMAL' | 'MILD' | 'MODERATE' | 'MODERATELY_SEVERE' | 'SEVERE';
+
+// Scheduled ahead of a session, to be filled in by the client
+export interface AssessmentRequest {
+  id: string;
+  userId: string;
+  type: AssessmentType;
+  appointmentId?: string;
+  dueAt: string;
+  status: 'PENDING' | 'COMPLETED' | 'EXPIRED';
+  createdAt: string;
+}
+
+export interface AssessmentResult {
+  id: string;
+  userId: string;
+  requestId?: string;
+  appointmentId?: string;
+  type: AssessmentType;
+  answers: number[]; // 0-3 per item, in questionnaire order
+  score: number;
+  severity: AssessmentSeverity;
+  // 1-based items answered in a way that needs follow-up, e.g. PHQ-9 item 9
+  riskItems: number[];
+  flagged: boolean;
+  completedAt: string;
+}
+
+// Mood journal
+export type MoodScore = 1 | 2 | 3 | 4 | 5; // 1 very low, 5 very good
+
+export interface JournalEntry {
+  id: string;
+  userId: string;
+  date: string; // yyyy-MM-dd, one entry per day
+  mood: MoodScore;
+  tags: string[];
+  note?: string;
+  // Only shared entries are visible to the client's therapists
+  sharedWithTherapist: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Safety concerns raised by a therapist about a client
+export type SafetyConcernCategory = 'SELF_HARM' | 'HARM_TO_OTHERS' | 'ABUSE' | 'MEDICAL' | 'OTHER';
+
+export type SafetyConcernSeverity = 'LOW' | 'MODERATE' | 'HIGH' | 'IMMINENT';
+
+export type SafetyAction =
+  | 'PROVIDED_RESOURCES'
+  | 'SAFETY_PLAN'
+  | 'CONTACTED_EMERGENCY_CONTACT'
+  | 'CONTACTED_EMERGENCY_SERVICES';
+
+export interface SafetyIncidentEvent {
+  id: string;
+  type: 'REPORTED' | 'NOTE_ADDED' | 'ESCALATED' | 'RESOLVED';
+  actorId: string;
+  actorName?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface SafetyIncident {
+  id: string;
+  appointmentId: string;
+  userId: string;
+  therapistId: string;
+  category: SafetyConcernCategory;
+  severity: SafetyConcernSeverity;
+  description: string;
+  actionsTaken: SafetyAction[];
+  status: 'OPEN' | 'ESCALATED' | 'RESOLVED';
+  // Append-only audit trail, oldest first
+  events: SafetyIncidentEvent[];
+  createdAt: string;
+}
+
+// Structured session notes, private to the therapist
+export type SessionNoteTemplate = 'SOAP' | 'DAP';
+
+export interface SessionNoteGoal {
+  id: string;
+  description: string;
+  progress: 'NOT_STARTED' | 'IN_PROGRESS' | 'ACHIEVED';
+}
+
+// Later additions to a signed note, which itself can't change
+export interface SessionNoteAddendum {
+  id: string;
+  content: string;
+  authorName: string;
+  createdAt: string;
+}
+
+export interface SessionNoteContent {
+  template: SessionNoteTemplate;
+  sections: Record<string, string>; // keyed by the template's section ids
+  goals: SessionNoteGoal[];
+  interventions: string[];
+  homework?: string;
+}
+
+export interface SessionNote extends SessionNoteContent {
+  id: string;
+  appointmentId: string;
+  therapistId: string;
+  userId: string;
+  status: 'DRAFT' | 'SIGNED';
+  signedAt?: string;
+  signedByName?: string;
+  addenda: SessionNoteAddendum[];
+  createdAt: string;
+  updatedAt: string;
+  appointment?: Pick<Appointment, 'id' | 'scheduledAt' | 'duration' | 'status'>;
+}
+
+// Homework types
+export type AssignmentType = 'WORKSHEET' | 'READING' | 'EXERCISE';
+
+export interface AssignmentReply {
+  id: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface Assignment {
+  id: string;
+  appointmentId: string;
+  therapistId: string;
+  userId: string;
+  type: AssignmentType;
+  title: string;
+  instructions?: string;
+  resourceUrl?: string;
+  dueDate?: string; // yyyy-MM-dd
+  status: 'ASSIGNED' | 'COMPLETED';
+  completedAt?: string;
+  replies: AssignmentReply[];
+  createdAt: string;
+  therapist?: Pick<Therapist, 'id' | 'professionalTitle'> & {
+    user: Pick<User, 'firstName' | 'lastName'>;
+  };
+}
+
+// Care team types
+export interface FavoriteTherapist {
+  therapistId: string;
+  therapist: Therapist;
+  // Push when the therapist comes online
+  notifyWhenOnline: boolean;
+  // Next open slot, null when nothing is free in the coming weeks
+  nextAvailableAt: string | null;
+  createdAt: string;
+}
+
+// Presence alert types
+export interface PresenceSubscription {
+  therapistId: string;
+  therapist: Therapist;
+  // Last "now online" push for this therapist, drives the cooldown
+  lastNotifiedAt: string | null;
+  createdAt: string;
+}
+
+export interface PresenceAlertSettings {
+  // Minimum gap between two alerts for the same therapist
+  cooldownMinutes: number;
+  quietHoursEnabled: boolean;
+  // HH:mm in the client's timezone, the window may wrap past midnight
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timezone: string;
+}
+
+// Therapist matching types
+export type TherapistGender = 'FEMALE' | 'MALE' | 'NON_BINARY';
+
+export interface MatchingAnswers {
+  concerns: Specialization[];
+  language?: string;
+  maxBudget?: number; // per hour, in minor units of MATCHING_BUDGET_CURRENCY
+  gender?: TherapistGender;
+  days: 'ANY' | 'WEEKDAYS' | 'WEEKENDS';
+  periods: WaitlistTimeOfDay[]; // empty for any time of day
 }
 
 // Review types
@@ -154,12 +500,157 @@ export interface Payment {
   amount: number;
   platformFee: number;
   therapistAmount: number;
-  status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'REFUNDED';
+  // Amounts above are in this currency, the therapist's
+  currency: string;
+  // What the client saw at checkout, in their display currency
+  displayAmount?: number;
+  displayCurrency?: string;
+  exchangeRate?: number;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'REFUNDED' | 'PARTIALLY_REFUNDED';
   stripePaymentIntentId?: string;
   stripeChargeId?: string;
   paidAt?: string;
   createdAt: string;
   appointment?: Appointment;
+  refunds?: Refund[];
+}
+
+export type RefundStatus = 'PENDING' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED';
+
+export type RefundReason =
+  | 'CLIENT_CANCELLED'
+  | 'THERAPIST_CANCELLED'
+  | 'SYSTEM_CANCELLED'
+  | 'SESSION_ISSUE'
+  | 'GOODWILL';
+
+// Card refunds go back through Stripe; wallet refunds are credited at once
+export type RefundDestination = 'CARD' | 'WALLET';
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  appointmentId?: string;
+  amount: number;
+  currency: string;
+  reason: RefundReason;
+  status: RefundStatus;
+  destination: RefundDestination;
+  // Card the money goes back to
+  cardBrand?: string;
+  cardLast4?: string;
+  // Set by the server once Stripe reports an arrival estimate
+  expectedArrivalAt?: string;
+  processedAt?: string;
+  failureReason?: string;
+  createdAt: string;
+  payment?: Payment;
+}
+
+// Units of each currency per one unit of `base`, published by the server
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+  updatedAt: string;
+}
+
+// Wallet types
+export interface WalletBalance {
+  currency: string;
+  amount: number; // minor units
+}
+
+export type SessionPackageStatus = 'ACTIVE' | 'USED_UP' | 'EXPIRED' | 'REFUNDED';
+
+// Prepaid sessions with one therapist, bought at a discount
+export interface SessionPackage {
+  id: string;
+  therapistId: string;
+  therapist?: Pick<Therapist, 'id' | 'professionalTitle' | 'user'>;
+  sessionCount: number;
+  sessionsUsed: number;
+  duration: number; // minutes per session
+  pricePaid: number;
+  currency: string;
+  status: SessionPackageStatus;
+  purchasedAt: string;
+  expiresAt: string;
+}
+
+export type WalletTransactionType =
+  | 'CREDIT' // goodwill or promotional credit
+  | 'REFUND' // cancellation refunded to the wallet
+  | 'BOOKING' // balance spent on a booking
+  | 'PACKAGE_PURCHASE'
+  | 'PACKAGE_SESSION' // one package session used
+  | 'PACKAGE_EXPIRED'; // unused sessions forfeited
+
+export interface WalletTransaction {
+  id: string;
+  type: WalletTransactionType;
+  // Signed change to the wallet balance, 0 for package-only entries
+  amount: number;
+  currency: string;
+  balanceAfter: number;
+  description?: string;
+  appointmentId?: string;
+  packageId?: string;
+  // Package entries only
+  sessions?: number;
+  createdAt: string;
+}
+
+// Payout types
+// Stripe Connect account state; payouts only start once COMPLETE
+export type PayoutOnboardingStatus = 'NOT_STARTED' | 'PENDING' | 'RESTRICTED' | 'COMPLETE';
+
+export type PayoutInterval = 'daily' | 'weekly' | 'monthly' | 'manual';
+
+export interface PayoutSchedule {
+  interval: PayoutInterval;
+  weeklyAnchor?: number; // 0-6 (Sunday-Saturday)
+  monthlyAnchor?: number; // 1-31, the last day in shorter months
+  delayDays: number; // from a client's payment to it becoming available
+}
+
+export interface PayoutBankAccount {
+  bankName?: string;
+  last4: string;
+  currency: string;
+}
+
+export interface PayoutAccount {
+  onboardingStatus: PayoutOnboardingStatus;
+  payoutsEnabled: boolean;
+  // Details Stripe still needs, e.g. 'individual.verification.document'
+  requirementsDue: string[];
+  requirementsDeadline?: string;
+  bankAccount?: PayoutBankAccount;
+  schedule?: PayoutSchedule;
+}
+
+export interface PayoutBalance {
+  currency: string;
+  available: number; // minor units, goes out with the next payout
+  pending: number; // still within the schedule's delay
+}
+
+export type PayoutStatus = 'PENDING' | 'IN_TRANSIT' | 'PAID' | 'FAILED' | 'CANCELED';
+
+export interface Payout {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PayoutStatus;
+  arrivalDate: string;
+  paymentCount: number;
+  bankLast4?: string;
+  failureMessage?: string;
+  createdAt: string;
+}
+
+export interface PayoutDetails extends Payout {
+  payments: Payment[];
 }
 
 // Notification types
@@ -234,6 +725,22 @@ export const REVIEW_TAGS = [
 
 export type ReviewTag = typeof REVIEW_TAGS[number];
 
+// Mood journal tags
+export const JOURNAL_TAGS = [
+  'Sleep',
+  'Work',
+  'Family',
+  'Relationships',
+  'Exercise',
+  'Health',
+  'Social',
+  'Anxious',
+  'Grateful',
+  'Tired',
+] as const;
+
+export type JournalTag = typeof JOURNAL_TAGS[number];
+
 // Therapist Dashboard types
 export interface TherapistStats {
   todayAppointments: number;
@@ -252,6 +759,24 @@ export interface TherapistSchedule {
   isActive: boolean;
 }
 
+// A single day handled differently from the weekly schedule
+export interface TherapistScheduleOverride {
+  date: string; // yyyy-MM-dd
+  blocks: TimeSlot[]; // empty when unavailable all day
+}
+
+export interface TherapistTimeOff {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // inclusive
+}
+
+export interface TherapistAvailabilitySettings {
+  schedule: Omit<TherapistSchedule, 'id'>[];
+  overrides: TherapistScheduleOverride[];
+  timeOff: TherapistTimeOff[];
+  bufferMinutes: number; // kept free after each session
+}
+
 export interface TherapistAutoOffline {
   enabled: boolean;
   startTime: string; // HH:mm format
@@ -1,4 +1,5 @@
 import i18n from '@/i18n';
+import { getCurrencyFractionDigits } from '@/services/currency';
 
 // Locale mapping for Intl API
 const LOCALE_MAP: Record<string, string> = {
@@ -137,12 +138,12 @@ export const formatCurrency = (
   return new Intl.NumberFormat(locale, { ...defaultOptions, ...options }).format(amount);
 };
 
-// Format currency from cents
+// Format currency from minor units (cents for USD, whole dong for VND)
 export const formatCurrencyFromCents = (
   cents: number,
   currency: string = 'USD'
 ): string => {
-  return formatCurrency(cents / 100, currency);
+  return formatCurrency(cents / 10 ** getCurrencyFractionDigits(currency), currency);
 };
 
 // Number formatting
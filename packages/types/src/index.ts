@@ -40,6 +40,7 @@ export interface Therapist {
   averageRating: number;
   totalReviews: number;
   totalBookings: number;
+  cancellationPolicy?: CancellationPolicyPreset;
 }
 
 export interface TherapistLanguage {
@@ -76,6 +77,70 @@ export interface Appointment {
   createdAt: Date;
 }
 
+// Cancellation policy types
+export type CancellationActor = 'USER' | 'THERAPIST' | 'SYSTEM';
+export type CancellationPolicyPreset = 'FLEXIBLE' | 'MODERATE' | 'STRICT';
+
+export interface CancellationRefundTier {
+  // Applies when cancelled more than this many hours before the session
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface CancellationPolicy {
+  preset: CancellationPolicyPreset;
+  // Ordered from the earliest cancellation to the latest
+  tiers: CancellationRefundTier[];
+}
+
+export type CancellationReasonCode =
+  | 'THERAPIST_CANCELLED'
+  | 'SYSTEM_CANCELLED'
+  | 'REFUND_TIER'
+  | 'SESSION_STARTED';
+
+export interface CancellationReason {
+  code: CancellationReasonCode;
+  refundPercent: number;
+  // The tier that applied, for REFUND_TIER
+  tier?: CancellationRefundTier;
+}
+
+export interface CancellationEvaluation {
+  refundPercent: number;
+  refundAmount: number;
+  hoursBefore: number;
+  reasons: CancellationReason[];
+}
+
+export const CANCELLATION_POLICY_PRESETS: Record<CancellationPolicyPreset, CancellationPolicy> = {
+  FLEXIBLE: {
+    preset: 'FLEXIBLE',
+    tiers: [
+      { minHoursBefore: 4, refundPercent: 100 },
+      { minHoursBefore: 0, refundPercent: 50 },
+    ],
+  },
+  MODERATE: {
+    preset: 'MODERATE',
+    tiers: [
+      { minHoursBefore: 24, refundPercent: 100 },
+      { minHoursBefore: 2, refundPercent: 50 },
+      { minHoursBefore: 0, refundPercent: 0 },
+    ],
+  },
+  STRICT: {
+    preset: 'STRICT',
+    tiers: [
+      { minHoursBefore: 48, refundPercent: 100 },
+      { minHoursBefore: 24, refundPercent: 50 },
+      { minHoursBefore: 0, refundPercent: 0 },
+    ],
+  },
+};
+
+export const DEFAULT_CANCELLATION_POLICY_PRESET: CancellationPolicyPreset = 'MODERATE';
+
 // Payment types
 export type PaymentStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'REFUNDED' | 'PARTIALLY_REFUNDED';
 